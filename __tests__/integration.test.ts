@@ -2,20 +2,17 @@ import { describe, it, expect, vi, beforeEach } from "vitest";
 import Database from "better-sqlite3";
 import { drizzle } from "drizzle-orm/better-sqlite3";
 import * as schema from "../lib/db/schema";
-import { users, accounts, transactions, sessions } from "../lib/db/schema";
+import { migrate } from "../lib/db/migrations";
+import { users, accounts, accountMembers, transactions, postings } from "../lib/db/schema";
+import { derivedBalance } from "../server/services/ledger";
 import { eq } from "drizzle-orm";
 
 // Setup In-Memory DB
 const sqlite = new Database(":memory:");
 const db = drizzle(sqlite, { schema });
 
-// Initialize Schema
-sqlite.exec(`
-  CREATE TABLE users (id INTEGER PRIMARY KEY, email TEXT, password TEXT, first_name TEXT, last_name TEXT, phone_number TEXT, date_of_birth TEXT, ssn TEXT, address TEXT, city TEXT, state TEXT, zip_code TEXT, created_at TEXT DEFAULT CURRENT_TIMESTAMP);
-  CREATE TABLE accounts (id INTEGER PRIMARY KEY, user_id INTEGER, account_number TEXT, account_type TEXT, balance REAL, status TEXT, created_at TEXT DEFAULT CURRENT_TIMESTAMP);
-  CREATE TABLE transactions (id INTEGER PRIMARY KEY, account_id INTEGER, type TEXT, amount REAL, description TEXT, status TEXT, created_at TEXT DEFAULT CURRENT_TIMESTAMP, processed_at TEXT);
-  CREATE TABLE sessions (id INTEGER PRIMARY KEY, user_id INTEGER, token TEXT, expires_at TEXT, created_at TEXT DEFAULT CURRENT_TIMESTAMP);
-`);
+// Initialize Schema (same migrations the app runs on startup)
+migrate(sqlite);
 
 // Mock needs to be applied BEFORE importing routers
 vi.doMock("@/lib/db", () => ({
@@ -23,12 +20,20 @@ vi.doMock("@/lib/db", () => ({
 }));
 
 describe("Backend Integration Tests", () => {
-    let authRouter: any;
-    let accountRouter: any;
+    let authRouter: typeof import("../server/routers/auth").authRouter;
+    let accountRouter: typeof import("../server/routers/account").accountRouter;
+    let paymentsRouter: typeof import("../server/routers/payments").paymentsRouter;
+    let processSettlements: typeof import("../server/services/settlement").processSettlements;
+
+    // Settles every pending deposit/withdrawal regardless of its settlement delay
+    const settleAll = () => processSettlements(new Date(Date.now() + 24 * 60 * 60 * 1000));
 
     beforeEach(async () => {
         // Clear tables
-        sqlite.exec("DELETE FROM users; DELETE FROM accounts; DELETE FROM transactions; DELETE FROM sessions;");
+        sqlite.exec(`
+            DELETE FROM postings; DELETE FROM journal_entries; DELETE FROM ledger_accounts WHERE account_id IS NOT NULL;
+            DELETE FROM idempotency_keys; DELETE FROM transaction_tags; DELETE FROM categorization_rules WHERE user_id IS NOT NULL; DELETE FROM budget_alerts; DELETE FROM budgets; DELETE FROM account_status_changes; DELETE FROM account_invitations; DELETE FROM account_members; DELETE FROM payees; DELETE FROM funding_sources; DELETE FROM scheduled_transfers; DELETE FROM interest_accruals; DELETE FROM statements; DELETE FROM daily_balances; DELETE FROM sessions; DELETE FROM transactions; DELETE FROM accounts; DELETE FROM users;
+        `);
 
         // Dynamically import routers so they use the mocked DB
         // We need to reset modules to ensure clean import if we were using isolated modules, 
@@ -37,9 +42,11 @@ describe("Backend Integration Tests", () => {
         const accountModule = await import("../server/routers/account");
         authRouter = authModule.authRouter;
         accountRouter = accountModule.accountRouter;
+        paymentsRouter = (await import("../server/routers/payments")).paymentsRouter;
+        processSettlements = (await import("../server/services/settlement")).processSettlements;
     });
 
-    const createCallerContext = (user?: any) => ({
+    const createCallerContext = (user?: typeof users.$inferSelect) => ({
         user,
         req: {} as any,
         res: { setHeader: vi.fn(), set: vi.fn() } as any,
@@ -52,9 +59,7 @@ describe("Backend Integration Tests", () => {
                 email: "sort@test.com", password: "hash", firstName: "Sort", lastName: "Test",
                 phoneNumber: "123", dateOfBirth: "1990", ssn: "enc", address: "abc", city: "ny", state: "ny", zipCode: "10001"
             }).returning();
-            const [account] = await db.insert(accounts).values({
-                userId: user.id, accountNumber: "1001", accountType: "checking", balance: 100, status: "active"
-            }).returning();
+            const account = await insertAccount(user.id, { accountNumber: "1001", accountType: "checking", balance: 100 });
 
             // 2. Insert Transactions with different times
             await db.insert(transactions).values([
@@ -65,7 +70,7 @@ describe("Backend Integration Tests", () => {
 
             // 3. Call getTransactions
             const caller = accountRouter.createCaller(createCallerContext(user));
-            const result = await caller.getTransactions({ accountId: account.id });
+            const { items: result } = await caller.getTransactions({ accountId: account.id });
 
             // 4. Verify Order
             expect(result).toHaveLength(3);
@@ -75,6 +80,583 @@ describe("Backend Integration Tests", () => {
         });
     });
 
+    describe("Transaction History Pagination", () => {
+        it("should page by cursor without skipping or repeating rows when new ones arrive", async () => {
+            const user = await insertUser("pages@test.com");
+            const account = await insertAccount(user.id, { accountNumber: "1101", accountType: "checking" });
+            await db.insert(transactions).values([1, 2, 3, 4, 5].map((amount) => ({
+                accountId: account.id, type: "deposit", amount, status: "completed", createdAt: "2031-01-01 10:00:00",
+            })));
+
+            const caller = accountRouter.createCaller(createCallerContext(user));
+            const first = await caller.getTransactions({ accountId: account.id, limit: 2 });
+            expect(first.items.map((t) => t.amount)).toEqual([5, 4]);
+
+            // A newer transaction lands while the user is scrolling
+            await db.insert(transactions).values({ accountId: account.id, type: "deposit", amount: 6, status: "completed", createdAt: "2031-06-01 10:00:00" });
+
+            const second = await caller.getTransactions({ accountId: account.id, limit: 2, cursor: first.nextCursor });
+            const third = await caller.getTransactions({ accountId: account.id, limit: 2, cursor: second.nextCursor });
+            expect([...second.items, ...third.items].map((t) => t.amount)).toEqual([3, 2, 1]);
+            expect(third.nextCursor).toBeNull();
+
+            await expect(caller.getTransactions({ accountId: account.id, cursor: "garbage" })).rejects.toThrow("Invalid cursor");
+        });
+
+        it("should filter by type, status, dates and amount and search descriptions", async () => {
+            const user = await insertUser("filters@test.com");
+            const account = await insertAccount(user.id, { accountNumber: "1201", accountType: "checking" });
+            await db.insert(transactions).values([
+                { accountId: account.id, type: "deposit", amount: 5000, status: "completed", description: "Paycheck from ACME", createdAt: "2031-01-05 09:00:00" },
+                { accountId: account.id, type: "withdrawal", amount: 1200, status: "settled", description: "Groceries run", createdAt: "2031-01-20 09:00:00" },
+                { accountId: account.id, type: "withdrawal", amount: 800, status: "failed", description: "Grocery delivery", createdAt: "2031-02-02 09:00:00" },
+            ]);
+
+            const caller = accountRouter.createCaller(createCallerContext(user));
+            const amounts = async (filters: object) =>
+                (await caller.getTransactions({ accountId: account.id, ...filters })).items.map((t) => t.amount);
+
+            expect(await amounts({ types: ["withdrawal"] })).toEqual([800, 1200]);
+            expect(await amounts({ statuses: ["completed", "settled"] })).toEqual([1200, 5000]);
+            expect(await amounts({ from: "2031-01-06", to: "2031-01-31" })).toEqual([1200]);
+            expect(await amounts({ minAmount: 1000, maxAmount: 2000 })).toEqual([1200]);
+            expect(await amounts({ search: "groc" })).toEqual([800, 1200]);
+            expect(await amounts({ search: "groceries" })).toEqual([1200]);
+            expect(await amounts({ search: 'acme "paycheck' })).toEqual([5000]);
+        });
+    });
+
+    describe("Running Balance and Balance History", () => {
+        it("should show the balance after each transaction and end-of-day balances from snapshots", async () => {
+            const user = await insertUser("balances@test.com");
+            const checking = await insertAccount(user.id, { accountNumber: "1301", accountType: "checking" });
+            const caller = accountRouter.createCaller(createCallerContext(user));
+
+            await caller.fundAccount({ accountId: checking.id, amount: 10000, fundingSource: bankSource });
+            settleAll();
+            await caller.withdraw({ accountId: checking.id, amount: 2500, destination: { accountNumber: "987", routingNumber: "021000021" } });
+
+            const { items } = await caller.getTransactions({ accountId: checking.id });
+            expect(items.map((t) => [t.type, t.runningBalance])).toEqual([["withdrawal", 7500], ["deposit", 10000]]);
+
+            // An older snapshot, as if the account had been funded earlier
+            const today = new Date().toISOString().slice(0, 10);
+            const { addDays } = await import("../lib/dates");
+            sqlite.exec(`INSERT INTO daily_balances (account_id, date, balance) VALUES (${checking.id}, '${addDays(today, -3)}', 4000)`);
+
+            const history = await caller.getBalanceHistory({ accountId: checking.id, from: addDays(today, -4), to: today });
+            expect(history.days.map((d) => d.balance)).toEqual([0, 4000, 4000, 4000, 7500]);
+            await expect(caller.getBalanceHistory({ accountId: checking.id, from: "2020-01-01", to: today }))
+                .rejects.toThrow("Choose a range of up to 366 days");
+        });
+    });
+
+    describe("Categories, Notes and Tags", () => {
+        it("should categorize by rules, learn from recategorization and filter by category", async () => {
+            const user = await insertUser("categories@test.com");
+            const other = await insertUser("categories-other@test.com");
+            const checking = await insertAccount(user.id, { accountNumber: "1401", accountType: "checking" });
+            const otherChecking = await insertAccount(other.id, { accountNumber: "1402", accountType: "checking" });
+            const insert = async (accountId: number, type: string, description: string) =>
+                (await db.insert(transactions).values({ accountId, type, amount: 1000, status: "completed", description }).returning())[0];
+
+            await insert(checking.id, "withdrawal", "Lunch at Joe's");
+            await insert(checking.id, "deposit", "Funding from card");
+            await insert(checking.id, "payment_sent", "Misc");
+            const gym = await insert(checking.id, "withdrawal", "Gym membership 0423");
+            await insert(checking.id, "withdrawal", "Gym membership 0524");
+
+            const caller = accountRouter.createCaller(createCallerContext(user));
+            const categories = async () =>
+                Object.fromEntries((await caller.getTransactions({ accountId: checking.id })).items.map((t) => [t.description, t.category]));
+            expect(await categories()).toMatchObject({
+                "Lunch at Joe's": "dining", "Funding from card": "transfers", "Misc": null, "Gym membership 0423": "transfers",
+            });
+
+            const result = await caller.updateTransactionDetails({
+                transactionId: gym.id, category: "health", notes: "Annual plan", tags: ["Fitness", "fitness", "recurring"],
+            });
+            expect(result.transaction).toMatchObject({ category: "health", categorySource: "user", notes: "Annual plan", tags: ["fitness", "recurring"] });
+            expect(result.recategorized).toBe(1);
+
+            // The learned rule applies to new look-alikes, but only for this customer
+            await insert(checking.id, "withdrawal", "Gym membership 0625");
+            await insert(otherChecking.id, "withdrawal", "Gym membership 0625");
+            const [otherGym] = await db.select().from(transactions).where(eq(transactions.accountId, otherChecking.id));
+            expect(otherGym.category).toBe("transfers");
+
+            const health = await caller.getTransactions({ accountId: checking.id, categories: ["health"] });
+            expect(health.items).toHaveLength(3);
+            const uncategorized = await caller.getTransactions({ accountId: checking.id, categories: ["uncategorized"] });
+            expect(uncategorized.items.map((t) => t.description)).toEqual(["Misc"]);
+
+            await expect(accountRouter.createCaller(createCallerContext(other)).updateTransactionDetails({ transactionId: gym.id, notes: "mine" }))
+                .rejects.toThrow("Transaction not found");
+        });
+    });
+
+    describe("Budgets and Spending Insights", () => {
+        it("should track budgets against posted debits, compare months and raise each alert once", async () => {
+            const { insightsRouter } = await import("../server/routers/insights");
+            const { monthStart, isoDate } = await import("../lib/dates");
+            const user = await insertUser("budgets@test.com");
+            const checking = await insertAccount(user.id, { accountNumber: "1801", accountType: "checking" });
+            const month = isoDate(new Date()).slice(0, 7);
+            const lastMonth = monthStart(month, -1);
+            const spend = (amount: number, createdAt: string, extra: Record<string, unknown> = {}) =>
+                db.insert(transactions).values({
+                    accountId: checking.id, type: "withdrawal", amount, status: "settled", category: "groceries", createdAt, ...extra,
+                });
+
+            await spend(5000, `${lastMonth} 10:00:00`);
+            await spend(3000, `${month}-01 09:00:00`);
+            await spend(2000, `${month}-01 10:00:00`, { status: "pending" });
+            await spend(4000, `${month}-01 11:00:00`, { status: "reversed", reversedAmount: 4000 });
+            await spend(1500, `${month}-01 12:00:00`, { type: "deposit" });
+
+            const caller = insightsRouter.createCaller(createCallerContext(user));
+            await expect(caller.setBudget({ category: "groceries", amount: 50 })).rejects.toThrow("at least $1.00");
+            const budget = await caller.setBudget({ category: "groceries", amount: 10000 });
+
+            expect(await caller.getBudgets()).toEqual([
+                expect.objectContaining({ id: budget.id, spent: 3000, remaining: 7000, percent: 30, status: "ok" }),
+            ]);
+            expect(await caller.getAlerts()).toEqual([]);
+
+            const comparison = await caller.getSpendingComparison();
+            expect(comparison).toMatchObject({ total: 3000, previousTotal: 5000 });
+            expect(comparison.categories).toEqual([
+                { category: "groceries", spent: 3000, previous: 5000, change: -2000, changePercent: -40 },
+            ]);
+
+            // Lowering the budget pushes spending past both thresholds; each alert is raised once
+            await caller.setBudget({ category: "groceries", amount: 2500 });
+            expect((await caller.getBudgets())[0]).toMatchObject({ percent: 120, status: "over" });
+            await caller.getBudgets();
+            const alerts = await caller.getAlerts();
+            expect(alerts.map((a) => a.threshold)).toEqual([100, 80]);
+
+            await caller.dismissAlert({ alertId: alerts[0].id });
+            expect((await caller.getAlerts()).map((a) => a.threshold)).toEqual([80]);
+
+            const other = await insertUser("budgets-other@test.com");
+            await expect(insightsRouter.createCaller(createCallerContext(other)).dismissAlert({ alertId: alerts[1].id }))
+                .rejects.toThrow("Alert not found");
+
+            await caller.deleteBudget({ budgetId: budget.id });
+            expect(await caller.getBudgets()).toEqual([]);
+            expect(await caller.getAlerts()).toEqual([]);
+        });
+
+        it("should leave out transfers between the user's accounts and raise alerts from the job, not from queries", async () => {
+            const { insightsRouter } = await import("../server/routers/insights");
+            const { processBudgetAlerts } = await import("../server/services/insights");
+            const { isoDate } = await import("../lib/dates");
+            const user = await insertUser("budget-alerts@test.com");
+            const stranger = await insertUser("budget-alerts-stranger@test.com");
+            const checking = await insertAccount(user.id, { accountNumber: "1851", accountType: "checking" });
+            const savings = await insertAccount(user.id, { accountNumber: "1852", accountType: "savings" });
+            const theirs = await insertAccount(stranger.id, { accountNumber: "1853", accountType: "checking" });
+            const createdAt = `${isoDate(new Date())} 00:00:01`;
+            const transfer = async (toAccountId: number, amount: number) => {
+                const [transferIn] = await db.insert(transactions)
+                    .values({ accountId: toAccountId, type: "transfer_in", amount, status: "completed", createdAt }).returning();
+                await db.insert(transactions).values({
+                    accountId: checking.id, type: "transfer_out", amount, status: "completed", category: "transfers", createdAt,
+                    linkedTransactionId: transferIn.id,
+                });
+            };
+
+            const caller = insightsRouter.createCaller(createCallerContext(user));
+            await caller.setBudget({ category: "transfers", amount: 10000 });
+
+            // Moving money to savings isn't spending; money that leaves for someone else's account is
+            await transfer(savings.id, 50000);
+            await transfer(theirs.id, 9000);
+            expect((await caller.getBudgets())[0]).toMatchObject({ spent: 9000, percent: 90 });
+
+            expect(await caller.getAlerts()).toEqual([]);
+            expect(processBudgetAlerts()).toEqual({ raised: 1, errors: [] });
+            expect(processBudgetAlerts()).toEqual({ raised: 0, errors: [] });
+            expect((await caller.getAlerts()).map((a) => [a.threshold, a.spent])).toEqual([[80, 9000]]);
+        });
+    });
+
+    describe("Account Lifecycle", () => {
+        it("should approve new accounts and enforce freeze, dormancy and closure on money movement", async () => {
+            const { setAccountStatus, processDormancy } = await import("../server/services/account-lifecycle");
+            const user = await insertUser("lifecycle@test.com");
+            const caller = accountRouter.createCaller(createCallerContext(user));
+
+            const checking = await caller.createAccount({ accountType: "checking" });
+            expect(checking.status).toBe("active");
+            expect((await caller.getAccountStatusHistory({ accountId: checking.id })).map((c) => [c.fromStatus, c.toStatus, c.actor]))
+                .toEqual([["pending", "active", "system"], [null, "pending", "customer"]]);
+
+            const savings = await caller.createAccount({ accountType: "savings" });
+            await caller.fundAccount({ accountId: checking.id, amount: 10000, fundingSource: bankSource });
+            settleAll();
+
+            // Frozen: nothing in or out, and only the bank can unfreeze or close it
+            setAccountStatus(checking.id, "frozen", "Suspected fraud");
+            await expect(caller.fundAccount({ accountId: checking.id, amount: 100, fundingSource: bankSource }))
+                .rejects.toThrow("Account is not active: it has been frozen");
+            await expect(caller.transfer({ fromAccountId: savings.id, toAccountId: checking.id, amount: 100 }))
+                .rejects.toThrow("frozen");
+            await expect(caller.closeAccount({ accountId: checking.id, sweepToAccountId: savings.id })).rejects.toThrow("frozen");
+            expect(() => setAccountStatus(checking.id, "pending", "Oops")).toThrow("A frozen account cannot be made pending");
+            setAccountStatus(checking.id, "active", "Cleared");
+
+            // Dormant: money can arrive but not leave until the customer reactivates it
+            await db.update(accounts).set({ createdAt: "2020-01-01 00:00:00" }).where(eq(accounts.id, savings.id));
+            expect(processDormancy()).toEqual({ dormant: 1 });
+            await caller.transfer({ fromAccountId: checking.id, toAccountId: savings.id, amount: 2500 });
+            await expect(caller.transfer({ fromAccountId: savings.id, toAccountId: checking.id, amount: 100 }))
+                .rejects.toThrow("dormant");
+            await caller.reactivateAccount({ accountId: savings.id });
+            await expect(caller.reactivateAccount({ accountId: savings.id })).rejects.toThrow("Only dormant accounts");
+
+            // Closing sweeps the balance and cancels schedules; a closed account is final
+            await caller.scheduleTransfer({
+                fromAccountId: checking.id, toAccountId: savings.id, amount: 500, frequency: "monthly", startDate: "2031-01-01",
+            });
+            await expect(caller.closeAccount({ accountId: checking.id })).rejects.toThrow("Choose an account to move the remaining balance to");
+            const { account: closed, sweep } = await caller.closeAccount({ accountId: checking.id, sweepToAccountId: savings.id, reason: "Moving banks" });
+            expect(closed).toMatchObject({ status: "closed", balance: 0, availableBalance: 0 });
+            expect(sweep?.transferIn).toMatchObject({ accountId: savings.id, amount: 7500 });
+
+            const [savingsAfter] = await db.select().from(accounts).where(eq(accounts.id, savings.id));
+            expect(savingsAfter.balance).toBe(10000);
+            expect(await caller.getScheduledTransfers()).toEqual([]);
+            expect((await caller.getAccountStatusHistory({ accountId: checking.id }))[0]).toMatchObject({
+                fromStatus: "active", toStatus: "closed", reason: "Moving banks", actor: "customer",
+            });
+            await expect(caller.fundAccount({ accountId: checking.id, amount: 100, fundingSource: bankSource }))
+                .rejects.toThrow("it has been closed");
+            expect(() => setAccountStatus(checking.id, "active", "Reopen")).toThrow("A closed account cannot be made active");
+        });
+    });
+
+    describe("Multiple Accounts per Type", () => {
+        it("should allow several accounts of a type up to the cap, with nicknames and a display order", async () => {
+            const user = await insertUser("buckets@test.com");
+            const other = await insertUser("buckets-other@test.com");
+            const caller = accountRouter.createCaller(createCallerContext(user));
+
+            const checking = await caller.createAccount({ accountType: "checking" });
+            const rent = await caller.createAccount({ accountType: "savings", nickname: "  Rent " });
+            const vacation = await caller.createAccount({ accountType: "savings", nickname: "Vacation" });
+            expect(rent.nickname).toBe("Rent");
+
+            for (let i = 0; i < 3; i++) await caller.createAccount({ accountType: "savings" });
+            await expect(caller.createAccount({ accountType: "savings" })).rejects.toThrow("You can have up to 5 savings accounts");
+
+            // Closed accounts free up a place
+            const spare = (await caller.getAccounts()).at(-1)!;
+            await caller.closeAccount({ accountId: spare.id });
+            await caller.createAccount({ accountType: "savings", currency: "EUR" });
+
+            await caller.renameAccount({ accountId: checking.id, nickname: "Bills" });
+            await caller.renameAccount({ accountId: rent.id, nickname: null });
+            await expect(accountRouter.createCaller(createCallerContext(other)).renameAccount({ accountId: rent.id, nickname: "Mine" }))
+                .rejects.toThrow("Account not found");
+
+            const ids = (await caller.getAccounts()).map((a) => a.id);
+            expect(ids.slice(0, 3)).toEqual([checking.id, rent.id, vacation.id]);
+            await expect(caller.reorderAccounts({ accountIds: ids.slice(1) })).rejects.toThrow("List each of your accounts exactly once");
+            await caller.reorderAccounts({ accountIds: [vacation.id, ...ids.filter((id: number) => id !== vacation.id)] });
+
+            const accountsAfter = await caller.getAccounts();
+            expect(accountsAfter.slice(0, 3).map((a) => [a.id, a.nickname])).toEqual([
+                [vacation.id, "Vacation"], [checking.id, "Bills"], [rent.id, null],
+            ]);
+        });
+    });
+
+    describe("Joint Accounts", () => {
+        it("should share an account by invitation with role-based access", async () => {
+            const { membersRouter } = await import("../server/routers/members");
+            const owner = await insertUser("joint-owner@test.com");
+            const partner = await insertUser("joint-partner@test.com");
+            const viewer = await insertUser("joint-viewer@test.com");
+            const ownerCaller = accountRouter.createCaller(createCallerContext(owner));
+            const partnerCaller = accountRouter.createCaller(createCallerContext(partner));
+            const viewerCaller = accountRouter.createCaller(createCallerContext(viewer));
+            const ownerMembers = membersRouter.createCaller(createCallerContext(owner));
+            const partnerMembers = membersRouter.createCaller(createCallerContext(partner));
+            const viewerMembers = membersRouter.createCaller(createCallerContext(viewer));
+
+            const joint = await ownerCaller.createAccount({ accountType: "checking", nickname: "House" });
+            const partnerOwn = await partnerCaller.createAccount({ accountType: "checking" });
+            await ownerCaller.fundAccount({ accountId: joint.id, amount: 10000, fundingSource: bankSource });
+            settleAll();
+
+            // Only existing customers can be invited, and only by the owner
+            await expect(ownerMembers.invite({ accountId: joint.id, email: "nobody@test.com", role: "co_owner" }))
+                .rejects.toThrow("No customer has that email address");
+            await expect(partnerMembers.invite({ accountId: joint.id, email: "joint-viewer@test.com", role: "view_only" }))
+                .rejects.toThrow("Account not found");
+            const invitation = await ownerMembers.invite({ accountId: joint.id, email: "joint-partner@test.com", role: "co_owner" });
+            await expect(ownerMembers.invite({ accountId: joint.id, email: "joint-partner@test.com", role: "co_owner" }))
+                .rejects.toThrow("already been invited");
+            await ownerMembers.invite({ accountId: joint.id, email: "joint-viewer@test.com", role: "view_only" });
+
+            // Nothing is shared until the invitation is accepted
+            await expect(partnerCaller.getTransactions({ accountId: joint.id })).rejects.toThrow("Account not found");
+            expect(await partnerMembers.getInvitations()).toEqual([
+                expect.objectContaining({ id: invitation.id, role: "co_owner", accountType: "checking", invitedBy: "Test User" }),
+            ]);
+            await partnerMembers.respondToInvitation({ invitationId: invitation.id, accept: true });
+            const [viewerInvitation] = await viewerMembers.getInvitations();
+            await viewerMembers.respondToInvitation({ invitationId: viewerInvitation.id, accept: true });
+
+            // Shared accounts show up on each member's dashboard with their role
+            expect((await partnerCaller.getAccounts()).map((a) => [a.id, a.role])).toEqual([
+                [partnerOwn.id, "owner"], [joint.id, "co_owner"],
+            ]);
+            expect((await viewerCaller.getAccounts()).map((a) => [a.id, a.nickname, a.role])).toEqual([
+                [joint.id, "House", "view_only"],
+            ]);
+
+            // Co-owners move money; view-only members can only look
+            await partnerCaller.transfer({ fromAccountId: joint.id, toAccountId: partnerOwn.id, amount: 2500 });
+            await expect(viewerCaller.withdraw({
+                accountId: joint.id, amount: 100, destination: { accountNumber: "123", routingNumber: "021000021" }, useOverdraftProtection: false,
+            })).rejects.toThrow("You can only view this account");
+            const { items } = await viewerCaller.getTransactions({ accountId: joint.id });
+            expect(items.map((t) => t.type)).toEqual(["transfer_out", "deposit"]);
+            await expect(viewerCaller.renameAccount({ accountId: joint.id, nickname: "Mine" })).rejects.toThrow("You can only view this account");
+
+            // Only the owner can close the account or change who shares it
+            await expect(partnerCaller.closeAccount({ accountId: joint.id, sweepToAccountId: partnerOwn.id }))
+                .rejects.toThrow("Only the account owner can do this");
+            await expect(partnerMembers.removeMember({ accountId: joint.id, userId: viewer.id })).rejects.toThrow("Only the account owner can do this");
+            const { members } = await viewerMembers.getMembers({ accountId: joint.id });
+            expect(members.map((m) => [m.userId, m.role])).toEqual([
+                [owner.id, "owner"], [partner.id, "co_owner"], [viewer.id, "view_only"],
+            ]);
+
+            // Removing a member ends their access and cancels their schedules on the account
+            await partnerCaller.scheduleTransfer({
+                fromAccountId: joint.id, toAccountId: partnerOwn.id, amount: 500, frequency: "monthly", startDate: "2031-01-01",
+            });
+            await ownerMembers.removeMember({ accountId: joint.id, userId: partner.id });
+            expect(await partnerCaller.getScheduledTransfers()).toEqual([]);
+            await expect(partnerCaller.transfer({ fromAccountId: joint.id, toAccountId: partnerOwn.id, amount: 100 }))
+                .rejects.toThrow("Account not found");
+            await expect(ownerMembers.removeMember({ accountId: joint.id, userId: owner.id })).rejects.toThrow("close the account instead");
+
+            await viewerMembers.leaveAccount({ accountId: joint.id });
+            expect(await viewerCaller.getAccounts()).toEqual([]);
+        });
+    });
+
+    describe("Saved Payees", () => {
+        it("should save encrypted payees, show them masked and hold large amounts during cooling-off", async () => {
+            const { payeesRouter } = await import("../server/routers/payees");
+            const { decrypt } = await import("../lib/crypto");
+            const user = await insertUser("payer@test.com");
+            const friend = await insertUser("payee-friend@test.com", { firstName: "Jane", lastName: "Doe" });
+            const checking = await insertAccount(user.id, { accountNumber: "5100000001", accountType: "checking" });
+            const friendAccount = await insertAccount(friend.id, { accountNumber: "5100000002", accountType: "checking" });
+            const payeesCaller = payeesRouter.createCaller(createCallerContext(user));
+            const caller = accountRouter.createCaller(createCallerContext(user));
+            const payments = paymentsRouter.createCaller(createCallerContext(user));
+            await caller.fundAccount({ accountId: checking.id, amount: 300000, fundingSource: bankSource });
+            settleAll();
+
+            const landlord = await payeesCaller.createPayee({
+                kind: "external", nickname: "Landlord", accountNumber: "987654321", routingNumber: "021000021",
+            });
+            expect(landlord).toMatchObject({ nickname: "Landlord", maskedAccount: "****4321", routingNumber: "021000021" });
+            expect(landlord.coolingOffUntil).not.toBeNull();
+            await expect(payeesCaller.createPayee({
+                kind: "external", nickname: "Landlord again", accountNumber: "987654321", routingNumber: "021000021",
+            })).rejects.toThrow("You have already saved this account as Landlord");
+            await expect(payeesCaller.createPayee({ kind: "internal", nickname: "Me", accountNumber: "5100000001" }))
+                .rejects.toThrow("Use a transfer");
+            const jane = await payeesCaller.createPayee({ kind: "internal", nickname: "Jane", accountNumber: "5100000002" });
+
+            // Only the last four digits are stored in the clear
+            const stored = sqlite
+                .prepare<[number], { account_number: string; account_last4: string }>("SELECT account_number, account_last4 FROM payees WHERE id = ?")
+                .get(landlord.id)!;
+            expect(stored.account_number).not.toContain("987654321");
+            expect(decrypt(stored.account_number)).toBe("987654321");
+            expect(stored.account_last4).toBe("4321");
+
+            // Up to $500 in total goes through straight away; more waits out the cooling-off period, even when the
+            // same bank details are typed in instead of picking the payee
+            const withdrawal = await caller.withdraw({ accountId: checking.id, amount: 30000, payeeId: landlord.id });
+            expect(withdrawal.transaction.counterpartyAccount).toBe("****4321");
+            await expect(caller.withdraw({ accountId: checking.id, amount: 20001, payeeId: landlord.id }))
+                .rejects.toThrow("New payees can receive up to $500.00 in total in their first 24 hours; you can send $200.00 more");
+            const landlordDetails = { accountNumber: "987654321", routingNumber: "021000021" };
+            await expect(caller.withdraw({ accountId: checking.id, amount: 20001, destination: landlordDetails }))
+                .rejects.toThrow("you can send $200.00 more");
+            await caller.withdraw({ accountId: checking.id, amount: 20000, destination: landlordDetails });
+
+            // Bank details that aren't a saved payee have no cooling-off period
+            await caller.withdraw({ accountId: checking.id, amount: 60000, destination: { accountNumber: "555000111", routingNumber: "021000021" } });
+            await expect(caller.withdraw({ accountId: checking.id, amount: 100, payeeId: jane.id }))
+                .rejects.toThrow("send them a payment instead");
+            await payments.send({ fromAccountId: checking.id, payeeId: jane.id, amount: 2500 });
+            const [friendAfter] = await db.select().from(accounts).where(eq(accounts.id, friendAccount.id));
+            expect(friendAfter.balance).toBe(2500);
+
+            sqlite.prepare("UPDATE payees SET cooling_off_until = '2020-01-01T00:00:00.000Z'").run();
+            await caller.withdraw({ accountId: checking.id, amount: 100000, payeeId: landlord.id });
+
+            // Renaming keeps the payee trusted; new account details start the cooling-off period again
+            expect((await payeesCaller.updatePayee({ payeeId: landlord.id, nickname: "Rent" })).coolingOffUntil).toBeNull();
+            const moved = await payeesCaller.updatePayee({ payeeId: landlord.id, accountNumber: "111122223333" });
+            expect(moved).toMatchObject({ nickname: "Rent", maskedAccount: "****3333" });
+            expect(moved.coolingOffUntil).not.toBeNull();
+
+            const stranger = payeesRouter.createCaller(createCallerContext(friend));
+            await expect(stranger.deletePayee({ payeeId: landlord.id })).rejects.toThrow("Payee not found");
+            await payeesCaller.deletePayee({ payeeId: landlord.id });
+            expect((await payeesCaller.getPayees()).map((p) => p.nickname)).toEqual(["Jane"]);
+        });
+
+        it("should cap payees in cooling-off in the paying account's currency", async () => {
+            const { payeesRouter } = await import("../server/routers/payees");
+            const user = await insertUser("payer-eur@test.com");
+            const euros = await insertAccount(user.id, { accountNumber: "5100000011", accountType: "checking", currency: "EUR" });
+            const caller = accountRouter.createCaller(createCallerContext(user));
+            await caller.fundAccount({ accountId: euros.id, amount: 100000, fundingSource: bankSource });
+            settleAll();
+
+            const landlord = await payeesRouter.createCaller(createCallerContext(user)).createPayee({
+                kind: "external", nickname: "Vermieter", accountNumber: "987654321", routingNumber: "021000021",
+            });
+
+            // $500 is €460.00 at the EUR mid rate of 0.92
+            await expect(caller.withdraw({ accountId: euros.id, amount: 46001, payeeId: landlord.id }))
+                .rejects.toThrow("New payees can receive up to €460.00 in total in their first 24 hours; you can send €460.00 more");
+            await caller.withdraw({ accountId: euros.id, amount: 46000, payeeId: landlord.id });
+        });
+    });
+
+    describe("Funding Source Vault", () => {
+        it("should keep sources encrypted behind tokens and fund accounts from them", async () => {
+            const { fundingSourcesRouter } = await import("../server/routers/funding-sources");
+            const { decrypt } = await import("../lib/crypto");
+            const user = await insertUser("vault@test.com");
+            const other = await insertUser("vault-other@test.com");
+            const checking = await insertAccount(user.id, { accountNumber: "5200000001", accountType: "checking" });
+            const vault = fundingSourcesRouter.createCaller(createCallerContext(user));
+            const caller = accountRouter.createCaller(createCallerContext(user));
+
+            const visa = await vault.addFundingSource({
+                type: "card", accountNumber: "4111111111111111", expiryMonth: 12, expiryYear: 2099, cvv: "123",
+            });
+            expect(visa).toMatchObject({ nickname: "Visa ending 1111", brand: "visa", maskedNumber: "****1111", isDefault: true });
+            expect(visa.token).toMatch(/^fs_[0-9a-f]{32}$/);
+            await expect(vault.addFundingSource({
+                type: "card", accountNumber: "4111111111111111", expiryMonth: 1, expiryYear: 2099, cvv: "123",
+            })).rejects.toThrow("You have already saved this card as Visa ending 1111");
+            await expect(vault.addFundingSource({
+                type: "card", accountNumber: "5555555555554444", expiryMonth: 1, expiryYear: 2020, cvv: "123",
+            })).rejects.toThrow("This card has expired");
+            const bank = await vault.addFundingSource({
+                type: "bank", nickname: "Payroll", accountNumber: "987654321", routingNumber: "021000021",
+            });
+            expect(bank.isDefault).toBe(false);
+
+            // Only last4, brand and expiry are kept in the clear
+            const stored = sqlite.prepare<[string], { details: string }>("SELECT details FROM funding_sources WHERE token = ?").get(bank.token)!;
+            expect(stored.details).not.toContain("987654321");
+            expect(stored.details).not.toContain("021000021");
+            expect(JSON.parse(decrypt(stored.details))).toEqual({ accountNumber: "987654321", routingNumber: "021000021" });
+
+            const result = await caller.fundAccount({ accountId: checking.id, amount: 2500, sourceToken: bank.token });
+            expect(result.transaction).toMatchObject({ amount: 2500, sourceType: "bank" });
+            await expect(caller.fundAccount({
+                accountId: checking.id, amount: 2500, sourceToken: bank.token, fundingSource: bankSource,
+            })).rejects.toThrow();
+            const stranger = accountRouter.createCaller(createCallerContext(other));
+            const theirs = await insertAccount(other.id, { accountNumber: "5200000002", accountType: "checking" });
+            await expect(stranger.fundAccount({ accountId: theirs.id, amount: 100, sourceToken: bank.token }))
+                .rejects.toThrow("Funding source not found");
+
+            await vault.renameFundingSource({ token: visa.token, nickname: "Travel card" });
+            await vault.setDefaultFundingSource({ token: bank.token });
+            expect((await vault.getFundingSources()).map((s) => [s.nickname, s.isDefault])).toEqual([
+                ["Payroll", true],
+                ["Travel card", false],
+            ]);
+
+            // Removing the default hands it to the remaining source
+            await vault.removeFundingSource({ token: bank.token });
+            expect(await vault.getFundingSources()).toMatchObject([{ nickname: "Travel card", isDefault: true }]);
+            await expect(caller.fundAccount({ accountId: checking.id, amount: 100, sourceToken: bank.token }))
+                .rejects.toThrow("Funding source not found");
+        });
+    });
+
+    describe("Card Funding", () => {
+        it("should check card networks, expiry and security codes without storing them", async () => {
+            const user = await insertUser("cards@test.com");
+            const checking = await insertAccount(user.id, { accountNumber: "5400000001", accountType: "checking" });
+            const caller = accountRouter.createCaller(createCallerContext(user));
+            const amex = { type: "card", accountNumber: "378282246310005", expiryMonth: 7, expiryYear: 2099, cvv: "4821" } as const;
+
+            await expect(caller.fundAccount({ accountId: checking.id, amount: 100, fundingSource: { ...amex, cvv: "482" } }))
+                .rejects.toThrow("Security code must be 4 digits");
+            await expect(caller.fundAccount({
+                accountId: checking.id, amount: 100, fundingSource: { ...amex, accountNumber: "3530111333300000" },
+            })).rejects.toThrow("Enter a Visa, Mastercard, American Express or Discover card number");
+
+            const idempotencyKey = "5b0f6c1e-9a44-4b8e-8f6a-2d1c3e4f5a6b";
+            const request = { idempotencyKey, accountId: checking.id, amount: 2500, fundingSource: amex };
+            const first = await caller.fundAccount(request);
+            expect(first.transaction).toMatchObject({ amount: 2500, sourceType: "card" });
+
+            // The security code plays no part in replays, since not even its hash is kept
+            const replay = await caller.fundAccount({ ...request, fundingSource: { ...amex, cvv: "9999" } });
+            expect(replay.transaction.id).toBe(first.transaction.id);
+            // The card number still does, through a keyed hash
+            await expect(caller.fundAccount({ ...request, fundingSource: { ...amex, accountNumber: "371449635398431" } }))
+                .rejects.toThrow("Idempotency key was already used for a different request");
+            const stored = JSON.stringify([
+                sqlite.prepare("SELECT * FROM transactions").all(),
+                sqlite.prepare("SELECT * FROM idempotency_keys").all(),
+            ]);
+            expect(stored).not.toContain("4821");
+            expect(stored).not.toContain("2099");
+            const { createHash } = await import("crypto");
+            const unkeyed = createHash("sha256").update(`fundAccount:{"accountId":${checking.id},"amount":2500,"fundingSource":{"accountNumber":"378282246310005","expiryMonth":7,"expiryYear":2099,"type":"card"}}`).digest("hex");
+            expect(stored).not.toContain(unkeyed);
+        });
+    });
+
+    describe("Routing Directory", () => {
+        it("should name banks from the FedACH directory and refuse routing numbers outside it", async () => {
+            const { readFileSync } = await import("fs");
+            const { parseFedAchDirectory, loadRoutingDirectory } = await import("../server/services/routing-directory");
+            const entries = parseFedAchDirectory(readFileSync("scripts/fedach-directory.txt", "utf8"));
+            expect(entries.find((e) => e.routingNumber === "021000021")).toEqual({
+                routingNumber: "021000021", bankName: "JPMORGAN CHASE BANK, NA", city: "NEW YORK", state: "NY",
+            });
+            expect(loadRoutingDirectory(entries)).toBe(entries.length);
+
+            const user = await insertUser("routing@test.com");
+            const checking = await insertAccount(user.id, { accountNumber: "5300000001", accountType: "checking", balance: 10000 });
+            const caller = accountRouter.createCaller(createCallerContext(user));
+            expect(await caller.lookupBank({ routingNumber: "021000021" })).toMatchObject({ bankName: "JPMORGAN CHASE BANK, NA" });
+            await expect(caller.lookupBank({ routingNumber: "123456789" })).rejects.toThrow("Invalid routing number");
+
+            // 111111118 passes the checksum but no bank uses it
+            expect(await caller.lookupBank({ routingNumber: "111111118" })).toBeNull();
+            const unknown = { accountNumber: "987654321", routingNumber: "111111118" };
+            await expect(caller.withdraw({ accountId: checking.id, amount: 100, destination: unknown }))
+                .rejects.toThrow("Routing number 111111118 doesn't belong to a bank we can send to");
+            await expect(caller.fundAccount({ accountId: checking.id, amount: 100, fundingSource: { type: "bank", ...unknown } }))
+                .rejects.toThrow("doesn't belong to a bank");
+        });
+    });
+
     describe("Rate Limiting (Security Enhancement)", () => {
         it("should block login after 5 failed attempts", async () => {
             const caller = authRouter.createCaller(createCallerContext());
@@ -97,16 +679,14 @@ describe("Backend Integration Tests", () => {
                 phoneNumber: "123", dateOfBirth: "1990", ssn: "enc", address: "abc", city: "ny", state: "ny", zipCode: "10001"
             }).returning();
 
-            const [account] = await db.insert(accounts).values({
-                userId: user.id, accountNumber: "2001", accountType: "checking", balance: 100, status: "active"
-            }).returning();
+            const account = await insertAccount(user.id, { accountNumber: "2001", accountType: "checking", balance: 100 });
 
             const caller = accountRouter.createCaller(createCallerContext(user));
 
             await caller.fundAccount({
                 accountId: account.id,
                 amount: 50,
-                fundingSource: { type: "bank", accountNumber: "123", routingNumber: "123456789" }
+                fundingSource: { type: "bank", accountNumber: "123", routingNumber: "021000021" }
             });
 
             const updatedAccount = await db.select().from(accounts).where(eq(accounts.id, account.id)).get();
@@ -115,11 +695,821 @@ describe("Backend Integration Tests", () => {
             await caller.fundAccount({
                 accountId: account.id,
                 amount: 50,
-                fundingSource: { type: "bank", accountNumber: "123", routingNumber: "123456789" }
+                fundingSource: { type: "bank", accountNumber: "123", routingNumber: "021000021" }
             });
 
             const finalAccount = await db.select().from(accounts).where(eq(accounts.id, account.id)).get();
             expect(finalAccount!.balance).toBe(200);
         });
     });
+
+    describe("Double-Entry Ledger", () => {
+        it("should post balanced entries and keep the cached balance in sync", async () => {
+            const [user] = await db.insert(users).values({
+                email: "ledger@test.com", password: "hash", firstName: "Ledger", lastName: "Test",
+                phoneNumber: "123", dateOfBirth: "1990", ssn: "enc", address: "abc", city: "ny", state: "ny", zipCode: "10001"
+            }).returning();
+            const account = await insertAccount(user.id, { accountNumber: "4001", accountType: "checking" });
+
+            const caller = accountRouter.createCaller(createCallerContext(user));
+            const fundingSource = { type: "bank", accountNumber: "123", routingNumber: "021000021" } as const;
+            await caller.fundAccount({ accountId: account.id, amount: 1999, fundingSource });
+            const result = await caller.fundAccount({ accountId: account.id, amount: 1, fundingSource });
+
+            expect(result.newBalance).toBe(2000);
+
+            const allPostings = await db.select().from(postings);
+            const debits = allPostings.filter((p) => p.direction === "debit").reduce((sum, p) => sum + p.amount, 0);
+            const credits = allPostings.filter((p) => p.direction === "credit").reduce((sum, p) => sum + p.amount, 0);
+            expect(allPostings).toHaveLength(4);
+            expect(debits).toBe(credits);
+
+            const derived = db.transaction((tx) => derivedBalance(tx, account.id));
+            const cached = await db.select().from(accounts).where(eq(accounts.id, account.id)).get();
+            expect(derived).toBe(2000);
+            expect(cached!.balance).toBe(derived);
+        });
+    });
+
+    describe("Internal Transfers", () => {
+        it("should move funds atomically and link both legs", async () => {
+            const user = await insertUser("transfer@test.com");
+            const checking = await insertAccount(user.id, { accountNumber: "5001", accountType: "checking" });
+            const savings = await insertAccount(user.id, { accountNumber: "5002", accountType: "savings" });
+
+            const caller = accountRouter.createCaller(createCallerContext(user));
+            await caller.fundAccount({ accountId: checking.id, amount: 10000, fundingSource: bankSource });
+            settleAll();
+            const result = await caller.transfer({ fromAccountId: checking.id, toAccountId: savings.id, amount: 2500 });
+
+            expect(result.fromBalance).toBe(7500);
+            expect(result.toBalance).toBe(2500);
+            expect(result.transferOut.linkedTransactionId).toBe(result.transferIn.id);
+            expect(result.transferIn.linkedTransactionId).toBe(result.transferOut.id);
+
+            const { items: savingsHistory } = await caller.getTransactions({ accountId: savings.id });
+            expect(savingsHistory[0].type).toBe("transfer_in");
+        });
+
+        it("should reject insufficient funds, inactive and foreign accounts", async () => {
+            const user = await insertUser("transfer-reject@test.com");
+            const other = await insertUser("transfer-other@test.com");
+            const checking = await insertAccount(user.id, { accountNumber: "5101", accountType: "checking" });
+            const frozen = await insertAccount(user.id, { accountNumber: "5102", accountType: "savings", status: "frozen" });
+            const foreign = await insertAccount(other.id, { accountNumber: "5103", accountType: "checking" });
+
+            const caller = accountRouter.createCaller(createCallerContext(user));
+            await caller.fundAccount({ accountId: checking.id, amount: 1000, fundingSource: bankSource });
+            settleAll();
+
+            await expect(caller.transfer({ fromAccountId: checking.id, toAccountId: frozen.id, amount: 100 }))
+                .rejects.toThrow("Account is not active");
+            await expect(caller.transfer({ fromAccountId: checking.id, toAccountId: foreign.id, amount: 100 }))
+                .rejects.toThrow("Account not found");
+
+            const savings = await insertAccount(user.id, { accountNumber: "5104", accountType: "savings" });
+            await expect(caller.transfer({ fromAccountId: checking.id, toAccountId: savings.id, amount: 1001 }))
+                .rejects.toThrow("Insufficient funds");
+
+            const unchanged = await db.select().from(accounts).where(eq(accounts.id, checking.id)).get();
+            expect(unchanged!.balance).toBe(1000);
+        });
+    });
+
+    describe("Person-to-Person Payments", () => {
+        it("should pay another customer by email and show masked details on both sides", async () => {
+            const sender = await insertUser("payer@test.com");
+            const recipient = await insertUser("payee@test.com", { firstName: "Jane", lastName: "Doe" });
+            const senderAccount = await insertAccount(sender.id, { accountNumber: "6000000001", accountType: "checking" });
+            const recipientAccount = await insertAccount(recipient.id, { accountNumber: "6000000002", accountType: "checking" });
+
+            await accountRouter.createCaller(createCallerContext(sender))
+                .fundAccount({ accountId: senderAccount.id, amount: 50000, fundingSource: bankSource });
+            settleAll();
+
+            const payments = paymentsRouter.createCaller(createCallerContext(sender));
+            const preview = await payments.lookupRecipient({ recipient: "Payee@Test.com" });
+            expect(preview).toEqual({ maskedName: "J*** D.", maskedAccount: "****0002", isSelf: false });
+
+            const result = await payments.send({ fromAccountId: senderAccount.id, recipient: "payee@test.com", amount: 12345 });
+            expect(result.newBalance).toBe(50000 - 12345);
+
+            const { items: received } = await accountRouter.createCaller(createCallerContext(recipient))
+                .getTransactions({ accountId: recipientAccount.id });
+            expect(received[0]).toMatchObject({
+                type: "payment_received",
+                amount: 12345,
+                counterpartyName: "T*** U.",
+                counterpartyAccount: "****0001",
+                linkedTransactionId: result.transaction.id,
+            });
+        });
+
+        it("should enforce per-transaction and daily limits", async () => {
+            const sender = await insertUser("limits@test.com");
+            const recipient = await insertUser("limits-payee@test.com");
+            const senderAccount = await insertAccount(sender.id, { accountNumber: "6100000001", accountType: "checking" });
+            await insertAccount(recipient.id, { accountNumber: "6100000002", accountType: "checking" });
+
+            await accountRouter.createCaller(createCallerContext(sender))
+                .fundAccount({ accountId: senderAccount.id, amount: 1_000_000, fundingSource: bankSource });
+            settleAll();
+
+            const payments = paymentsRouter.createCaller(createCallerContext(sender));
+            const pay = (amount: number) => payments.send({ fromAccountId: senderAccount.id, recipient: "6100000002", amount });
+
+            await expect(pay(250001)).rejects.toThrow("per transaction");
+            await pay(250000);
+            await pay(250000);
+            await expect(pay(1)).rejects.toThrow("Daily payment limit");
+        });
+    });
+
+    describe("Withdrawals", () => {
+        const destination = { accountNumber: "987654321", routingNumber: "021000021" };
+
+        it("should create a pending withdrawal and refuse to overdraw", async () => {
+            const user = await insertUser("withdraw@test.com");
+            const checking = await insertAccount(user.id, { accountNumber: "7001", accountType: "checking" });
+            const caller = accountRouter.createCaller(createCallerContext(user));
+            await caller.fundAccount({ accountId: checking.id, amount: 10000, fundingSource: bankSource });
+            settleAll();
+
+            await expect(caller.withdraw({ accountId: checking.id, amount: 10001, destination }))
+                .rejects.toThrow("Insufficient funds");
+
+            const result = await caller.withdraw({ accountId: checking.id, amount: 4000, destination });
+            expect(result.newBalance).toBe(6000);
+            expect(result.transaction).toMatchObject({ type: "withdrawal", status: "pending", counterpartyAccount: "****4321" });
+            expect(result.overdraftTransfer).toBeUndefined();
+        });
+
+        it("should cover a shortfall from savings when overdraft protection is on", async () => {
+            const user = await insertUser("overdraft@test.com");
+            const checking = await insertAccount(user.id, { accountNumber: "7101", accountType: "checking" });
+            const savings = await insertAccount(user.id, { accountNumber: "7102", accountType: "savings" });
+            const caller = accountRouter.createCaller(createCallerContext(user));
+            await caller.fundAccount({ accountId: checking.id, amount: 1000, fundingSource: bankSource });
+            await caller.fundAccount({ accountId: savings.id, amount: 5000, fundingSource: bankSource });
+            settleAll();
+
+            const result = await caller.withdraw({ accountId: checking.id, amount: 2500, destination, useOverdraftProtection: true });
+            expect(result.newBalance).toBe(0);
+            expect(result.overdraftTransfer?.transferOut.amount).toBe(1500);
+
+            const updatedSavings = await db.select().from(accounts).where(eq(accounts.id, savings.id)).get();
+            expect(updatedSavings!.balance).toBe(3500);
+
+            await expect(caller.withdraw({ accountId: checking.id, amount: 3501, destination, useOverdraftProtection: true }))
+                .rejects.toThrow("Insufficient funds");
+        });
+    });
+
+    describe("Idempotency Keys", () => {
+        it("should replay the original deposit instead of funding twice", async () => {
+            const user = await insertUser("idempotent@test.com");
+            const checking = await insertAccount(user.id, { accountNumber: "8001", accountType: "checking" });
+            const caller = accountRouter.createCaller(createCallerContext(user));
+            const request = {
+                idempotencyKey: "0b6a3f3e-5a1c-4c5e-9a52-6f8f1b2e7d10",
+                accountId: checking.id,
+                amount: 2500,
+                fundingSource: bankSource,
+            };
+
+            const first = await caller.fundAccount(request);
+            const replay = await caller.fundAccount(request);
+
+            expect(replay.transaction.id).toBe(first.transaction.id);
+            expect(replay.newBalance).toBe(2500);
+            const account = await db.select().from(accounts).where(eq(accounts.id, checking.id)).get();
+            expect(account!.balance).toBe(2500);
+
+            await expect(caller.fundAccount({ ...request, amount: 9999 }))
+                .rejects.toThrow("already used for a different request");
+        });
+
+        it("should release the key when the request fails", async () => {
+            const user = await insertUser("idempotent-fail@test.com");
+            const checking = await insertAccount(user.id, { accountNumber: "8101", accountType: "checking" });
+            const savings = await insertAccount(user.id, { accountNumber: "8102", accountType: "savings" });
+            const caller = accountRouter.createCaller(createCallerContext(user));
+            const idempotencyKey = "5c1d8e2a-9f4b-4c3e-8d7a-2b6e1f0a9c34";
+
+            await expect(caller.transfer({ idempotencyKey, fromAccountId: checking.id, toAccountId: savings.id, amount: 100 }))
+                .rejects.toThrow("Insufficient funds");
+
+            await caller.fundAccount({ accountId: checking.id, amount: 100, fundingSource: bankSource });
+            settleAll();
+            const result = await caller.transfer({ idempotencyKey, fromAccountId: checking.id, toAccountId: savings.id, amount: 100 });
+            expect(result.toBalance).toBe(100);
+        });
+
+        it("should still replay requests whose keys were stored before hashes were keyed", async () => {
+            const { createHash } = await import("crypto");
+            const { fingerprint } = await import("../lib/crypto");
+            const user = await insertUser("idempotent-legacy@test.com");
+            const checking = await insertAccount(user.id, { accountNumber: "8201", accountType: "checking" });
+            const caller = accountRouter.createCaller(createCallerContext(user));
+            const idempotencyKey = "7e2a9c4b-1d3f-4a6e-b8c5-0f9d2e1a3b7c";
+
+            // As migration 25 leaves a key stored with a plain SHA-256 request hash
+            const plain = createHash("sha256")
+                .update(`fundAccount:{"accountId":${checking.id},"amount":2500,"fundingSource":{"accountNumber":"123","routingNumber":"021000021","type":"bank"}}`)
+                .digest("hex");
+            const response = { transaction: { id: 424242, amount: 2500 }, newBalance: 2500 };
+            sqlite.prepare(`
+                INSERT INTO idempotency_keys (user_id, key, scope, request_hash, response, legacy_hash) VALUES (?, ?, 'fundAccount', ?, ?, 1)
+            `).run(user.id, idempotencyKey, fingerprint(plain), JSON.stringify(response));
+
+            const request = { idempotencyKey, accountId: checking.id, amount: 2500, fundingSource: bankSource };
+            expect(await caller.fundAccount(request)).toEqual(response);
+            await expect(caller.fundAccount({ ...request, amount: 2600 })).rejects.toThrow("already used for a different request");
+            expect(await db.select().from(transactions).where(eq(transactions.accountId, checking.id))).toEqual([]);
+        });
+    });
+
+    describe("Funding Settlement Lifecycle", () => {
+        const cardSource = { type: "card", accountNumber: "4111111111111111", expiryMonth: 12, expiryYear: 2099, cvv: "123" } as const;
+
+        it("should hold deposits as pending until the settlement delay has passed", async () => {
+            const user = await insertUser("settle@test.com");
+            const checking = await insertAccount(user.id, { accountNumber: "9001", accountType: "checking" });
+            const caller = accountRouter.createCaller(createCallerContext(user));
+
+            const card = await caller.fundAccount({ accountId: checking.id, amount: 3000, fundingSource: cardSource });
+            const bank = await caller.fundAccount({ accountId: checking.id, amount: 7000, fundingSource: bankSource });
+            expect(card.transaction.status).toBe("pending");
+
+            let account = await db.select().from(accounts).where(eq(accounts.id, checking.id)).get();
+            expect(account).toMatchObject({ balance: 10000, availableBalance: 0 });
+
+            // Two minutes later only the card deposit has cleared
+            const result = processSettlements(new Date(Date.now() + 2 * 60 * 1000));
+            expect(result).toMatchObject({ settled: 1, failed: 0 });
+
+            account = await db.select().from(accounts).where(eq(accounts.id, checking.id)).get();
+            expect(account).toMatchObject({ balance: 10000, availableBalance: 3000 });
+
+            settleAll();
+            const [bankTxn] = await db.select().from(transactions).where(eq(transactions.id, bank.transaction.id));
+            expect(bankTxn.status).toBe("settled");
+            expect(bankTxn.processedAt).not.toBeNull();
+        });
+
+        it("should unwind failed deposits and withdrawals", async () => {
+            const user = await insertUser("settle-fail@test.com");
+            const checking = await insertAccount(user.id, { accountNumber: "9101", accountType: "checking" });
+            const caller = accountRouter.createCaller(createCallerContext(user));
+
+            await caller.fundAccount({ accountId: checking.id, amount: 5000, fundingSource: bankSource });
+            settleAll();
+            await caller.fundAccount({ accountId: checking.id, amount: 2000, fundingSource: cardSource });
+            await caller.withdraw({
+                accountId: checking.id,
+                amount: 1000,
+                destination: { accountNumber: "987654321", routingNumber: "021000021" },
+            });
+
+            const result = processSettlements(new Date(Date.now() + 24 * 60 * 60 * 1000), () => ({
+                outcome: "failed",
+                reason: "Declined",
+            }));
+            expect(result).toMatchObject({ settled: 0, failed: 2 });
+
+            const account = await db.select().from(accounts).where(eq(accounts.id, checking.id)).get();
+            expect(account).toMatchObject({ balance: 5000, availableBalance: 5000 });
+
+            const failed = await db.select().from(transactions).where(eq(transactions.status, "failed"));
+            expect(failed.map((t) => t.failureReason)).toEqual(["Declined", "Declined"]);
+        });
+    });
+
+    describe("Reversals and Refunds", () => {
+        it("should refund a payment in parts and refuse to reverse it twice", async () => {
+            const sender = await insertUser("refund-payer@test.com");
+            const recipient = await insertUser("refund-payee@test.com");
+            const senderAccount = await insertAccount(sender.id, { accountNumber: "7000000001", accountType: "checking" });
+            const recipientAccount = await insertAccount(recipient.id, { accountNumber: "7000000002", accountType: "checking" });
+
+            await accountRouter.createCaller(createCallerContext(sender))
+                .fundAccount({ accountId: senderAccount.id, amount: 10000, fundingSource: bankSource });
+            settleAll();
+            const payment = await paymentsRouter.createCaller(createCallerContext(sender))
+                .send({ fromAccountId: senderAccount.id, recipient: "7000000002", amount: 6000 });
+            const receivedId = payment.transaction.linkedTransactionId;
+
+            const payee = paymentsRouter.createCaller(createCallerContext(recipient));
+            await expect(paymentsRouter.createCaller(createCallerContext(sender)).refund({ transactionId: receivedId }))
+                .rejects.toThrow("Payment not found");
+
+            const partial = await payee.refund({ transactionId: receivedId, amount: 2500, reason: "Overpaid" });
+            expect(partial).toMatchObject({ remaining: 3500, newBalance: 3500 });
+            expect(partial.reversal).toMatchObject({ type: "reversal", amount: 2500, reversalOfId: receivedId });
+
+            await expect(payee.refund({ transactionId: receivedId, amount: 3501 })).rejects.toThrow("$35.00");
+            await payee.refund({ transactionId: receivedId });
+            await expect(payee.refund({ transactionId: receivedId })).rejects.toThrow("already been reversed");
+            await expect(payee.refund({ transactionId: partial.reversal.id })).rejects.toThrow("Payment not found");
+
+            const { items: senderHistory } = await accountRouter.createCaller(createCallerContext(sender))
+                .getTransactions({ accountId: senderAccount.id });
+            const original = senderHistory.find((t) => t.id === payment.transaction.id);
+            expect(original).toMatchObject({ status: "reversed", reversedAmount: 6000 });
+            expect(senderHistory.filter((t) => t.type === "refund").map((t) => t.amount).sort()).toEqual([2500, 3500]);
+
+            const [senderBalance, recipientBalance] = await Promise.all(
+                [senderAccount.id, recipientAccount.id].map((id) => db.select().from(accounts).where(eq(accounts.id, id)).get())
+            );
+            expect(senderBalance!.balance).toBe(10000);
+            expect(recipientBalance!.balance).toBe(0);
+        });
+
+        it("should return a settled bank deposit with an ACH return code", async () => {
+            const { resolveTransaction } = await import("../server/services/settlement");
+            const user = await insertUser("ach-return@test.com");
+            const checking = await insertAccount(user.id, { accountNumber: "7101", accountType: "checking" });
+            const caller = accountRouter.createCaller(createCallerContext(user));
+
+            const { transaction } = await caller.fundAccount({ accountId: checking.id, amount: 4000, fundingSource: bankSource });
+            expect(() => resolveTransaction(transaction.id, "returned", "R01")).toThrow("not a settled bank deposit");
+            settleAll();
+
+            expect(() => resolveTransaction(transaction.id, "returned", "R99")).toThrow("Unknown ACH return code");
+            resolveTransaction(transaction.id, "returned", "r01");
+            expect(() => resolveTransaction(transaction.id, "returned", "R02")).toThrow("not a settled bank deposit");
+
+            const { items: history } = await caller.getTransactions({ accountId: checking.id });
+            expect(history.find((t) => t.id === transaction.id)).toMatchObject({
+                status: "returned",
+                returnCode: "R01",
+                failureReason: "R01: Insufficient funds",
+            });
+            expect(history.find((t) => t.type === "ach_return")).toMatchObject({ amount: 4000, reversalOfId: transaction.id });
+
+            const account = await db.select().from(accounts).where(eq(accounts.id, checking.id)).get();
+            expect(account).toMatchObject({ balance: 0, availableBalance: 0 });
+            expect(db.transaction((tx) => derivedBalance(tx, checking.id))).toBe(0);
+        });
+    });
+
+    describe("Scheduled Transfers", () => {
+        it("should run a monthly schedule through the transfer path until its end condition", async () => {
+            const { processScheduledTransfers } = await import("../server/services/schedules");
+            const user = await insertUser("schedule@test.com");
+            const checking = await insertAccount(user.id, { accountNumber: "8001", accountType: "checking" });
+            const savings = await insertAccount(user.id, { accountNumber: "8002", accountType: "savings" });
+            const caller = accountRouter.createCaller(createCallerContext(user));
+
+            await caller.fundAccount({ accountId: checking.id, amount: 100000, fundingSource: bankSource });
+            settleAll();
+
+            const schedule = await caller.scheduleTransfer({
+                fromAccountId: checking.id,
+                toAccountId: savings.id,
+                amount: 20000,
+                frequency: "monthly",
+                startDate: "2031-01-31",
+                maxOccurrences: 2,
+            });
+            expect(schedule).toMatchObject({ status: "active", nextRunDate: "2031-01-31" });
+
+            const [listed] = await caller.getScheduledTransfers();
+            expect(listed.upcomingDates).toEqual(["2031-01-31", "2031-02-28"]);
+
+            expect(processScheduledTransfers(new Date("2031-01-30T12:00:00Z"))).toEqual({ executed: 0, failed: 0 });
+            expect(processScheduledTransfers(new Date("2031-01-31T12:00:00Z"))).toEqual({ executed: 1, failed: 0 });
+            // A second pass on the same day must not run it again
+            expect(processScheduledTransfers(new Date("2031-01-31T18:00:00Z"))).toEqual({ executed: 0, failed: 0 });
+            expect(processScheduledTransfers(new Date("2031-02-28T12:00:00Z"))).toEqual({ executed: 1, failed: 0 });
+
+            const [savingsBalance] = await db.select().from(accounts).where(eq(accounts.id, savings.id));
+            expect(savingsBalance.balance).toBe(40000);
+
+            const { items: history } = await caller.getTransactions({ accountId: savings.id });
+            expect(history.map((t) => t.type)).toEqual(["transfer_in", "transfer_in"]);
+            expect(await caller.getScheduledTransfers()).toHaveLength(0);
+        });
+
+        it("should record failed occurrences and support pause, resume and cancel", async () => {
+            const { processScheduledTransfers } = await import("../server/services/schedules");
+            const user = await insertUser("schedule-fail@test.com");
+            const other = await insertUser("schedule-other@test.com");
+            const checking = await insertAccount(user.id, { accountNumber: "8101", accountType: "checking" });
+            const savings = await insertAccount(user.id, { accountNumber: "8102", accountType: "savings" });
+            const caller = accountRouter.createCaller(createCallerContext(user));
+
+            await expect(caller.scheduleTransfer({
+                fromAccountId: checking.id, toAccountId: savings.id, amount: 500, frequency: "weekly", startDate: "2020-01-01",
+            })).rejects.toThrow("Start date cannot be in the past");
+
+            const schedule = await caller.scheduleTransfer({
+                fromAccountId: checking.id, toAccountId: savings.id, amount: 500, frequency: "weekly", startDate: "2031-03-03",
+            });
+
+            expect(processScheduledTransfers(new Date("2031-03-03T12:00:00Z"))).toEqual({ executed: 0, failed: 1 });
+            let [listed] = await caller.getScheduledTransfers();
+            expect(listed).toMatchObject({ lastError: "Insufficient funds", occurrences: 1, nextRunDate: "2031-03-10" });
+
+            await expect(accountRouter.createCaller(createCallerContext(other)).pauseScheduledTransfer({ scheduleId: schedule.id }))
+                .rejects.toThrow("Scheduled transfer not found");
+
+            await caller.pauseScheduledTransfer({ scheduleId: schedule.id });
+            expect(processScheduledTransfers(new Date("2031-03-10T12:00:00Z"))).toEqual({ executed: 0, failed: 0 });
+            await expect(caller.pauseScheduledTransfer({ scheduleId: schedule.id })).rejects.toThrow("cannot be paused");
+
+            await caller.resumeScheduledTransfer({ scheduleId: schedule.id });
+            [listed] = await caller.getScheduledTransfers();
+            expect(listed).toMatchObject({ status: "active", nextRunDate: "2031-03-10" });
+
+            await caller.cancelScheduledTransfer({ scheduleId: schedule.id });
+            expect(await caller.getScheduledTransfers()).toHaveLength(0);
+            await expect(caller.resumeScheduledTransfer({ scheduleId: schedule.id })).rejects.toThrow("cannot be resumed");
+        });
+    });
+
+    describe("Interest Accrual", () => {
+        it("should accrue daily on end-of-day balances and post once per finished month", async () => {
+            const { dailyInterestMicroCents, interestYearToDate, processInterest } = await import("../server/services/interest");
+            const user = await insertUser("interest@test.com");
+            const savings = await insertAccount(user.id, { accountNumber: "9201", accountType: "savings" });
+            await db.update(accounts).set({ createdAt: "2030-12-30 09:00:00" }).where(eq(accounts.id, savings.id));
+
+            const caller = accountRouter.createCaller(createCallerContext(user));
+            await caller.fundAccount({ accountId: savings.id, amount: 1_000_000, fundingSource: bankSource });
+            settleAll();
+            // Pretend the deposit landed on Dec 31, so Dec 30 ends with a zero balance
+            sqlite.exec(`UPDATE postings SET created_at = '2030-12-31 12:00:00'; UPDATE daily_balances SET date = '2030-12-31'`);
+
+            const result = processInterest(new Date("2031-02-01T06:00:00Z"));
+            expect(result).toEqual({ accruedDays: 33, posted: 2, errors: [] });
+            expect(processInterest(new Date("2031-02-01T18:00:00Z"))).toEqual({ accruedDays: 0, posted: 0, errors: [] });
+
+            // $10,000 reaches the 3.50% tier
+            const daily = dailyInterestMicroCents(1_000_000, 350);
+            const december = Math.round(daily / 1_000_000);
+            const january = Math.round((31 * daily) / 1_000_000);
+
+            const { items: history } = await caller.getTransactions({ accountId: savings.id });
+            const interest = history.filter((t) => t.type === "interest");
+            expect(interest.map((t) => t.amount).sort()).toEqual([january, december].sort());
+            expect(interest.map((t) => t.description)).toContain("Interest for January 2031");
+
+            const [account] = await caller.getAccounts();
+            expect(account).toMatchObject({ apyBps: 350, balance: 1_000_000 + december + january });
+            expect(db.transaction((tx) => derivedBalance(tx, savings.id))).toBe(account.balance);
+
+            // December's interest was posted in 2031 but earned in 2030
+            const ytd = (now: string) => db.transaction((tx) => interestYearToDate(tx, [savings.id], new Date(now)).get(savings.id));
+            expect(ytd("2030-12-31T12:00:00Z")).toBe(december);
+            expect(ytd("2031-02-01T12:00:00Z")).toBe(january);
+        });
+
+        it("should reverse interest against interest expense", async () => {
+            const { processInterest } = await import("../server/services/interest");
+            const { reverseTransaction } = await import("../server/services/reversals");
+            const user = await insertUser("interest-reversal@test.com");
+            const savings = await insertAccount(user.id, { accountNumber: "9221", accountType: "savings" });
+            await db.update(accounts).set({ createdAt: "2031-01-30 09:00:00" }).where(eq(accounts.id, savings.id));
+
+            const caller = accountRouter.createCaller(createCallerContext(user));
+            await caller.fundAccount({ accountId: savings.id, amount: 1_000_000, fundingSource: bankSource });
+            settleAll();
+            sqlite.exec(`UPDATE postings SET created_at = '2031-01-30 12:00:00'; UPDATE daily_balances SET date = '2031-01-30'`);
+            processInterest(new Date("2031-02-01T06:00:00Z"));
+
+            const { items } = await caller.getTransactions({ accountId: savings.id });
+            const interest = items.find((t) => t.type === "interest")!;
+            db.transaction((tx) => reverseTransaction(tx, { transactionId: interest.id, reason: "Paid in error" }));
+
+            // Both system accounts end up where they were before the interest was paid
+            const systemBalance = (code: string) => sqlite.prepare(`
+                SELECT COALESCE(SUM(CASE WHEN p.direction = 'debit' THEN p.amount ELSE -p.amount END), 0)
+                FROM postings p JOIN ledger_accounts l ON l.id = p.ledger_account_id WHERE l.code = ?
+            `).pluck().get(code);
+            expect(systemBalance("interest_expense:USD")).toBe(0);
+            expect(systemBalance("settlement_cash:USD")).toBe(1_000_000);
+            expect(db.transaction((tx) => derivedBalance(tx, savings.id))).toBe(1_000_000);
+        });
+
+        it("should keep paying other accounts when one account fails", async () => {
+            const { processInterest } = await import("../server/services/interest");
+            const user = await insertUser("interest-errors@test.com");
+            const broken = await insertAccount(user.id, { accountNumber: "9211", accountType: "savings", currency: "GBP" });
+            const savings = await insertAccount(user.id, { accountNumber: "9212", accountType: "savings" });
+            await db.update(accounts).set({ createdAt: "2031-01-30 09:00:00" }).where(eq(accounts.userId, user.id));
+
+            const caller = accountRouter.createCaller(createCallerContext(user));
+            await caller.fundAccount({ accountId: broken.id, amount: 300_000, fundingSource: bankSource });
+            await caller.fundAccount({ accountId: savings.id, amount: 300_000, fundingSource: bankSource });
+            settleAll();
+            sqlite.exec(`UPDATE postings SET created_at = '2031-01-30 12:00:00'; UPDATE daily_balances SET date = '2031-01-30'`);
+
+            // Without its GBP interest expense account, the GBP account's interest cannot be posted
+            sqlite.exec(`UPDATE ledger_accounts SET code = 'interest_expense:GBP:hidden' WHERE code = 'interest_expense:GBP'`);
+            try {
+                const result = processInterest(new Date("2031-02-01T06:00:00Z"));
+                expect(result.errors).toEqual([{ accountId: broken.id, error: "System ledger account interest_expense is missing for GBP" }]);
+                expect(result.posted).toBe(1);
+            } finally {
+                sqlite.exec(`UPDATE ledger_accounts SET code = 'interest_expense:GBP' WHERE code = 'interest_expense:GBP:hidden'`);
+            }
+
+            // The failed account's work was rolled back, so the next run picks it up
+            expect(processInterest(new Date("2031-02-01T07:00:00Z"))).toEqual({ accruedDays: 2, posted: 1, errors: [] });
+        });
+    });
+
+    describe("Funding Limits", () => {
+        const cardSource = { type: "card", accountNumber: "4111111111111111", expiryMonth: 12, expiryYear: 2099, cvv: "123" } as const;
+
+        it("should enforce per-transaction and daily limits per source type and report what is left", async () => {
+            const user = await insertUser("funding-limits@test.com");
+            const checking = await insertAccount(user.id, { accountNumber: "9301", accountType: "checking" });
+            const caller = accountRouter.createCaller(createCallerContext(user));
+            const fund = (amount: number, fundingSource: typeof cardSource | typeof bankSource = cardSource) =>
+                caller.fundAccount({ accountId: checking.id, amount, fundingSource });
+
+            await expect(fund(250001)).rejects.toThrow("Card deposits are limited to $2,500.00 per transaction");
+            await fund(250000);
+            const { transaction } = await fund(250000);
+            await expect(fund(1)).rejects.toThrow("You can add up to $0.00 today");
+
+            expect(await caller.getFundingLimits({ accountId: checking.id, sourceType: "card" }))
+                .toMatchObject({ perTransaction: 250000, daily: 0, maxDeposit: 0 });
+            // Bank deposits have their own limit, but the checking account's daily cap counts both sources
+            expect(await caller.getFundingLimits({ accountId: checking.id, sourceType: "bank" }))
+                .toMatchObject({ perTransaction: 1_000_000, daily: 1_000_000, maxDeposit: 1_000_000 });
+
+            // Deposits that fail no longer use up the limit
+            processSettlements(new Date(Date.now() + 24 * 60 * 60 * 1000), (t) =>
+                t.id === transaction.id ? { outcome: "failed", reason: "Declined" } : { outcome: "settled" }
+            );
+            await fund(250000);
+        });
+
+        it("should count deposits in every currency against the USD limits at the mid rate", async () => {
+            const user = await insertUser("funding-fx@test.com");
+            const usd = await insertAccount(user.id, { accountNumber: "9351", accountType: "checking" });
+            const eur = await insertAccount(user.id, { accountNumber: "9352", accountType: "checking", currency: "EUR" });
+            const caller = accountRouter.createCaller(createCallerContext(user));
+
+            // EUR 0.92 per USD, so €2,300 uses up $2,500 of the card limits
+            await expect(caller.fundAccount({ accountId: eur.id, amount: 230001, fundingSource: cardSource }))
+                .rejects.toThrow("Card deposits are limited to $2,500.00 per transaction");
+            await caller.fundAccount({ accountId: eur.id, amount: 230000, fundingSource: cardSource });
+            await caller.fundAccount({ accountId: usd.id, amount: 250000, fundingSource: cardSource });
+            await expect(caller.fundAccount({ accountId: eur.id, amount: 1, fundingSource: cardSource }))
+                .rejects.toThrow("You can add up to €0.00 today");
+
+            // What is left is shown in the account's own currency
+            expect(await caller.getFundingLimits({ accountId: eur.id, sourceType: "bank" }))
+                .toMatchObject({ currency: "EUR", perTransaction: 920000, daily: 920000 });
+        });
+
+        it("should apply the limits of the user's tier", async () => {
+            const user = await insertUser("funding-premium@test.com");
+            const checking = await insertAccount(user.id, { accountNumber: "9401", accountType: "checking" });
+            await db.update(users).set({ tier: "premium" }).where(eq(users.id, user.id));
+            const caller = accountRouter.createCaller(createCallerContext(user));
+
+            await caller.fundAccount({ accountId: checking.id, amount: 1_000_000, fundingSource: cardSource });
+            expect(await caller.getFundingLimits({ accountId: checking.id, sourceType: "card" }))
+                .toMatchObject({ perTransaction: 1_000_000, daily: 1_000_000 });
+        });
+    });
+
+    describe("Multi-Currency Accounts", () => {
+        it("should convert transfers between currencies and record the rate on both legs", async () => {
+            const { reverseTransaction } = await import("../server/services/reversals");
+            const user = await insertUser("fx@test.com");
+            const caller = accountRouter.createCaller(createCallerContext(user));
+
+            const usd = await caller.createAccount({ accountType: "checking" });
+            const eur = await caller.createAccount({ accountType: "checking", currency: "EUR" });
+            expect(usd.currency).toBe("USD");
+
+            await caller.fundAccount({ accountId: usd.id, amount: 10000, fundingSource: bankSource });
+            settleAll();
+
+            // EUR mid 0.92 per USD, less 0.50% spread
+            const quote = await caller.getFxQuote({ fromAccountId: usd.id, toAccountId: eur.id, amount: 10000 });
+            expect(quote).toEqual({ fromCurrency: "USD", toCurrency: "EUR", rate: 0.9154, convertedAmount: 9154 });
+
+            const result = await caller.transfer({ fromAccountId: usd.id, toAccountId: eur.id, amount: 10000 });
+            expect(result.transferOut).toMatchObject({ amount: 10000, currency: "USD", fxRate: 0.9154 });
+            expect(result.transferIn).toMatchObject({ amount: 9154, currency: "EUR", fxRate: 0.9154 });
+            expect(result.fromBalance).toBe(0);
+            expect(result.toBalance).toBe(9154);
+            expect(db.transaction((tx) => derivedBalance(tx, eur.id))).toBe(9154);
+
+            expect(() => db.transaction((tx) => reverseTransaction(tx, { transactionId: result.transferOut.id, reason: "Oops" })))
+                .toThrow("Currency conversions cannot be reversed");
+        });
+
+        it("should convert in whole cents without float error", async () => {
+            const { loadFxRates } = await import("../server/services/fx");
+            const user = await insertUser("fx-cents@test.com");
+            const caller = accountRouter.createCaller(createCallerContext(user));
+            const usd = await caller.createAccount({ accountType: "checking" });
+            const gbp = await caller.createAccount({ accountType: "checking", currency: "GBP" });
+
+            // 100 × 0.58 is 57.99999999999999 in floating point
+            loadFxRates({ GBP: { unitsPerUsd: 0.58, spreadBps: 0 } });
+            try {
+                expect(await caller.getFxQuote({ fromAccountId: usd.id, toAccountId: gbp.id, amount: 100 }))
+                    .toMatchObject({ rate: 0.58, convertedAmount: 58 });
+            } finally {
+                loadFxRates({ GBP: { unitsPerUsd: 0.79, spreadBps: 50 } });
+            }
+        });
+
+        it("should only load rates for supported currencies", async () => {
+            const { loadFxRates } = await import("../server/services/fx");
+
+            // Nothing is loaded when any rate is refused
+            expect(() => loadFxRates({ EUR: { unitsPerUsd: 0.5, spreadBps: 0 }, JPY: { unitsPerUsd: 150, spreadBps: 50 } }))
+                .toThrow("Unsupported currency JPY");
+            expect(sqlite.prepare("SELECT currency, units_per_usd FROM fx_rates ORDER BY currency").all()).toEqual([
+                { currency: "EUR", units_per_usd: 0.92 }, { currency: "GBP", units_per_usd: 0.79 }, { currency: "USD", units_per_usd: 1 },
+            ]);
+        });
+
+        it("should fund, settle, withdraw from, return and pay interest on a EUR account", async () => {
+            const { processInterest } = await import("../server/services/interest");
+            const { resolveTransaction } = await import("../server/services/settlement");
+            const user = await insertUser("eur@test.com");
+            const savings = await insertAccount(user.id, { accountNumber: "9501", accountType: "savings", currency: "EUR" });
+            await db.update(accounts).set({ createdAt: "2030-12-30 09:00:00" }).where(eq(accounts.id, savings.id));
+            const caller = accountRouter.createCaller(createCallerContext(user));
+
+            const { transaction: deposit } = await caller.fundAccount({ accountId: savings.id, amount: 900_000, fundingSource: bankSource });
+            expect(deposit.currency).toBe("EUR");
+            const { transaction: returned } = await caller.fundAccount({ accountId: savings.id, amount: 3000, fundingSource: bankSource });
+            expect(settleAll()).toEqual({ settled: 2, failed: 0, errors: [] });
+            resolveTransaction(returned.id, "returned", "R01");
+
+            const { transaction: withdrawal } = await caller.withdraw({
+                accountId: savings.id, amount: 2500, destination: { accountNumber: "987", routingNumber: "021000021" },
+            });
+            expect(withdrawal.currency).toBe("EUR");
+            expect(settleAll()).toEqual({ settled: 1, failed: 0, errors: [] });
+
+            sqlite.exec(`UPDATE postings SET created_at = '2030-12-31 12:00:00'; UPDATE daily_balances SET date = '2030-12-31'`);
+            expect(processInterest(new Date("2031-02-01T06:00:00Z"))).toMatchObject({ posted: 2 });
+
+            const account = await db.select().from(accounts).where(eq(accounts.id, savings.id)).get();
+            expect(account!.balance).toBeGreaterThan(900_000 - 2500);
+            expect(db.transaction((tx) => derivedBalance(tx, savings.id))).toBe(account!.balance);
+
+            // Every system posting went to the EUR accounts
+            const systemAccounts = sqlite.prepare(`
+                SELECT DISTINCT l.code FROM postings p JOIN ledger_accounts l ON l.id = p.ledger_account_id WHERE l.account_id IS NULL ORDER BY l.code
+            `).pluck().all();
+            expect(systemAccounts).toEqual([
+                "external_funding_clearing:EUR", "external_withdrawal_clearing:EUR", "interest_expense:EUR", "settlement_cash:EUR",
+            ]);
+        });
+    });
+
+    describe("Monthly Statements", () => {
+        it("should generate each finished month once, from the ledger, with the customer's details", async () => {
+            const { processStatements } = await import("../server/services/statements");
+            const { renderStatementPdf } = await import("../server/services/statement-pdf");
+            const { statementsRouter } = await import("../server/routers/statements");
+            const user = await insertUser("statements@test.com", { firstName: "Stella", lastName: "Ment" });
+            const checking = await insertAccount(user.id, { accountNumber: "9501", accountType: "checking" });
+            await db.update(accounts).set({ createdAt: "2030-12-15 09:00:00" }).where(eq(accounts.id, checking.id));
+
+            const caller = accountRouter.createCaller(createCallerContext(user));
+            const first = await caller.fundAccount({ accountId: checking.id, amount: 10000, fundingSource: bankSource });
+            const second = await caller.fundAccount({ accountId: checking.id, amount: 2500, fundingSource: bankSource });
+            sqlite.exec(`UPDATE postings SET created_at = '2030-12-20 12:00:00' WHERE transaction_id = ${first.transaction.id}`);
+            sqlite.exec(`UPDATE postings SET created_at = '2031-01-10 12:00:00' WHERE transaction_id = ${second.transaction.id}`);
+
+            expect(processStatements(new Date("2031-02-01T06:00:00Z"))).toEqual({ generated: 2, errors: [] });
+            expect(processStatements(new Date("2031-02-20T06:00:00Z"))).toEqual({ generated: 0, errors: [] });
+
+            const statements = statementsRouter.createCaller(createCallerContext(user));
+            const list = await statements.listStatements({ accountId: checking.id });
+            expect(list.map((s) => s.periodStart)).toEqual(["2031-01-01", "2030-12-01"]);
+
+            const january = await statements.getStatement({ statementId: list[0].id });
+            expect(january).toMatchObject({
+                periodEnd: "2031-01-31",
+                openingBalance: 10000,
+                closingBalance: 12500,
+                totalCredits: 2500,
+                totalDebits: 0,
+                customer: { name: "Stella Ment", address: ["abc", "ny, ny 10001"] },
+                account: { accountNumber: "****9501", accountType: "checking", currency: "USD" },
+            });
+            expect(january.lines).toEqual([
+                expect.objectContaining({ date: "2031-01-10", type: "deposit", amount: 2500, balance: 12500 }),
+            ]);
+
+            const pdf = renderStatementPdf(january).toString("latin1");
+            expect(pdf.startsWith("%PDF-1.4")).toBe(true);
+            expect(pdf).toContain("(Stella Ment)");
+
+            const stranger = statementsRouter.createCaller(createCallerContext(await insertUser("nosy@test.com")));
+            await expect(stranger.getStatement({ statementId: list[0].id })).rejects.toThrow("Statement not found");
+        });
+
+        it("should keep generating statements for other accounts when one account fails", async () => {
+            const { processStatements } = await import("../server/services/statements");
+            const user = await insertUser("statements-errors@test.com");
+            const broken = await insertAccount(user.id, { accountNumber: "9511", accountType: "checking" });
+            const checking = await insertAccount(user.id, { accountNumber: "9512", accountType: "checking" });
+            await db.update(accounts).set({ createdAt: "2031-01-05 09:00:00" }).where(eq(accounts.userId, user.id));
+
+            // The broken account's ledger account cannot be created while its code is taken
+            sqlite.exec(`INSERT INTO ledger_accounts (code, name, kind, currency) VALUES ('customer:${broken.id}', 'Taken', 'liability', 'USD')`);
+            const result = processStatements(new Date("2031-02-01T06:00:00Z"));
+            expect(result.errors).toEqual([{ accountId: broken.id, error: expect.stringContaining("UNIQUE constraint failed") }]);
+            expect(result.generated).toBe(1);
+            expect(sqlite.prepare("SELECT COUNT(*) FROM statements WHERE account_id = ?").pluck().get(checking.id)).toBe(1);
+
+            // The failed account's work was rolled back, so the next run picks it up
+            sqlite.exec(`DELETE FROM ledger_accounts WHERE code = 'customer:${broken.id}'`);
+            expect(processStatements(new Date("2031-02-01T07:00:00Z"))).toEqual({ generated: 1, errors: [] });
+        });
+    });
+
+    describe("Transaction Export", () => {
+        it("should export settled transactions with money out negative and stable ids", async () => {
+            const { exportTransactions } = await import("../server/services/exports");
+            const user = await insertUser("export@test.com");
+            const checking = await insertAccount(user.id, { accountNumber: "9601", accountType: "checking" });
+            const caller = accountRouter.createCaller(createCallerContext(user));
+
+            const { transaction: deposit } = await caller.fundAccount({ accountId: checking.id, amount: 10000, fundingSource: bankSource });
+            settleAll();
+            const { transaction: withdrawal } = await caller.withdraw({
+                accountId: checking.id, amount: 2550, destination: { accountNumber: "987", routingNumber: "021000021" },
+            });
+            settleAll();
+            await caller.fundAccount({ accountId: checking.id, amount: 500, fundingSource: bankSource }); // still pending
+            sqlite.exec(`UPDATE transactions SET created_at = '2031-03-05 10:30:00' WHERE id = ${withdrawal.id}`);
+
+            const [account] = await db.select().from(accounts).where(eq(accounts.id, checking.id));
+            const run = (format: "csv" | "ofx" | "qif", range = {}) => [...exportTransactions(account, format, range)].join("");
+
+            const csv = run("csv").trim().split("\r\n");
+            expect(csv).toHaveLength(3);
+            expect(csv[2]).toMatch(new RegExp(`^2031-03-05,.*,Withdrawal,-25.50,USD,settled,${withdrawal.id}$`));
+            expect(csv[1]).toMatch(new RegExp(`,Deposit,100.00,USD,settled,${deposit.id}$`));
+
+            const ofx = run("ofx");
+            expect(ofx).toContain('<?OFX OFXHEADER="200" VERSION="211"');
+            expect(ofx).toContain(`<TRNAMT>-25.50</TRNAMT>\n<FITID>${withdrawal.id}</FITID>`);
+            expect(ofx).toContain("<DTPOSTED>20310305103000[0:GMT]</DTPOSTED>");
+            expect(ofx.match(/<FITID>/g)).toHaveLength(2);
+            // The closing balance leaves out the pending deposit, as the transaction list does
+            expect(ofx).toContain("<LEDGERBAL><BALAMT>74.50</BALAMT>");
+
+            expect(run("qif", { from: "2031-03-01", to: "2031-03-31" })).toBe(
+                `!Type:Bank\nD03/05/2031\nT-25.50\nN${withdrawal.id}\nP${withdrawal.description}\nMWithdrawal\n^\n`
+            );
+        });
+    });
+
+    describe("Integer Money Migration", () => {
+        it("should convert legacy REAL balances and amounts to cents losslessly", () => {
+            const legacy = new Database(":memory:");
+            legacy.exec(`
+                CREATE TABLE users (id INTEGER PRIMARY KEY AUTOINCREMENT, email TEXT UNIQUE NOT NULL, password TEXT NOT NULL, first_name TEXT NOT NULL, last_name TEXT NOT NULL, phone_number TEXT NOT NULL, date_of_birth TEXT NOT NULL, ssn TEXT NOT NULL, address TEXT NOT NULL, city TEXT NOT NULL, state TEXT NOT NULL, zip_code TEXT NOT NULL, created_at TEXT DEFAULT CURRENT_TIMESTAMP);
+                CREATE TABLE accounts (id INTEGER PRIMARY KEY AUTOINCREMENT, user_id INTEGER NOT NULL REFERENCES users(id), account_number TEXT UNIQUE NOT NULL, account_type TEXT NOT NULL, balance REAL DEFAULT 0 NOT NULL, status TEXT DEFAULT 'pending', created_at TEXT DEFAULT CURRENT_TIMESTAMP);
+                CREATE TABLE transactions (id INTEGER PRIMARY KEY AUTOINCREMENT, account_id INTEGER NOT NULL REFERENCES accounts(id), type TEXT NOT NULL, amount REAL NOT NULL, description TEXT, status TEXT DEFAULT 'pending' NOT NULL, created_at TEXT DEFAULT CURRENT_TIMESTAMP, processed_at TEXT);
+                INSERT INTO users VALUES (1, 'legacy@test.com', 'hash', 'L', 'T', '123', '1990', 'enc', 'abc', 'ny', 'NY', '10001', NULL);
+                INSERT INTO accounts VALUES (1, 1, '3001', 'checking', 0.1 + 0.2, 'active', NULL);
+                INSERT INTO transactions VALUES (1, 1, 'deposit', 0.29, NULL, 'completed', NULL, NULL);
+                INSERT INTO transactions VALUES (2, 1, 'deposit', 1234.56, NULL, 'completed', NULL, NULL);
+            `);
+
+            migrate(legacy);
+
+            expect(legacy.prepare("SELECT balance FROM accounts WHERE id = 1").pluck().get()).toBe(30);
+            expect(legacy.prepare("SELECT amount FROM transactions ORDER BY id").pluck().all()).toEqual([29, 123456]);
+            expect(legacy.prepare("SELECT typeof(balance) FROM accounts").pluck().get()).toBe("integer");
+            legacy.close();
+        });
+    });
 });
+
+// Helpers
+const bankSource = { type: "bank", accountNumber: "123", routingNumber: "021000021" } as const;
+
+async function insertUser(email: string, name = { firstName: "Test", lastName: "User" }) {
+    const [user] = await db.insert(users).values({
+        email, password: "hash", ...name,
+        phoneNumber: "123", dateOfBirth: "1990", ssn: "enc", address: "abc", city: "ny", state: "ny", zipCode: "10001"
+    }).returning();
+    return user;
+}
+
+async function insertAccount(userId: number, values: { accountNumber: string; accountType: string; status?: string; balance?: number; currency?: string }) {
+    const [account] = await db.insert(accounts).values({ userId, balance: 0, status: "active", ...values }).returning();
+    await db.insert(accountMembers).values({ accountId: account.id, userId, role: "owner" });
+    return account;
+}
@@ -1,5 +1,8 @@
 import { describe, it, expect } from "vitest";
 import { signupSchema, fundingSchema } from "../lib/validations";
+import { parseMoney } from "../lib/money";
+import { isValidRoutingNumber } from "../lib/routing-numbers";
+import { detectCardNetwork } from "../lib/card-networks";
 
 describe("Validation Logic", () => {
     describe("Signup Schema (VAL-201, 202, 203, 204, 208)", () => {
@@ -48,6 +51,7 @@ describe("Validation Logic", () => {
             const zero = { ...validFunding, amount: 0 };
             const result = fundingSchema.safeParse(zero);
             expect(result.success).toBe(false);
+            expect(result.error?.issues.map((issue) => issue.path)).toEqual([["amount"]]);
         });
 
         it("should require routing number for banks (VAL-207)", () => {
@@ -74,6 +78,54 @@ describe("Validation Logic", () => {
             const result = fundingSchema.safeParse(invalidLuhn);
             expect(result.success).toBe(false);
         });
+
+        it("should check bank routing numbers with the ABA checksum", () => {
+            expect(isValidRoutingNumber("021000021")).toBe(true);
+            expect(isValidRoutingNumber("123456789")).toBe(false);
+            expect(isValidRoutingNumber("02100002")).toBe(false);
+            const badRouting = { amount: 100, fundingSource: { type: "bank", accountNumber: "123", routingNumber: "123456789" } };
+            expect(fundingSchema.safeParse(badRouting).success).toBe(false);
+        });
+
+        it("should detect card networks and apply their length, expiry and security code rules", () => {
+            expect(detectCardNetwork("4111111111111111")).toBe("visa");
+            expect(detectCardNetwork("2221000000000009")).toBe("mastercard");
+            expect(detectCardNetwork("378282246310005")).toBe("amex");
+            expect(detectCardNetwork("6221260000000000")).toBe("discover");
+            expect(detectCardNetwork("37")).toBe("amex");
+            expect(detectCardNetwork("3530111333300000")).toBeNull();
+
+            const card = (fundingSource: object) =>
+                fundingSchema.safeParse({ amount: 100, fundingSource: { type: "card", expiryMonth: 12, expiryYear: 2099, ...fundingSource } });
+            expect(card({ accountNumber: "378282246310005", cvv: "1234" }).success).toBe(true);
+            expect(card({ accountNumber: "378282246310005", cvv: "123" }).success).toBe(false);
+            expect(card({ accountNumber: "4111111111111111", cvv: "123" }).success).toBe(true);
+            expect(card({ accountNumber: "411111111111116", cvv: "123" }).success).toBe(false); // Visa is never 15 digits
+            expect(card({ accountNumber: "4111111111111111" }).success).toBe(false);
+            expect(card({ accountNumber: "4111111111111111", cvv: "123", expiryYear: 2020 }).success).toBe(false);
+        });
+
+        it("should reject fractional cent amounts", () => {
+            const fractional = { ...validFunding, amount: 10.5 };
+            const result = fundingSchema.safeParse(fractional);
+            expect(result.success).toBe(false);
+            expect(result.error?.issues.map((issue) => issue.path)).toEqual([["amount"]]);
+        });
+    });
+
+    describe("Money Parsing", () => {
+        it("should parse dollar strings into integer cents", () => {
+            expect(parseMoney("0.29")).toBe(29);
+            expect(parseMoney("12")).toBe(1200);
+            expect(parseMoney("12.3")).toBe(1230);
+            expect(parseMoney("1234.56")).toBe(123456);
+        });
+
+        it("should reject malformed amounts", () => {
+            expect(parseMoney("12.345")).toBeNull();
+            expect(parseMoney("-5")).toBeNull();
+            expect(parseMoney("abc")).toBeNull();
+        });
     });
 });
 
@@ -93,9 +145,12 @@ const validUser = {
 };
 
 const validFunding = {
-    amount: 100,
+    amount: 10000,
     fundingSource: {
         type: "card",
         accountNumber: "4111111111111111", // Valid visa test card
+        expiryMonth: 12,
+        expiryYear: 2099,
+        cvv: "123",
     },
 };
@@ -0,0 +1,194 @@
+"use client";
+
+import { use, useState } from "react";
+import Link from "next/link";
+import { useRouter } from "next/navigation";
+import { trpc } from "@/lib/trpc/client";
+import { accountTypeLabel } from "@/lib/account-names";
+import { hasRole } from "@/lib/account-roles";
+import { accountStatusDescription, accountStatusStyle } from "@/lib/account-status";
+import { addDays, isoDate } from "@/lib/dates";
+import { maskAccountNumber } from "@/lib/masking";
+import { formatCurrency } from "@/lib/money";
+import { AccountMembers } from "@/components/AccountMembers";
+import { BalanceChart } from "@/components/BalanceChart";
+import { CloseAccountModal } from "@/components/CloseAccountModal";
+import { ExportMenu } from "@/components/ExportMenu";
+import { StatementList } from "@/components/StatementList";
+import { TransactionList } from "@/components/TransactionList";
+
+const RANGES = [
+  { days: 30, label: "30 days" },
+  { days: 90, label: "90 days" },
+  { days: 365, label: "1 year" },
+];
+
+export default function AccountDetailPage({ params }: { params: Promise<{ id: string }> }) {
+  const accountId = Number(use(params).id);
+  const router = useRouter();
+  const [rangeDays, setRangeDays] = useState(30);
+  const [isClosing, setIsClosing] = useState(false);
+
+  const utils = trpc.useUtils();
+  const { data: accounts, isLoading, refetch: refetchAccounts } = trpc.account.getAccounts.useQuery();
+  const account = accounts?.find((a) => a.id === accountId);
+  const { data: statusHistory, refetch: refetchStatusHistory } = trpc.account.getAccountStatusHistory.useQuery(
+    { accountId },
+    { enabled: Boolean(account) }
+  );
+
+  const refresh = () => {
+    refetchAccounts();
+    refetchStatusHistory();
+    utils.account.getTransactions.invalidate();
+  };
+  const reactivateMutation = trpc.account.reactivateAccount.useMutation({ onSuccess: refresh });
+
+  const today = isoDate(new Date());
+  const { data: history } = trpc.account.getBalanceHistory.useQuery(
+    { accountId, from: addDays(today, 1 - rangeDays), to: today },
+    { enabled: Boolean(account) }
+  );
+
+  if (isLoading) {
+    return <div className="p-8 text-gray-500 dark:text-gray-400">Loading account...</div>;
+  }
+
+  if (!account) {
+    return (
+      <div className="p-8">
+        <p className="text-red-600 mb-4">Account not found</p>
+        <Link href="/dashboard" className="text-sm text-blue-600 hover:underline">
+          Back to dashboard
+        </Link>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-gray-50 dark:bg-zinc-900">
+      <main className="max-w-7xl mx-auto py-6 sm:px-6 lg:px-8">
+        <div className="px-4 py-6 sm:px-0">
+          <Link href="/dashboard" className="text-sm text-blue-600 hover:underline">
+            Back to dashboard
+          </Link>
+
+          <div className="mt-4 mb-6 bg-white dark:bg-zinc-800 shadow rounded-lg px-6 py-5">
+            <h2 className="text-sm font-medium text-gray-500 dark:text-gray-400">
+              {account.nickname
+                ? `${account.nickname} · ${accountTypeLabel(account.accountType)} ${maskAccountNumber(account.accountNumber)}`
+                : `${accountTypeLabel(account.accountType)} Account ${maskAccountNumber(account.accountNumber)}`}
+            </h2>
+            <p className="mt-1 text-3xl font-semibold text-gray-900 dark:text-white">
+              {formatCurrency(account.balance, account.currency)}
+            </p>
+            {account.availableBalance !== account.balance && (
+              <p className="mt-1 text-sm text-gray-500 dark:text-gray-400">
+                Available: {formatCurrency(account.availableBalance, account.currency)}
+              </p>
+            )}
+            <div className="mt-2 flex items-center justify-between">
+              <p className="text-sm text-gray-500 dark:text-gray-400">
+                Status:{" "}
+                <span className={`font-medium ${accountStatusStyle(account.status ?? "pending")}`}>{account.status}</span>
+                {account.status !== "active" && ` · ${accountStatusDescription(account.status ?? "pending")}`}
+              </p>
+              <div className="flex space-x-3 text-sm">
+                {account.status === "dormant" && hasRole(account.role, "co_owner") && (
+                  <button
+                    onClick={() => reactivateMutation.mutate({ accountId: account.id })}
+                    disabled={reactivateMutation.isPending}
+                    className="text-blue-600 hover:underline disabled:opacity-50"
+                  >
+                    Reactivate
+                  </button>
+                )}
+                {account.status !== "closed" && account.status !== "frozen" && account.role === "owner" && (
+                  <button onClick={() => setIsClosing(true)} className="text-red-600 hover:underline">
+                    Close account
+                  </button>
+                )}
+              </div>
+            </div>
+            {reactivateMutation.error && <p className="mt-1 text-sm text-red-600">{reactivateMutation.error.message}</p>}
+          </div>
+
+          <div className="mb-8 bg-white dark:bg-zinc-800 shadow rounded-lg px-6 py-5">
+            <div className="flex items-center justify-between mb-4">
+              <h3 className="text-lg font-bold text-gray-900 dark:text-white">Balance History</h3>
+              <div className="flex space-x-2">
+                {RANGES.map((range) => (
+                  <button
+                    key={range.days}
+                    onClick={() => setRangeDays(range.days)}
+                    className={`px-3 py-1 text-sm rounded-md ${
+                      rangeDays === range.days
+                        ? "bg-blue-600 text-white"
+                        : "text-gray-700 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-zinc-700"
+                    }`}
+                  >
+                    {range.label}
+                  </button>
+                ))}
+              </div>
+            </div>
+            {history ? (
+              <BalanceChart days={history.days} currency={history.currency} />
+            ) : (
+              <p className="text-gray-500 dark:text-gray-400">Loading balance history...</p>
+            )}
+          </div>
+
+          <AccountMembers
+            accountId={account.id}
+            canInvite={account.status !== "closed"}
+            onLeave={() => {
+              utils.account.getAccounts.invalidate();
+              router.push("/dashboard");
+            }}
+          />
+
+          <div className="flex items-center justify-between mb-4">
+            <h3 className="text-xl font-bold text-gray-900 dark:text-white">Transaction History</h3>
+            <ExportMenu accountId={account.id} />
+          </div>
+          <TransactionList accountId={account.id} />
+
+          <h3 className="text-xl font-bold text-gray-900 dark:text-white mt-8 mb-4">Statements</h3>
+          <StatementList accountId={account.id} />
+
+          {statusHistory && statusHistory.length > 0 && (
+            <>
+              <h3 className="text-xl font-bold text-gray-900 dark:text-white mt-8 mb-4">Status History</h3>
+              <div className="bg-white dark:bg-zinc-800 shadow rounded-lg divide-y divide-gray-200 dark:divide-zinc-700">
+                {statusHistory.map((change, i) => (
+                  <div key={i} className="px-6 py-3 flex items-center justify-between text-sm">
+                    <div>
+                      <span className={`font-medium ${accountStatusStyle(change.toStatus)}`}>{change.toStatus}</span>
+                      <span className="ml-2 text-gray-500 dark:text-gray-400">{change.reason}</span>
+                    </div>
+                    <span className="text-xs text-gray-500 dark:text-gray-400">
+                      {change.createdAt ? new Date(`${change.createdAt.replace(" ", "T")}Z`).toLocaleString() : ""}
+                    </span>
+                  </div>
+                ))}
+              </div>
+            </>
+          )}
+        </div>
+      </main>
+
+      {isClosing && accounts && (
+        <CloseAccountModal
+          account={account}
+          accounts={accounts.filter((a) => hasRole(a.role, "co_owner"))}
+          onClose={() => setIsClosing(false)}
+          onSuccess={() => {
+            setIsClosing(false);
+            refresh();
+          }}
+        />
+      )}
+    </div>
+  );
+}
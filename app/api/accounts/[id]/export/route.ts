@@ -0,0 +1,55 @@
+import { TRPCError } from "@trpc/server";
+import { FetchCreateContextFnOptions } from "@trpc/server/adapters/fetch";
+import { getHTTPStatusCodeFromError } from "@trpc/server/http";
+import { db } from "@/lib/db";
+import { transactionExportSchema } from "@/lib/validations";
+import { createContext } from "@/server/trpc";
+import { EXPORT_CONTENT_TYPES, exportableAccount, exportFilename, exportTransactions } from "@/server/services/exports";
+
+// Streams an account's history as a download: /api/accounts/:id/export?format=csv|ofx|qif&from=YYYY-MM-DD&to=YYYY-MM-DD
+export async function GET(req: Request, { params }: { params: Promise<{ id: string }> }) {
+  const { id } = await params;
+  const { user } = await createContext({ req, resHeaders: new Headers() } as FetchCreateContextFnOptions);
+  if (!user) {
+    return new Response("Unauthorized", { status: 401 });
+  }
+
+  const searchParams = new URL(req.url).searchParams;
+  const parsed = transactionExportSchema.safeParse({
+    accountId: Number(id),
+    format: searchParams.get("format") ?? "csv",
+    from: searchParams.get("from") || undefined,
+    to: searchParams.get("to") || undefined,
+  });
+  if (!parsed.success) {
+    return new Response(parsed.error.issues[0].message, { status: 400 });
+  }
+
+  const { accountId, format, ...range } = parsed.data;
+  try {
+    const account = db.transaction((tx) => exportableAccount(tx, user.id, accountId));
+    const chunks = exportTransactions(account, format, range);
+    const encoder = new TextEncoder();
+
+    const body = new ReadableStream<Uint8Array>({
+      pull(controller) {
+        const next = chunks.next();
+        if (next.done) controller.close();
+        else controller.enqueue(encoder.encode(next.value));
+      },
+    });
+
+    return new Response(body, {
+      headers: {
+        "Content-Type": EXPORT_CONTENT_TYPES[format],
+        "Content-Disposition": `attachment; filename="${exportFilename(account, format, range)}"`,
+        "Cache-Control": "private, no-store",
+      },
+    });
+  } catch (error) {
+    if (error instanceof TRPCError) {
+      return new Response(error.message, { status: getHTTPStatusCodeFromError(error) });
+    }
+    throw error;
+  }
+}
@@ -0,0 +1,32 @@
+import { TRPCError } from "@trpc/server";
+import { FetchCreateContextFnOptions } from "@trpc/server/adapters/fetch";
+import { getHTTPStatusCodeFromError } from "@trpc/server/http";
+import { appRouter } from "@/server/routers";
+import { createCallerFactory, createContext } from "@/server/trpc";
+import { renderStatementPdf } from "@/server/services/statement-pdf";
+
+const createCaller = createCallerFactory(appRouter);
+
+// Statement download. Goes through the statements router so it gets the same session and ownership checks
+export async function GET(req: Request, { params }: { params: Promise<{ id: string }> }) {
+  const { id } = await params;
+  const caller = createCaller(await createContext({ req, resHeaders: new Headers() } as FetchCreateContextFnOptions));
+
+  try {
+    const statement = await caller.statements.getStatement({ statementId: Number(id) });
+    const filename = `statement-${statement.periodStart.slice(0, 7)}-${statement.account.accountNumber.slice(-4)}.pdf`;
+
+    return new Response(renderStatementPdf(statement), {
+      headers: {
+        "Content-Type": "application/pdf",
+        "Content-Disposition": `attachment; filename="${filename}"`,
+        "Cache-Control": "private, no-store",
+      },
+    });
+  } catch (error) {
+    if (error instanceof TRPCError) {
+      return new Response(error.message, { status: getHTTPStatusCodeFromError(error) });
+    }
+    throw error;
+  }
+}
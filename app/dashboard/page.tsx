@@ -1,34 +1,60 @@
 "use client";
 
 import { useState } from "react";
+import Link from "next/link";
 import { useRouter } from "next/navigation";
 import { trpc } from "@/lib/trpc/client";
+import { accountTypeLabel } from "@/lib/account-names";
+import { accountRoleLabel, hasRole } from "@/lib/account-roles";
+import { accountStatusStyle, canReceiveMoney, canSendMoney } from "@/lib/account-status";
+import { maskAccountNumber } from "@/lib/masking";
+import { formatCurrency } from "@/lib/money";
 import { AccountCreationModal } from "@/components/AccountCreationModal";
 import { FundingModal } from "@/components/FundingModal";
+import { FundingSourcesPanel } from "@/components/FundingSourcesPanel";
+import { TransferModal } from "@/components/TransferModal";
+import { RenameAccountModal } from "@/components/RenameAccountModal";
+import { SendMoneyModal } from "@/components/SendMoneyModal";
+import { WithdrawModal } from "@/components/WithdrawModal";
+import { ExportMenu } from "@/components/ExportMenu";
+import { InsightsPanel } from "@/components/InsightsPanel";
+import { PayeesPanel } from "@/components/PayeesPanel";
+import { InvitationBanner } from "@/components/InvitationBanner";
+import { ScheduledTransfers } from "@/components/ScheduledTransfers";
+import { StatementList } from "@/components/StatementList";
 import { TransactionList } from "@/components/TransactionList";
 
 export default function DashboardPage() {
   const router = useRouter();
   const [isCreatingAccount, setIsCreatingAccount] = useState(false);
   const [fundingAccountId, setFundingAccountId] = useState<number | null>(null);
+  const [transferFromAccountId, setTransferFromAccountId] = useState<number | null>(null);
+  const [sendFromAccountId, setSendFromAccountId] = useState<number | null>(null);
+  const [withdrawAccountId, setWithdrawAccountId] = useState<number | null>(null);
   const [selectedAccountId, setSelectedAccountId] = useState<number | null>(null);
+  const [renamingAccountId, setRenamingAccountId] = useState<number | null>(null);
 
   const { data: accounts, refetch: refetchAccounts } = trpc.account.getAccounts.useQuery();
   const utils = trpc.useUtils();
   const logoutMutation = trpc.auth.logout.useMutation();
+  const reorderMutation = trpc.account.reorderAccounts.useMutation({ onSuccess: () => refetchAccounts() });
+
+  // Accounts the user can move money in: their own and shared ones they co-own
+  const movableAccounts = accounts?.filter((a) => hasRole(a.role, "co_owner"));
+
+  // Swaps the account at `index` with its neighbour in `direction` (-1 earlier, 1 later)
+  const moveAccount = (index: number, direction: -1 | 1) => {
+    if (!accounts) return;
+    const ids = accounts.map((a) => a.id);
+    [ids[index], ids[index + direction]] = [ids[index + direction], ids[index]];
+    reorderMutation.mutate({ accountIds: ids });
+  };
 
   const handleLogout = async () => {
     await logoutMutation.mutateAsync();
     router.push("/");
   };
 
-  const formatCurrency = (amount: number) => {
-    return new Intl.NumberFormat("en-US", {
-      style: "currency",
-      currency: "USD",
-    }).format(amount);
-  };
-
   return (
     <div className="min-h-screen bg-gray-50 dark:bg-zinc-900">
       <nav className="bg-white dark:bg-zinc-800 shadow">
@@ -51,41 +77,146 @@ export default function DashboardPage() {
 
       <main className="max-w-7xl mx-auto py-6 sm:px-6 lg:px-8">
         <div className="px-4 py-6 sm:px-0">
+          <InvitationBanner onAccepted={() => refetchAccounts()} />
+
           <div className="mb-6">
             <h2 className="text-2xl font-bold text-gray-900 dark:text-white mb-4">Your Accounts</h2>
 
             {accounts && accounts.length > 0 ? (
               <div className="grid gap-4 md:grid-cols-2 lg:grid-cols-3">
-                {accounts.map((account) => (
+                {accounts.map((account, index) => (
                   <div
                     key={account.id}
                     className="bg-white dark:bg-zinc-800 overflow-hidden shadow rounded-lg cursor-pointer hover:shadow-lg transition"
                     onClick={() => setSelectedAccountId(account.id)}
                   >
                     <div className="px-4 py-5 sm:p-6">
-                      <dt className="text-sm font-medium text-gray-500 dark:text-gray-400 truncate">
-                        {account.accountType.charAt(0).toUpperCase() + account.accountType.slice(1)} Account
-                      </dt>
-                      <dd className="mt-1 text-3xl font-semibold text-gray-900 dark:text-white">{formatCurrency(account.balance)}</dd>
-                      <dd className="mt-1 text-sm text-gray-500 dark:text-gray-400">Account: ****{account.accountNumber.slice(-4)}</dd>
+                      <div className="flex items-start justify-between">
+                        <dt className="text-sm font-medium text-gray-500 dark:text-gray-400 truncate">
+                          {account.nickname ? (
+                            <>
+                              <span className="text-gray-900 dark:text-white">{account.nickname}</span> ·{" "}
+                              {accountTypeLabel(account.accountType)}
+                            </>
+                          ) : (
+                            `${accountTypeLabel(account.accountType)} Account`
+                          )}
+                          {account.currency !== "USD" && ` (${account.currency})`}
+                        </dt>
+                        <div className="flex space-x-2 text-xs text-gray-500 dark:text-gray-400">
+                          {index > 0 && (
+                            <button
+                              onClick={(e) => {
+                                e.stopPropagation();
+                                moveAccount(index, -1);
+                              }}
+                              className="hover:text-gray-900 dark:hover:text-white"
+                              aria-label="Move left"
+                            >
+                              ←
+                            </button>
+                          )}
+                          {index < accounts.length - 1 && (
+                            <button
+                              onClick={(e) => {
+                                e.stopPropagation();
+                                moveAccount(index, 1);
+                              }}
+                              className="hover:text-gray-900 dark:hover:text-white"
+                              aria-label="Move right"
+                            >
+                              →
+                            </button>
+                          )}
+                          {hasRole(account.role, "co_owner") && (
+                            <button
+                              onClick={(e) => {
+                                e.stopPropagation();
+                                setRenamingAccountId(account.id);
+                              }}
+                              className="text-blue-600 hover:underline"
+                            >
+                              Rename
+                            </button>
+                          )}
+                        </div>
+                      </div>
+                      <dd className="mt-1 text-3xl font-semibold text-gray-900 dark:text-white">{formatCurrency(account.balance, account.currency)}</dd>
+                      {account.availableBalance !== account.balance && (
+                        <dd className="mt-1 text-sm text-gray-500 dark:text-gray-400">
+                          Available: {formatCurrency(account.availableBalance, account.currency)}
+                        </dd>
+                      )}
                       <dd className="mt-1 text-sm text-gray-500 dark:text-gray-400">
-                        Status:{" "}
-                        <span
-                          className={`font-medium ${account.status === "active" ? "text-green-600" : "text-yellow-600"
-                            }`}
+                        Account: {maskAccountNumber(account.accountNumber)} ·{" "}
+                        <Link
+                          href={`/accounts/${account.id}`}
+                          onClick={(e) => e.stopPropagation()}
+                          className="text-blue-600 hover:underline"
                         >
+                          Details
+                        </Link>
+                      </dd>
+                      {account.apyBps > 0 && (
+                        <dd className="mt-1 text-sm text-gray-500 dark:text-gray-400">
+                          {(account.apyBps / 100).toFixed(2)}% APY · Interest YTD: {formatCurrency(account.ytdInterest, account.currency)}
+                        </dd>
+                      )}
+                      <dd className="mt-1 text-sm text-gray-500 dark:text-gray-400">
+                        Status:{" "}
+                        <span className={`font-medium ${accountStatusStyle(account.status ?? "pending")}`}>
                           {account.status}
                         </span>
+                        {account.role !== "owner" && ` · Shared with you (${accountRoleLabel(account.role).toLowerCase()})`}
                       </dd>
-                      <button
-                        onClick={(e) => {
-                          e.stopPropagation();
-                          setFundingAccountId(account.id);
-                        }}
-                        className="mt-4 w-full bg-blue-600 text-white px-4 py-2 rounded-md text-sm font-medium hover:bg-blue-700"
-                      >
-                        Fund Account
-                      </button>
+                      {hasRole(account.role, "co_owner") && (
+                        <div className="mt-4 grid grid-cols-2 gap-2">
+                          {canReceiveMoney(account.status ?? "pending") && (
+                            <button
+                              onClick={(e) => {
+                                e.stopPropagation();
+                                setFundingAccountId(account.id);
+                              }}
+                              className="col-span-2 bg-blue-600 text-white px-4 py-2 rounded-md text-sm font-medium hover:bg-blue-700"
+                            >
+                              Fund Account
+                            </button>
+                          )}
+                          {canSendMoney(account.status ?? "pending") && movableAccounts!.length > 1 && (
+                            <button
+                              onClick={(e) => {
+                                e.stopPropagation();
+                                setTransferFromAccountId(account.id);
+                              }}
+                              className="bg-white text-blue-600 border border-blue-600 px-4 py-2 rounded-md text-sm font-medium hover:bg-blue-50 dark:bg-zinc-700 dark:hover:bg-zinc-600"
+                            >
+                              Transfer
+                            </button>
+                          )}
+                          {canSendMoney(account.status ?? "pending") && (
+                            <>
+                              <button
+                                onClick={(e) => {
+                                  e.stopPropagation();
+                                  setSendFromAccountId(account.id);
+                                }}
+                                className="bg-white text-blue-600 border border-blue-600 px-4 py-2 rounded-md text-sm font-medium hover:bg-blue-50 dark:bg-zinc-700 dark:hover:bg-zinc-600"
+                              >
+                                Send
+                              </button>
+                              <button
+                                onClick={(e) => {
+                                  e.stopPropagation();
+                                  setWithdrawAccountId(account.id);
+                                }}
+                                className="bg-white text-blue-600 border border-blue-600 px-4 py-2 rounded-md text-sm font-medium hover:bg-blue-50 dark:bg-zinc-700 dark:hover:bg-zinc-600"
+                              >
+                                Withdraw
+                              </button>
+                            </>
+                          )}
+                        </div>
+                      )}
                     </div>
                   </div>
                 ))}
@@ -104,10 +235,24 @@ export default function DashboardPage() {
             </button>
           </div>
 
+          {movableAccounts && movableAccounts.length > 1 && <ScheduledTransfers accounts={movableAccounts} />}
+
+          {accounts && accounts.length > 0 && <InsightsPanel />}
+
+          {accounts && accounts.length > 0 && <PayeesPanel />}
+
+          {accounts && accounts.length > 0 && <FundingSourcesPanel />}
+
           {selectedAccountId && (
             <div className="mt-8">
-              <h3 className="text-xl font-bold text-gray-900 dark:text-white mb-4">Transaction History</h3>
+              <div className="flex items-center justify-between mb-4">
+                <h3 className="text-xl font-bold text-gray-900 dark:text-white">Transaction History</h3>
+                <ExportMenu accountId={selectedAccountId} />
+              </div>
               <TransactionList accountId={selectedAccountId} />
+
+              <h3 className="text-xl font-bold text-gray-900 dark:text-white mt-8 mb-4">Statements</h3>
+              <StatementList accountId={selectedAccountId} />
             </div>
           )}
         </div>
@@ -123,6 +268,17 @@ export default function DashboardPage() {
         />
       )}
 
+      {renamingAccountId && accounts && (
+        <RenameAccountModal
+          account={accounts.find((a) => a.id === renamingAccountId)!}
+          onClose={() => setRenamingAccountId(null)}
+          onSuccess={() => {
+            setRenamingAccountId(null);
+            refetchAccounts();
+          }}
+        />
+      )}
+
       {fundingAccountId && (
         <FundingModal
           accountId={fundingAccountId}
@@ -131,6 +287,55 @@ export default function DashboardPage() {
             setFundingAccountId(null);
             refetchAccounts();
             utils.account.getTransactions.invalidate();
+            utils.insights.invalidate();
+          }}
+        />
+      )}
+
+      {sendFromAccountId && (
+        <SendMoneyModal
+          fromAccountId={sendFromAccountId}
+          onClose={() => setSendFromAccountId(null)}
+          onSuccess={() => {
+            setSendFromAccountId(null);
+            refetchAccounts();
+            utils.account.getTransactions.invalidate();
+            utils.insights.invalidate();
+          }}
+        />
+      )}
+
+      {withdrawAccountId && accounts && (
+        <WithdrawModal
+          accountId={withdrawAccountId}
+          canUseOverdraftProtection={accounts.some(
+            (a) =>
+              a.accountType === "savings" &&
+              a.status === "active" &&
+              a.id !== withdrawAccountId &&
+              hasRole(a.role, "co_owner")
+          )}
+          onClose={() => setWithdrawAccountId(null)}
+          onSuccess={() => {
+            setWithdrawAccountId(null);
+            refetchAccounts();
+            utils.account.getTransactions.invalidate();
+            utils.insights.invalidate();
+          }}
+        />
+      )}
+
+      {transferFromAccountId && movableAccounts && (
+        <TransferModal
+          accounts={movableAccounts}
+          fromAccountId={transferFromAccountId}
+          onClose={() => setTransferFromAccountId(null)}
+          onSuccess={() => {
+            setTransferFromAccountId(null);
+            refetchAccounts();
+            utils.account.getTransactions.invalidate();
+            utils.insights.invalidate();
+            utils.account.getScheduledTransfers.invalidate();
           }}
         />
       )}
@@ -0,0 +1,114 @@
+"use client";
+
+import { use } from "react";
+import Link from "next/link";
+import { trpc } from "@/lib/trpc/client";
+import { formatMonth } from "@/lib/dates";
+import { formatCurrency } from "@/lib/money";
+import { transactionTypeLabel } from "@/lib/transaction-types";
+
+const formatDay = (date: string) =>
+  new Date(`${date}T00:00:00Z`).toLocaleDateString("en-US", { month: "short", day: "numeric", timeZone: "UTC" });
+
+// Printable statement: the browser's print dialog (or "Save as PDF") gets the page without the toolbar
+export default function StatementPage({ params }: { params: Promise<{ id: string }> }) {
+  const { id } = use(params);
+  const { data: statement, isLoading, error } = trpc.statements.getStatement.useQuery({ statementId: Number(id) });
+
+  if (isLoading) {
+    return <div className="p-8 text-gray-500">Loading statement...</div>;
+  }
+
+  if (!statement) {
+    return <div className="p-8 text-red-600">{error?.message ?? "Statement not found"}</div>;
+  }
+
+  const money = (amount: number) => formatCurrency(amount, statement.currency);
+  const summary: [string, number][] = [
+    ["Opening balance", statement.openingBalance],
+    ["Money in", statement.totalCredits],
+    ["Money out", -statement.totalDebits],
+    ["Interest paid", statement.interestPaid],
+    ["Fees charged", -statement.feesCharged],
+    ["Closing balance", statement.closingBalance],
+  ];
+
+  return (
+    <div className="min-h-screen bg-white text-gray-900">
+      <div className="max-w-3xl mx-auto p-8">
+        <div className="flex justify-between mb-8 print:hidden">
+          <Link href="/dashboard" className="text-sm text-blue-600 hover:underline">
+            Back to dashboard
+          </Link>
+          <div className="flex space-x-4 text-sm">
+            <a href={`/api/statements/${statement.id}/pdf`} className="text-blue-600 hover:underline">
+              Download PDF
+            </a>
+            <button onClick={() => window.print()} className="text-blue-600 hover:underline">
+              Print
+            </button>
+          </div>
+        </div>
+
+        <h1 className="text-2xl font-bold">SecureBank</h1>
+        <h2 className="text-lg font-semibold mb-6">Statement for {formatMonth(statement.periodStart)}</h2>
+
+        <div className="flex justify-between mb-8 text-sm">
+          <div>
+            <p className="font-semibold">{statement.customer.name}</p>
+            {statement.customer.address.map((line) => (
+              <p key={line}>{line}</p>
+            ))}
+          </div>
+          <div className="text-right">
+            <p className="capitalize">
+              {statement.account.accountType} account {statement.account.accountNumber}
+            </p>
+            <p>
+              {formatDay(statement.periodStart)} - {formatDay(statement.periodEnd)}
+            </p>
+          </div>
+        </div>
+
+        <table className="mb-8 text-sm">
+          <tbody>
+            {summary.map(([label, amount], i) => (
+              <tr key={label} className={i === 0 || i === summary.length - 1 ? "font-semibold" : ""}>
+                <td className="pr-12 py-1">{label}</td>
+                <td className="py-1 text-right">{money(amount)}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+
+        <table className="min-w-full text-sm">
+          <thead className="border-b border-gray-300">
+            <tr>
+              <th className="py-2 text-left font-semibold">Date</th>
+              <th className="py-2 text-left font-semibold">Description</th>
+              <th className="py-2 text-right font-semibold">Amount</th>
+              <th className="py-2 text-right font-semibold">Balance</th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-gray-200">
+            {statement.lines.length === 0 && (
+              <tr>
+                <td colSpan={4} className="py-4 text-gray-500">
+                  No transactions this period.
+                </td>
+              </tr>
+            )}
+            {statement.lines.map((line, i) => (
+              <tr key={i}>
+                <td className="py-2 whitespace-nowrap">{formatDay(line.date)}</td>
+                <td className="py-2">{line.description || transactionTypeLabel(line.type)}</td>
+                <td className={`py-2 text-right ${line.amount > 0 ? "text-green-600" : ""}`}>{money(line.amount)}</td>
+                <td className="py-2 text-right">{money(line.balance)}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+}
@@ -2,6 +2,7 @@
 
 import { useState } from "react";
 import { trpc } from "@/lib/trpc/client";
+import { CURRENCIES, type CurrencyCode } from "@/lib/money";
 
 interface AccountCreationModalProps {
   onClose: () => void;
@@ -10,6 +11,8 @@ interface AccountCreationModalProps {
 
 export function AccountCreationModal({ onClose, onSuccess }: AccountCreationModalProps) {
   const [accountType, setAccountType] = useState<"checking" | "savings">("checking");
+  const [currency, setCurrency] = useState<CurrencyCode>("USD");
+  const [nickname, setNickname] = useState("");
   const [error, setError] = useState("");
 
   const createAccountMutation = trpc.account.createAccount.useMutation();
@@ -19,7 +22,7 @@ export function AccountCreationModal({ onClose, onSuccess }: AccountCreationModa
     setError("");
 
     try {
-      await createAccountMutation.mutateAsync({ accountType });
+      await createAccountMutation.mutateAsync({ accountType, currency, nickname: nickname.trim() || undefined });
       onSuccess();
     } catch (err: unknown) {
       if (err instanceof Error) {
@@ -62,6 +65,33 @@ export function AccountCreationModal({ onClose, onSuccess }: AccountCreationModa
             </div>
           </div>
 
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">Currency</label>
+            <select
+              value={currency}
+              onChange={(e) => setCurrency(e.target.value as CurrencyCode)}
+              className="block w-full rounded-md border-gray-300 shadow-sm sm:text-sm p-2 border"
+            >
+              {CURRENCIES.map((code) => (
+                <option key={code} value={code}>
+                  {code}
+                </option>
+              ))}
+            </select>
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">Nickname (optional)</label>
+            <input
+              type="text"
+              value={nickname}
+              onChange={(e) => setNickname(e.target.value)}
+              maxLength={30}
+              placeholder="e.g. Rent, Vacation"
+              className="block w-full rounded-md border-gray-300 shadow-sm sm:text-sm p-2 border"
+            />
+          </div>
+
           {error && <div className="text-sm text-red-600">{error}</div>}
 
           <div className="flex justify-end space-x-3">
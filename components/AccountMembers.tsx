@@ -0,0 +1,140 @@
+"use client";
+
+import { useState } from "react";
+import { useForm } from "react-hook-form";
+import { trpc } from "@/lib/trpc/client";
+import { accountRoleLabel, INVITABLE_ROLES } from "@/lib/account-roles";
+
+interface AccountMembersProps {
+  accountId: number;
+  canInvite: boolean; // false once the account is closed
+  onLeave: () => void;
+}
+
+type InviteFormData = {
+  email: string;
+  role: (typeof INVITABLE_ROLES)[number];
+};
+
+export function AccountMembers({ accountId, canInvite, onLeave }: AccountMembersProps) {
+  const [error, setError] = useState("");
+  const { data, refetch } = trpc.members.getMembers.useQuery({ accountId });
+
+  const inviteMutation = trpc.members.invite.useMutation({ onSuccess: () => refetch() });
+  const revokeMutation = trpc.members.revokeInvitation.useMutation({ onSuccess: () => refetch() });
+  const removeMutation = trpc.members.removeMember.useMutation({ onSuccess: () => refetch() });
+  const leaveMutation = trpc.members.leaveAccount.useMutation({ onSuccess: onLeave });
+
+  const {
+    register,
+    handleSubmit,
+    reset,
+    formState: { errors },
+  } = useForm<InviteFormData>({ defaultValues: { email: "", role: "co_owner" } });
+
+  const onSubmit = async (form: InviteFormData) => {
+    setError("");
+
+    try {
+      await inviteMutation.mutateAsync({ accountId, email: form.email, role: form.role });
+      reset({ email: "", role: form.role });
+    } catch (err: unknown) {
+      if (err instanceof Error) {
+        setError(err.message || "Failed to send invitation");
+      } else {
+        setError("Failed to send invitation");
+      }
+    }
+  };
+
+  if (!data) return null;
+  const isOwner = data.role === "owner";
+
+  return (
+    <div className="mb-8 bg-white dark:bg-zinc-800 shadow rounded-lg px-6 py-5">
+      <div className="flex items-center justify-between mb-4">
+        <h3 className="text-lg font-bold text-gray-900 dark:text-white">Members</h3>
+        {!isOwner && (
+          <button
+            onClick={() => leaveMutation.mutate({ accountId })}
+            disabled={leaveMutation.isPending}
+            className="text-sm text-red-600 hover:underline disabled:opacity-50"
+          >
+            Leave account
+          </button>
+        )}
+      </div>
+
+      <div className="divide-y divide-gray-200 dark:divide-zinc-700">
+        {data.members.map((member) => (
+          <div key={member.userId} className="py-2 flex items-center justify-between text-sm">
+            <span className="text-gray-900 dark:text-gray-100">
+              {member.firstName} {member.lastName}
+              <span className="ml-2 text-gray-500 dark:text-gray-400">{member.email}</span>
+            </span>
+            <span className="text-gray-500 dark:text-gray-400">
+              {accountRoleLabel(member.role)}
+              {isOwner && member.role !== "owner" && (
+                <button
+                  onClick={() => removeMutation.mutate({ accountId, userId: member.userId })}
+                  className="ml-3 text-red-600 hover:underline"
+                >
+                  Remove
+                </button>
+              )}
+            </span>
+          </div>
+        ))}
+        {data.invitations.map((invitation) => (
+          <div key={invitation.id} className="py-2 flex items-center justify-between text-sm">
+            <span className="text-gray-500 dark:text-gray-400">{invitation.email} (invited)</span>
+            <span className="text-gray-500 dark:text-gray-400">
+              {accountRoleLabel(invitation.role)}
+              <button
+                onClick={() => revokeMutation.mutate({ invitationId: invitation.id })}
+                className="ml-3 text-red-600 hover:underline"
+              >
+                Revoke
+              </button>
+            </span>
+          </div>
+        ))}
+      </div>
+
+      {isOwner && canInvite && (
+        <form onSubmit={handleSubmit(onSubmit)} className="mt-4 flex items-start space-x-2">
+          <div className="flex-1">
+            <input
+              {...register("email", { required: "Email is required" })}
+              type="email"
+              placeholder="Email of an existing customer"
+              className="block w-full rounded-md border-gray-300 dark:border-zinc-600 shadow-sm focus:border-blue-500 focus:ring-blue-500 sm:text-sm p-2 border dark:bg-zinc-700 dark:text-white"
+            />
+            {errors.email && <p className="mt-1 text-sm text-red-600">{errors.email.message}</p>}
+          </div>
+          <select
+            {...register("role")}
+            className="block rounded-md border-gray-300 dark:border-zinc-600 shadow-sm focus:border-blue-500 focus:ring-blue-500 sm:text-sm p-2 border dark:bg-zinc-700 dark:text-white"
+          >
+            {INVITABLE_ROLES.map((role) => (
+              <option key={role} value={role}>
+                {accountRoleLabel(role)}
+              </option>
+            ))}
+          </select>
+          <button
+            type="submit"
+            disabled={inviteMutation.isPending}
+            className="px-4 py-2 text-sm font-medium text-white bg-blue-600 rounded-md hover:bg-blue-700 disabled:opacity-50"
+          >
+            Invite
+          </button>
+        </form>
+      )}
+      {error && <p className="mt-2 text-sm text-red-600">{error}</p>}
+      {(removeMutation.error || leaveMutation.error) && (
+        <p className="mt-2 text-sm text-red-600">{(removeMutation.error ?? leaveMutation.error)?.message}</p>
+      )}
+    </div>
+  );
+}
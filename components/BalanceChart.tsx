@@ -0,0 +1,60 @@
+"use client";
+
+import { formatCurrency, type Money } from "@/lib/money";
+
+interface BalanceChartProps {
+  days: { date: string; balance: Money }[];
+  currency: string;
+}
+
+const WIDTH = 600;
+const HEIGHT = 200;
+const PADDING = 8;
+
+const formatDay = (date: string) =>
+  new Date(`${date}T00:00:00Z`).toLocaleDateString("en-US", { month: "short", day: "numeric", timeZone: "UTC" });
+
+// End-of-day balances as a plain SVG line chart; hover a point for its date and balance
+export function BalanceChart({ days, currency }: BalanceChartProps) {
+  if (days.length === 0) return null;
+
+  const balances = days.map((day) => day.balance);
+  const min = Math.min(0, ...balances);
+  const max = Math.max(...balances);
+  const range = max - min || 1;
+
+  const points = days.map((day, i) => ({
+    ...day,
+    x: PADDING + (days.length === 1 ? 0 : (i / (days.length - 1)) * (WIDTH - 2 * PADDING)),
+    y: HEIGHT - PADDING - ((day.balance - min) / range) * (HEIGHT - 2 * PADDING),
+  }));
+  const zeroY = HEIGHT - PADDING - ((0 - min) / range) * (HEIGHT - 2 * PADDING);
+
+  return (
+    <div>
+      <div className="flex justify-between text-xs text-gray-500 dark:text-gray-400 mb-1">
+        <span>High: {formatCurrency(max, currency)}</span>
+        <span>Low: {formatCurrency(Math.min(...balances), currency)}</span>
+      </div>
+      <svg viewBox={`0 0 ${WIDTH} ${HEIGHT}`} className="w-full h-48" preserveAspectRatio="none">
+        <line x1={0} x2={WIDTH} y1={zeroY} y2={zeroY} className="stroke-gray-300 dark:stroke-zinc-600" strokeWidth={1} />
+        <polyline
+          points={points.map((p) => `${p.x},${p.y}`).join(" ")}
+          fill="none"
+          className="stroke-blue-600"
+          strokeWidth={2}
+          vectorEffect="non-scaling-stroke"
+        />
+        {points.map((p) => (
+          <circle key={p.date} cx={p.x} cy={p.y} r={4} className="fill-transparent hover:fill-blue-600">
+            <title>{`${formatDay(p.date)}: ${formatCurrency(p.balance, currency)}`}</title>
+          </circle>
+        ))}
+      </svg>
+      <div className="flex justify-between text-xs text-gray-500 dark:text-gray-400 mt-1">
+        <span>{formatDay(days[0].date)}</span>
+        <span>{formatDay(days[days.length - 1].date)}</span>
+      </div>
+    </div>
+  );
+}
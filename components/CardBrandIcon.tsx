@@ -0,0 +1,57 @@
+import { cardNetworkLabel, type CardNetwork } from "@/lib/card-networks";
+
+interface CardBrandIconProps {
+  network: CardNetwork | null;
+  dimmed?: boolean;
+}
+
+// A small card-shaped logo for each network; a blank card when the network isn't known yet
+export function CardBrandIcon({ network, dimmed = false }: CardBrandIconProps) {
+  return (
+    <svg
+      viewBox="0 0 40 26"
+      className={`h-6 w-9 shrink-0 transition-opacity ${dimmed ? "opacity-30" : ""}`}
+      role="img"
+      aria-label={network ? cardNetworkLabel(network) : "Card"}
+    >
+      {network === "visa" && (
+        <>
+          <rect width="40" height="26" rx="3" fill="#1A1F71" />
+          <text x="20" y="17" textAnchor="middle" fontSize="10" fontWeight="bold" fontStyle="italic" fill="#fff">
+            VISA
+          </text>
+        </>
+      )}
+      {network === "mastercard" && (
+        <>
+          <rect width="40" height="26" rx="3" fill="#222" />
+          <circle cx="16" cy="13" r="7" fill="#EB001B" />
+          <circle cx="24" cy="13" r="7" fill="#F79E1B" fillOpacity="0.9" />
+        </>
+      )}
+      {network === "amex" && (
+        <>
+          <rect width="40" height="26" rx="3" fill="#2E77BC" />
+          <text x="20" y="16.5" textAnchor="middle" fontSize="8" fontWeight="bold" fill="#fff">
+            AMEX
+          </text>
+        </>
+      )}
+      {network === "discover" && (
+        <>
+          <rect width="40" height="26" rx="3" fill="#fff" stroke="#d1d5db" />
+          <circle cx="28" cy="13" r="5" fill="#F58220" />
+          <text x="15" y="15.5" textAnchor="middle" fontSize="5.5" fontWeight="bold" fill="#231F20">
+            DISC
+          </text>
+        </>
+      )}
+      {network === null && (
+        <>
+          <rect width="40" height="26" rx="3" fill="#e5e7eb" />
+          <rect y="6" width="40" height="4" fill="#9ca3af" />
+        </>
+      )}
+    </svg>
+  );
+}
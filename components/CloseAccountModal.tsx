@@ -0,0 +1,136 @@
+"use client";
+
+import { useState } from "react";
+import { useForm } from "react-hook-form";
+import { trpc } from "@/lib/trpc/client";
+import { canReceiveMoney } from "@/lib/account-status";
+import { accountName } from "@/lib/account-names";
+import { formatCurrency } from "@/lib/money";
+
+type Account = {
+  id: number;
+  accountType: string;
+  accountNumber: string;
+  nickname: string | null;
+  currency: string;
+  balance: number;
+  status: string | null;
+};
+
+interface CloseAccountModalProps {
+  account: Account;
+  accounts: Account[];
+  onClose: () => void;
+  onSuccess: () => void;
+}
+
+type CloseFormData = {
+  sweepToAccountId: string;
+  reason: string;
+};
+
+export function CloseAccountModal({ account, accounts, onClose, onSuccess }: CloseAccountModalProps) {
+  const [error, setError] = useState("");
+  const destinations = accounts.filter((a) => a.id !== account.id && canReceiveMoney(a.status ?? "pending"));
+  const needsSweep = account.balance > 0;
+
+  const {
+    register,
+    handleSubmit,
+    formState: { errors },
+  } = useForm<CloseFormData>({
+    defaultValues: { sweepToAccountId: destinations[0] ? String(destinations[0].id) : "", reason: "" },
+  });
+
+  const closeMutation = trpc.account.closeAccount.useMutation();
+
+  const onSubmit = async (data: CloseFormData) => {
+    setError("");
+
+    try {
+      await closeMutation.mutateAsync({
+        accountId: account.id,
+        sweepToAccountId: needsSweep ? Number(data.sweepToAccountId) : undefined,
+        reason: data.reason || undefined,
+      });
+
+      onSuccess();
+    } catch (err: unknown) {
+      if (err instanceof Error) {
+        setError(err.message || "Failed to close account");
+      } else {
+        setError("Failed to close account");
+      }
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-gray-500 bg-opacity-75 flex items-center justify-center p-4">
+      <div className="bg-white dark:bg-zinc-800 rounded-lg max-w-md w-full p-6">
+        <h3 className="text-lg font-medium text-gray-900 dark:text-white mb-4">Close {accountName(account)}</h3>
+
+        <form onSubmit={handleSubmit(onSubmit)} className="space-y-4">
+          {needsSweep &&
+            (destinations.length > 0 ? (
+              <div>
+                <label className="block text-sm font-medium text-gray-700 dark:text-gray-300">
+                  Move the remaining {formatCurrency(account.balance, account.currency)} to
+                </label>
+                <select
+                  {...register("sweepToAccountId", { required: "Choose an account" })}
+                  className="mt-1 block w-full rounded-md border-gray-300 dark:border-zinc-600 shadow-sm focus:border-blue-500 focus:ring-blue-500 sm:text-sm p-2 border dark:bg-zinc-700 dark:text-white"
+                >
+                  {destinations.map((a) => (
+                    <option key={a.id} value={a.id}>
+                      {accountName(a)}
+                      {a.currency !== account.currency && ` (${a.currency})`}
+                    </option>
+                  ))}
+                </select>
+                {errors.sweepToAccountId && <p className="mt-1 text-sm text-red-600">{errors.sweepToAccountId.message}</p>}
+              </div>
+            ) : (
+              <p className="text-sm text-gray-700 dark:text-gray-300">
+                This account still holds {formatCurrency(account.balance, account.currency)}. Withdraw it, or open another
+                account to move it to, before closing.
+              </p>
+            ))}
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 dark:text-gray-300">Reason (optional)</label>
+            <input
+              {...register("reason", { maxLength: { value: 200, message: "Reason must be 200 characters or less" } })}
+              type="text"
+              className="mt-1 block w-full rounded-md border-gray-300 dark:border-zinc-600 shadow-sm focus:border-blue-500 focus:ring-blue-500 sm:text-sm p-2 border dark:bg-zinc-700 dark:text-white"
+            />
+            {errors.reason && <p className="mt-1 text-sm text-red-600">{errors.reason.message}</p>}
+          </div>
+
+          <p className="text-xs text-gray-500 dark:text-gray-400">
+            Interest earned so far is paid before closing. Scheduled transfers to or from this account are cancelled, and
+            a closed account cannot be reopened.
+          </p>
+
+          {error && <div className="text-sm text-red-600">{error}</div>}
+
+          <div className="flex justify-end space-x-3">
+            <button
+              type="button"
+              onClick={onClose}
+              className="px-4 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-md hover:bg-gray-50 dark:bg-zinc-700 dark:border-zinc-600 dark:text-gray-200 dark:hover:bg-zinc-600"
+            >
+              Cancel
+            </button>
+            <button
+              type="submit"
+              disabled={closeMutation.isPending || (needsSweep && destinations.length === 0)}
+              className="px-4 py-2 text-sm font-medium text-white bg-red-600 border border-transparent rounded-md hover:bg-red-700 disabled:opacity-50"
+            >
+              {closeMutation.isPending ? "Closing..." : "Close Account"}
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,84 @@
+"use client";
+
+import { useState } from "react";
+
+interface ExportMenuProps {
+  accountId: number;
+}
+
+const FORMATS = [
+  { value: "csv", label: "CSV (spreadsheets)" },
+  { value: "ofx", label: "OFX (Quicken, GnuCash, ...)" },
+  { value: "qif", label: "QIF (older finance apps)" },
+];
+
+export function ExportMenu({ accountId }: ExportMenuProps) {
+  const [isOpen, setIsOpen] = useState(false);
+  const [format, setFormat] = useState("csv");
+  const [from, setFrom] = useState("");
+  const [to, setTo] = useState("");
+
+  const params = new URLSearchParams({ format });
+  if (from) params.set("from", from);
+  if (to) params.set("to", to);
+  const invalidRange = Boolean(from && to && to < from);
+
+  return (
+    <div className="relative">
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className="px-4 py-2 text-sm font-medium text-blue-600 border border-blue-600 rounded-md hover:bg-blue-50 dark:bg-zinc-700 dark:hover:bg-zinc-600"
+      >
+        Export
+      </button>
+
+      {isOpen && (
+        <div className="absolute right-0 z-10 mt-2 w-72 bg-white dark:bg-zinc-800 shadow-lg rounded-lg p-4 space-y-3">
+          <div>
+            <label className="block text-sm font-medium text-gray-700 dark:text-gray-300">Format</label>
+            <select
+              value={format}
+              onChange={(e) => setFormat(e.target.value)}
+              className="mt-1 block w-full rounded-md border-gray-300 dark:border-zinc-600 shadow-sm sm:text-sm p-2 border dark:bg-zinc-700 dark:text-white"
+            >
+              {FORMATS.map((f) => (
+                <option key={f.value} value={f.value}>
+                  {f.label}
+                </option>
+              ))}
+            </select>
+          </div>
+          <div className="grid grid-cols-2 gap-2">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 dark:text-gray-300">From</label>
+              <input
+                type="date"
+                value={from}
+                onChange={(e) => setFrom(e.target.value)}
+                className="mt-1 block w-full rounded-md border-gray-300 dark:border-zinc-600 shadow-sm sm:text-sm p-2 border dark:bg-zinc-700 dark:text-white"
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 dark:text-gray-300">To</label>
+              <input
+                type="date"
+                value={to}
+                onChange={(e) => setTo(e.target.value)}
+                className="mt-1 block w-full rounded-md border-gray-300 dark:border-zinc-600 shadow-sm sm:text-sm p-2 border dark:bg-zinc-700 dark:text-white"
+              />
+            </div>
+          </div>
+          {invalidRange && <p className="text-sm text-red-600">End date must be on or after the start date</p>}
+          <p className="text-xs text-gray-500 dark:text-gray-400">Leave the dates empty to export your whole history. Pending transactions are left out.</p>
+          <a
+            href={invalidRange ? undefined : `/api/accounts/${accountId}/export?${params}`}
+            onClick={() => !invalidRange && setIsOpen(false)}
+            className={`block text-center px-4 py-2 text-sm font-medium text-white bg-blue-600 rounded-md hover:bg-blue-700 ${invalidRange ? "opacity-50 pointer-events-none" : ""}`}
+          >
+            Download
+          </a>
+        </div>
+      )}
+    </div>
+  );
+}
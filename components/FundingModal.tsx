@@ -3,6 +3,18 @@
 import { useState } from "react";
 import { useForm } from "react-hook-form";
 import { trpc } from "@/lib/trpc/client";
+import { isValidRoutingNumber } from "@/lib/routing-numbers";
+import {
+  cardNetworkLabel,
+  cardNumberProblem,
+  cardSecurityCodeLength,
+  detectCardNetwork,
+  isCardExpired,
+  parseCardExpiry,
+} from "@/lib/card-networks";
+import { formatCurrency, parseMoney } from "@/lib/money";
+import { CardBrandIcon } from "@/components/CardBrandIcon";
+import { RoutingBankName } from "@/components/RoutingBankName";
 
 interface FundingModalProps {
   accountId: number;
@@ -15,10 +27,16 @@ type FundingFormData = {
   fundingType: "card" | "bank";
   accountNumber: string;
   routingNumber?: string;
+  expiry?: string; // MM/YY
+  cvv?: string;
 };
 
 export function FundingModal({ accountId, onClose, onSuccess }: FundingModalProps) {
   const [error, setError] = useState("");
+  // One key per modal: resubmitting after a network error replays the original deposit instead of adding another
+  const [idempotencyKey] = useState(() => crypto.randomUUID());
+  // null until the user picks: the default saved source if there is one, else new details
+  const [chosenToken, setChosenToken] = useState<string | null>(null);
   const {
     register,
     handleSubmit,
@@ -30,23 +48,45 @@ export function FundingModal({ accountId, onClose, onSuccess }: FundingModalProp
     },
   });
 
-  const fundingType = watch("fundingType");
+  const { data: savedSources } = trpc.fundingSources.getFundingSources.useQuery();
+  const usableSources = savedSources?.filter((s) => !s.expired) ?? [];
+  const sourceToken = chosenToken ?? usableSources.find((s) => s.isDefault)?.token ?? "";
+  const savedSource = usableSources.find((s) => s.token === sourceToken);
+
+  const fundingType = savedSource?.type ?? watch("fundingType");
+  // Shown live as the card number is typed
+  const cardNetwork = fundingType === "card" ? detectCardNetwork(watch("accountNumber") ?? "") : null;
+  const { data: acceptedNetworks } = trpc.fundingSources.getAcceptedCardNetworks.useQuery();
   const fundAccountMutation = trpc.account.fundAccount.useMutation();
+  // The server enforces the limits; this is only so the user knows before submitting
+  const { data: limits } = trpc.account.getFundingLimits.useQuery({ accountId, sourceType: fundingType });
+  const maxDeposit = limits?.maxDeposit ?? null;
 
   const onSubmit = async (data: FundingFormData) => {
     setError("");
 
     try {
-      const amount = parseFloat(data.amount);
+      const amount = parseMoney(data.amount);
+      if (amount === null) {
+        setError("Invalid amount");
+        return;
+      }
 
       await fundAccountMutation.mutateAsync({
+        idempotencyKey,
         accountId,
         amount,
-        fundingSource: {
-          type: data.fundingType,
-          accountNumber: data.accountNumber,
-          routingNumber: data.routingNumber,
-        },
+        ...(savedSource
+          ? { sourceToken: savedSource.token }
+          : {
+              fundingSource: {
+                type: data.fundingType,
+                accountNumber: data.accountNumber,
+                routingNumber: data.routingNumber,
+                // Checked with the card and then discarded; neither is ever stored
+                ...(data.fundingType === "card" ? { ...parseCardExpiry(data.expiry ?? ""), cvv: data.cvv } : {}),
+              },
+            }),
       });
 
       onSuccess();
@@ -78,13 +118,12 @@ export function FundingModal({ accountId, onClose, onSuccess }: FundingModalProp
                     value: /^(0|[1-9]\d*)(\.\d{0,2})?$/,
                     message: "Invalid amount format (no leading zeros)",
                   },
-                  min: {
-                    value: 0.0,
-                    message: "Amount must be at least $0.01",
-                  },
-                  max: {
-                    value: 10000,
-                    message: "Amount cannot exceed $10,000",
+                  validate: {
+                    positive: (value) => (parseMoney(value) ?? 0) > 0 || "Amount must be at least $0.01",
+                    withinLimit: (value) =>
+                      maxDeposit === null ||
+                      (parseMoney(value) ?? 0) <= maxDeposit ||
+                      `You can add up to ${formatCurrency(maxDeposit, limits?.currency)} today`,
                   },
                 })}
                 type="text"
@@ -92,61 +131,163 @@ export function FundingModal({ accountId, onClose, onSuccess }: FundingModalProp
                 placeholder="0.00"
               />
             </div>
-            {errors.amount && <p className="mt-1 text-sm text-red-600">{errors.amount.message}</p>}
-          </div>
-
-          <div>
-            <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">Funding Source</label>
-            <div className="space-y-2">
-              <label className="flex items-center">
-                <input {...register("fundingType")} type="radio" value="card" className="mr-2" />
-                <span className="dark:text-gray-200">Credit/Debit Card</span>
-              </label>
-              <label className="flex items-center">
-                <input {...register("fundingType")} type="radio" value="bank" className="mr-2" />
-                <span className="dark:text-gray-200">Bank Account</span>
-              </label>
-            </div>
-          </div>
-
-          <div>
-            <label className="block text-sm font-medium text-gray-700 dark:text-gray-300">
-              {fundingType === "card" ? "Card Number" : "Account Number"}
-            </label>
-            <input
-              {...register("accountNumber", {
-                required: `${fundingType === "card" ? "Card" : "Account"} number is required`,
-                pattern: {
-                  value: fundingType === "card" ? /^\d{13,19}$/ : /^\d+$/,
-                  message: fundingType === "card" ? "Card number must be 13-19 digits" : "Invalid account number",
-                },
-              })}
-              type="text"
-              className="mt-1 block w-full rounded-md border-gray-300 dark:border-zinc-600 shadow-sm focus:border-blue-500 focus:ring-blue-500 sm:text-sm p-2 border dark:bg-zinc-700 dark:text-white"
-              placeholder={fundingType === "card" ? "1234567812345678" : "123456789"}
-            />
-            {errors.accountNumber && <p className="mt-1 text-sm text-red-600">{errors.accountNumber.message}</p>}
+            {errors.amount ? (
+              <p className="mt-1 text-sm text-red-600">{errors.amount.message}</p>
+            ) : (
+              maxDeposit !== null && (
+                <p className="mt-1 text-xs text-gray-500 dark:text-gray-400">
+                  You can add up to {formatCurrency(maxDeposit, limits?.currency)} today
+                </p>
+              )
+            )}
           </div>
 
-          {fundingType === "bank" && (
+          {usableSources.length > 0 && (
             <div>
-              <label className="block text-sm font-medium text-gray-700 dark:text-gray-300">Routing Number</label>
-              <input
-                {...register("routingNumber", {
-                  required: "Routing number is required",
-                  pattern: {
-                    value: /^\d{9}$/,
-                    message: "Routing number must be 9 digits",
-                  },
-                })}
-                type="text"
+              <label className="block text-sm font-medium text-gray-700 dark:text-gray-300">From</label>
+              <select
+                value={sourceToken}
+                onChange={(e) => setChosenToken(e.target.value)}
                 className="mt-1 block w-full rounded-md border-gray-300 dark:border-zinc-600 shadow-sm focus:border-blue-500 focus:ring-blue-500 sm:text-sm p-2 border dark:bg-zinc-700 dark:text-white"
-                placeholder="123456789"
-              />
-              {errors.routingNumber && <p className="mt-1 text-sm text-red-600">{errors.routingNumber.message}</p>}
+              >
+                {usableSources.map((source) => (
+                  <option key={source.token} value={source.token}>
+                    {source.nickname} ({source.maskedNumber})
+                  </option>
+                ))}
+                <option value="">A new card or bank account</option>
+              </select>
             </div>
           )}
 
+          {!savedSource && (
+            <>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">Funding Source</label>
+                <div className="space-y-2">
+                  <label className="flex items-center">
+                    <input {...register("fundingType")} type="radio" value="card" className="mr-2" />
+                    <span className="dark:text-gray-200">Credit/Debit Card</span>
+                  </label>
+                  <label className="flex items-center">
+                    <input {...register("fundingType")} type="radio" value="bank" className="mr-2" />
+                    <span className="dark:text-gray-200">Bank Account</span>
+                  </label>
+                </div>
+              </div>
+
+              <div>
+                <label className="block text-sm font-medium text-gray-700 dark:text-gray-300">
+                  {fundingType === "card" ? "Card Number" : "Account Number"}
+                </label>
+                <div className="mt-1 relative">
+                  <input
+                    {...register("accountNumber", {
+                      required: `${fundingType === "card" ? "Card" : "Account"} number is required`,
+                      validate: (value) => {
+                        if (fundingType !== "card") return /^\d+$/.test(value) || "Invalid account number";
+                        const problem = cardNumberProblem(value);
+                        if (problem) return problem;
+                        const network = detectCardNetwork(value)!;
+                        const accepted = !acceptedNetworks || acceptedNetworks.includes(network);
+                        return accepted || `We don't accept ${cardNetworkLabel(network)} cards`;
+                      },
+                    })}
+                    type="text"
+                    inputMode="numeric"
+                    autoComplete={fundingType === "card" ? "cc-number" : "off"}
+                    className="block w-full rounded-md border-gray-300 dark:border-zinc-600 shadow-sm focus:border-blue-500 focus:ring-blue-500 sm:text-sm p-2 pr-12 border dark:bg-zinc-700 dark:text-white"
+                    placeholder={fundingType === "card" ? "1234567812345678" : "123456789"}
+                  />
+                  {fundingType === "card" && (
+                    <div className="absolute inset-y-0 right-0 pr-2 flex items-center pointer-events-none">
+                      <CardBrandIcon network={cardNetwork} />
+                    </div>
+                  )}
+                </div>
+                {errors.accountNumber && <p className="mt-1 text-sm text-red-600">{errors.accountNumber.message}</p>}
+                {fundingType === "card" && acceptedNetworks && (
+                  <div className="mt-2 flex space-x-1">
+                    {acceptedNetworks.map((network) => (
+                      <CardBrandIcon
+                        key={network}
+                        network={network}
+                        dimmed={cardNetwork !== null && cardNetwork !== network}
+                      />
+                    ))}
+                  </div>
+                )}
+              </div>
+
+              {fundingType === "card" && (
+                <div className="grid grid-cols-2 gap-4">
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 dark:text-gray-300">Expiry</label>
+                    <input
+                      {...register("expiry", {
+                        required: "Expiry is required",
+                        validate: (value) => {
+                          const expiry = parseCardExpiry(value ?? "");
+                          if (!expiry) return "Use MM/YY";
+                          return !isCardExpired(expiry.expiryMonth, expiry.expiryYear) || "This card has expired";
+                        },
+                      })}
+                      type="text"
+                      autoComplete="cc-exp"
+                      placeholder="MM/YY"
+                      className="mt-1 block w-full rounded-md border-gray-300 dark:border-zinc-600 shadow-sm focus:border-blue-500 focus:ring-blue-500 sm:text-sm p-2 border dark:bg-zinc-700 dark:text-white"
+                    />
+                    {errors.expiry && <p className="mt-1 text-sm text-red-600">{errors.expiry.message}</p>}
+                  </div>
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 dark:text-gray-300">Security Code</label>
+                    <input
+                      {...register("cvv", {
+                        required: "Security code is required",
+                        validate: (value) => {
+                          const length = cardNetwork ? cardSecurityCodeLength(cardNetwork) : 3;
+                          const valid = /^\d+$/.test(value ?? "") && value?.length === length;
+                          return valid || `Security code must be ${length} digits`;
+                        },
+                      })}
+                      type="password"
+                      inputMode="numeric"
+                      autoComplete="cc-csc"
+                      placeholder={cardNetwork === "amex" ? "4 digits" : "3 digits"}
+                      className="mt-1 block w-full rounded-md border-gray-300 dark:border-zinc-600 shadow-sm focus:border-blue-500 focus:ring-blue-500 sm:text-sm p-2 border dark:bg-zinc-700 dark:text-white"
+                    />
+                    {errors.cvv && <p className="mt-1 text-sm text-red-600">{errors.cvv.message}</p>}
+                  </div>
+                </div>
+              )}
+
+              {fundingType === "bank" && (
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 dark:text-gray-300">Routing Number</label>
+                  <input
+                    {...register("routingNumber", {
+                      required: "Routing number is required",
+                      pattern: {
+                        value: /^\d{9}$/,
+                        message: "Routing number must be 9 digits",
+                      },
+                      validate: (value) => isValidRoutingNumber(value ?? "") || "Invalid routing number",
+                    })}
+                    type="text"
+                    className="mt-1 block w-full rounded-md border-gray-300 dark:border-zinc-600 shadow-sm focus:border-blue-500 focus:ring-blue-500 sm:text-sm p-2 border dark:bg-zinc-700 dark:text-white"
+                    placeholder="021000021"
+                  />
+                  {errors.routingNumber && <p className="mt-1 text-sm text-red-600">{errors.routingNumber.message}</p>}
+                  <RoutingBankName routingNumber={watch("routingNumber")} />
+                </div>
+              )}
+            </>
+          )}
+
+          <p className="text-xs text-gray-500 dark:text-gray-400">
+            Deposits show as pending and become available to spend once they settle.
+          </p>
+
           {error && <div className="text-sm text-red-600">{error}</div>}
 
           <div className="flex justify-end space-x-3">
@@ -0,0 +1,224 @@
+"use client";
+
+import { useState } from "react";
+import { useForm } from "react-hook-form";
+import { trpc } from "@/lib/trpc/client";
+import { isValidRoutingNumber } from "@/lib/routing-numbers";
+import { cardNumberProblem, cardSecurityCodeLength, detectCardNetwork, parseCardExpiry } from "@/lib/card-networks";
+import { CardBrandIcon } from "@/components/CardBrandIcon";
+import { RoutingBankName } from "@/components/RoutingBankName";
+
+type FundingSource = { token: string; nickname: string };
+
+interface FundingSourceModalProps {
+  source?: FundingSource; // renaming this source; adds a new one when absent
+  onClose: () => void;
+  onSuccess: () => void;
+}
+
+type FundingSourceFormData = {
+  type: "card" | "bank";
+  nickname: string;
+  accountNumber: string;
+  expiry: string; // MM/YY
+  cvv: string;
+  routingNumber: string;
+};
+
+export function FundingSourceModal({ source, onClose, onSuccess }: FundingSourceModalProps) {
+  const [error, setError] = useState("");
+  const {
+    register,
+    handleSubmit,
+    watch,
+    formState: { errors },
+  } = useForm<FundingSourceFormData>({
+    defaultValues: { type: "card", nickname: source?.nickname ?? "" },
+  });
+  const type = watch("type");
+  const cardNetwork = type === "card" ? detectCardNetwork(watch("accountNumber") ?? "") : null;
+
+  const addMutation = trpc.fundingSources.addFundingSource.useMutation();
+  const renameMutation = trpc.fundingSources.renameFundingSource.useMutation();
+
+  const onSubmit = async (data: FundingSourceFormData) => {
+    setError("");
+    const nickname = data.nickname.trim() || undefined;
+
+    try {
+      if (source) {
+        await renameMutation.mutateAsync({ token: source.token, nickname: data.nickname });
+      } else if (data.type === "card") {
+        await addMutation.mutateAsync({
+          type: "card",
+          nickname,
+          accountNumber: data.accountNumber,
+          ...parseCardExpiry(data.expiry)!,
+          cvv: data.cvv,
+        });
+      } else {
+        await addMutation.mutateAsync({
+          type: "bank",
+          nickname,
+          accountNumber: data.accountNumber,
+          routingNumber: data.routingNumber,
+        });
+      }
+
+      onSuccess();
+    } catch (err: unknown) {
+      if (err instanceof Error) {
+        setError(err.message || "Failed to save funding source");
+      } else {
+        setError("Failed to save funding source");
+      }
+    }
+  };
+
+  const inputClass =
+    "mt-1 block w-full rounded-md border-gray-300 dark:border-zinc-600 shadow-sm focus:border-blue-500 focus:ring-blue-500 sm:text-sm p-2 border dark:bg-zinc-700 dark:text-white";
+
+  return (
+    <div className="fixed inset-0 bg-gray-500 bg-opacity-75 flex items-center justify-center p-4">
+      <div className="bg-white dark:bg-zinc-800 rounded-lg max-w-md w-full p-6">
+        <h3 className="text-lg font-medium text-gray-900 dark:text-white mb-4">
+          {source ? `Rename ${source.nickname}` : "Save a Card or Bank Account"}
+        </h3>
+
+        <form onSubmit={handleSubmit(onSubmit)} className="space-y-4">
+          {!source && (
+            <>
+              <div className="space-y-2">
+                <label className="flex items-center">
+                  <input {...register("type")} type="radio" value="card" className="mr-2" />
+                  <span className="dark:text-gray-200">Credit/Debit Card</span>
+                </label>
+                <label className="flex items-center">
+                  <input {...register("type")} type="radio" value="bank" className="mr-2" />
+                  <span className="dark:text-gray-200">Bank Account</span>
+                </label>
+              </div>
+
+              <div>
+                <label className="block text-sm font-medium text-gray-700 dark:text-gray-300">
+                  {type === "card" ? "Card Number" : "Account Number"}
+                </label>
+                <div className="relative">
+                  <input
+                    {...register("accountNumber", {
+                      required: `${type === "card" ? "Card" : "Account"} number is required`,
+                      validate: (value) =>
+                        type === "card"
+                          ? (cardNumberProblem(value) ?? true)
+                          : /^\d+$/.test(value) || "Invalid account number",
+                    })}
+                    type="text"
+                    autoComplete="off"
+                    className={`${inputClass} pr-12`}
+                  />
+                  {type === "card" && (
+                    <div className="absolute inset-y-0 right-0 pr-2 flex items-center pointer-events-none">
+                      <CardBrandIcon network={cardNetwork} />
+                    </div>
+                  )}
+                </div>
+                {errors.accountNumber && <p className="mt-1 text-sm text-red-600">{errors.accountNumber.message}</p>}
+              </div>
+
+              {type === "card" ? (
+                <div className="grid grid-cols-2 gap-4">
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 dark:text-gray-300">Expiry</label>
+                    <input
+                      {...register("expiry", {
+                        required: "Expiry is required",
+                        validate: (value) => parseCardExpiry(value) !== null || "Use MM/YY",
+                      })}
+                      type="text"
+                      placeholder="MM/YY"
+                      className={inputClass}
+                    />
+                    {errors.expiry && <p className="mt-1 text-sm text-red-600">{errors.expiry.message}</p>}
+                  </div>
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 dark:text-gray-300">Security Code</label>
+                    <input
+                      {...register("cvv", {
+                        required: "Security code is required",
+                        validate: (value) => {
+                          const length = cardNetwork ? cardSecurityCodeLength(cardNetwork) : 3;
+                          return (/^\d+$/.test(value) && value.length === length) || `Security code must be ${length} digits`;
+                        },
+                      })}
+                      type="password"
+                      inputMode="numeric"
+                      className={inputClass}
+                    />
+                    {errors.cvv && <p className="mt-1 text-sm text-red-600">{errors.cvv.message}</p>}
+                  </div>
+                </div>
+              ) : (
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 dark:text-gray-300">Routing Number</label>
+                  <input
+                    {...register("routingNumber", {
+                      required: "Routing number is required",
+                      pattern: { value: /^\d{9}$/, message: "Routing number must be 9 digits" },
+                      validate: (value) => isValidRoutingNumber(value) || "Invalid routing number",
+                    })}
+                    type="text"
+                    className={inputClass}
+                  />
+                  {errors.routingNumber && <p className="mt-1 text-sm text-red-600">{errors.routingNumber.message}</p>}
+                  <RoutingBankName routingNumber={watch("routingNumber")} />
+                </div>
+              )}
+            </>
+          )}
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 dark:text-gray-300">
+              Nickname{source ? "" : " (optional)"}
+            </label>
+            <input
+              {...register("nickname", {
+                required: source ? "Nickname is required" : false,
+                maxLength: { value: 40, message: "Nickname must be 40 characters or less" },
+              })}
+              type="text"
+              placeholder="e.g. Everyday card"
+              className={inputClass}
+            />
+            {errors.nickname && <p className="mt-1 text-sm text-red-600">{errors.nickname.message}</p>}
+          </div>
+
+          {!source && (
+            <p className="text-xs text-gray-500 dark:text-gray-400">
+              We keep the number encrypted and only ever show its last four digits. The security code is only used to
+              check the card and is never stored.
+            </p>
+          )}
+
+          {error && <div className="text-sm text-red-600">{error}</div>}
+
+          <div className="flex justify-end space-x-3">
+            <button
+              type="button"
+              onClick={onClose}
+              className="px-4 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-md hover:bg-gray-50 dark:bg-zinc-700 dark:border-zinc-600 dark:text-gray-200 dark:hover:bg-zinc-600"
+            >
+              Cancel
+            </button>
+            <button
+              type="submit"
+              disabled={addMutation.isPending || renameMutation.isPending}
+              className="px-4 py-2 text-sm font-medium text-white bg-blue-600 border border-transparent rounded-md hover:bg-blue-700 disabled:opacity-50"
+            >
+              Save
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,94 @@
+"use client";
+
+import { useState } from "react";
+import { trpc } from "@/lib/trpc/client";
+import { isCardNetwork } from "@/lib/card-networks";
+import { CardBrandIcon } from "@/components/CardBrandIcon";
+import { FundingSourceModal } from "@/components/FundingSourceModal";
+
+export function FundingSourcesPanel() {
+  const [renamingToken, setRenamingToken] = useState<string | null>(null);
+  const [isAdding, setIsAdding] = useState(false);
+  const { data: sources, refetch } = trpc.fundingSources.getFundingSources.useQuery();
+  const setDefaultMutation = trpc.fundingSources.setDefaultFundingSource.useMutation({ onSuccess: () => refetch() });
+  const removeMutation = trpc.fundingSources.removeFundingSource.useMutation({ onSuccess: () => refetch() });
+
+  const renaming = sources?.find((s) => s.token === renamingToken);
+
+  return (
+    <div className="mb-6">
+      <div className="flex items-center justify-between mb-4">
+        <h3 className="text-xl font-bold text-gray-900 dark:text-white">Cards &amp; Bank Accounts</h3>
+        <button onClick={() => setIsAdding(true)} className="text-sm text-blue-600 hover:underline">
+          Add
+        </button>
+      </div>
+
+      <div className="bg-white dark:bg-zinc-800 shadow rounded-lg divide-y divide-gray-200 dark:divide-zinc-700">
+        {sources && sources.length > 0 ? (
+          sources.map((source) => (
+            <div key={source.token} className="px-6 py-3 flex items-center justify-between text-sm">
+              <div className="flex items-center">
+                {source.type === "card" && (
+                  <span className="mr-2">
+                    <CardBrandIcon network={source.brand && isCardNetwork(source.brand) ? source.brand : null} />
+                  </span>
+                )}
+                <span className="font-medium text-gray-900 dark:text-gray-100">{source.nickname}</span>
+                <span className="ml-2 text-gray-500 dark:text-gray-400">
+                  {source.maskedNumber}
+                  {source.expiryMonth !== null &&
+                    ` · Expires ${String(source.expiryMonth).padStart(2, "0")}/${String(source.expiryYear).slice(-2)}`}
+                </span>
+                {source.isDefault && (
+                  <span className="ml-2 px-2 py-0.5 text-xs rounded-full bg-blue-100 text-blue-800">Default</span>
+                )}
+                {source.expired && (
+                  <span className="ml-2 px-2 py-0.5 text-xs rounded-full bg-red-100 text-red-800">Expired</span>
+                )}
+              </div>
+              <div className="space-x-3">
+                {!source.isDefault && (
+                  <button
+                    onClick={() => setDefaultMutation.mutate({ token: source.token })}
+                    className="text-blue-600 hover:underline"
+                  >
+                    Make default
+                  </button>
+                )}
+                <button onClick={() => setRenamingToken(source.token)} className="text-blue-600 hover:underline">
+                  Rename
+                </button>
+                <button
+                  onClick={() => removeMutation.mutate({ token: source.token })}
+                  className="text-red-600 hover:underline"
+                >
+                  Remove
+                </button>
+              </div>
+            </div>
+          ))
+        ) : (
+          <p className="px-6 py-4 text-sm text-gray-500 dark:text-gray-400">
+            No saved cards or bank accounts. Save one to add money without retyping its number.
+          </p>
+        )}
+      </div>
+
+      {(isAdding || renaming) && (
+        <FundingSourceModal
+          source={renaming}
+          onClose={() => {
+            setIsAdding(false);
+            setRenamingToken(null);
+          }}
+          onSuccess={() => {
+            setIsAdding(false);
+            setRenamingToken(null);
+            refetch();
+          }}
+        />
+      )}
+    </div>
+  );
+}
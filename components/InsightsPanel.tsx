@@ -0,0 +1,201 @@
+"use client";
+
+import { useState } from "react";
+import { useForm } from "react-hook-form";
+import { trpc } from "@/lib/trpc/client";
+import { CATEGORIES, categoryLabel, type Category } from "@/lib/categories";
+import { formatMonth } from "@/lib/dates";
+import { formatCurrency, parseMoney } from "@/lib/money";
+
+type BudgetFormData = {
+  category: Category;
+  amount: string;
+};
+
+const BAR_COLORS: Record<string, string> = {
+  ok: "bg-green-500",
+  warning: "bg-yellow-500",
+  over: "bg-red-500",
+};
+
+export function InsightsPanel() {
+  const [error, setError] = useState("");
+  const utils = trpc.useUtils();
+  const { data: budgets } = trpc.insights.getBudgets.useQuery();
+  const { data: comparison } = trpc.insights.getSpendingComparison.useQuery();
+  const { data: alerts } = trpc.insights.getAlerts.useQuery();
+
+  const refresh = () => {
+    utils.insights.getBudgets.invalidate();
+    utils.insights.getAlerts.invalidate();
+  };
+  const setBudgetMutation = trpc.insights.setBudget.useMutation({ onSuccess: refresh });
+  const deleteBudgetMutation = trpc.insights.deleteBudget.useMutation({ onSuccess: refresh });
+  const dismissAlertMutation = trpc.insights.dismissAlert.useMutation({ onSuccess: refresh });
+
+  const {
+    register,
+    handleSubmit,
+    reset,
+    formState: { errors },
+  } = useForm<BudgetFormData>({ defaultValues: { category: "groceries", amount: "" } });
+
+  const onSubmit = async (data: BudgetFormData) => {
+    setError("");
+
+    const amount = parseMoney(data.amount);
+    if (amount === null) {
+      setError("Invalid amount");
+      return;
+    }
+
+    try {
+      await setBudgetMutation.mutateAsync({ category: data.category, amount });
+      reset({ category: data.category, amount: "" });
+    } catch (err: unknown) {
+      if (err instanceof Error) {
+        setError(err.message || "Failed to save budget");
+      } else {
+        setError("Failed to save budget");
+      }
+    }
+  };
+
+  return (
+    <div className="mb-6">
+      <h3 className="text-xl font-bold text-gray-900 dark:text-white mb-4">Budgets &amp; Insights</h3>
+
+      {alerts && alerts.length > 0 && (
+        <div className="mb-4 space-y-2">
+          {alerts.map((alert) => (
+            <div
+              key={alert.id}
+              className={`rounded-md p-3 flex items-center justify-between text-sm ${alert.threshold >= 100 ? "bg-red-50 text-red-800 dark:bg-red-900/30 dark:text-red-200" : "bg-yellow-50 text-yellow-800 dark:bg-yellow-900/30 dark:text-yellow-200"
+                }`}
+            >
+              <span>
+                {alert.threshold >= 100 ? "Over budget" : `${alert.threshold}% of budget used`}:{" "}
+                {categoryLabel(alert.category)} in {formatMonth(alert.month)} ({formatCurrency(alert.spent, alert.currency)} of{" "}
+                {formatCurrency(alert.amount, alert.currency)})
+              </span>
+              <button
+                onClick={() => dismissAlertMutation.mutate({ alertId: alert.id })}
+                className="ml-4 font-medium hover:underline"
+              >
+                Dismiss
+              </button>
+            </div>
+          ))}
+        </div>
+      )}
+
+      <div className="grid gap-4 md:grid-cols-2">
+        <div className="bg-white dark:bg-zinc-800 shadow rounded-lg p-6">
+          <h4 className="text-sm font-medium text-gray-900 dark:text-gray-100 mb-3">This month&apos;s budgets</h4>
+
+          {budgets && budgets.length > 0 ? (
+            <div className="space-y-3">
+              {budgets.map((budget) => (
+                <div key={budget.id}>
+                  <div className="flex justify-between text-sm">
+                    <span className="text-gray-900 dark:text-gray-100">{categoryLabel(budget.category)}</span>
+                    <span className="text-gray-500 dark:text-gray-400">
+                      {formatCurrency(budget.spent, budget.currency)} of {formatCurrency(budget.amount, budget.currency)}
+                      <button
+                        onClick={() => deleteBudgetMutation.mutate({ budgetId: budget.id })}
+                        className="ml-3 text-red-600 hover:underline"
+                      >
+                        Remove
+                      </button>
+                    </span>
+                  </div>
+                  <div className="mt-1 h-2 rounded bg-gray-200 dark:bg-zinc-700 overflow-hidden">
+                    <div
+                      className={`h-2 ${BAR_COLORS[budget.status]}`}
+                      style={{ width: `${Math.min(Math.max(budget.percent, 0), 100)}%` }}
+                    />
+                  </div>
+                </div>
+              ))}
+            </div>
+          ) : (
+            <p className="text-sm text-gray-500 dark:text-gray-400">No budgets yet. Set a monthly limit for a category below.</p>
+          )}
+
+          <form onSubmit={handleSubmit(onSubmit)} className="mt-4 flex items-start space-x-2">
+            <select
+              {...register("category")}
+              className="block rounded-md border-gray-300 dark:border-zinc-600 shadow-sm focus:border-blue-500 focus:ring-blue-500 sm:text-sm p-2 border dark:bg-zinc-700 dark:text-white"
+            >
+              {CATEGORIES.map((category) => (
+                <option key={category} value={category}>
+                  {categoryLabel(category)}
+                </option>
+              ))}
+            </select>
+            <div className="flex-1">
+              <input
+                {...register("amount", {
+                  required: "Amount is required",
+                  pattern: {
+                    value: /^(0|[1-9]\d*)(\.\d{0,2})?$/,
+                    message: "Invalid amount format (no leading zeros)",
+                  },
+                })}
+                type="text"
+                placeholder="Monthly limit"
+                className="block w-full rounded-md border-gray-300 dark:border-zinc-600 shadow-sm focus:border-blue-500 focus:ring-blue-500 sm:text-sm p-2 border dark:bg-zinc-700 dark:text-white"
+              />
+              {errors.amount && <p className="mt-1 text-sm text-red-600">{errors.amount.message}</p>}
+            </div>
+            <button
+              type="submit"
+              disabled={setBudgetMutation.isPending}
+              className="px-4 py-2 text-sm font-medium text-white bg-blue-600 rounded-md hover:bg-blue-700 disabled:opacity-50"
+            >
+              Save
+            </button>
+          </form>
+          {error && <p className="mt-2 text-sm text-red-600">{error}</p>}
+        </div>
+
+        <div className="bg-white dark:bg-zinc-800 shadow rounded-lg p-6">
+          <h4 className="text-sm font-medium text-gray-900 dark:text-gray-100 mb-3">
+            Spending vs {comparison ? formatMonth(comparison.previousMonth) : "last month"}
+          </h4>
+
+          {comparison && comparison.categories.length > 0 ? (
+            <table className="min-w-full text-sm">
+              <tbody className="divide-y divide-gray-200 dark:divide-zinc-700">
+                {comparison.categories.map((row) => (
+                  <tr key={row.category ?? "uncategorized"}>
+                    <td className="py-2 text-gray-900 dark:text-gray-100">{categoryLabel(row.category)}</td>
+                    <td className="py-2 text-right text-gray-900 dark:text-gray-100">
+                      {formatCurrency(row.spent, comparison.currency)}
+                    </td>
+                    <td className={`py-2 text-right ${row.change > 0 ? "text-red-600" : "text-green-600"}`}>
+                      {row.changePercent === null
+                        ? "New"
+                        : `${row.changePercent > 0 ? "+" : ""}${row.changePercent}%`}
+                    </td>
+                  </tr>
+                ))}
+                <tr>
+                  <td className="py-2 font-medium text-gray-900 dark:text-gray-100">Total</td>
+                  <td className="py-2 text-right font-medium text-gray-900 dark:text-gray-100">
+                    {formatCurrency(comparison.total, comparison.currency)}
+                  </td>
+                  <td className="py-2 text-right text-gray-500 dark:text-gray-400">
+                    {formatCurrency(comparison.previousTotal, comparison.currency)}
+                  </td>
+                </tr>
+              </tbody>
+            </table>
+          ) : (
+            <p className="text-sm text-gray-500 dark:text-gray-400">No spending this month or last month yet.</p>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,55 @@
+"use client";
+
+import { trpc } from "@/lib/trpc/client";
+import { accountTypeLabel } from "@/lib/account-names";
+import { accountRoleLabel } from "@/lib/account-roles";
+
+interface InvitationBannerProps {
+  onAccepted: () => void;
+}
+
+// Invitations to share other customers' accounts, answered from the dashboard
+export function InvitationBanner({ onAccepted }: InvitationBannerProps) {
+  const { data: invitations, refetch } = trpc.members.getInvitations.useQuery();
+  const respondMutation = trpc.members.respondToInvitation.useMutation({
+    onSuccess: (_, { accept }) => {
+      refetch();
+      if (accept) onAccepted();
+    },
+  });
+
+  if (!invitations || invitations.length === 0) return null;
+
+  return (
+    <div className="mb-6 space-y-2">
+      {invitations.map((invitation) => (
+        <div
+          key={invitation.id}
+          className="rounded-md p-3 flex items-center justify-between text-sm bg-blue-50 text-blue-800 dark:bg-blue-900/30 dark:text-blue-200"
+        >
+          <span>
+            {invitation.invitedBy} invited you to their {accountTypeLabel(invitation.accountType).toLowerCase()} account{" "}
+            {invitation.maskedAccount} as {accountRoleLabel(invitation.role).toLowerCase()}
+          </span>
+          <span className="ml-4 space-x-3 font-medium">
+            <button
+              onClick={() => respondMutation.mutate({ invitationId: invitation.id, accept: true })}
+              disabled={respondMutation.isPending}
+              className="hover:underline disabled:opacity-50"
+            >
+              Accept
+            </button>
+            <button
+              onClick={() => respondMutation.mutate({ invitationId: invitation.id, accept: false })}
+              disabled={respondMutation.isPending}
+              className="hover:underline disabled:opacity-50"
+            >
+              Decline
+            </button>
+          </span>
+        </div>
+      ))}
+      {respondMutation.error && <p className="text-sm text-red-600">{respondMutation.error.message}</p>}
+    </div>
+  );
+}
@@ -0,0 +1,185 @@
+"use client";
+
+import { useState } from "react";
+import { useForm } from "react-hook-form";
+import { trpc } from "@/lib/trpc/client";
+import { isValidRoutingNumber } from "@/lib/routing-numbers";
+import { formatCurrency } from "@/lib/money";
+import { RoutingBankName } from "@/components/RoutingBankName";
+
+type Payee = {
+  id: number;
+  kind: "external" | "internal";
+  nickname: string;
+  maskedAccount: string;
+  routingNumber: string | null;
+};
+
+interface PayeeModalProps {
+  payee?: Payee; // editing this payee; adds a new one when absent
+  onClose: () => void;
+  onSuccess: () => void;
+}
+
+type PayeeFormData = {
+  kind: "external" | "internal";
+  nickname: string;
+  accountNumber: string;
+  routingNumber: string;
+};
+
+export function PayeeModal({ payee, onClose, onSuccess }: PayeeModalProps) {
+  const [error, setError] = useState("");
+  const {
+    register,
+    handleSubmit,
+    watch,
+    formState: { errors },
+  } = useForm<PayeeFormData>({
+    defaultValues: {
+      kind: payee?.kind ?? "external",
+      nickname: payee?.nickname ?? "",
+      accountNumber: "",
+      routingNumber: payee?.routingNumber ?? "",
+    },
+  });
+  const kind = watch("kind");
+
+  const { data: coolingOff } = trpc.payees.getCoolingOff.useQuery();
+  const createMutation = trpc.payees.createPayee.useMutation();
+  const updateMutation = trpc.payees.updatePayee.useMutation();
+
+  const onSubmit = async (data: PayeeFormData) => {
+    setError("");
+
+    try {
+      if (payee) {
+        // Account details are only sent when changed, since changing them restarts the cooling-off period
+        const routingChanged = payee.kind === "external" && data.routingNumber !== payee.routingNumber;
+        await updateMutation.mutateAsync({
+          payeeId: payee.id,
+          nickname: data.nickname,
+          accountNumber: data.accountNumber || undefined,
+          routingNumber: routingChanged ? data.routingNumber : undefined,
+        });
+      } else if (data.kind === "external") {
+        await createMutation.mutateAsync({
+          kind: "external",
+          nickname: data.nickname,
+          accountNumber: data.accountNumber,
+          routingNumber: data.routingNumber,
+        });
+      } else {
+        await createMutation.mutateAsync({ kind: "internal", nickname: data.nickname, accountNumber: data.accountNumber });
+      }
+
+      onSuccess();
+    } catch (err: unknown) {
+      if (err instanceof Error) {
+        setError(err.message || "Failed to save payee");
+      } else {
+        setError("Failed to save payee");
+      }
+    }
+  };
+
+  const inputClass =
+    "mt-1 block w-full rounded-md border-gray-300 dark:border-zinc-600 shadow-sm focus:border-blue-500 focus:ring-blue-500 sm:text-sm p-2 border dark:bg-zinc-700 dark:text-white";
+
+  return (
+    <div className="fixed inset-0 bg-gray-500 bg-opacity-75 flex items-center justify-center p-4">
+      <div className="bg-white dark:bg-zinc-800 rounded-lg max-w-md w-full p-6">
+        <h3 className="text-lg font-medium text-gray-900 dark:text-white mb-4">
+          {payee ? `Edit ${payee.nickname}` : "Add Payee"}
+        </h3>
+
+        <form onSubmit={handleSubmit(onSubmit)} className="space-y-4">
+          {!payee && (
+            <div>
+              <label className="block text-sm font-medium text-gray-700 dark:text-gray-300">Type</label>
+              <select {...register("kind")} className={inputClass}>
+                <option value="external">Account at another bank</option>
+                <option value="internal">SecureBank customer</option>
+              </select>
+            </div>
+          )}
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 dark:text-gray-300">Nickname</label>
+            <input
+              {...register("nickname", {
+                required: "Nickname is required",
+                maxLength: { value: 40, message: "Nickname must be 40 characters or less" },
+              })}
+              type="text"
+              placeholder="e.g. Landlord"
+              className={inputClass}
+            />
+            {errors.nickname && <p className="mt-1 text-sm text-red-600">{errors.nickname.message}</p>}
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 dark:text-gray-300">Account Number</label>
+            <input
+              {...register("accountNumber", {
+                required: payee ? false : "Account number is required",
+                pattern:
+                  kind === "internal"
+                    ? { value: /^\d{10}$/, message: "Account number must be 10 digits" }
+                    : { value: /^\d+$/, message: "Invalid account number" },
+              })}
+              type="text"
+              autoComplete="off"
+              placeholder={payee ? `${payee.maskedAccount} (leave empty to keep)` : ""}
+              className={inputClass}
+            />
+            {errors.accountNumber && <p className="mt-1 text-sm text-red-600">{errors.accountNumber.message}</p>}
+          </div>
+
+          {kind === "external" && (
+            <div>
+              <label className="block text-sm font-medium text-gray-700 dark:text-gray-300">Routing Number</label>
+              <input
+                {...register("routingNumber", {
+                  required: "Routing number is required",
+                  pattern: { value: /^\d{9}$/, message: "Routing number must be 9 digits" },
+                  validate: (value) => isValidRoutingNumber(value) || "Invalid routing number",
+                })}
+                type="text"
+                className={inputClass}
+              />
+              {errors.routingNumber && <p className="mt-1 text-sm text-red-600">{errors.routingNumber.message}</p>}
+              <RoutingBankName routingNumber={watch("routingNumber")} />
+            </div>
+          )}
+
+          {coolingOff && (
+            <p className="text-xs text-gray-500 dark:text-gray-400">
+              For {coolingOff.hours} hours after a payee is added or its account details change, it can receive up to{" "}
+              {formatCurrency(coolingOff.limit)} in total, or the same at the mid rate in other currencies.
+            </p>
+          )}
+
+          {error && <div className="text-sm text-red-600">{error}</div>}
+
+          <div className="flex justify-end space-x-3">
+            <button
+              type="button"
+              onClick={onClose}
+              className="px-4 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-md hover:bg-gray-50 dark:bg-zinc-700 dark:border-zinc-600 dark:text-gray-200 dark:hover:bg-zinc-600"
+            >
+              Cancel
+            </button>
+            <button
+              type="submit"
+              disabled={createMutation.isPending || updateMutation.isPending}
+              className="px-4 py-2 text-sm font-medium text-white bg-blue-600 border border-transparent rounded-md hover:bg-blue-700 disabled:opacity-50"
+            >
+              Save
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,76 @@
+"use client";
+
+import { useState } from "react";
+import { trpc } from "@/lib/trpc/client";
+import { PayeeModal } from "@/components/PayeeModal";
+
+export function PayeesPanel() {
+  const [editingPayeeId, setEditingPayeeId] = useState<number | null>(null);
+  const [isAdding, setIsAdding] = useState(false);
+  const { data: payees, refetch } = trpc.payees.getPayees.useQuery();
+  const deleteMutation = trpc.payees.deletePayee.useMutation({ onSuccess: () => refetch() });
+
+  const editing = payees?.find((p) => p.id === editingPayeeId);
+
+  return (
+    <div className="mb-6">
+      <div className="flex items-center justify-between mb-4">
+        <h3 className="text-xl font-bold text-gray-900 dark:text-white">Payees</h3>
+        <button onClick={() => setIsAdding(true)} className="text-sm text-blue-600 hover:underline">
+          Add payee
+        </button>
+      </div>
+
+      <div className="bg-white dark:bg-zinc-800 shadow rounded-lg divide-y divide-gray-200 dark:divide-zinc-700">
+        {payees && payees.length > 0 ? (
+          payees.map((payee) => (
+            <div key={payee.id} className="px-6 py-3 flex items-center justify-between text-sm">
+              <div>
+                <span className="font-medium text-gray-900 dark:text-gray-100">{payee.nickname}</span>
+                <span className="ml-2 text-gray-500 dark:text-gray-400">
+                  {payee.kind === "external" ? `Routing ${payee.routingNumber} · ` : "SecureBank · "}
+                  Account {payee.maskedAccount}
+                </span>
+                {payee.coolingOffUntil && (
+                  <span className="ml-2 text-xs text-yellow-600">
+                    New until {new Date(payee.coolingOffUntil).toLocaleString()}
+                  </span>
+                )}
+              </div>
+              <div className="space-x-3">
+                <button onClick={() => setEditingPayeeId(payee.id)} className="text-blue-600 hover:underline">
+                  Edit
+                </button>
+                <button
+                  onClick={() => deleteMutation.mutate({ payeeId: payee.id })}
+                  className="text-red-600 hover:underline"
+                >
+                  Delete
+                </button>
+              </div>
+            </div>
+          ))
+        ) : (
+          <p className="px-6 py-4 text-sm text-gray-500 dark:text-gray-400">
+            No saved payees. Save the people and accounts you pay often so you don&apos;t have to retype their details.
+          </p>
+        )}
+      </div>
+
+      {(isAdding || editing) && (
+        <PayeeModal
+          payee={editing}
+          onClose={() => {
+            setIsAdding(false);
+            setEditingPayeeId(null);
+          }}
+          onSuccess={() => {
+            setIsAdding(false);
+            setEditingPayeeId(null);
+            refetch();
+          }}
+        />
+      )}
+    </div>
+  );
+}
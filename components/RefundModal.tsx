@@ -0,0 +1,124 @@
+"use client";
+
+import { useState } from "react";
+import { useForm } from "react-hook-form";
+import { trpc } from "@/lib/trpc/client";
+import { formatCurrency, fromCents, parseMoney, type Money } from "@/lib/money";
+
+interface RefundModalProps {
+  transactionId: number;
+  refundable: Money;
+  currency: string;
+  onClose: () => void;
+  onSuccess: () => void;
+}
+
+type RefundFormData = {
+  amount: string;
+  reason?: string;
+};
+
+export function RefundModal({ transactionId, refundable, currency, onClose, onSuccess }: RefundModalProps) {
+  const [error, setError] = useState("");
+  const {
+    register,
+    handleSubmit,
+    formState: { errors },
+  } = useForm<RefundFormData>({
+    defaultValues: {
+      amount: fromCents(refundable).toFixed(2),
+    },
+  });
+
+  const refundMutation = trpc.payments.refund.useMutation();
+
+  const onSubmit = async (data: RefundFormData) => {
+    setError("");
+
+    try {
+      await refundMutation.mutateAsync({
+        transactionId,
+        amount: parseMoney(data.amount)!,
+        reason: data.reason || undefined,
+      });
+
+      onSuccess();
+    } catch (err: unknown) {
+      if (err instanceof Error) {
+        setError(err.message || "Failed to refund payment");
+      } else {
+        setError("Failed to refund payment");
+      }
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-gray-500 bg-opacity-75 flex items-center justify-center p-4">
+      <div className="bg-white dark:bg-zinc-800 rounded-lg max-w-md w-full p-6">
+        <h3 className="text-lg font-medium text-gray-900 dark:text-white mb-4">Refund Payment</h3>
+
+        <form onSubmit={handleSubmit(onSubmit)} className="space-y-4">
+          <div>
+            <label className="block text-sm font-medium text-gray-700 dark:text-gray-300">Amount</label>
+            <div className="mt-1 relative rounded-md shadow-sm">
+              <div className="absolute inset-y-0 left-0 pl-3 flex items-center pointer-events-none">
+                <span className="text-gray-500 dark:text-gray-400 sm:text-sm">$</span>
+              </div>
+              <input
+                {...register("amount", {
+                  required: "Amount is required",
+                  pattern: {
+                    value: /^(0|[1-9]\d*)(\.\d{0,2})?$/,
+                    message: "Invalid amount format (no leading zeros)",
+                  },
+                  validate: {
+                    positive: (value) => (parseMoney(value) ?? 0) > 0 || "Amount must be at least $0.01",
+                    refundable: (value) =>
+                      (parseMoney(value) ?? 0) <= refundable ||
+                      `You can refund up to ${formatCurrency(refundable, currency)}`,
+                  },
+                })}
+                type="text"
+                className="pl-7 block w-full rounded-md border-gray-300 dark:border-zinc-600 focus:ring-blue-500 focus:border-blue-500 sm:text-sm p-2 border dark:bg-zinc-700 dark:text-white"
+                placeholder="0.00"
+              />
+            </div>
+            {errors.amount && <p className="mt-1 text-sm text-red-600">{errors.amount.message}</p>}
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 dark:text-gray-300">Reason (optional)</label>
+            <input
+              {...register("reason", {
+                maxLength: { value: 100, message: "Reason must be 100 characters or less" },
+              })}
+              type="text"
+              className="mt-1 block w-full rounded-md border-gray-300 dark:border-zinc-600 shadow-sm focus:border-blue-500 focus:ring-blue-500 sm:text-sm p-2 border dark:bg-zinc-700 dark:text-white"
+              placeholder="Overpaid"
+            />
+            {errors.reason && <p className="mt-1 text-sm text-red-600">{errors.reason.message}</p>}
+          </div>
+
+          {error && <div className="text-sm text-red-600">{error}</div>}
+
+          <div className="flex justify-end space-x-3">
+            <button
+              type="button"
+              onClick={onClose}
+              className="px-4 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-md hover:bg-gray-50 dark:bg-zinc-700 dark:border-zinc-600 dark:text-gray-200 dark:hover:bg-zinc-600"
+            >
+              Cancel
+            </button>
+            <button
+              type="submit"
+              disabled={refundMutation.isPending}
+              className="px-4 py-2 text-sm font-medium text-white bg-blue-600 border border-transparent rounded-md hover:bg-blue-700 disabled:opacity-50"
+            >
+              {refundMutation.isPending ? "Processing..." : "Refund"}
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+}
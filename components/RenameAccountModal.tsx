@@ -0,0 +1,84 @@
+"use client";
+
+import { useState } from "react";
+import { useForm } from "react-hook-form";
+import { trpc } from "@/lib/trpc/client";
+import { accountName } from "@/lib/account-names";
+
+interface RenameAccountModalProps {
+  account: { id: number; accountType: string; accountNumber: string; nickname: string | null };
+  onClose: () => void;
+  onSuccess: () => void;
+}
+
+type RenameFormData = {
+  nickname: string;
+};
+
+export function RenameAccountModal({ account, onClose, onSuccess }: RenameAccountModalProps) {
+  const [error, setError] = useState("");
+  const {
+    register,
+    handleSubmit,
+    formState: { errors },
+  } = useForm<RenameFormData>({ defaultValues: { nickname: account.nickname ?? "" } });
+
+  const renameMutation = trpc.account.renameAccount.useMutation();
+
+  const onSubmit = async (data: RenameFormData) => {
+    setError("");
+
+    try {
+      // An empty nickname goes back to the default name
+      await renameMutation.mutateAsync({ accountId: account.id, nickname: data.nickname.trim() || null });
+      onSuccess();
+    } catch (err: unknown) {
+      if (err instanceof Error) {
+        setError(err.message || "Failed to rename account");
+      } else {
+        setError("Failed to rename account");
+      }
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-gray-500 bg-opacity-75 flex items-center justify-center p-4">
+      <div className="bg-white dark:bg-zinc-800 rounded-lg max-w-md w-full p-6">
+        <h3 className="text-lg font-medium text-gray-900 dark:text-white mb-4">Rename {accountName(account)}</h3>
+
+        <form onSubmit={handleSubmit(onSubmit)} className="space-y-4">
+          <div>
+            <label className="block text-sm font-medium text-gray-700 dark:text-gray-300">Nickname</label>
+            <input
+              {...register("nickname", { maxLength: { value: 30, message: "Nickname must be 30 characters or less" } })}
+              type="text"
+              placeholder="e.g. Rent, Vacation"
+              className="mt-1 block w-full rounded-md border-gray-300 dark:border-zinc-600 shadow-sm focus:border-blue-500 focus:ring-blue-500 sm:text-sm p-2 border dark:bg-zinc-700 dark:text-white"
+            />
+            {errors.nickname && <p className="mt-1 text-sm text-red-600">{errors.nickname.message}</p>}
+            <p className="mt-1 text-xs text-gray-500 dark:text-gray-400">Leave empty to use the default name.</p>
+          </div>
+
+          {error && <div className="text-sm text-red-600">{error}</div>}
+
+          <div className="flex justify-end space-x-3">
+            <button
+              type="button"
+              onClick={onClose}
+              className="px-4 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-md hover:bg-gray-50 dark:bg-zinc-700 dark:border-zinc-600 dark:text-gray-200 dark:hover:bg-zinc-600"
+            >
+              Cancel
+            </button>
+            <button
+              type="submit"
+              disabled={renameMutation.isPending}
+              className="px-4 py-2 text-sm font-medium text-white bg-blue-600 border border-transparent rounded-md hover:bg-blue-700 disabled:opacity-50"
+            >
+              {renameMutation.isPending ? "Saving..." : "Save"}
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+}
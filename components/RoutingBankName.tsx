@@ -0,0 +1,25 @@
+"use client";
+
+import { trpc } from "@/lib/trpc/client";
+import { isValidRoutingNumber } from "@/lib/routing-numbers";
+
+interface RoutingBankNameProps {
+  routingNumber: string | undefined;
+}
+
+// Names the bank behind a routing number while it is typed; shown under routing number fields
+export function RoutingBankName({ routingNumber = "" }: RoutingBankNameProps) {
+  const valid = isValidRoutingNumber(routingNumber);
+  const { data: bank, isFetched } = trpc.account.lookupBank.useQuery({ routingNumber }, { enabled: valid });
+
+  if (!valid || !isFetched) return null;
+
+  return bank ? (
+    <p className="mt-1 text-xs text-green-700 dark:text-green-400">
+      {bank.bankName}
+      {bank.city && ` · ${bank.city}, ${bank.state}`}
+    </p>
+  ) : (
+    <p className="mt-1 text-xs text-red-600">We can&apos;t find a bank with this routing number</p>
+  );
+}
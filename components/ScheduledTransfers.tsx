@@ -0,0 +1,84 @@
+"use client";
+
+import { trpc } from "@/lib/trpc/client";
+import { accountName } from "@/lib/account-names";
+import { formatCurrency } from "@/lib/money";
+
+interface ScheduledTransfersProps {
+  accounts: { id: number; accountType: string; accountNumber: string; nickname: string | null; currency: string }[];
+}
+
+const FREQUENCY_LABELS: Record<string, string> = {
+  once: "One time",
+  weekly: "Weekly",
+  biweekly: "Every two weeks",
+  monthly: "Monthly",
+};
+
+export function ScheduledTransfers({ accounts }: ScheduledTransfersProps) {
+  const { data: schedules, refetch } = trpc.account.getScheduledTransfers.useQuery();
+  const pauseMutation = trpc.account.pauseScheduledTransfer.useMutation({ onSuccess: () => refetch() });
+  const resumeMutation = trpc.account.resumeScheduledTransfer.useMutation({ onSuccess: () => refetch() });
+  const cancelMutation = trpc.account.cancelScheduledTransfer.useMutation({ onSuccess: () => refetch() });
+
+  if (!schedules || schedules.length === 0) return null;
+
+  const accountLabel = (accountId: number) => {
+    const account = accounts.find((a) => a.id === accountId);
+    return account ? accountName(account) : "Account";
+  };
+
+  const formatDate = (date: string) =>
+    new Date(`${date}T00:00:00Z`).toLocaleDateString("en-US", { month: "short", day: "numeric", timeZone: "UTC" });
+
+  return (
+    <div className="mb-6">
+      <h3 className="text-xl font-bold text-gray-900 dark:text-white mb-4">Upcoming Transfers</h3>
+      <div className="bg-white dark:bg-zinc-800 shadow rounded-lg divide-y divide-gray-200 dark:divide-zinc-700">
+        {schedules.map((schedule) => (
+          <div key={schedule.id} className="px-6 py-4 flex items-center justify-between">
+            <div>
+              <p className="text-sm font-medium text-gray-900 dark:text-gray-100">
+                {formatCurrency(schedule.amount, accounts.find((a) => a.id === schedule.fromAccountId)?.currency)} from{" "}
+                {accountLabel(schedule.fromAccountId)} to {accountLabel(schedule.toAccountId)}
+              </p>
+              <p className="text-xs text-gray-500 dark:text-gray-400">
+                {FREQUENCY_LABELS[schedule.frequency] ?? schedule.frequency}
+                {schedule.status === "paused"
+                  ? " · Paused"
+                  : schedule.upcomingDates.length > 0 && ` · Next: ${schedule.upcomingDates.map(formatDate).join(", ")}`}
+                {schedule.endDate && ` · Until ${formatDate(schedule.endDate)}`}
+              </p>
+              {schedule.lastError && (
+                <p className="text-xs text-red-600">Last transfer failed: {schedule.lastError}</p>
+              )}
+            </div>
+            <div className="flex space-x-3 text-sm">
+              {schedule.status === "active" ? (
+                <button
+                  onClick={() => pauseMutation.mutate({ scheduleId: schedule.id })}
+                  className="text-blue-600 hover:underline"
+                >
+                  Pause
+                </button>
+              ) : (
+                <button
+                  onClick={() => resumeMutation.mutate({ scheduleId: schedule.id })}
+                  className="text-blue-600 hover:underline"
+                >
+                  Resume
+                </button>
+              )}
+              <button
+                onClick={() => cancelMutation.mutate({ scheduleId: schedule.id })}
+                className="text-red-600 hover:underline"
+              >
+                Cancel
+              </button>
+            </div>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
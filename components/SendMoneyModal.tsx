@@ -0,0 +1,231 @@
+"use client";
+
+import { useState } from "react";
+import { useForm } from "react-hook-form";
+import { trpc } from "@/lib/trpc/client";
+import { formatCurrency, parseMoney } from "@/lib/money";
+
+interface SendMoneyModalProps {
+  fromAccountId: number;
+  onClose: () => void;
+  onSuccess: () => void;
+}
+
+type SendMoneyFormData = {
+  payeeId: string; // "" when typing a recipient
+  recipient: string;
+  amount: string;
+  memo?: string;
+};
+
+type ConfirmedRecipient = { maskedName: string; maskedAccount: string };
+
+export function SendMoneyModal({ fromAccountId, onClose, onSuccess }: SendMoneyModalProps) {
+  const [error, setError] = useState("");
+  const [confirming, setConfirming] = useState<ConfirmedRecipient | null>(null);
+  const {
+    register,
+    handleSubmit,
+    getValues,
+    watch,
+    formState: { errors },
+  } = useForm<SendMoneyFormData>({ defaultValues: { payeeId: "" } });
+  const payeeId = watch("payeeId");
+
+  const utils = trpc.useUtils();
+  const { data: limits } = trpc.payments.getLimits.useQuery();
+  const { data: payees } = trpc.payees.getPayees.useQuery();
+  const customerPayees = payees?.filter((p) => p.kind === "internal") ?? [];
+  const sendMutation = trpc.payments.send.useMutation();
+
+  // Step 1: look up the recipient so the sender can check the masked name
+  const onReview = async (data: SendMoneyFormData) => {
+    setError("");
+
+    const payee = customerPayees.find((p) => String(p.id) === data.payeeId);
+    if (payee) {
+      setConfirming({ maskedName: payee.nickname, maskedAccount: payee.maskedAccount });
+      return;
+    }
+
+    try {
+      const recipient = await utils.payments.lookupRecipient.fetch({ recipient: data.recipient });
+      if (recipient.isSelf) {
+        setError("Use a transfer to move money between your own accounts");
+        return;
+      }
+      setConfirming(recipient);
+    } catch (err: unknown) {
+      if (err instanceof Error) {
+        setError(err.message || "Recipient not found");
+      } else {
+        setError("Recipient not found");
+      }
+    }
+  };
+
+  // Step 2: send once the sender has confirmed
+  const onSend = async () => {
+    setError("");
+    const { recipient, amount, memo } = getValues();
+
+    try {
+      await sendMutation.mutateAsync({
+        fromAccountId,
+        ...(payeeId ? { payeeId: Number(payeeId) } : { recipient }),
+        amount: parseMoney(amount)!,
+        memo: memo || undefined,
+      });
+
+      onSuccess();
+    } catch (err: unknown) {
+      if (err instanceof Error) {
+        setError(err.message || "Failed to send payment");
+      } else {
+        setError("Failed to send payment");
+      }
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-gray-500 bg-opacity-75 flex items-center justify-center p-4">
+      <div className="bg-white dark:bg-zinc-800 rounded-lg max-w-md w-full p-6">
+        <h3 className="text-lg font-medium text-gray-900 dark:text-white mb-4">Send Money</h3>
+
+        {confirming ? (
+          <div className="space-y-4">
+            <p className="text-sm text-gray-700 dark:text-gray-300">
+              Send <span className="font-semibold">{formatCurrency(parseMoney(getValues("amount"))!)}</span> to:
+            </p>
+            <div className="rounded-md border border-gray-200 dark:border-zinc-600 p-3">
+              <p className="text-lg font-medium text-gray-900 dark:text-white">{confirming.maskedName}</p>
+              <p className="text-sm text-gray-500 dark:text-gray-400">Account {confirming.maskedAccount}</p>
+            </div>
+            <p className="text-xs text-gray-500 dark:text-gray-400">
+              Make sure this is the person you mean to pay. Payments cannot be cancelled once sent.
+            </p>
+
+            {error && <div className="text-sm text-red-600">{error}</div>}
+
+            <div className="flex justify-end space-x-3">
+              <button
+                type="button"
+                onClick={() => setConfirming(null)}
+                className="px-4 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-md hover:bg-gray-50 dark:bg-zinc-700 dark:border-zinc-600 dark:text-gray-200 dark:hover:bg-zinc-600"
+              >
+                Back
+              </button>
+              <button
+                type="button"
+                onClick={onSend}
+                disabled={sendMutation.isPending}
+                className="px-4 py-2 text-sm font-medium text-white bg-blue-600 border border-transparent rounded-md hover:bg-blue-700 disabled:opacity-50"
+              >
+                {sendMutation.isPending ? "Sending..." : "Confirm & Send"}
+              </button>
+            </div>
+          </div>
+        ) : (
+          <form onSubmit={handleSubmit(onReview)} className="space-y-4">
+            {customerPayees.length > 0 && (
+              <div>
+                <label className="block text-sm font-medium text-gray-700 dark:text-gray-300">Pay</label>
+                <select
+                  {...register("payeeId")}
+                  className="mt-1 block w-full rounded-md border-gray-300 dark:border-zinc-600 shadow-sm focus:border-blue-500 focus:ring-blue-500 sm:text-sm p-2 border dark:bg-zinc-700 dark:text-white"
+                >
+                  <option value="">Someone new</option>
+                  {customerPayees.map((payee) => (
+                    <option key={payee.id} value={payee.id}>
+                      {payee.nickname} ({payee.maskedAccount})
+                    </option>
+                  ))}
+                </select>
+              </div>
+            )}
+
+            {!payeeId && (
+              <div>
+                <label className="block text-sm font-medium text-gray-700 dark:text-gray-300">Recipient</label>
+                <input
+                  {...register("recipient", {
+                    required: "Recipient is required",
+                    validate: (value) =>
+                      /^\d{10}$/.test(value.trim()) || /^\S+@\S+\.\S+$/.test(value.trim()) || "Enter an email or 10-digit account number",
+                  })}
+                  type="text"
+                  className="mt-1 block w-full rounded-md border-gray-300 dark:border-zinc-600 shadow-sm focus:border-blue-500 focus:ring-blue-500 sm:text-sm p-2 border dark:bg-zinc-700 dark:text-white"
+                  placeholder="Email or account number"
+                />
+                {errors.recipient && <p className="mt-1 text-sm text-red-600">{errors.recipient.message}</p>}
+              </div>
+            )}
+
+            <div>
+              <label className="block text-sm font-medium text-gray-700 dark:text-gray-300">Amount</label>
+              <div className="mt-1 relative rounded-md shadow-sm">
+                <div className="absolute inset-y-0 left-0 pl-3 flex items-center pointer-events-none">
+                  <span className="text-gray-500 dark:text-gray-400 sm:text-sm">$</span>
+                </div>
+                <input
+                  {...register("amount", {
+                    required: "Amount is required",
+                    pattern: {
+                      value: /^(0|[1-9]\d*)(\.\d{0,2})?$/,
+                      message: "Invalid amount format (no leading zeros)",
+                    },
+                    validate: (value) => {
+                      const cents = parseMoney(value) ?? 0;
+                      if (cents <= 0) return "Amount must be at least $0.01";
+                      if (limits && cents > limits.perTransaction) {
+                        return `Amount cannot exceed ${formatCurrency(limits.perTransaction)}`;
+                      }
+                      return true;
+                    },
+                  })}
+                  type="text"
+                  className="pl-7 block w-full rounded-md border-gray-300 dark:border-zinc-600 focus:ring-blue-500 focus:border-blue-500 sm:text-sm p-2 border dark:bg-zinc-700 dark:text-white"
+                  placeholder="0.00"
+                />
+              </div>
+              {errors.amount && <p className="mt-1 text-sm text-red-600">{errors.amount.message}</p>}
+              {limits && (
+                <p className="mt-1 text-xs text-gray-500 dark:text-gray-400">
+                  Up to {formatCurrency(limits.perTransaction)} per payment and {formatCurrency(limits.daily)} per day.
+                </p>
+              )}
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium text-gray-700 dark:text-gray-300">Memo (optional)</label>
+              <input
+                {...register("memo", { maxLength: { value: 100, message: "Memo is too long" } })}
+                type="text"
+                className="mt-1 block w-full rounded-md border-gray-300 dark:border-zinc-600 shadow-sm focus:border-blue-500 focus:ring-blue-500 sm:text-sm p-2 border dark:bg-zinc-700 dark:text-white"
+              />
+              {errors.memo && <p className="mt-1 text-sm text-red-600">{errors.memo.message}</p>}
+            </div>
+
+            {error && <div className="text-sm text-red-600">{error}</div>}
+
+            <div className="flex justify-end space-x-3">
+              <button
+                type="button"
+                onClick={onClose}
+                className="px-4 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-md hover:bg-gray-50 dark:bg-zinc-700 dark:border-zinc-600 dark:text-gray-200 dark:hover:bg-zinc-600"
+              >
+                Cancel
+              </button>
+              <button
+                type="submit"
+                className="px-4 py-2 text-sm font-medium text-white bg-blue-600 border border-transparent rounded-md hover:bg-blue-700"
+              >
+                Review
+              </button>
+            </div>
+          </form>
+        )}
+      </div>
+    </div>
+  );
+}
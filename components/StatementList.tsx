@@ -0,0 +1,53 @@
+"use client";
+
+import Link from "next/link";
+import { trpc } from "@/lib/trpc/client";
+import { formatMonth } from "@/lib/dates";
+import { formatCurrency } from "@/lib/money";
+
+interface StatementListProps {
+  accountId: number;
+}
+
+export function StatementList({ accountId }: StatementListProps) {
+  const { data: statements, isLoading } = trpc.statements.listStatements.useQuery({ accountId });
+
+  if (isLoading) {
+    return (
+      <div className="bg-white dark:bg-zinc-800 shadow rounded-lg p-6">
+        <p className="text-gray-500 dark:text-gray-400">Loading statements...</p>
+      </div>
+    );
+  }
+
+  if (!statements || statements.length === 0) {
+    return (
+      <div className="bg-white dark:bg-zinc-800 shadow rounded-lg p-6">
+        <p className="text-gray-500 dark:text-gray-400">No statements yet. Statements are issued after each month ends.</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="bg-white dark:bg-zinc-800 shadow rounded-lg divide-y divide-gray-200 dark:divide-zinc-700">
+      {statements.map((statement) => (
+        <div key={statement.id} className="px-6 py-4 flex items-center justify-between">
+          <div>
+            <p className="text-sm font-medium text-gray-900 dark:text-gray-100">{formatMonth(statement.periodStart)}</p>
+            <p className="text-xs text-gray-500 dark:text-gray-400">
+              Closing balance: {formatCurrency(statement.closingBalance, statement.currency)}
+            </p>
+          </div>
+          <div className="flex space-x-3 text-sm">
+            <Link href={`/statements/${statement.id}`} className="text-blue-600 hover:underline">
+              View
+            </Link>
+            <a href={`/api/statements/${statement.id}/pdf`} className="text-blue-600 hover:underline">
+              Download PDF
+            </a>
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,149 @@
+"use client";
+
+import { useState } from "react";
+import { useForm } from "react-hook-form";
+import { trpc } from "@/lib/trpc/client";
+import { CATEGORIES, categoryLabel, type Category } from "@/lib/categories";
+
+interface TransactionDetailsModalProps {
+  transaction: { id: number; description: string | null; category: string | null; notes: string | null; tags: string[] };
+  onClose: () => void;
+  onSuccess: () => void;
+}
+
+type DetailsFormData = {
+  category: string;
+  notes: string;
+  tags: string;
+  learn: boolean;
+};
+
+export function TransactionDetailsModal({ transaction, onClose, onSuccess }: TransactionDetailsModalProps) {
+  const [error, setError] = useState("");
+  const {
+    register,
+    handleSubmit,
+    watch,
+    formState: { errors },
+  } = useForm<DetailsFormData>({
+    defaultValues: {
+      category: transaction.category ?? "",
+      notes: transaction.notes ?? "",
+      tags: transaction.tags.join(", "),
+      learn: true,
+    },
+  });
+
+  const categoryChanged = watch("category") !== (transaction.category ?? "");
+  const updateMutation = trpc.account.updateTransactionDetails.useMutation();
+
+  const onSubmit = async (data: DetailsFormData) => {
+    setError("");
+
+    try {
+      await updateMutation.mutateAsync({
+        transactionId: transaction.id,
+        category: categoryChanged ? ((data.category || null) as Category | null) : undefined,
+        notes: data.notes || null,
+        tags: data.tags
+          .split(",")
+          .map((tag) => tag.trim().toLowerCase())
+          .filter(Boolean),
+        learn: data.learn,
+      });
+
+      onSuccess();
+    } catch (err: unknown) {
+      if (err instanceof Error) {
+        setError(err.message || "Failed to save details");
+      } else {
+        setError("Failed to save details");
+      }
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-gray-500 bg-opacity-75 flex items-center justify-center p-4">
+      <div className="bg-white dark:bg-zinc-800 rounded-lg max-w-md w-full p-6">
+        <h3 className="text-lg font-medium text-gray-900 dark:text-white mb-1">Transaction Details</h3>
+        <p className="text-sm text-gray-500 dark:text-gray-400 mb-4">{transaction.description || "-"}</p>
+
+        <form onSubmit={handleSubmit(onSubmit)} className="space-y-4">
+          <div>
+            <label className="block text-sm font-medium text-gray-700 dark:text-gray-300">Category</label>
+            <select
+              {...register("category")}
+              className="mt-1 block w-full rounded-md border-gray-300 dark:border-zinc-600 shadow-sm focus:border-blue-500 focus:ring-blue-500 sm:text-sm p-2 border dark:bg-zinc-700 dark:text-white"
+            >
+              <option value="">{categoryLabel(null)}</option>
+              {CATEGORIES.map((category) => (
+                <option key={category} value={category}>
+                  {categoryLabel(category)}
+                </option>
+              ))}
+            </select>
+            {categoryChanged && watch("category") && (
+              <label className="mt-2 flex items-center text-sm text-gray-700 dark:text-gray-300">
+                <input {...register("learn")} type="checkbox" className="mr-2" />
+                Always use this category for similar transactions
+              </label>
+            )}
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 dark:text-gray-300">Notes</label>
+            <textarea
+              {...register("notes", {
+                maxLength: { value: 500, message: "Notes must be 500 characters or less" },
+              })}
+              rows={3}
+              className="mt-1 block w-full rounded-md border-gray-300 dark:border-zinc-600 shadow-sm focus:border-blue-500 focus:ring-blue-500 sm:text-sm p-2 border dark:bg-zinc-700 dark:text-white"
+            />
+            {errors.notes && <p className="mt-1 text-sm text-red-600">{errors.notes.message}</p>}
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 dark:text-gray-300">Tags</label>
+            <input
+              {...register("tags", {
+                validate: {
+                  format: (value) =>
+                    value
+                      .split(",")
+                      .map((tag) => tag.trim())
+                      .filter(Boolean)
+                      .every((tag) => /^[a-zA-Z0-9 _-]{1,30}$/.test(tag)) ||
+                    "Tags can only contain letters, numbers, spaces, - and _ (up to 30 characters)",
+                  count: (value) => value.split(",").filter((tag) => tag.trim()).length <= 10 || "Use up to 10 tags",
+                },
+              })}
+              type="text"
+              className="mt-1 block w-full rounded-md border-gray-300 dark:border-zinc-600 shadow-sm focus:border-blue-500 focus:ring-blue-500 sm:text-sm p-2 border dark:bg-zinc-700 dark:text-white"
+              placeholder="vacation, tax-deductible"
+            />
+            {errors.tags && <p className="mt-1 text-sm text-red-600">{errors.tags.message}</p>}
+          </div>
+
+          {error && <div className="text-sm text-red-600">{error}</div>}
+
+          <div className="flex justify-end space-x-3">
+            <button
+              type="button"
+              onClick={onClose}
+              className="px-4 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-md hover:bg-gray-50 dark:bg-zinc-700 dark:border-zinc-600 dark:text-gray-200 dark:hover:bg-zinc-600"
+            >
+              Cancel
+            </button>
+            <button
+              type="submit"
+              disabled={updateMutation.isPending}
+              className="px-4 py-2 text-sm font-medium text-white bg-blue-600 border border-transparent rounded-md hover:bg-blue-700 disabled:opacity-50"
+            >
+              {updateMutation.isPending ? "Saving..." : "Save"}
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+}
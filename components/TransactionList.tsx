@@ -1,20 +1,88 @@
 "use client";
 
+import { useEffect, useRef, useState } from "react";
 import { trpc } from "@/lib/trpc/client";
+import { CATEGORIES, categoryLabel } from "@/lib/categories";
+import { formatCurrency, parseMoney } from "@/lib/money";
+import {
+  isCreditTransaction,
+  TRANSACTION_STATUSES,
+  TRANSACTION_TYPES,
+  transactionStatusStyle,
+  transactionTypeLabel,
+} from "@/lib/transaction-types";
+import { RefundModal } from "./RefundModal";
+import { TransactionDetailsModal } from "./TransactionDetailsModal";
 
 interface TransactionListProps {
   accountId: number;
 }
 
+type Filters = {
+  search: string;
+  type: string;
+  status: string;
+  category: string;
+  from: string;
+  to: string;
+  minAmount: string;
+  maxAmount: string;
+};
+
+const EMPTY_FILTERS: Filters = { search: "", type: "", status: "", category: "", from: "", to: "", minAmount: "", maxAmount: "" };
+
+const PAGE_SIZE = 25;
+
+const inputClass =
+  "block w-full rounded-md border-gray-300 dark:border-zinc-600 shadow-sm sm:text-sm p-2 border dark:bg-zinc-700 dark:text-white";
+
 export function TransactionList({ accountId }: TransactionListProps) {
-  const { data: transactions, isLoading } = trpc.account.getTransactions.useQuery({ accountId });
+  const [filters, setFilters] = useState<Filters>(EMPTY_FILTERS);
+  const [search, setSearch] = useState("");
 
-  const formatCurrency = (amount: number) => {
-    return new Intl.NumberFormat("en-US", {
-      style: "currency",
-      currency: "USD",
-    }).format(amount);
-  };
+  // Wait for a pause in typing before searching
+  useEffect(() => {
+    const timeout = setTimeout(() => setSearch(filters.search.trim()), 300);
+    return () => clearTimeout(timeout);
+  }, [filters.search]);
+
+  const { data, isLoading, fetchNextPage, hasNextPage, isFetchingNextPage } =
+    trpc.account.getTransactions.useInfiniteQuery(
+      {
+        accountId,
+        limit: PAGE_SIZE,
+        search: search || undefined,
+        types: filters.type ? [filters.type] : undefined,
+        statuses: filters.status ? [filters.status] : undefined,
+        categories: filters.category ? [filters.category] : undefined,
+        from: filters.from || undefined,
+        to: filters.to || undefined,
+        minAmount: parseMoney(filters.minAmount) ?? undefined,
+        maxAmount: parseMoney(filters.maxAmount) ?? undefined,
+      },
+      { getNextPageParam: (lastPage) => lastPage.nextCursor },
+    );
+  const transactions = data?.pages.flatMap((page) => page.items) ?? [];
+  const utils = trpc.useUtils();
+  const [refunding, setRefunding] = useState<{ id: number; refundable: number; currency: string } | null>(null);
+  const [editing, setEditing] = useState<(typeof transactions)[number] | null>(null);
+
+  // Load the next page when the bottom of the list scrolls into view
+  const sentinelRef = useRef<HTMLDivElement>(null);
+  useEffect(() => {
+    const sentinel = sentinelRef.current;
+    if (!sentinel || !hasNextPage) return;
+
+    const observer = new IntersectionObserver((entries) => {
+      if (entries[0].isIntersecting && !isFetchingNextPage) fetchNextPage();
+    });
+    observer.observe(sentinel);
+    return () => observer.disconnect();
+  }, [hasNextPage, isFetchingNextPage, fetchNextPage]);
+
+  const setFilter = (name: keyof Filters) => (e: React.ChangeEvent<HTMLInputElement | HTMLSelectElement>) =>
+    setFilters({ ...filters, [name]: e.target.value });
+  const hasFilters = Object.values(filters).some(Boolean);
 
   const formatDate = (dateString: string) => {
     return new Date(dateString).toLocaleDateString("en-US", {
@@ -26,68 +94,240 @@ export function TransactionList({ accountId }: TransactionListProps) {
     });
   };
 
+  const filterBar = (
+    <div className="mb-4 grid gap-2 grid-cols-2 md:grid-cols-4 lg:grid-cols-8">
+      <input
+        value={filters.search}
+        onChange={setFilter("search")}
+        placeholder="Search descriptions"
+        className={`${inputClass} col-span-2`}
+      />
+      <select value={filters.type} onChange={setFilter("type")} className={inputClass}>
+        <option value="">All types</option>
+        {TRANSACTION_TYPES.map((type) => (
+          <option key={type} value={type}>
+            {transactionTypeLabel(type)}
+          </option>
+        ))}
+      </select>
+      <select value={filters.status} onChange={setFilter("status")} className={inputClass}>
+        <option value="">All statuses</option>
+        {TRANSACTION_STATUSES.map((status) => (
+          <option key={status} value={status}>
+            {status}
+          </option>
+        ))}
+      </select>
+      <select value={filters.category} onChange={setFilter("category")} className={inputClass}>
+        <option value="">All categories</option>
+        {CATEGORIES.map((category) => (
+          <option key={category} value={category}>
+            {categoryLabel(category)}
+          </option>
+        ))}
+        <option value="uncategorized">{categoryLabel(null)}</option>
+      </select>
+      <input type="date" value={filters.from} onChange={setFilter("from")} title="From" className={inputClass} />
+      <input type="date" value={filters.to} onChange={setFilter("to")} title="To" className={inputClass} />
+      <div className="flex space-x-1">
+        <input value={filters.minAmount} onChange={setFilter("minAmount")} placeholder="Min $" className={inputClass} />
+        <input value={filters.maxAmount} onChange={setFilter("maxAmount")} placeholder="Max $" className={inputClass} />
+      </div>
+      {hasFilters && (
+        <button onClick={() => setFilters(EMPTY_FILTERS)} className="text-sm text-blue-600 hover:underline text-left">
+          Clear filters
+        </button>
+      )}
+    </div>
+  );
+
   if (isLoading) {
     return (
-      <div className="bg-white dark:bg-zinc-800 shadow rounded-lg p-6">
-        <p className="text-gray-500 dark:text-gray-400">Loading transactions...</p>
+      <div>
+        {filterBar}
+        <div className="bg-white dark:bg-zinc-800 shadow rounded-lg p-6">
+          <p className="text-gray-500 dark:text-gray-400">Loading transactions...</p>
+        </div>
       </div>
     );
   }
 
-  if (!transactions || transactions.length === 0) {
+  if (transactions.length === 0) {
     return (
-      <div className="bg-white dark:bg-zinc-800 shadow rounded-lg p-6">
-        <p className="text-gray-500 dark:text-gray-400">No transactions yet.</p>
+      <div>
+        {filterBar}
+        <div className="bg-white dark:bg-zinc-800 shadow rounded-lg p-6">
+          <p className="text-gray-500 dark:text-gray-400">
+            {hasFilters ? "No transactions match these filters." : "No transactions yet."}
+          </p>
+        </div>
       </div>
     );
   }
 
   return (
-    <div className="bg-white dark:bg-zinc-800 shadow overflow-hidden rounded-lg">
-      <table className="min-w-full divide-y divide-gray-200 dark:divide-zinc-700">
-        <thead className="bg-gray-50 dark:bg-zinc-700">
-          <tr>
-            <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider">Date</th>
-            <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider">Type</th>
-            <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider">
-              Description
-            </th>
-            <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider">Amount</th>
-            <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider">Status</th>
-          </tr>
-        </thead>
-        <tbody className="bg-white dark:bg-zinc-800 divide-y divide-gray-200 dark:divide-zinc-700">
-          {transactions.map((transaction) => (
-            <tr key={transaction.id}>
-              <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900 dark:text-gray-100">
-                {formatDate(transaction.createdAt!)}
-              </td>
-              <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900 dark:text-gray-100">
-                <span className={`capitalize ${transaction.type === "deposit" ? "text-green-600" : "text-red-600"}`}>
-                  {transaction.type}
-                </span>
-              </td>
-              <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500 dark:text-gray-400">
-                {transaction.description || "-"}
-              </td>
-              <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900 dark:text-gray-100">
-                <span className={transaction.type === "deposit" ? "text-green-600" : "text-red-600"}>
-                  {transaction.type === "deposit" ? "+" : "-"}
-                  {formatCurrency(transaction.amount)}
-                </span>
-              </td>
-              <td className="px-6 py-4 whitespace-nowrap">
-                <span
-                  className={`px-2 inline-flex text-xs leading-5 font-semibold rounded-full ${transaction.status === "completed" ? "bg-green-100 text-green-800" : "bg-yellow-100 text-yellow-800"
-                    }`}
-                >
-                  {transaction.status}
-                </span>
-              </td>
+    <div>
+      {filterBar}
+      <div className="bg-white dark:bg-zinc-800 shadow overflow-hidden rounded-lg">
+        <table className="min-w-full divide-y divide-gray-200 dark:divide-zinc-700">
+          <thead className="bg-gray-50 dark:bg-zinc-700">
+            <tr>
+              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider">
+                Date
+              </th>
+              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider">
+                Type
+              </th>
+              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider">
+                Description
+              </th>
+              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider">
+                Amount
+              </th>
+              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider">
+                Balance
+              </th>
+              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider">
+                Status
+              </th>
             </tr>
-          ))}
-        </tbody>
-      </table>
+          </thead>
+          <tbody className="bg-white dark:bg-zinc-800 divide-y divide-gray-200 dark:divide-zinc-700">
+            {transactions.map((transaction) => (
+              <tr key={transaction.id} id={`transaction-${transaction.id}`}>
+                <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900 dark:text-gray-100">
+                  {formatDate(transaction.createdAt!)}
+                </td>
+                <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900 dark:text-gray-100">
+                  <span className={isCreditTransaction(transaction.type) ? "text-green-600" : "text-red-600"}>
+                    {transactionTypeLabel(transaction.type)}
+                  </span>
+                  <button
+                    onClick={() => setEditing(transaction)}
+                    className="block mt-1 text-xs text-gray-500 dark:text-gray-400 hover:text-blue-600"
+                    title="Edit category, notes and tags"
+                  >
+                    {categoryLabel(transaction.category)}
+                  </button>
+                </td>
+                <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500 dark:text-gray-400">
+                  {transaction.description || "-"}
+                  {transaction.notes && (
+                    <div className="text-xs text-gray-400 dark:text-gray-500 italic">{transaction.notes}</div>
+                  )}
+                  {transaction.tags.length > 0 && (
+                    <div className="mt-1 flex flex-wrap gap-1">
+                      {transaction.tags.map((tag) => (
+                        <span
+                          key={tag}
+                          className="px-2 text-xs rounded-full bg-blue-50 text-blue-700 dark:bg-zinc-700 dark:text-blue-300"
+                        >
+                          {tag}
+                        </span>
+                      ))}
+                    </div>
+                  )}
+                  {transaction.counterpartyName && (
+                    <div className="text-xs text-gray-400 dark:text-gray-500">
+                      {isCreditTransaction(transaction.type) ? "From" : "To"} {transaction.counterpartyName}{" "}
+                      {transaction.counterpartyAccount}
+                    </div>
+                  )}
+                  {transaction.reversalOfId !== null && (
+                    <div className="text-xs text-gray-400 dark:text-gray-500">
+                      Reverses{" "}
+                      <a href={`#transaction-${transaction.reversalOfId}`} className="text-blue-600 hover:underline">
+                        transaction #{transaction.reversalOfId}
+                      </a>
+                    </div>
+                  )}
+                  {transaction.reversedAmount > 0 && (
+                    <div className="text-xs text-gray-400 dark:text-gray-500">
+                      {transaction.reversedAmount < transaction.amount
+                        ? `${formatCurrency(transaction.reversedAmount, transaction.currency)} reversed`
+                        : "Reversed in full"}
+                    </div>
+                  )}
+                </td>
+                <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900 dark:text-gray-100">
+                  <span className={isCreditTransaction(transaction.type) ? "text-green-600" : "text-red-600"}>
+                    {isCreditTransaction(transaction.type) ? "+" : "-"}
+                    {formatCurrency(transaction.amount, transaction.currency)}
+                  </span>
+                  {transaction.fxRate !== null && (
+                    <div className="text-xs text-gray-400 dark:text-gray-500">FX rate {transaction.fxRate}</div>
+                  )}
+                </td>
+                <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500 dark:text-gray-400">
+                  {transaction.runningBalance !== null ? formatCurrency(transaction.runningBalance, transaction.currency) : "-"}
+                </td>
+                <td className="px-6 py-4 whitespace-nowrap">
+                  <span
+                    className={`px-2 inline-flex text-xs leading-5 font-semibold rounded-full ${transactionStatusStyle(transaction.status)}`}
+                    title={transaction.failureReason ?? undefined}
+                  >
+                    {transaction.status}
+                  </span>
+                  {transaction.type === "payment_received" &&
+                    transaction.status === "completed" &&
+                    transaction.reversedAmount < transaction.amount && (
+                      <button
+                        onClick={() =>
+                          setRefunding({
+                            id: transaction.id,
+                            refundable: transaction.amount - transaction.reversedAmount,
+                            currency: transaction.currency,
+                          })
+                        }
+                        className="ml-2 text-xs text-blue-600 hover:underline"
+                      >
+                        Refund
+                      </button>
+                    )}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+
+        <div ref={sentinelRef} />
+        {hasNextPage && (
+          <div className="px-6 py-4 text-center">
+            <button
+              onClick={() => fetchNextPage()}
+              disabled={isFetchingNextPage}
+              className="text-sm text-blue-600 hover:underline disabled:opacity-50"
+            >
+              {isFetchingNextPage ? "Loading more..." : "Load more"}
+            </button>
+          </div>
+        )}
+      </div>
+
+      {editing && (
+        <TransactionDetailsModal
+          transaction={editing}
+          onClose={() => setEditing(null)}
+          onSuccess={() => {
+            setEditing(null);
+            utils.account.getTransactions.invalidate();
+          }}
+        />
+      )}
+
+      {refunding && (
+        <RefundModal
+          transactionId={refunding.id}
+          refundable={refunding.refundable}
+          currency={refunding.currency}
+          onClose={() => setRefunding(null)}
+          onSuccess={() => {
+            setRefunding(null);
+            utils.account.getTransactions.invalidate();
+            utils.account.getAccounts.invalidate();
+          }}
+        />
+      )}
     </div>
   );
 }
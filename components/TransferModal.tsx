@@ -0,0 +1,249 @@
+"use client";
+
+import { useState } from "react";
+import { useForm } from "react-hook-form";
+import { trpc } from "@/lib/trpc/client";
+import { accountName } from "@/lib/account-names";
+import { formatCurrency, parseMoney } from "@/lib/money";
+
+interface TransferModalProps {
+  accounts: { id: number; accountType: string; accountNumber: string; nickname: string | null; availableBalance: number; currency: string }[];
+  fromAccountId: number;
+  onClose: () => void;
+  onSuccess: () => void;
+}
+
+type TransferFormData = {
+  fromAccountId: string;
+  toAccountId: string;
+  amount: string;
+  description?: string;
+  frequency: "now" | "once" | "weekly" | "biweekly" | "monthly";
+  startDate: string;
+  endDate?: string;
+};
+
+const today = () => new Date().toISOString().slice(0, 10);
+
+export function TransferModal({ accounts, fromAccountId, onClose, onSuccess }: TransferModalProps) {
+  const [error, setError] = useState("");
+  const {
+    register,
+    handleSubmit,
+    watch,
+    formState: { errors },
+  } = useForm<TransferFormData>({
+    defaultValues: {
+      fromAccountId: String(fromAccountId),
+      toAccountId: String(accounts.find((a) => a.id !== fromAccountId)?.id ?? ""),
+      frequency: "now",
+      startDate: today(),
+    },
+  });
+
+  const selectedFromId = Number(watch("fromAccountId"));
+  const frequency = watch("frequency");
+  const selectedToId = Number(watch("toAccountId"));
+  const previewAmount = parseMoney(watch("amount") ?? "") ?? 0;
+  const fromAccount = accounts.find((a) => a.id === selectedFromId);
+  const toAccount = accounts.find((a) => a.id === selectedToId);
+  const isConversion = !!fromAccount && !!toAccount && fromAccount.currency !== toAccount.currency;
+
+  // Only needed when the accounts are in different currencies
+  const { data: quote } = trpc.account.getFxQuote.useQuery(
+    { fromAccountId: selectedFromId, toAccountId: selectedToId, amount: previewAmount },
+    { enabled: isConversion && previewAmount > 0 }
+  );
+  const transferMutation = trpc.account.transfer.useMutation();
+  const scheduleMutation = trpc.account.scheduleTransfer.useMutation();
+  const isPending = transferMutation.isPending || scheduleMutation.isPending;
+
+  const accountLabel = (account: TransferModalProps["accounts"][number]) =>
+    `${accountName(account)} (${formatCurrency(account.availableBalance, account.currency)} available)`;
+
+  const onSubmit = async (data: TransferFormData) => {
+    setError("");
+
+    const amount = parseMoney(data.amount);
+    if (amount === null) {
+      setError("Invalid amount");
+      return;
+    }
+
+    const transfer = {
+      fromAccountId: Number(data.fromAccountId),
+      toAccountId: Number(data.toAccountId),
+      amount,
+      description: data.description || undefined,
+    };
+
+    try {
+      if (data.frequency === "now") {
+        await transferMutation.mutateAsync(transfer);
+      } else {
+        await scheduleMutation.mutateAsync({
+          ...transfer,
+          frequency: data.frequency,
+          startDate: data.startDate,
+          endDate: data.frequency !== "once" && data.endDate ? data.endDate : undefined,
+        });
+      }
+
+      onSuccess();
+    } catch (err: unknown) {
+      if (err instanceof Error) {
+        setError(err.message || "Failed to transfer funds");
+      } else {
+        setError("Failed to transfer funds");
+      }
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-gray-500 bg-opacity-75 flex items-center justify-center p-4">
+      <div className="bg-white dark:bg-zinc-800 rounded-lg max-w-md w-full p-6">
+        <h3 className="text-lg font-medium text-gray-900 dark:text-white mb-4">Transfer Between Accounts</h3>
+
+        <form onSubmit={handleSubmit(onSubmit)} className="space-y-4">
+          <div>
+            <label className="block text-sm font-medium text-gray-700 dark:text-gray-300">From</label>
+            <select
+              {...register("fromAccountId", { required: true })}
+              className="mt-1 block w-full rounded-md border-gray-300 dark:border-zinc-600 shadow-sm sm:text-sm p-2 border dark:bg-zinc-700 dark:text-white"
+            >
+              {accounts.map((account) => (
+                <option key={account.id} value={account.id}>
+                  {accountLabel(account)}
+                </option>
+              ))}
+            </select>
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 dark:text-gray-300">To</label>
+            <select
+              {...register("toAccountId", {
+                required: "Choose an account to transfer to",
+                validate: (value) => Number(value) !== selectedFromId || "Choose a different account",
+              })}
+              className="mt-1 block w-full rounded-md border-gray-300 dark:border-zinc-600 shadow-sm sm:text-sm p-2 border dark:bg-zinc-700 dark:text-white"
+            >
+              {accounts.map((account) => (
+                <option key={account.id} value={account.id}>
+                  {accountLabel(account)}
+                </option>
+              ))}
+            </select>
+            {errors.toAccountId && <p className="mt-1 text-sm text-red-600">{errors.toAccountId.message}</p>}
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 dark:text-gray-300">Amount</label>
+            <div className="mt-1 relative rounded-md shadow-sm">
+              <div className="absolute inset-y-0 left-0 pl-3 flex items-center pointer-events-none">
+                <span className="text-gray-500 dark:text-gray-400 sm:text-sm">$</span>
+              </div>
+              <input
+                {...register("amount", {
+                  required: "Amount is required",
+                  pattern: {
+                    value: /^(0|[1-9]\d*)(\.\d{0,2})?$/,
+                    message: "Invalid amount format (no leading zeros)",
+                  },
+                  validate: (value) => (parseMoney(value) ?? 0) > 0 || "Amount must be at least $0.01",
+                })}
+                type="text"
+                className="pl-7 block w-full rounded-md border-gray-300 dark:border-zinc-600 focus:ring-blue-500 focus:border-blue-500 sm:text-sm p-2 border dark:bg-zinc-700 dark:text-white"
+                placeholder="0.00"
+              />
+            </div>
+            {errors.amount && <p className="mt-1 text-sm text-red-600">{errors.amount.message}</p>}
+            {isConversion && quote && previewAmount > 0 && (
+              <p className="mt-1 text-xs text-gray-500 dark:text-gray-400">
+                Receives {formatCurrency(quote.convertedAmount, quote.toCurrency)} at 1 {quote.fromCurrency} = {quote.rate}{" "}
+                {quote.toCurrency}
+              </p>
+            )}
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 dark:text-gray-300">Memo (optional)</label>
+            <input
+              {...register("description", { maxLength: { value: 100, message: "Memo is too long" } })}
+              type="text"
+              className="mt-1 block w-full rounded-md border-gray-300 dark:border-zinc-600 shadow-sm focus:border-blue-500 focus:ring-blue-500 sm:text-sm p-2 border dark:bg-zinc-700 dark:text-white"
+            />
+            {errors.description && <p className="mt-1 text-sm text-red-600">{errors.description.message}</p>}
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 dark:text-gray-300">When</label>
+            <select
+              {...register("frequency")}
+              className="mt-1 block w-full rounded-md border-gray-300 dark:border-zinc-600 shadow-sm sm:text-sm p-2 border dark:bg-zinc-700 dark:text-white"
+            >
+              <option value="now">Now</option>
+              <option value="once">On a later date</option>
+              <option value="weekly">Every week</option>
+              <option value="biweekly">Every two weeks</option>
+              <option value="monthly">Every month</option>
+            </select>
+          </div>
+
+          {frequency !== "now" && (
+            <div className="grid grid-cols-2 gap-3">
+              <div>
+                <label className="block text-sm font-medium text-gray-700 dark:text-gray-300">
+                  {frequency === "once" ? "Date" : "Starting"}
+                </label>
+                <input
+                  {...register("startDate", {
+                    required: "Choose a date",
+                    validate: (value) => value >= today() || "Date cannot be in the past",
+                  })}
+                  type="date"
+                  min={today()}
+                  className="mt-1 block w-full rounded-md border-gray-300 dark:border-zinc-600 shadow-sm sm:text-sm p-2 border dark:bg-zinc-700 dark:text-white"
+                />
+                {errors.startDate && <p className="mt-1 text-sm text-red-600">{errors.startDate.message}</p>}
+              </div>
+              {frequency !== "once" && (
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 dark:text-gray-300">Until (optional)</label>
+                  <input
+                    {...register("endDate", {
+                      validate: (value, values) =>
+                        !value || value >= values.startDate || "Must be on or after the start date",
+                    })}
+                    type="date"
+                    className="mt-1 block w-full rounded-md border-gray-300 dark:border-zinc-600 shadow-sm sm:text-sm p-2 border dark:bg-zinc-700 dark:text-white"
+                  />
+                  {errors.endDate && <p className="mt-1 text-sm text-red-600">{errors.endDate.message}</p>}
+                </div>
+              )}
+            </div>
+          )}
+
+          {error && <div className="text-sm text-red-600">{error}</div>}
+
+          <div className="flex justify-end space-x-3">
+            <button
+              type="button"
+              onClick={onClose}
+              className="px-4 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-md hover:bg-gray-50 dark:bg-zinc-700 dark:border-zinc-600 dark:text-gray-200 dark:hover:bg-zinc-600"
+            >
+              Cancel
+            </button>
+            <button
+              type="submit"
+              disabled={isPending}
+              className="px-4 py-2 text-sm font-medium text-white bg-blue-600 border border-transparent rounded-md hover:bg-blue-700 disabled:opacity-50"
+            >
+              {isPending ? "Processing..." : frequency === "now" ? "Transfer" : "Schedule"}
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+}
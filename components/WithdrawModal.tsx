@@ -0,0 +1,192 @@
+"use client";
+
+import { useState } from "react";
+import { useForm } from "react-hook-form";
+import { trpc } from "@/lib/trpc/client";
+import { isValidRoutingNumber } from "@/lib/routing-numbers";
+import { parseMoney } from "@/lib/money";
+import { RoutingBankName } from "@/components/RoutingBankName";
+
+interface WithdrawModalProps {
+  accountId: number;
+  canUseOverdraftProtection: boolean;
+  onClose: () => void;
+  onSuccess: () => void;
+}
+
+type WithdrawFormData = {
+  amount: string;
+  payeeId: string; // "" for new bank details
+  accountNumber: string;
+  routingNumber: string;
+  useOverdraftProtection: boolean;
+};
+
+export function WithdrawModal({ accountId, canUseOverdraftProtection, onClose, onSuccess }: WithdrawModalProps) {
+  const [error, setError] = useState("");
+  const {
+    register,
+    handleSubmit,
+    watch,
+    formState: { errors },
+  } = useForm<WithdrawFormData>({
+    defaultValues: {
+      payeeId: "",
+      useOverdraftProtection: canUseOverdraftProtection,
+    },
+  });
+  const usingPayee = watch("payeeId") !== "";
+
+  const { data: payees } = trpc.payees.getPayees.useQuery();
+  const bankPayees = payees?.filter((p) => p.kind === "external") ?? [];
+  const withdrawMutation = trpc.account.withdraw.useMutation();
+
+  const onSubmit = async (data: WithdrawFormData) => {
+    setError("");
+
+    const amount = parseMoney(data.amount);
+    if (amount === null) {
+      setError("Invalid amount");
+      return;
+    }
+
+    try {
+      await withdrawMutation.mutateAsync({
+        accountId,
+        amount,
+        ...(usingPayee
+          ? { payeeId: Number(data.payeeId) }
+          : { destination: { accountNumber: data.accountNumber, routingNumber: data.routingNumber } }),
+        useOverdraftProtection: canUseOverdraftProtection && data.useOverdraftProtection,
+      });
+
+      onSuccess();
+    } catch (err: unknown) {
+      if (err instanceof Error) {
+        setError(err.message || "Failed to withdraw funds");
+      } else {
+        setError("Failed to withdraw funds");
+      }
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-gray-500 bg-opacity-75 flex items-center justify-center p-4">
+      <div className="bg-white dark:bg-zinc-800 rounded-lg max-w-md w-full p-6">
+        <h3 className="text-lg font-medium text-gray-900 dark:text-white mb-4">Withdraw to Bank Account</h3>
+
+        <form onSubmit={handleSubmit(onSubmit)} className="space-y-4">
+          <div>
+            <label className="block text-sm font-medium text-gray-700 dark:text-gray-300">Amount</label>
+            <div className="mt-1 relative rounded-md shadow-sm">
+              <div className="absolute inset-y-0 left-0 pl-3 flex items-center pointer-events-none">
+                <span className="text-gray-500 dark:text-gray-400 sm:text-sm">$</span>
+              </div>
+              <input
+                {...register("amount", {
+                  required: "Amount is required",
+                  pattern: {
+                    value: /^(0|[1-9]\d*)(\.\d{0,2})?$/,
+                    message: "Invalid amount format (no leading zeros)",
+                  },
+                  validate: (value) => (parseMoney(value) ?? 0) > 0 || "Amount must be at least $0.01",
+                })}
+                type="text"
+                className="pl-7 block w-full rounded-md border-gray-300 dark:border-zinc-600 focus:ring-blue-500 focus:border-blue-500 sm:text-sm p-2 border dark:bg-zinc-700 dark:text-white"
+                placeholder="0.00"
+              />
+            </div>
+            {errors.amount && <p className="mt-1 text-sm text-red-600">{errors.amount.message}</p>}
+          </div>
+
+          {bankPayees.length > 0 && (
+            <div>
+              <label className="block text-sm font-medium text-gray-700 dark:text-gray-300">To</label>
+              <select
+                {...register("payeeId")}
+                className="mt-1 block w-full rounded-md border-gray-300 dark:border-zinc-600 shadow-sm focus:border-blue-500 focus:ring-blue-500 sm:text-sm p-2 border dark:bg-zinc-700 dark:text-white"
+              >
+                <option value="">New bank account</option>
+                {bankPayees.map((payee) => (
+                  <option key={payee.id} value={payee.id}>
+                    {payee.nickname} ({payee.maskedAccount})
+                  </option>
+                ))}
+              </select>
+            </div>
+          )}
+
+          {!usingPayee && (
+            <>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 dark:text-gray-300">Account Number</label>
+                <input
+                  {...register("accountNumber", {
+                    required: "Account number is required",
+                    pattern: {
+                      value: /^\d+$/,
+                      message: "Invalid account number",
+                    },
+                  })}
+                  type="text"
+                  className="mt-1 block w-full rounded-md border-gray-300 dark:border-zinc-600 shadow-sm focus:border-blue-500 focus:ring-blue-500 sm:text-sm p-2 border dark:bg-zinc-700 dark:text-white"
+                  placeholder="123456789"
+                />
+                {errors.accountNumber && <p className="mt-1 text-sm text-red-600">{errors.accountNumber.message}</p>}
+              </div>
+
+              <div>
+                <label className="block text-sm font-medium text-gray-700 dark:text-gray-300">Routing Number</label>
+                <input
+                  {...register("routingNumber", {
+                    required: "Routing number is required",
+                    pattern: {
+                      value: /^\d{9}$/,
+                      message: "Routing number must be 9 digits",
+                    },
+                    validate: (value) => isValidRoutingNumber(value) || "Invalid routing number",
+                  })}
+                  type="text"
+                  className="mt-1 block w-full rounded-md border-gray-300 dark:border-zinc-600 shadow-sm focus:border-blue-500 focus:ring-blue-500 sm:text-sm p-2 border dark:bg-zinc-700 dark:text-white"
+                  placeholder="021000021"
+                />
+                {errors.routingNumber && <p className="mt-1 text-sm text-red-600">{errors.routingNumber.message}</p>}
+                <RoutingBankName routingNumber={watch("routingNumber")} />
+              </div>
+            </>
+          )}
+
+          {canUseOverdraftProtection && (
+            <label className="flex items-center text-sm">
+              <input {...register("useOverdraftProtection")} type="checkbox" className="mr-2" />
+              <span className="dark:text-gray-200">Cover any shortfall from my savings account</span>
+            </label>
+          )}
+
+          <p className="text-xs text-gray-500 dark:text-gray-400">
+            Withdrawals are deducted now and show as pending until the receiving bank settles them.
+          </p>
+
+          {error && <div className="text-sm text-red-600">{error}</div>}
+
+          <div className="flex justify-end space-x-3">
+            <button
+              type="button"
+              onClick={onClose}
+              className="px-4 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-md hover:bg-gray-50 dark:bg-zinc-700 dark:border-zinc-600 dark:text-gray-200 dark:hover:bg-zinc-600"
+            >
+              Cancel
+            </button>
+            <button
+              type="submit"
+              disabled={withdrawMutation.isPending}
+              className="px-4 py-2 text-sm font-medium text-white bg-blue-600 border border-transparent rounded-md hover:bg-blue-700 disabled:opacity-50"
+            >
+              {withdrawMutation.isPending ? "Processing..." : "Withdraw"}
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+}
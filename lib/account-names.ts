@@ -0,0 +1,10 @@
+import { maskAccountNumber } from "./masking";
+
+// How accounts are named on screen: the customer's nickname if they gave one, else its type and masked number
+
+type NamedAccount = { accountType: string; accountNumber: string; nickname?: string | null };
+
+export const accountTypeLabel = (accountType: string) => accountType.charAt(0).toUpperCase() + accountType.slice(1);
+
+export const accountName = (account: NamedAccount) =>
+  account.nickname || `${accountTypeLabel(account.accountType)} ${maskAccountNumber(account.accountNumber)}`;
@@ -0,0 +1,24 @@
+// What each member of an account can do. The owner opened it and is the only one who can close it or change who
+// else has access; co-owners can move money like an owner; view-only members can see balances and history.
+export const ACCOUNT_ROLES = ["owner", "co_owner", "view_only"] as const;
+export type AccountRole = (typeof ACCOUNT_ROLES)[number];
+
+// Roles another customer can be invited with
+export const INVITABLE_ROLES = ["co_owner", "view_only"] as const;
+
+const ROLE_RANK: Record<AccountRole, number> = { view_only: 0, co_owner: 1, owner: 2 };
+
+// Whether `role` can do everything `required` can
+export const hasRole = (role: string, required: AccountRole) =>
+  (ROLE_RANK[role as AccountRole] ?? -1) >= ROLE_RANK[required];
+
+// Every role that can do at least what `required` can
+export const rolesAtLeast = (required: AccountRole) => ACCOUNT_ROLES.filter((role) => hasRole(role, required));
+
+const ROLE_LABELS: Record<AccountRole, string> = {
+  owner: "Owner",
+  co_owner: "Co-owner",
+  view_only: "View only",
+};
+
+export const accountRoleLabel = (role: string) => ROLE_LABELS[role as AccountRole] ?? role;
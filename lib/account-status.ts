@@ -0,0 +1,52 @@
+// An account's lifecycle: opened as `pending` until approved, then `active`. The bank can freeze it (nothing
+// moves in or out) and long-unused accounts go `dormant` (money can still come in). `closed` is final.
+export const ACCOUNT_STATUSES = ["pending", "active", "frozen", "dormant", "closed"] as const;
+export type AccountStatus = (typeof ACCOUNT_STATUSES)[number];
+
+// Which way money can move for an account in each status
+const MONEY_MOVEMENT: Record<AccountStatus, { receive: boolean; send: boolean }> = {
+  pending: { receive: false, send: false },
+  active: { receive: true, send: true },
+  frozen: { receive: false, send: false },
+  dormant: { receive: true, send: false },
+  closed: { receive: false, send: false },
+};
+
+export const canReceiveMoney = (status: string) => MONEY_MOVEMENT[status as AccountStatus]?.receive ?? false;
+export const canSendMoney = (status: string) => MONEY_MOVEMENT[status as AccountStatus]?.send ?? false;
+
+export const RECEIVING_ACCOUNT_STATUSES = ACCOUNT_STATUSES.filter(canReceiveMoney);
+
+// Statuses in which an account still holds the customer's money (and earns interest on it)
+export const OPEN_ACCOUNT_STATUSES: AccountStatus[] = ["active", "frozen", "dormant"];
+
+// Why money can't move, shown to the customer
+const STATUS_MESSAGES: Partial<Record<AccountStatus, string>> = {
+  pending: "Account is not active yet: it is awaiting approval",
+  frozen: "Account is not active: it has been frozen. Contact support for help",
+  dormant: "Account is not active: it is dormant. Reactivate it to send money",
+  closed: "Account is not active: it has been closed",
+};
+
+export const accountStatusMessage = (status: string) =>
+  STATUS_MESSAGES[status as AccountStatus] ?? "Account is not active";
+
+// What each inactive status means for the customer, shown next to the account
+const STATUS_DESCRIPTIONS: Partial<Record<AccountStatus, string>> = {
+  pending: "Awaiting approval",
+  frozen: "Frozen by the bank; nothing can be paid in or out",
+  dormant: "Unused for a long time; money can come in, but reactivate it to send money",
+  closed: "Closed",
+};
+
+export const accountStatusDescription = (status: string) => STATUS_DESCRIPTIONS[status as AccountStatus] ?? "";
+
+const STATUS_STYLES: Record<AccountStatus, string> = {
+  pending: "text-yellow-600",
+  active: "text-green-600",
+  frozen: "text-red-600",
+  dormant: "text-gray-500",
+  closed: "text-gray-500",
+};
+
+export const accountStatusStyle = (status: string) => STATUS_STYLES[status as AccountStatus] ?? "text-gray-500";
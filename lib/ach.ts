@@ -0,0 +1,19 @@
+// NACHA return reason codes we expect to see on bank (ACH) funding, with the text shown to customers
+export const ACH_RETURN_CODES = {
+  R01: "Insufficient funds",
+  R02: "Account closed",
+  R03: "No account / unable to locate account",
+  R04: "Invalid account number",
+  R05: "Unauthorized debit to consumer account",
+  R07: "Authorization revoked by customer",
+  R08: "Payment stopped",
+  R10: "Customer advises not authorized",
+  R16: "Account frozen",
+  R20: "Non-transaction account",
+} as const;
+
+export type AchReturnCode = keyof typeof ACH_RETURN_CODES;
+
+export const isAchReturnCode = (code: string): code is AchReturnCode => code in ACH_RETURN_CODES;
+
+export const achReturnDescription = (code: AchReturnCode) => `${code}: ${ACH_RETURN_CODES[code]}`;
@@ -0,0 +1,110 @@
+// Which network issued a card, from the leading digits (IIN) of its number, and the rules that network's cards
+// follow. Shared by the client (live brand and validation) and the server.
+
+export const CARD_NETWORKS = ["visa", "mastercard", "amex", "discover"] as const;
+
+export type CardNetwork = (typeof CARD_NETWORKS)[number];
+
+type NetworkRules = {
+  label: string;
+  iinRanges: [string, string][]; // inclusive, compared on the same number of leading digits
+  lengths: number[];
+  cvvLength: number;
+};
+
+const NETWORK_RULES: Record<CardNetwork, NetworkRules> = {
+  visa: { label: "Visa", iinRanges: [["4", "4"]], lengths: [13, 16, 19], cvvLength: 3 },
+  mastercard: {
+    label: "Mastercard",
+    iinRanges: [
+      ["51", "55"],
+      ["2221", "2720"],
+    ],
+    lengths: [16],
+    cvvLength: 3,
+  },
+  amex: {
+    label: "American Express",
+    iinRanges: [
+      ["34", "34"],
+      ["37", "37"],
+    ],
+    lengths: [15],
+    cvvLength: 4,
+  },
+  discover: {
+    label: "Discover",
+    iinRanges: [
+      ["6011", "6011"],
+      ["622126", "622925"],
+      ["644", "649"],
+      ["65", "65"],
+    ],
+    lengths: [16, 17, 18, 19],
+    cvvLength: 3,
+  },
+};
+
+export const isCardNetwork = (value: string): value is CardNetwork => CARD_NETWORKS.includes(value as CardNetwork);
+
+export const cardNetworkLabel = (network: string) => (isCardNetwork(network) ? NETWORK_RULES[network].label : "Card");
+
+export const cardNumberLengths = (network: CardNetwork) => NETWORK_RULES[network].lengths;
+
+export const cardSecurityCodeLength = (network: CardNetwork) => NETWORK_RULES[network].cvvLength;
+
+const inIinRange = (digits: string, [from, to]: [string, string]) => {
+  if (digits.length < from.length) return false;
+  const prefix = digits.slice(0, from.length);
+  return prefix >= from && prefix <= to;
+};
+
+// Works on partial numbers too, so the brand can be shown while the number is typed
+export function detectCardNetwork(cardNumber: string): CardNetwork | null {
+  const digits = cardNumber.replace(/\D/g, "");
+  return CARD_NETWORKS.find((network) => NETWORK_RULES[network].iinRanges.some((range) => inIinRange(digits, range))) ?? null;
+}
+
+// e.g. "Visa card numbers are 13, 16 or 19 digits"
+export function cardLengthMessage(network: CardNetwork) {
+  const lengths = cardNumberLengths(network);
+  const list = lengths.length === 1 ? `${lengths[0]}` : `${lengths.slice(0, -1).join(", ")} or ${lengths[lengths.length - 1]}`;
+  return `${cardNetworkLabel(network)} card numbers are ${list} digits`;
+}
+
+// Luhn Algorithm
+export const passesLuhn = (cardNumber: string) => {
+  const sanitized = cardNumber.replace(/\D/g, "");
+  let sum = 0;
+  let shouldDouble = false;
+  for (let i = sanitized.length - 1; i >= 0; i--) {
+    let digit = parseInt(sanitized.charAt(i));
+    if (shouldDouble) {
+      digit *= 2;
+      if (digit > 9) digit -= 9;
+    }
+    sum += digit;
+    shouldDouble = !shouldDouble;
+  }
+  return sum % 10 === 0;
+};
+
+// Why a card number can't be used, or null when it can: it must belong to a known network, have one of that
+// network's lengths and pass Luhn. Whether the network is accepted is a server setting, checked separately
+export function cardNumberProblem(cardNumber: string): string | null {
+  const network = /^\d+$/.test(cardNumber) ? detectCardNetwork(cardNumber) : null;
+  if (!network) return "Enter a Visa, Mastercard, American Express or Discover card number";
+  if (!cardNumberLengths(network).includes(cardNumber.length)) return cardLengthMessage(network);
+  if (!passesLuhn(cardNumber)) return "Invalid card number";
+  return null;
+}
+
+// Cards can be used up to the end of their expiry month
+export const isCardExpired = (expiryMonth: number, expiryYear: number, now = new Date()) =>
+  expiryYear * 12 + expiryMonth < now.getUTCFullYear() * 12 + now.getUTCMonth() + 1;
+
+// "MM/YY" as typed on a form, e.g. "07/29" is July 2029
+export function parseCardExpiry(expiry: string) {
+  const match = /^(0[1-9]|1[0-2])\/(\d{2})$/.exec(expiry.trim());
+  return match ? { expiryMonth: Number(match[1]), expiryYear: 2000 + Number(match[2]) } : null;
+}
@@ -0,0 +1,41 @@
+// Spending categories a transaction can be filed under. Stored by key; the rules table refers to the same keys.
+export const CATEGORIES = [
+  "income",
+  "transfers",
+  "groceries",
+  "dining",
+  "shopping",
+  "housing",
+  "bills",
+  "transport",
+  "entertainment",
+  "health",
+  "travel",
+  "interest",
+  "fees",
+  "refunds",
+  "other",
+] as const;
+
+export type Category = (typeof CATEGORIES)[number];
+
+const CATEGORY_LABELS: Record<Category, string> = {
+  income: "Income",
+  transfers: "Transfers",
+  groceries: "Groceries",
+  dining: "Dining",
+  shopping: "Shopping",
+  housing: "Housing",
+  bills: "Bills & Utilities",
+  transport: "Transport",
+  entertainment: "Entertainment",
+  health: "Health",
+  travel: "Travel",
+  interest: "Interest",
+  fees: "Fees",
+  refunds: "Refunds",
+  other: "Other",
+};
+
+export const categoryLabel = (category: string | null) =>
+  category ? (CATEGORY_LABELS[category as Category] ?? category) : "Uncategorized";
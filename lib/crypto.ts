@@ -40,3 +40,13 @@ export const decrypt = (text: string): string => {
         return text; // Return original if decryption fails (e.g. legacy cleartext)
     }
 };
+
+// A keyed hash for spotting the same secret twice (e.g. a duplicate saved account) without decrypting anything
+export const fingerprint = (text: string): string => {
+    return crypto.createHmac('sha256', getSecretKey()).update(text).digest('hex');
+};
+
+// An unguessable reference to a stored secret, e.g. "fs_3f9c..."; it says nothing about what it refers to
+export const opaqueToken = (prefix: string): string => {
+    return `${prefix}_${crypto.randomBytes(16).toString('hex')}`;
+};
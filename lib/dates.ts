@@ -0,0 +1,19 @@
+// Calendar days are handled as UTC YYYY-MM-DD strings, which compare correctly as plain strings
+export const isoDate = (date: Date) => date.toISOString().slice(0, 10);
+
+export function addDays(date: string, days: number) {
+  const [y, m, d] = date.split("-").map(Number);
+  return isoDate(new Date(Date.UTC(y, m - 1, d + days)));
+}
+
+// First day of the month `offset` months after the one `date` (YYYY-MM-DD or YYYY-MM) falls in
+export function monthStart(date: string, offset = 0) {
+  const [y, m] = date.split("-").map(Number);
+  return isoDate(new Date(Date.UTC(y, m - 1 + offset, 1)));
+}
+
+// "January 2031" for any YYYY-MM or YYYY-MM-DD date in that month
+export function formatMonth(date: string) {
+  const [y, m] = date.split("-").map(Number);
+  return new Date(Date.UTC(y, m - 1, 1)).toLocaleDateString("en-US", { month: "long", year: "numeric", timeZone: "UTC" });
+}
@@ -1,60 +1,19 @@
 import { drizzle } from "drizzle-orm/better-sqlite3";
 import Database from "better-sqlite3";
 import * as schema from "./schema";
+import { migrate } from "./migrations";
 
 const dbPath = "bank.db";
 
 const sqlite = new Database(dbPath);
 export const db = drizzle(sqlite, { schema });
 
-export function initDb() {
-  // Create tables if they don't exist
-  sqlite.exec(`
-    CREATE TABLE IF NOT EXISTS users (
-      id INTEGER PRIMARY KEY AUTOINCREMENT,
-      email TEXT UNIQUE NOT NULL,
-      password TEXT NOT NULL,
-      first_name TEXT NOT NULL,
-      last_name TEXT NOT NULL,
-      phone_number TEXT NOT NULL,
-      date_of_birth TEXT NOT NULL,
-      ssn TEXT NOT NULL,
-      address TEXT NOT NULL,
-      city TEXT NOT NULL,
-      state TEXT NOT NULL,
-      zip_code TEXT NOT NULL,
-      created_at TEXT DEFAULT CURRENT_TIMESTAMP
-    );
-
-    CREATE TABLE IF NOT EXISTS accounts (
-      id INTEGER PRIMARY KEY AUTOINCREMENT,
-      user_id INTEGER NOT NULL REFERENCES users(id),
-      account_number TEXT UNIQUE NOT NULL,
-      account_type TEXT NOT NULL,
-      balance REAL DEFAULT 0 NOT NULL,
-      status TEXT DEFAULT 'pending',
-      created_at TEXT DEFAULT CURRENT_TIMESTAMP
-    );
+// The handle passed to db.transaction callbacks (better-sqlite3 transactions are synchronous)
+export type DbTransaction = Parameters<Parameters<typeof db.transaction>[0]>[0];
 
-    CREATE TABLE IF NOT EXISTS transactions (
-      id INTEGER PRIMARY KEY AUTOINCREMENT,
-      account_id INTEGER NOT NULL REFERENCES accounts(id),
-      type TEXT NOT NULL,
-      amount REAL NOT NULL,
-      description TEXT,
-      status TEXT DEFAULT 'pending' NOT NULL,
-      created_at TEXT DEFAULT CURRENT_TIMESTAMP,
-      processed_at TEXT
-    );
-
-    CREATE TABLE IF NOT EXISTS sessions (
-      id INTEGER PRIMARY KEY AUTOINCREMENT,
-      user_id INTEGER NOT NULL REFERENCES users(id),
-      token TEXT UNIQUE NOT NULL,
-      expires_at TEXT NOT NULL,
-      created_at TEXT DEFAULT CURRENT_TIMESTAMP
-    );
-  `);
+export function initDb() {
+  // Create tables if they don't exist and apply any pending migrations
+  migrate(sqlite);
 }
 
 // Initialize database on import
@@ -0,0 +1,811 @@
+import type Database from "better-sqlite3";
+import { fingerprint } from "../crypto";
+
+type Migration = {
+  version: number;
+  description: string;
+  up: (sqlite: Database.Database) => void;
+};
+
+// Original (version 0) schema. Never edit this: schema changes go into a new migration below.
+const BASE_SCHEMA = `
+  CREATE TABLE IF NOT EXISTS users (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    email TEXT UNIQUE NOT NULL,
+    password TEXT NOT NULL,
+    first_name TEXT NOT NULL,
+    last_name TEXT NOT NULL,
+    phone_number TEXT NOT NULL,
+    date_of_birth TEXT NOT NULL,
+    ssn TEXT NOT NULL,
+    address TEXT NOT NULL,
+    city TEXT NOT NULL,
+    state TEXT NOT NULL,
+    zip_code TEXT NOT NULL,
+    created_at TEXT DEFAULT CURRENT_TIMESTAMP
+  );
+
+  CREATE TABLE IF NOT EXISTS accounts (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    user_id INTEGER NOT NULL REFERENCES users(id),
+    account_number TEXT UNIQUE NOT NULL,
+    account_type TEXT NOT NULL,
+    balance REAL DEFAULT 0 NOT NULL,
+    status TEXT DEFAULT 'pending',
+    created_at TEXT DEFAULT CURRENT_TIMESTAMP
+  );
+
+  CREATE TABLE IF NOT EXISTS transactions (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    account_id INTEGER NOT NULL REFERENCES accounts(id),
+    type TEXT NOT NULL,
+    amount REAL NOT NULL,
+    description TEXT,
+    status TEXT DEFAULT 'pending' NOT NULL,
+    created_at TEXT DEFAULT CURRENT_TIMESTAMP,
+    processed_at TEXT
+  );
+
+  CREATE TABLE IF NOT EXISTS sessions (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    user_id INTEGER NOT NULL REFERENCES users(id),
+    token TEXT UNIQUE NOT NULL,
+    expires_at TEXT NOT NULL,
+    created_at TEXT DEFAULT CURRENT_TIMESTAMP
+  );
+`;
+
+const columnType = (sqlite: Database.Database, table: string, column: string) => {
+  const columns = sqlite.pragma(`table_info(${table})`) as { name: string; type: string }[];
+  return columns.find((c) => c.name === column)?.type.toUpperCase();
+};
+
+const MIGRATIONS: Migration[] = [
+  {
+    version: 1,
+    description: "Store balances and amounts as integer cents",
+    up: (sqlite) => {
+      // SQLite cannot change a column type in place, so rebuild both tables.
+      // ROUND before CAST so values like 0.29 (stored as 0.28999...) become 29, not 28.
+      if (columnType(sqlite, "accounts", "balance") === "REAL") {
+        sqlite.exec(`
+          CREATE TABLE accounts_new (
+            id INTEGER PRIMARY KEY AUTOINCREMENT,
+            user_id INTEGER NOT NULL REFERENCES users(id),
+            account_number TEXT UNIQUE NOT NULL,
+            account_type TEXT NOT NULL,
+            balance INTEGER DEFAULT 0 NOT NULL,
+            status TEXT DEFAULT 'pending',
+            created_at TEXT DEFAULT CURRENT_TIMESTAMP
+          );
+          INSERT INTO accounts_new (id, user_id, account_number, account_type, balance, status, created_at)
+            SELECT id, user_id, account_number, account_type, CAST(ROUND(balance * 100) AS INTEGER), status, created_at
+            FROM accounts;
+          DROP TABLE accounts;
+          ALTER TABLE accounts_new RENAME TO accounts;
+        `);
+      }
+
+      if (columnType(sqlite, "transactions", "amount") === "REAL") {
+        sqlite.exec(`
+          CREATE TABLE transactions_new (
+            id INTEGER PRIMARY KEY AUTOINCREMENT,
+            account_id INTEGER NOT NULL REFERENCES accounts(id),
+            type TEXT NOT NULL,
+            amount INTEGER NOT NULL,
+            description TEXT,
+            status TEXT DEFAULT 'pending' NOT NULL,
+            created_at TEXT DEFAULT CURRENT_TIMESTAMP,
+            processed_at TEXT
+          );
+          INSERT INTO transactions_new (id, account_id, type, amount, description, status, created_at, processed_at)
+            SELECT id, account_id, type, CAST(ROUND(amount * 100) AS INTEGER), description, status, created_at, processed_at
+            FROM transactions;
+          DROP TABLE transactions;
+          ALTER TABLE transactions_new RENAME TO transactions;
+        `);
+      }
+    },
+  },
+  {
+    version: 2,
+    description: "Double-entry ledger",
+    up: (sqlite) => {
+      sqlite.exec(`
+        CREATE TABLE ledger_accounts (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          code TEXT UNIQUE NOT NULL,
+          name TEXT NOT NULL,
+          kind TEXT NOT NULL,
+          account_id INTEGER REFERENCES accounts(id),
+          created_at TEXT DEFAULT CURRENT_TIMESTAMP
+        );
+        CREATE INDEX ledger_accounts_account_id_idx ON ledger_accounts(account_id);
+
+        CREATE TABLE journal_entries (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          description TEXT NOT NULL,
+          created_at TEXT DEFAULT CURRENT_TIMESTAMP
+        );
+
+        CREATE TABLE postings (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          journal_entry_id INTEGER NOT NULL REFERENCES journal_entries(id),
+          ledger_account_id INTEGER NOT NULL REFERENCES ledger_accounts(id),
+          transaction_id INTEGER REFERENCES transactions(id),
+          direction TEXT NOT NULL CHECK (direction IN ('debit', 'credit')),
+          amount INTEGER NOT NULL CHECK (amount > 0),
+          created_at TEXT DEFAULT CURRENT_TIMESTAMP
+        );
+        CREATE INDEX postings_journal_entry_id_idx ON postings(journal_entry_id);
+        CREATE INDEX postings_ledger_account_id_idx ON postings(ledger_account_id);
+
+        INSERT INTO ledger_accounts (code, name, kind) VALUES
+          ('external_funding_clearing', 'External Funding Clearing', 'asset'),
+          ('fee_income', 'Fee Income', 'revenue'),
+          ('interest_expense', 'Interest Expense', 'expense'),
+          ('opening_balance_equity', 'Opening Balance Equity', 'equity');
+
+        INSERT INTO ledger_accounts (code, name, kind, account_id)
+          SELECT 'customer:' || id, 'Customer Account ' || account_number, 'liability', id FROM accounts;
+      `);
+
+      // Existing balances predate the ledger, so book each one as an opening balance.
+      const openingBalances = sqlite
+        .prepare(
+          `SELECT a.balance, l.id AS ledger_account_id FROM accounts a
+           JOIN ledger_accounts l ON l.account_id = a.id
+           WHERE a.balance != 0`
+        )
+        .all() as { balance: number; ledger_account_id: number }[];
+      const equityId = sqlite
+        .prepare("SELECT id FROM ledger_accounts WHERE code = 'opening_balance_equity'")
+        .pluck()
+        .get() as number;
+      const insertEntry = sqlite.prepare("INSERT INTO journal_entries (description) VALUES ('Opening balance')");
+      const insertPosting = sqlite.prepare(
+        "INSERT INTO postings (journal_entry_id, ledger_account_id, direction, amount) VALUES (?, ?, ?, ?)"
+      );
+
+      for (const { balance, ledger_account_id } of openingBalances) {
+        const entryId = insertEntry.run().lastInsertRowid;
+        const customerSide = balance > 0 ? "credit" : "debit";
+        const equitySide = balance > 0 ? "debit" : "credit";
+        insertPosting.run(entryId, equityId, equitySide, Math.abs(balance));
+        insertPosting.run(entryId, ledger_account_id, customerSide, Math.abs(balance));
+      }
+    },
+  },
+  {
+    version: 3,
+    description: "Link the two legs of a transfer",
+    up: (sqlite) => {
+      sqlite.exec(`
+        ALTER TABLE transactions ADD COLUMN linked_transaction_id INTEGER REFERENCES transactions(id);
+      `);
+    },
+  },
+  {
+    version: 4,
+    description: "Masked counterparty details for person-to-person payments",
+    up: (sqlite) => {
+      sqlite.exec(`
+        ALTER TABLE transactions ADD COLUMN counterparty_name TEXT;
+        ALTER TABLE transactions ADD COLUMN counterparty_account TEXT;
+      `);
+    },
+  },
+  {
+    version: 5,
+    description: "Clearing account for withdrawals to external banks",
+    up: (sqlite) => {
+      sqlite.exec(`
+        INSERT INTO ledger_accounts (code, name, kind) VALUES
+          ('external_withdrawal_clearing', 'External Withdrawal Clearing', 'liability');
+      `);
+    },
+  },
+  {
+    version: 6,
+    description: "Idempotency keys for money-moving mutations",
+    up: (sqlite) => {
+      sqlite.exec(`
+        CREATE TABLE idempotency_keys (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          user_id INTEGER NOT NULL REFERENCES users(id),
+          key TEXT NOT NULL,
+          scope TEXT NOT NULL,
+          request_hash TEXT NOT NULL,
+          response TEXT,
+          created_at TEXT DEFAULT CURRENT_TIMESTAMP
+        );
+        CREATE UNIQUE INDEX idempotency_keys_user_id_key_idx ON idempotency_keys(user_id, key);
+      `);
+    },
+  },
+  {
+    version: 7,
+    description: "Funding settlement lifecycle with available balances",
+    up: (sqlite) => {
+      // Everything recorded so far was credited immediately, so it is all available
+      sqlite.exec(`
+        ALTER TABLE accounts ADD COLUMN available_balance INTEGER DEFAULT 0 NOT NULL;
+        UPDATE accounts SET available_balance = balance;
+
+        ALTER TABLE transactions ADD COLUMN source_type TEXT;
+        ALTER TABLE transactions ADD COLUMN failure_reason TEXT;
+        UPDATE transactions SET source_type = 'card' WHERE type = 'deposit' AND description = 'Funding from card';
+        UPDATE transactions SET source_type = 'bank' WHERE (type = 'deposit' AND description = 'Funding from bank') OR type = 'withdrawal';
+        CREATE INDEX transactions_status_idx ON transactions(status);
+
+        INSERT INTO ledger_accounts (code, name, kind) VALUES
+          ('settlement_cash', 'Cash at Settlement Bank', 'asset');
+      `);
+    },
+  },
+  {
+    version: 8,
+    description: "Reversals, refunds and ACH returns",
+    up: (sqlite) => {
+      sqlite.exec(`
+        ALTER TABLE transactions ADD COLUMN reversal_of_id INTEGER REFERENCES transactions(id);
+        ALTER TABLE transactions ADD COLUMN reversed_amount INTEGER DEFAULT 0 NOT NULL;
+        ALTER TABLE transactions ADD COLUMN return_code TEXT;
+        CREATE INDEX transactions_reversal_of_id_idx ON transactions(reversal_of_id);
+      `);
+    },
+  },
+  {
+    version: 9,
+    description: "Scheduled and recurring transfers",
+    up: (sqlite) => {
+      sqlite.exec(`
+        CREATE TABLE scheduled_transfers (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          user_id INTEGER NOT NULL REFERENCES users(id),
+          from_account_id INTEGER NOT NULL REFERENCES accounts(id),
+          to_account_id INTEGER NOT NULL REFERENCES accounts(id),
+          amount INTEGER NOT NULL,
+          description TEXT,
+          frequency TEXT NOT NULL,
+          start_date TEXT NOT NULL,
+          end_date TEXT,
+          max_occurrences INTEGER,
+          occurrences INTEGER DEFAULT 0 NOT NULL,
+          next_run_date TEXT,
+          status TEXT DEFAULT 'active' NOT NULL,
+          last_run_at TEXT,
+          last_error TEXT,
+          created_at TEXT DEFAULT CURRENT_TIMESTAMP
+        );
+        CREATE INDEX scheduled_transfers_user_id_idx ON scheduled_transfers(user_id);
+        CREATE INDEX scheduled_transfers_due_idx ON scheduled_transfers(status, next_run_date);
+      `);
+    },
+  },
+  {
+    version: 10,
+    description: "Interest rate tiers and daily accruals",
+    up: (sqlite) => {
+      sqlite.exec(`
+        CREATE TABLE interest_rate_tiers (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          account_type TEXT NOT NULL,
+          min_balance INTEGER NOT NULL,
+          apy_bps INTEGER NOT NULL,
+          created_at TEXT DEFAULT CURRENT_TIMESTAMP
+        );
+        CREATE UNIQUE INDEX interest_rate_tiers_account_type_min_balance_idx ON interest_rate_tiers(account_type, min_balance);
+
+        INSERT INTO interest_rate_tiers (account_type, min_balance, apy_bps) VALUES
+          ('checking', 0, 1),
+          ('savings', 0, 200),
+          ('savings', 1000000, 350),
+          ('savings', 10000000, 425);
+
+        CREATE TABLE interest_accruals (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          account_id INTEGER NOT NULL REFERENCES accounts(id),
+          accrual_date TEXT NOT NULL,
+          balance INTEGER NOT NULL,
+          apy_bps INTEGER NOT NULL,
+          amount_micro_cents INTEGER NOT NULL,
+          transaction_id INTEGER REFERENCES transactions(id),
+          posted_at TEXT
+        );
+        CREATE UNIQUE INDEX interest_accruals_account_id_accrual_date_idx ON interest_accruals(account_id, accrual_date);
+      `);
+    },
+  },
+  {
+    version: 11,
+    description: "User tiers and funding limits",
+    up: (sqlite) => {
+      sqlite.exec(`
+        ALTER TABLE users ADD COLUMN tier TEXT DEFAULT 'standard' NOT NULL;
+
+        CREATE TABLE funding_limits (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          tier TEXT NOT NULL,
+          scope TEXT NOT NULL,
+          scope_value TEXT NOT NULL,
+          per_transaction INTEGER,
+          daily INTEGER,
+          rolling_30_day INTEGER
+        );
+        CREATE UNIQUE INDEX funding_limits_tier_scope_idx ON funding_limits(tier, scope, scope_value);
+
+        INSERT INTO funding_limits (tier, scope, scope_value, per_transaction, daily, rolling_30_day) VALUES
+          ('standard', 'source_type', 'card', 250000, 500000, 2000000),
+          ('standard', 'source_type', 'bank', 1000000, 1000000, 5000000),
+          ('standard', 'account_type', 'checking', NULL, 1500000, 6000000),
+          ('standard', 'account_type', 'savings', NULL, 1500000, 6000000),
+          ('verified', 'source_type', 'card', 500000, 1000000, 4000000),
+          ('verified', 'source_type', 'bank', 2500000, 2500000, 10000000),
+          ('verified', 'account_type', 'checking', NULL, 3000000, 12000000),
+          ('verified', 'account_type', 'savings', NULL, 3000000, 12000000),
+          ('premium', 'source_type', 'card', 1000000, 2000000, 8000000),
+          ('premium', 'source_type', 'bank', 10000000, 10000000, 50000000),
+          ('premium', 'account_type', 'checking', NULL, 10000000, 50000000),
+          ('premium', 'account_type', 'savings', NULL, 10000000, 50000000);
+      `);
+    },
+  },
+  {
+    version: 12,
+    description: "Account and transaction currencies with FX rates",
+    up: (sqlite) => {
+      // Everything so far was implicitly USD
+      sqlite.exec(`
+        ALTER TABLE accounts ADD COLUMN currency TEXT DEFAULT 'USD' NOT NULL;
+        ALTER TABLE transactions ADD COLUMN currency TEXT DEFAULT 'USD' NOT NULL;
+        ALTER TABLE transactions ADD COLUMN fx_rate REAL;
+        ALTER TABLE ledger_accounts ADD COLUMN currency TEXT DEFAULT 'USD' NOT NULL;
+
+        CREATE TABLE fx_rates (
+          currency TEXT PRIMARY KEY,
+          units_per_usd REAL NOT NULL,
+          spread_bps INTEGER NOT NULL,
+          updated_at TEXT DEFAULT CURRENT_TIMESTAMP
+        );
+        INSERT INTO fx_rates (currency, units_per_usd, spread_bps) VALUES
+          ('USD', 1, 0),
+          ('EUR', 0.92, 50),
+          ('GBP', 0.79, 50);
+
+        -- Conversions leave one currency and enter another through these position accounts
+        INSERT INTO ledger_accounts (code, name, kind, currency) VALUES
+          ('fx_position:USD', 'FX Position USD', 'asset', 'USD'),
+          ('fx_position:EUR', 'FX Position EUR', 'asset', 'EUR'),
+          ('fx_position:GBP', 'FX Position GBP', 'asset', 'GBP');
+      `);
+    },
+  },
+  {
+    version: 13,
+    description: "Monthly statements",
+    up: (sqlite) => {
+      sqlite.exec(`
+        CREATE TABLE statements (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          account_id INTEGER NOT NULL REFERENCES accounts(id),
+          period_start TEXT NOT NULL,
+          period_end TEXT NOT NULL,
+          currency TEXT NOT NULL,
+          opening_balance INTEGER NOT NULL,
+          closing_balance INTEGER NOT NULL,
+          total_credits INTEGER NOT NULL,
+          total_debits INTEGER NOT NULL,
+          interest_paid INTEGER NOT NULL,
+          fees_charged INTEGER NOT NULL,
+          data TEXT NOT NULL,
+          created_at TEXT DEFAULT CURRENT_TIMESTAMP
+        );
+        CREATE UNIQUE INDEX statements_account_id_period_start_idx ON statements(account_id, period_start);
+      `);
+    },
+  },
+  {
+    version: 14,
+    description: "Transaction history index and description search",
+    up: (sqlite) => {
+      sqlite.exec(`
+        CREATE INDEX transactions_account_id_created_at_id_idx ON transactions(account_id, created_at, id);
+
+        CREATE VIRTUAL TABLE transactions_fts USING fts5(description, content='transactions', content_rowid='id');
+        CREATE TRIGGER transactions_fts_insert AFTER INSERT ON transactions BEGIN
+          INSERT INTO transactions_fts(rowid, description) VALUES (new.id, new.description);
+        END;
+        CREATE TRIGGER transactions_fts_delete AFTER DELETE ON transactions BEGIN
+          INSERT INTO transactions_fts(transactions_fts, rowid, description) VALUES ('delete', old.id, old.description);
+        END;
+        CREATE TRIGGER transactions_fts_update AFTER UPDATE OF description ON transactions BEGIN
+          INSERT INTO transactions_fts(transactions_fts, rowid, description) VALUES ('delete', old.id, old.description);
+          INSERT INTO transactions_fts(rowid, description) VALUES (new.id, new.description);
+        END;
+        INSERT INTO transactions_fts(transactions_fts) VALUES ('rebuild');
+      `);
+    },
+  },
+  {
+    version: 15,
+    description: "Running balances and daily balance snapshots",
+    up: (sqlite) => {
+      sqlite.exec(`
+        ALTER TABLE postings ADD COLUMN balance_after INTEGER;
+        CREATE INDEX postings_transaction_id_idx ON postings(transaction_id);
+
+        CREATE TABLE daily_balances (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          account_id INTEGER NOT NULL REFERENCES accounts(id),
+          date TEXT NOT NULL,
+          balance INTEGER NOT NULL,
+          updated_at TEXT DEFAULT CURRENT_TIMESTAMP
+        );
+        CREATE UNIQUE INDEX daily_balances_account_id_date_idx ON daily_balances(account_id, date);
+
+        -- Backfill both from the existing customer postings, in posting order
+        CREATE TEMP TABLE running_balances (id INTEGER PRIMARY KEY, account_id INTEGER NOT NULL, day TEXT NOT NULL, balance INTEGER NOT NULL);
+        INSERT INTO running_balances (id, account_id, day, balance)
+          SELECT p.id, la.account_id, substr(p.created_at, 1, 10),
+            SUM(CASE WHEN p.direction = 'credit' THEN p.amount ELSE -p.amount END) OVER (PARTITION BY p.ledger_account_id ORDER BY p.id)
+          FROM postings p JOIN ledger_accounts la ON la.id = p.ledger_account_id
+          WHERE la.account_id IS NOT NULL;
+        UPDATE postings SET balance_after = (SELECT balance FROM running_balances r WHERE r.id = postings.id)
+          WHERE id IN (SELECT id FROM running_balances);
+        INSERT INTO daily_balances (account_id, date, balance)
+          SELECT account_id, day, balance FROM running_balances
+          WHERE id IN (SELECT MAX(id) FROM running_balances GROUP BY account_id, day);
+        DROP TABLE running_balances;
+      `);
+    },
+  },
+  {
+    version: 16,
+    description: "Transaction categories, notes, tags and categorization rules",
+    up: (sqlite) => {
+      // The highest-priority rule matching a transaction: the owner's own rules first, then the most specific
+      // global rule, then the newest. Patterns are lowercase substrings, except type rules which match exactly.
+      const matchingCategory = (t: string) => `(
+        SELECT r.category FROM categorization_rules r
+        WHERE (r.user_id IS NULL OR r.user_id = (SELECT user_id FROM accounts WHERE id = ${t}.account_id))
+          AND (
+            (r.match_field = 'type' AND r.pattern = ${t}.type)
+            OR (r.match_field = 'description' AND instr(lower(COALESCE(${t}.description, '')), r.pattern) > 0)
+            OR (r.match_field = 'counterparty' AND instr(lower(COALESCE(${t}.counterparty_name, '') || ' ' || COALESCE(${t}.counterparty_account, '')), r.pattern) > 0)
+          )
+        ORDER BY r.user_id IS NULL, r.priority DESC, r.id DESC
+        LIMIT 1
+      )`;
+
+      sqlite.exec(`
+        ALTER TABLE transactions ADD COLUMN category TEXT;
+        ALTER TABLE transactions ADD COLUMN category_source TEXT;
+        ALTER TABLE transactions ADD COLUMN notes TEXT;
+        CREATE INDEX transactions_account_id_category_idx ON transactions(account_id, category);
+
+        CREATE TABLE transaction_tags (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          transaction_id INTEGER NOT NULL REFERENCES transactions(id),
+          tag TEXT NOT NULL
+        );
+        CREATE UNIQUE INDEX transaction_tags_transaction_id_tag_idx ON transaction_tags(transaction_id, tag);
+
+        CREATE TABLE categorization_rules (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          user_id INTEGER REFERENCES users(id),
+          match_field TEXT NOT NULL,
+          pattern TEXT NOT NULL,
+          category TEXT NOT NULL,
+          priority INTEGER DEFAULT 0 NOT NULL,
+          created_at TEXT DEFAULT CURRENT_TIMESTAMP
+        );
+        CREATE UNIQUE INDEX categorization_rules_user_id_match_field_pattern_idx ON categorization_rules(user_id, match_field, pattern);
+
+        INSERT INTO categorization_rules (match_field, pattern, category, priority) VALUES
+          ('type', 'interest', 'interest', 0),
+          ('type', 'refund', 'refunds', 0),
+          ('type', 'transfer_in', 'transfers', 0),
+          ('type', 'transfer_out', 'transfers', 0),
+          ('type', 'deposit', 'transfers', 0),
+          ('type', 'withdrawal', 'transfers', 0),
+          ('type', 'payment_received', 'income', 0),
+          ('type', 'fee', 'fees', 0),
+          ('description', 'payroll', 'income', 10),
+          ('description', 'salary', 'income', 10),
+          ('description', 'paycheck', 'income', 10),
+          ('description', 'rent payment', 'housing', 10),
+          ('description', 'mortgage', 'housing', 10),
+          ('description', 'grocer', 'groceries', 10),
+          ('description', 'restaurant', 'dining', 10),
+          ('description', 'coffee', 'dining', 10),
+          ('description', 'lunch', 'dining', 10),
+          ('description', 'dinner', 'dining', 10),
+          ('description', 'electric', 'bills', 10),
+          ('description', 'utility', 'bills', 10),
+          ('description', 'internet', 'bills', 10),
+          ('description', 'phone bill', 'bills', 10),
+          ('description', 'uber', 'transport', 10),
+          ('description', 'lyft', 'transport', 10),
+          ('description', 'gas station', 'transport', 10),
+          ('description', 'netflix', 'entertainment', 10),
+          ('description', 'spotify', 'entertainment', 10),
+          ('description', 'movie', 'entertainment', 10),
+          ('description', 'pharmacy', 'health', 10),
+          ('description', 'doctor', 'health', 10),
+          ('description', 'flight', 'travel', 10),
+          ('description', 'hotel', 'travel', 10);
+
+        -- Every new transaction is categorized by the rules unless it arrives with a category already
+        CREATE TRIGGER transactions_categorize AFTER INSERT ON transactions WHEN new.category IS NULL BEGIN
+          UPDATE transactions SET category = ${matchingCategory("new")} WHERE id = new.id;
+          UPDATE transactions SET category_source = 'rule' WHERE id = new.id AND category IS NOT NULL;
+        END;
+
+        UPDATE transactions SET category = ${matchingCategory("transactions")};
+        UPDATE transactions SET category_source = 'rule' WHERE category IS NOT NULL;
+      `);
+    },
+  },
+  {
+    version: 17,
+    description: "Monthly budgets and budget alerts",
+    up: (sqlite) => {
+      sqlite.exec(`
+        CREATE TABLE budgets (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          user_id INTEGER NOT NULL REFERENCES users(id),
+          category TEXT NOT NULL,
+          currency TEXT DEFAULT 'USD' NOT NULL,
+          amount INTEGER NOT NULL,
+          created_at TEXT DEFAULT CURRENT_TIMESTAMP,
+          updated_at TEXT DEFAULT CURRENT_TIMESTAMP
+        );
+        CREATE UNIQUE INDEX budgets_user_id_category_currency_idx ON budgets(user_id, category, currency);
+
+        CREATE TABLE budget_alerts (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          budget_id INTEGER NOT NULL REFERENCES budgets(id),
+          month TEXT NOT NULL,
+          threshold INTEGER NOT NULL,
+          spent INTEGER NOT NULL,
+          dismissed_at TEXT,
+          created_at TEXT DEFAULT CURRENT_TIMESTAMP
+        );
+        CREATE UNIQUE INDEX budget_alerts_budget_id_month_threshold_idx ON budget_alerts(budget_id, month, threshold);
+      `);
+    },
+  },
+  {
+    version: 18,
+    description: "Account status history",
+    up: (sqlite) => {
+      sqlite.exec(`
+        CREATE TABLE account_status_changes (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          account_id INTEGER NOT NULL REFERENCES accounts(id),
+          from_status TEXT,
+          to_status TEXT NOT NULL,
+          reason TEXT NOT NULL,
+          actor TEXT NOT NULL,
+          created_at TEXT DEFAULT CURRENT_TIMESTAMP
+        );
+        CREATE INDEX account_status_changes_account_id_idx ON account_status_changes(account_id);
+
+        UPDATE accounts SET status = 'pending' WHERE status IS NULL;
+        INSERT INTO account_status_changes (account_id, from_status, to_status, reason, actor, created_at)
+          SELECT id, NULL, status, 'Status when history began', 'system', created_at FROM accounts;
+      `);
+    },
+  },
+  {
+    version: 19,
+    description: "Account nicknames and display order",
+    up: (sqlite) => {
+      sqlite.exec(`
+        ALTER TABLE accounts ADD COLUMN nickname TEXT;
+        ALTER TABLE accounts ADD COLUMN display_order INTEGER DEFAULT 0 NOT NULL;
+
+        -- Keep today's order (oldest first) for existing accounts
+        UPDATE accounts SET display_order = (
+          SELECT COUNT(*) FROM accounts earlier WHERE earlier.user_id = accounts.user_id AND earlier.id < accounts.id
+        );
+      `);
+    },
+  },
+  {
+    version: 20,
+    description: "Joint accounts: account members and invitations",
+    up: (sqlite) => {
+      sqlite.exec(`
+        CREATE TABLE account_members (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          account_id INTEGER NOT NULL REFERENCES accounts(id),
+          user_id INTEGER NOT NULL REFERENCES users(id),
+          role TEXT NOT NULL,
+          display_order INTEGER DEFAULT 0 NOT NULL,
+          invited_by INTEGER REFERENCES users(id),
+          created_at TEXT DEFAULT CURRENT_TIMESTAMP
+        );
+        CREATE UNIQUE INDEX account_members_account_id_user_id_idx ON account_members(account_id, user_id);
+        CREATE INDEX account_members_user_id_idx ON account_members(user_id);
+
+        CREATE TABLE account_invitations (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          account_id INTEGER NOT NULL REFERENCES accounts(id),
+          invited_user_id INTEGER NOT NULL REFERENCES users(id),
+          role TEXT NOT NULL,
+          invited_by INTEGER NOT NULL REFERENCES users(id),
+          status TEXT DEFAULT 'pending' NOT NULL,
+          created_at TEXT DEFAULT CURRENT_TIMESTAMP,
+          responded_at TEXT
+        );
+        CREATE UNIQUE INDEX account_invitations_pending_idx ON account_invitations(account_id, invited_user_id)
+          WHERE status = 'pending';
+        CREATE INDEX account_invitations_invited_user_id_idx ON account_invitations(invited_user_id);
+
+        -- Every existing account's holder becomes its owner; dashboard order is now kept per member
+        INSERT INTO account_members (account_id, user_id, role, display_order, created_at)
+          SELECT id, user_id, 'owner', display_order, created_at FROM accounts;
+        ALTER TABLE accounts DROP COLUMN display_order;
+      `);
+    },
+  },
+  {
+    version: 21,
+    description: "Saved payees",
+    up: (sqlite) => {
+      sqlite.exec(`
+        CREATE TABLE payees (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          user_id INTEGER NOT NULL REFERENCES users(id),
+          kind TEXT NOT NULL,
+          nickname TEXT NOT NULL,
+          account_number TEXT NOT NULL,
+          account_last4 TEXT NOT NULL,
+          routing_number TEXT,
+          fingerprint TEXT NOT NULL,
+          cooling_off_until TEXT NOT NULL,
+          last_used_at TEXT,
+          created_at TEXT DEFAULT CURRENT_TIMESTAMP,
+          updated_at TEXT DEFAULT CURRENT_TIMESTAMP
+        );
+        CREATE UNIQUE INDEX payees_user_id_fingerprint_idx ON payees(user_id, fingerprint);
+      `);
+    },
+  },
+  {
+    version: 22,
+    description: "Funding source vault",
+    up: (sqlite) => {
+      sqlite.exec(`
+        CREATE TABLE funding_sources (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          user_id INTEGER NOT NULL REFERENCES users(id),
+          token TEXT NOT NULL UNIQUE,
+          type TEXT NOT NULL,
+          nickname TEXT NOT NULL,
+          details TEXT NOT NULL,
+          last4 TEXT NOT NULL,
+          brand TEXT,
+          expiry_month INTEGER,
+          expiry_year INTEGER,
+          fingerprint TEXT NOT NULL,
+          is_default INTEGER NOT NULL DEFAULT 0,
+          last_used_at TEXT,
+          created_at TEXT DEFAULT CURRENT_TIMESTAMP,
+          updated_at TEXT DEFAULT CURRENT_TIMESTAMP
+        );
+        CREATE UNIQUE INDEX funding_sources_user_id_fingerprint_idx ON funding_sources(user_id, fingerprint);
+        CREATE UNIQUE INDEX funding_sources_user_id_default_idx ON funding_sources(user_id) WHERE is_default = 1;
+      `);
+    },
+  },
+  {
+    version: 23,
+    description: "Bank routing directory",
+    up: (sqlite) => {
+      sqlite.exec(`
+        CREATE TABLE routing_directory (
+          routing_number TEXT PRIMARY KEY,
+          bank_name TEXT NOT NULL,
+          city TEXT,
+          state TEXT,
+          updated_at TEXT DEFAULT CURRENT_TIMESTAMP
+        );
+
+        -- A starter set of large banks; the full FedACH directory is loaded with: npm run ops -- routing-load
+        INSERT INTO routing_directory (routing_number, bank_name, city, state) VALUES
+          ('011000138', 'Bank of America, N.A.', 'Boston', 'MA'),
+          ('021000021', 'JPMorgan Chase Bank, N.A.', 'New York', 'NY'),
+          ('021000089', 'Citibank, N.A.', 'New York', 'NY'),
+          ('026009593', 'Bank of America, N.A.', 'New York', 'NY'),
+          ('031101266', 'TD Bank, N.A.', 'Wilmington', 'DE'),
+          ('031176110', 'Capital One, N.A.', 'McLean', 'VA'),
+          ('043000096', 'PNC Bank, N.A.', 'Pittsburgh', 'PA'),
+          ('061000104', 'Truist Bank', 'Atlanta', 'GA'),
+          ('071000013', 'JPMorgan Chase Bank, N.A.', 'Chicago', 'IL'),
+          ('091000022', 'U.S. Bank, N.A.', 'Minneapolis', 'MN'),
+          ('121000248', 'Wells Fargo Bank, N.A.', 'San Francisco', 'CA'),
+          ('121000358', 'Bank of America, N.A.', 'San Francisco', 'CA'),
+          ('322271627', 'JPMorgan Chase Bank, N.A.', 'Tampa', 'FL');
+      `);
+    },
+  },
+  {
+    version: 24,
+    description: "System ledger accounts per currency",
+    up: (sqlite) => {
+      // A journal entry stays in one currency, so each currency needs its own clearing, cash, fee, interest and
+      // equity accounts. The existing ones have only ever been posted to in USD.
+      sqlite.exec(`
+        UPDATE ledger_accounts SET code = code || ':USD', name = name || ' USD'
+          WHERE account_id IS NULL AND code NOT LIKE 'fx_position:%';
+
+        INSERT INTO ledger_accounts (code, name, kind, currency)
+          SELECT replace(l.code, ':USD', ':' || c.currency), replace(l.name, ' USD', ' ' || c.currency), l.kind, c.currency
+          FROM ledger_accounts l, (SELECT 'EUR' AS currency UNION ALL SELECT 'GBP') c
+          WHERE l.account_id IS NULL AND l.code LIKE '%:USD' AND l.code NOT LIKE 'fx_position:%';
+      `);
+    },
+  },
+  {
+    version: 25,
+    description: "Key the request hashes of stored idempotency keys",
+    up: (sqlite) => {
+      // Their request hashes were plain SHA-256 over payloads with card and account numbers in them. The payloads
+      // are gone, so each hash is keyed as it is; replays of those requests are checked the same way.
+      sqlite.exec(`ALTER TABLE idempotency_keys ADD COLUMN legacy_hash INTEGER DEFAULT 0 NOT NULL;`);
+
+      const rows = sqlite.prepare("SELECT id, request_hash FROM idempotency_keys").all() as {
+        id: number;
+        request_hash: string;
+      }[];
+      const rehash = sqlite.prepare("UPDATE idempotency_keys SET request_hash = ?, legacy_hash = 1 WHERE id = ?");
+      for (const row of rows) rehash.run(fingerprint(row.request_hash), row.id);
+    },
+  },
+  {
+    version: 26,
+    description: "Where withdrawals and payments went, for the payee cooling-off cap",
+    up: (sqlite) => {
+      // Only masked account numbers were kept before, so nothing sent until now counts towards a payee's cap
+      sqlite.exec(`
+        ALTER TABLE transactions ADD COLUMN destination_fingerprint TEXT;
+        CREATE INDEX transactions_destination_fingerprint_idx ON transactions(destination_fingerprint);
+      `);
+    },
+  },
+];
+
+export const LATEST_VERSION = MIGRATIONS[MIGRATIONS.length - 1].version;
+
+export function migrate(sqlite: Database.Database) {
+  sqlite.exec(BASE_SCHEMA);
+
+  const currentVersion = sqlite.pragma("user_version", { simple: true }) as number;
+  const pending = MIGRATIONS.filter((m) => m.version > currentVersion);
+  if (pending.length === 0) return;
+
+  // Table rebuilds drop tables that other tables reference, so foreign keys must be off while migrating.
+  // The pragma is a no-op inside a transaction, which is why it is toggled out here.
+  const foreignKeys = sqlite.pragma("foreign_keys", { simple: true }) as number;
+  sqlite.pragma("foreign_keys = OFF");
+
+  try {
+    for (const migration of pending) {
+      sqlite.transaction(() => {
+        migration.up(sqlite);
+
+        const violations = sqlite.pragma("foreign_key_check") as unknown[];
+        if (violations.length > 0) {
+          throw new Error(`Migration ${migration.version} (${migration.description}) broke foreign keys`);
+        }
+
+        sqlite.pragma(`user_version = ${migration.version}`);
+      })();
+    }
+  } finally {
+    sqlite.pragma(`foreign_keys = ${foreignKeys ? "ON" : "OFF"}`);
+  }
+}
@@ -1,7 +1,7 @@
 import { sqliteTable, text, integer, real } from "drizzle-orm/sqlite-core";
 import { sql } from "drizzle-orm";
 
-import { index } from "drizzle-orm/sqlite-core";
+import { index, uniqueIndex, type AnySQLiteColumn } from "drizzle-orm/sqlite-core";
 
 export const users = sqliteTable("users", {
   id: integer("id").primaryKey({ autoIncrement: true }),
@@ -16,6 +16,7 @@ export const users = sqliteTable("users", {
   city: text("city").notNull(),
   state: text("state").notNull(),
   zipCode: text("zip_code").notNull(),
+  tier: text("tier").default("standard").notNull(), // standard, verified, premium: selects funding limits
   createdAt: text("created_at").default(sql`CURRENT_TIMESTAMP`),
 });
 
@@ -25,11 +26,14 @@ export const accounts = sqliteTable(
     id: integer("id").primaryKey({ autoIncrement: true }),
     userId: integer("user_id")
       .references(() => users.id)
-      .notNull(),
+      .notNull(), // the owner; access goes through account_members, which also lists anyone they share it with
     accountNumber: text("account_number").unique().notNull(),
     accountType: text("account_type").notNull(), // checking, savings
-    balance: real("balance").default(0).notNull(),
+    currency: text("currency").default("USD").notNull(), // ISO 4217; balances are in this currency's cents
+    balance: integer("balance").default(0).notNull(), // cents, ledger balance including uncleared deposits
+    availableBalance: integer("available_balance").default(0).notNull(), // cents, what the customer can spend
     status: text("status").default("pending"),
+    nickname: text("nickname"), // the customer's own name for the account, e.g. "Rent"
     createdAt: text("created_at").default(sql`CURRENT_TIMESTAMP`),
   },
   (table) => ({
@@ -45,18 +49,40 @@ export const transactions = sqliteTable(
     accountId: integer("account_id")
       .references(() => accounts.id)
       .notNull(),
-    type: text("type").notNull(), // deposit, withdrawal
-    amount: real("amount").notNull(),
+    type: text("type").notNull(), // deposit, withdrawal, transfer_in, transfer_out, payment_sent, payment_received, refund, reversal, ach_return, interest
+    amount: integer("amount").notNull(), // cents
+    currency: text("currency").default("USD").notNull(), // always the currency of the account it is recorded on
+    fxRate: real("fx_rate"), // conversions only: units of the receiving currency per unit of the sending currency
     description: text("description"),
-    status: text("status").default("pending").notNull(),
+    status: text("status").default("pending").notNull(), // pending, settled, failed, returned, reversed, completed (instant)
     createdAt: text("created_at").default(sql`CURRENT_TIMESTAMP`),
     processedAt: text("processed_at"),
+    sourceType: text("source_type"), // card, bank: external rail the money moves over, if any
+    failureReason: text("failure_reason"),
+    linkedTransactionId: integer("linked_transaction_id").references((): AnySQLiteColumn => transactions.id), // other leg of a transfer or payment
+    counterpartyName: text("counterparty_name"), // masked, e.g. "J*** D."
+    counterpartyAccount: text("counterparty_account"), // masked, e.g. "****1234"
+    reversalOfId: integer("reversal_of_id").references((): AnySQLiteColumn => transactions.id), // original this row compensates
+    reversedAmount: integer("reversed_amount").default(0).notNull(), // cents refunded or reversed so far
+    returnCode: text("return_code"), // ACH return reason code (R01, R02, ...) for returned bank deposits
+    category: text("category"), // key from lib/categories.ts; set on insert by the transactions_categorize trigger
+    categorySource: text("category_source"), // rule, user
+    notes: text("notes"), // the customer's own notes
+    destinationFingerprint: text("destination_fingerprint"), // withdrawals and payments sent: keyed hash of where the money went
   },
   (table) => ({
     accountIdIdx: index("transactions_account_id_idx").on(table.accountId),
     createdAtIdx: index("transactions_created_at_idx").on(table.createdAt),
+    statusIdx: index("transactions_status_idx").on(table.status),
+    reversalOfIdIdx: index("transactions_reversal_of_id_idx").on(table.reversalOfId),
+    // History pages are read newest first, keyed on (created_at, id)
+    accountHistoryIdx: index("transactions_account_id_created_at_id_idx").on(table.accountId, table.createdAt, table.id),
+    accountCategoryIdx: index("transactions_account_id_category_idx").on(table.accountId, table.category),
+    destinationFingerprintIdx: index("transactions_destination_fingerprint_idx").on(table.destinationFingerprint),
   })
 );
+// Full-text search over descriptions lives in the transactions_fts FTS5 table (see migration 14), which
+// triggers keep in sync with this one.
 
 export const sessions = sqliteTable(
   "sessions",
@@ -74,3 +100,422 @@ export const sessions = sqliteTable(
     tokenIdx: index("sessions_token_idx").on(table.token),
   })
 );
+
+// Double-entry ledger. Every money movement is a journal entry whose postings balance (debits = credits).
+// accounts.balance is a cache of the customer ledger account: credits minus debits.
+export const ledgerAccounts = sqliteTable(
+  "ledger_accounts",
+  {
+    id: integer("id").primaryKey({ autoIncrement: true }),
+    code: text("code").unique().notNull(),
+    name: text("name").notNull(),
+    kind: text("kind").notNull(), // asset, liability, equity, revenue, expense
+    currency: text("currency").default("USD").notNull(), // every posting to the account is in this currency
+    accountId: integer("account_id").references(() => accounts.id), // set for customer accounts only
+    createdAt: text("created_at").default(sql`CURRENT_TIMESTAMP`),
+  },
+  (table) => ({
+    accountIdIdx: index("ledger_accounts_account_id_idx").on(table.accountId),
+  })
+);
+
+export const journalEntries = sqliteTable("journal_entries", {
+  id: integer("id").primaryKey({ autoIncrement: true }),
+  description: text("description").notNull(),
+  createdAt: text("created_at").default(sql`CURRENT_TIMESTAMP`),
+});
+
+export const postings = sqliteTable(
+  "postings",
+  {
+    id: integer("id").primaryKey({ autoIncrement: true }),
+    journalEntryId: integer("journal_entry_id")
+      .references(() => journalEntries.id)
+      .notNull(),
+    ledgerAccountId: integer("ledger_account_id")
+      .references(() => ledgerAccounts.id)
+      .notNull(),
+    transactionId: integer("transaction_id").references(() => transactions.id), // customer-facing record, if any
+    direction: text("direction").notNull(), // debit, credit
+    amount: integer("amount").notNull(), // cents, always positive
+    balanceAfter: integer("balance_after"), // customer accounts only: the account's ledger balance after this posting
+    createdAt: text("created_at").default(sql`CURRENT_TIMESTAMP`),
+  },
+  (table) => ({
+    journalEntryIdIdx: index("postings_journal_entry_id_idx").on(table.journalEntryId),
+    ledgerAccountIdIdx: index("postings_ledger_account_id_idx").on(table.ledgerAccountId),
+    transactionIdIdx: index("postings_transaction_id_idx").on(table.transactionId),
+  })
+);
+
+// End-of-day ledger balance per account and UTC day, written by postJournalEntry so balance history is read
+// straight from here. Days without postings have no row; their balance is the previous row's.
+export const dailyBalances = sqliteTable(
+  "daily_balances",
+  {
+    id: integer("id").primaryKey({ autoIncrement: true }),
+    accountId: integer("account_id")
+      .references(() => accounts.id)
+      .notNull(),
+    date: text("date").notNull(), // YYYY-MM-DD
+    balance: integer("balance").notNull(), // cents
+    updatedAt: text("updated_at").default(sql`CURRENT_TIMESTAMP`),
+  },
+  (table) => ({
+    accountDateIdx: uniqueIndex("daily_balances_account_id_date_idx").on(table.accountId, table.date),
+  })
+);
+
+export const idempotencyKeys = sqliteTable(
+  "idempotency_keys",
+  {
+    id: integer("id").primaryKey({ autoIncrement: true }),
+    userId: integer("user_id")
+      .references(() => users.id)
+      .notNull(),
+    key: text("key").notNull(),
+    scope: text("scope").notNull(), // procedure path, e.g. account.fundAccount
+    requestHash: text("request_hash").notNull(),
+    response: text("response"), // JSON; null while the first request is still running
+    legacyHash: integer("legacy_hash", { mode: "boolean" }).default(false).notNull(), // requestHash keys a plain SHA-256
+    createdAt: text("created_at").default(sql`CURRENT_TIMESTAMP`),
+  },
+  (table) => ({
+    userKeyIdx: uniqueIndex("idempotency_keys_user_id_key_idx").on(table.userId, table.key),
+  })
+);
+
+// Future-dated and recurring transfers between a user's own accounts, executed by the ops job runner
+export const scheduledTransfers = sqliteTable(
+  "scheduled_transfers",
+  {
+    id: integer("id").primaryKey({ autoIncrement: true }),
+    userId: integer("user_id")
+      .references(() => users.id)
+      .notNull(),
+    fromAccountId: integer("from_account_id")
+      .references(() => accounts.id)
+      .notNull(),
+    toAccountId: integer("to_account_id")
+      .references(() => accounts.id)
+      .notNull(),
+    amount: integer("amount").notNull(), // cents
+    description: text("description"),
+    frequency: text("frequency").notNull(), // once, weekly, biweekly, monthly
+    startDate: text("start_date").notNull(), // YYYY-MM-DD, the first occurrence
+    endDate: text("end_date"), // YYYY-MM-DD, last day an occurrence may run
+    maxOccurrences: integer("max_occurrences"),
+    occurrences: integer("occurrences").default(0).notNull(), // occurrences that have run, successful or not
+    nextRunDate: text("next_run_date"), // YYYY-MM-DD; null once the schedule has finished
+    status: text("status").default("active").notNull(), // active, paused, cancelled, completed
+    lastRunAt: text("last_run_at"),
+    lastError: text("last_error"), // why the most recent occurrence failed, cleared on success
+    createdAt: text("created_at").default(sql`CURRENT_TIMESTAMP`),
+  },
+  (table) => ({
+    userIdIdx: index("scheduled_transfers_user_id_idx").on(table.userId),
+    dueIdx: index("scheduled_transfers_due_idx").on(table.status, table.nextRunDate),
+  })
+);
+
+// APY tiers per account type. A balance earns the rate of the highest tier whose minimum it reaches.
+export const interestRateTiers = sqliteTable(
+  "interest_rate_tiers",
+  {
+    id: integer("id").primaryKey({ autoIncrement: true }),
+    accountType: text("account_type").notNull(), // checking, savings
+    minBalance: integer("min_balance").notNull(), // cents
+    apyBps: integer("apy_bps").notNull(), // annual percentage yield in basis points, 350 = 3.50%
+    createdAt: text("created_at").default(sql`CURRENT_TIMESTAMP`),
+  },
+  (table) => ({
+    accountTypeMinBalanceIdx: uniqueIndex("interest_rate_tiers_account_type_min_balance_idx").on(
+      table.accountType,
+      table.minBalance
+    ),
+  })
+);
+
+// One row per account per day. Daily interest is far below a cent, so it is kept in micro-cents until the
+// month's total is posted as an `interest` transaction.
+export const interestAccruals = sqliteTable(
+  "interest_accruals",
+  {
+    id: integer("id").primaryKey({ autoIncrement: true }),
+    accountId: integer("account_id")
+      .references(() => accounts.id)
+      .notNull(),
+    accrualDate: text("accrual_date").notNull(), // YYYY-MM-DD
+    balance: integer("balance").notNull(), // cents, end-of-day ledger balance
+    apyBps: integer("apy_bps").notNull(),
+    amountMicroCents: integer("amount_micro_cents").notNull(), // 1,000,000 = 1 cent
+    transactionId: integer("transaction_id").references(() => transactions.id), // the monthly posting, once made
+    postedAt: text("posted_at"),
+  },
+  (table) => ({
+    accountDateIdx: uniqueIndex("interest_accruals_account_id_accrual_date_idx").on(table.accountId, table.accrualDate),
+  })
+);
+
+// Deposit limits per user tier. A row limits either one funding source type (card, bank) across all of the
+// user's accounts or one account type (checking, savings) across all sources; a deposit must fit every row
+// that applies to it. A null limit means no limit.
+export const fundingLimits = sqliteTable(
+  "funding_limits",
+  {
+    id: integer("id").primaryKey({ autoIncrement: true }),
+    tier: text("tier").notNull(),
+    scope: text("scope").notNull(), // source_type, account_type
+    scopeValue: text("scope_value").notNull(), // card, bank, checking, savings
+    perTransaction: integer("per_transaction"), // cents
+    daily: integer("daily"), // cents, per UTC calendar day
+    rolling30Day: integer("rolling_30_day"), // cents, over the last 30 days
+  },
+  (table) => ({
+    tierScopeIdx: uniqueIndex("funding_limits_tier_scope_idx").on(table.tier, table.scope, table.scopeValue),
+  })
+);
+
+// Locally loaded exchange rates, quoted against USD. A conversion applies the mid-market cross rate less the
+// spread of both currencies involved.
+export const fxRates = sqliteTable("fx_rates", {
+  currency: text("currency").primaryKey(),
+  unitsPerUsd: real("units_per_usd").notNull(), // mid-market rate
+  spreadBps: integer("spread_bps").notNull(), // 50 = 0.50%
+  updatedAt: text("updated_at").default(sql`CURRENT_TIMESTAMP`),
+});
+
+// Monthly statements are generated once per account and period and never change afterwards: `data` is a JSON
+// snapshot (customer, account and every ledger movement) so later edits to users or transactions don't alter them
+export const statements = sqliteTable(
+  "statements",
+  {
+    id: integer("id").primaryKey({ autoIncrement: true }),
+    accountId: integer("account_id")
+      .references(() => accounts.id)
+      .notNull(),
+    periodStart: text("period_start").notNull(), // YYYY-MM-DD, first day of the month
+    periodEnd: text("period_end").notNull(), // YYYY-MM-DD, last day of the month
+    currency: text("currency").notNull(),
+    openingBalance: integer("opening_balance").notNull(), // cents
+    closingBalance: integer("closing_balance").notNull(),
+    totalCredits: integer("total_credits").notNull(),
+    totalDebits: integer("total_debits").notNull(),
+    interestPaid: integer("interest_paid").notNull(),
+    feesCharged: integer("fees_charged").notNull(),
+    data: text("data").notNull(),
+    createdAt: text("created_at").default(sql`CURRENT_TIMESTAMP`),
+  },
+  (table) => ({
+    accountPeriodIdx: uniqueIndex("statements_account_id_period_start_idx").on(table.accountId, table.periodStart),
+  })
+);
+
+export const transactionTags = sqliteTable(
+  "transaction_tags",
+  {
+    id: integer("id").primaryKey({ autoIncrement: true }),
+    transactionId: integer("transaction_id")
+      .references(() => transactions.id)
+      .notNull(),
+    tag: text("tag").notNull(), // lowercase
+  },
+  (table) => ({
+    transactionTagIdx: uniqueIndex("transaction_tags_transaction_id_tag_idx").on(table.transactionId, table.tag),
+  })
+);
+
+// Auto-categorization. Global rules (no user) are seeded; user rules are learned when a customer recategorizes
+// a transaction and always win over global ones. See migration 16 for how a rule is picked.
+export const categorizationRules = sqliteTable(
+  "categorization_rules",
+  {
+    id: integer("id").primaryKey({ autoIncrement: true }),
+    userId: integer("user_id").references(() => users.id),
+    matchField: text("match_field").notNull(), // type (exact), description, counterparty (lowercase substring)
+    pattern: text("pattern").notNull(),
+    category: text("category").notNull(),
+    priority: integer("priority").default(0).notNull(),
+    createdAt: text("created_at").default(sql`CURRENT_TIMESTAMP`),
+  },
+  (table) => ({
+    userFieldPatternIdx: uniqueIndex("categorization_rules_user_id_match_field_pattern_idx").on(
+      table.userId,
+      table.matchField,
+      table.pattern
+    ),
+  })
+);
+
+// A standing monthly spending limit for one category, in one currency
+export const budgets = sqliteTable(
+  "budgets",
+  {
+    id: integer("id").primaryKey({ autoIncrement: true }),
+    userId: integer("user_id")
+      .references(() => users.id)
+      .notNull(),
+    category: text("category").notNull(),
+    currency: text("currency").default("USD").notNull(),
+    amount: integer("amount").notNull(), // cents per calendar month
+    createdAt: text("created_at").default(sql`CURRENT_TIMESTAMP`),
+    updatedAt: text("updated_at").default(sql`CURRENT_TIMESTAMP`),
+  },
+  (table) => ({
+    userCategoryIdx: uniqueIndex("budgets_user_id_category_currency_idx").on(table.userId, table.category, table.currency),
+  })
+);
+
+// Raised once per budget, month (YYYY-MM) and threshold (percent of the budget) when spending first crosses it
+export const budgetAlerts = sqliteTable(
+  "budget_alerts",
+  {
+    id: integer("id").primaryKey({ autoIncrement: true }),
+    budgetId: integer("budget_id")
+      .references(() => budgets.id)
+      .notNull(),
+    month: text("month").notNull(),
+    threshold: integer("threshold").notNull(), // 80, 100
+    spent: integer("spent").notNull(), // cents spent when the alert was raised
+    dismissedAt: text("dismissed_at"),
+    createdAt: text("created_at").default(sql`CURRENT_TIMESTAMP`),
+  },
+  (table) => ({
+    budgetMonthThresholdIdx: uniqueIndex("budget_alerts_budget_id_month_threshold_idx").on(
+      table.budgetId,
+      table.month,
+      table.threshold
+    ),
+  })
+);
+
+// Every change to an account's status, including the one it was opened with (from_status null)
+export const accountStatusChanges = sqliteTable(
+  "account_status_changes",
+  {
+    id: integer("id").primaryKey({ autoIncrement: true }),
+    accountId: integer("account_id")
+      .references(() => accounts.id)
+      .notNull(),
+    fromStatus: text("from_status"),
+    toStatus: text("to_status").notNull(),
+    reason: text("reason").notNull(),
+    actor: text("actor").notNull(), // customer, ops, system
+    createdAt: text("created_at").default(sql`CURRENT_TIMESTAMP`),
+  },
+  (table) => ({
+    accountIdIdx: index("account_status_changes_account_id_idx").on(table.accountId),
+  })
+);
+
+// Who can use an account and how: the owner who opened it, plus any co-owners or view-only members they invite.
+// Display order is per member, since each of them arranges their own dashboard.
+export const accountMembers = sqliteTable(
+  "account_members",
+  {
+    id: integer("id").primaryKey({ autoIncrement: true }),
+    accountId: integer("account_id")
+      .references(() => accounts.id)
+      .notNull(),
+    userId: integer("user_id")
+      .references(() => users.id)
+      .notNull(),
+    role: text("role").notNull(), // owner, co_owner, view_only
+    displayOrder: integer("display_order").default(0).notNull(), // position on this member's dashboard, lowest first
+    invitedBy: integer("invited_by").references(() => users.id), // null for the owner
+    createdAt: text("created_at").default(sql`CURRENT_TIMESTAMP`),
+  },
+  (table) => ({
+    accountUserIdx: uniqueIndex("account_members_account_id_user_id_idx").on(table.accountId, table.userId),
+    userIdIdx: index("account_members_user_id_idx").on(table.userId),
+  })
+);
+
+export const accountInvitations = sqliteTable(
+  "account_invitations",
+  {
+    id: integer("id").primaryKey({ autoIncrement: true }),
+    accountId: integer("account_id")
+      .references(() => accounts.id)
+      .notNull(),
+    invitedUserId: integer("invited_user_id")
+      .references(() => users.id)
+      .notNull(),
+    role: text("role").notNull(), // co_owner, view_only
+    invitedBy: integer("invited_by")
+      .references(() => users.id)
+      .notNull(),
+    status: text("status").default("pending").notNull(), // pending, accepted, declined, revoked
+    createdAt: text("created_at").default(sql`CURRENT_TIMESTAMP`),
+    respondedAt: text("responded_at"),
+  },
+  (table) => ({
+    pendingIdx: uniqueIndex("account_invitations_pending_idx")
+      .on(table.accountId, table.invitedUserId)
+      .where(sql`status = 'pending'`),
+    invitedUserIdIdx: index("account_invitations_invited_user_id_idx").on(table.invitedUserId),
+  })
+);
+
+// Recipients the user has saved: accounts at other banks (external) or other customers' accounts here (internal)
+export const payees = sqliteTable(
+  "payees",
+  {
+    id: integer("id").primaryKey({ autoIncrement: true }),
+    userId: integer("user_id")
+      .references(() => users.id)
+      .notNull(),
+    kind: text("kind").notNull(), // external, internal
+    nickname: text("nickname").notNull(),
+    accountNumber: text("account_number").notNull(), // encrypted with lib/crypto
+    accountLast4: text("account_last4").notNull(), // for masked display without decrypting
+    routingNumber: text("routing_number"), // external payees only
+    fingerprint: text("fingerprint").notNull(), // keyed hash of the destination, to catch duplicates
+    coolingOffUntil: text("cooling_off_until").notNull(), // what it can receive is capped until then
+    lastUsedAt: text("last_used_at"),
+    createdAt: text("created_at").default(sql`CURRENT_TIMESTAMP`),
+    updatedAt: text("updated_at").default(sql`CURRENT_TIMESTAMP`),
+  },
+  (table) => ({
+    userFingerprintIdx: uniqueIndex("payees_user_id_fingerprint_idx").on(table.userId, table.fingerprint),
+  })
+);
+
+// Cards and bank accounts saved for deposits. The numbers are encrypted; callers refer to a source by its token
+export const fundingSources = sqliteTable(
+  "funding_sources",
+  {
+    id: integer("id").primaryKey({ autoIncrement: true }),
+    userId: integer("user_id")
+      .references(() => users.id)
+      .notNull(),
+    token: text("token").unique().notNull(), // opaque, e.g. fs_3f9c...
+    type: text("type").notNull(), // card, bank
+    nickname: text("nickname").notNull(),
+    details: text("details").notNull(), // encrypted JSON: { accountNumber, routingNumber? }
+    last4: text("last4").notNull(),
+    brand: text("brand"), // card network, see lib/card-networks
+    expiryMonth: integer("expiry_month"), // cards only
+    expiryYear: integer("expiry_year"),
+    fingerprint: text("fingerprint").notNull(), // keyed hash of the number, to catch duplicates
+    isDefault: integer("is_default", { mode: "boolean" }).default(false).notNull(),
+    lastUsedAt: text("last_used_at"),
+    createdAt: text("created_at").default(sql`CURRENT_TIMESTAMP`),
+    updatedAt: text("updated_at").default(sql`CURRENT_TIMESTAMP`),
+  },
+  (table) => ({
+    userFingerprintIdx: uniqueIndex("funding_sources_user_id_fingerprint_idx").on(table.userId, table.fingerprint),
+    userDefaultIdx: uniqueIndex("funding_sources_user_id_default_idx")
+      .on(table.userId)
+      .where(sql`is_default = 1`),
+  })
+);
+
+// Banks by ABA routing number, from the Fed's FedACH directory (see server/services/routing-directory.ts)
+export const routingDirectory = sqliteTable("routing_directory", {
+  routingNumber: text("routing_number").primaryKey(),
+  bankName: text("bank_name").notNull(),
+  city: text("city"),
+  state: text("state"),
+  updatedAt: text("updated_at").default(sql`CURRENT_TIMESTAMP`),
+});
@@ -0,0 +1,9 @@
+// Shows just enough of another customer's details to confirm who they are without exposing them.
+
+export const maskName = (firstName: string, lastName: string) => {
+  const first = firstName.trim();
+  const last = lastName.trim();
+  return `${first.charAt(0).toUpperCase()}${"*".repeat(Math.max(first.length - 1, 3))} ${last.charAt(0).toUpperCase()}.`;
+};
+
+export const maskAccountNumber = (accountNumber: string) => `****${accountNumber.slice(-4)}`;
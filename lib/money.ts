@@ -0,0 +1,31 @@
+// All monetary values are stored, transported and computed as integer minor units (cents).
+// Convert to and from display strings only at the edges (forms and formatting).
+export type Money = number;
+
+// Every supported currency has two decimal places, so "cents" works for all of them
+export const CURRENCIES = ["USD", "EUR", "GBP"] as const;
+export type CurrencyCode = (typeof CURRENCIES)[number];
+
+export const isMoney = (value: unknown): value is Money => typeof value === "number" && Number.isSafeInteger(value);
+
+// Parses a user-entered amount such as "12", "12.3" or "12.34" into cents without going through floats.
+export const parseMoney = (value: string): Money | null => {
+  const match = /^(\d+)(?:\.(\d{0,2}))?$/.exec(value.trim());
+  if (!match) return null;
+
+  const [, whole, fraction = ""] = match;
+  const cents = Number(whole) * 100 + Number(fraction.padEnd(2, "0"));
+  return Number.isSafeInteger(cents) ? cents : null;
+};
+
+// For legacy decimal values only (e.g. REAL columns during migration); never use for arithmetic.
+export const toCents = (dollars: number): Money => Math.round(dollars * 100);
+
+export const fromCents = (amount: Money): number => amount / 100;
+
+export const formatCurrency = (amount: Money, currency: string = "USD"): string => {
+  return new Intl.NumberFormat("en-US", {
+    style: "currency",
+    currency,
+  }).format(fromCents(amount));
+};
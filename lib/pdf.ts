@@ -0,0 +1,100 @@
+// A minimal PDF 1.4 writer for plain text documents (statements), so we don't depend on an external
+// rendering service. Uses the built-in Helvetica fonts with WinAnsi encoding; coordinates are in points
+// from the bottom-left corner of a US Letter page.
+
+export const PAGE_WIDTH = 612;
+export const PAGE_HEIGHT = 792;
+
+export type PdfText = {
+  x: number;
+  y: number;
+  text: string;
+  size?: number;
+  bold?: boolean;
+  align?: "left" | "right"; // right-aligned text ends at x
+};
+
+// Helvetica advance widths (per 1000 units) for the characters amounts and dates are made of; anything else
+// uses an average width, which is close enough for the left-aligned text it appears in
+const GLYPH_WIDTHS: Record<string, number> = {
+  " ": 278,
+  ",": 278,
+  ".": 278,
+  "-": 333,
+  "(": 333,
+  ")": 333,
+  "/": 278,
+  ":": 278,
+  "$": 556,
+  "€": 556,
+  "£": 556,
+  "*": 389,
+};
+
+export function textWidth(text: string, size: number, bold = false) {
+  let units = 0;
+  for (const char of text) {
+    units += /[0-9]/.test(char) ? 556 : (GLYPH_WIDTHS[char] ?? (bold ? 611 : 556));
+  }
+  return (units * size) / 1000;
+}
+
+// WinAnsi codes for the non-ASCII characters we print; anything else outside ASCII becomes "?"
+const WIN_ANSI: Record<string, number> = { "€": 0o200, "£": 0o243 };
+
+function escapeText(text: string) {
+  let out = "";
+  for (const char of text) {
+    if (char === "\\" || char === "(" || char === ")") out += `\\${char}`;
+    else if (WIN_ANSI[char] !== undefined) out += `\\${WIN_ANSI[char].toString(8)}`;
+    else if (char.charCodeAt(0) >= 32 && char.charCodeAt(0) < 127) out += char;
+    else out += "?";
+  }
+  return out;
+}
+
+function contentStream(items: PdfText[]) {
+  return items
+    .map(({ x, y, text, size = 10, bold = false, align = "left" }) => {
+      const left = align === "right" ? x - textWidth(text, size, bold) : x;
+      return `BT /${bold ? "F2" : "F1"} ${size} Tf ${left.toFixed(2)} ${y.toFixed(2)} Td (${escapeText(text)}) Tj ET`;
+    })
+    .join("\n");
+}
+
+// Renders each page's text items into a PDF file
+export function buildPdf(pages: PdfText[][]): Buffer {
+  const objects: string[] = [];
+  const add = (body: string) => objects.push(body);
+
+  // Object numbers: 1 catalog, 2 page tree, 3-4 fonts, then a page and its content stream per page
+  const pageIds = pages.map((_, i) => 5 + i * 2);
+  add("<< /Type /Catalog /Pages 2 0 R >>");
+  add(`<< /Type /Pages /Kids [${pageIds.map((id) => `${id} 0 R`).join(" ")}] /Count ${pages.length} >>`);
+  add("<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>");
+  add("<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica-Bold /Encoding /WinAnsiEncoding >>");
+
+  pages.forEach((items, i) => {
+    const stream = contentStream(items);
+    add(
+      `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${PAGE_WIDTH} ${PAGE_HEIGHT}] ` +
+        `/Resources << /Font << /F1 3 0 R /F2 4 0 R >> >> /Contents ${pageIds[i] + 1} 0 R >>`
+    );
+    add(`<< /Length ${stream.length} >>\nstream\n${stream}\nendstream`);
+  });
+
+  // Everything above is ASCII, so string lengths are byte offsets
+  let pdf = "%PDF-1.4\n";
+  const offsets = objects.map((body, i) => {
+    const offset = pdf.length;
+    pdf += `${i + 1} 0 obj\n${body}\nendobj\n`;
+    return offset;
+  });
+
+  const xref = pdf.length;
+  pdf += `xref\n0 ${objects.length + 1}\n0000000000 65535 f \n`;
+  pdf += offsets.map((offset) => `${String(offset).padStart(10, "0")} 00000 n \n`).join("");
+  pdf += `trailer\n<< /Size ${objects.length + 1} /Root 1 0 R >>\nstartxref\n${xref}\n%%EOF\n`;
+
+  return Buffer.from(pdf, "latin1");
+}
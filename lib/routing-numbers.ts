@@ -0,0 +1,8 @@
+// ABA routing numbers identify US banks. Shared by the client (live form validation) and the server.
+
+const WEIGHTS = [3, 7, 1, 3, 7, 1, 3, 7, 1];
+
+// Nine digits whose weighted sum (3, 7, 1 repeating) is a multiple of 10
+export const isValidRoutingNumber = (routingNumber: string) =>
+  /^\d{9}$/.test(routingNumber) &&
+  [...routingNumber].reduce((sum, digit, i) => sum + Number(digit) * WEIGHTS[i], 0) % 10 === 0;
@@ -0,0 +1,39 @@
+// Transaction types that add money to the account they are recorded on; everything else is a debit.
+export const CREDIT_TRANSACTION_TYPES = ["deposit", "transfer_in", "payment_received", "refund", "interest"];
+const CREDIT_TYPES = new Set(CREDIT_TRANSACTION_TYPES);
+
+export const isCreditTransaction = (type: string) => CREDIT_TYPES.has(type);
+
+const TYPE_LABELS: Record<string, string> = {
+  deposit: "Deposit",
+  withdrawal: "Withdrawal",
+  transfer_in: "Transfer In",
+  transfer_out: "Transfer Out",
+  payment_sent: "Payment Sent",
+  payment_received: "Payment Received",
+  refund: "Refund",
+  reversal: "Reversal",
+  ach_return: "ACH Return",
+  interest: "Interest",
+  fee: "Fee",
+  adjustment: "Adjustment",
+};
+
+// Types a customer can filter their history by
+export const TRANSACTION_TYPES = Object.keys(TYPE_LABELS).filter((type) => type !== "adjustment");
+
+export const transactionTypeLabel = (type: string) => TYPE_LABELS[type] ?? type;
+
+// Badge colours for every transaction status
+const STATUS_STYLES: Record<string, string> = {
+  completed: "bg-green-100 text-green-800",
+  settled: "bg-green-100 text-green-800",
+  pending: "bg-yellow-100 text-yellow-800",
+  failed: "bg-red-100 text-red-800",
+  returned: "bg-orange-100 text-orange-800",
+  reversed: "bg-gray-100 text-gray-600",
+};
+
+export const TRANSACTION_STATUSES = Object.keys(STATUS_STYLES);
+
+export const transactionStatusStyle = (status: string) => STATUS_STYLES[status] ?? "bg-gray-100 text-gray-800";
@@ -0,0 +1,15 @@
+import type { TRPCLink } from "@trpc/client";
+import type { AppRouter } from "@/server/routers";
+
+// Gives every mutation an idempotency key unless the caller already chose one. Components that may
+// resubmit the same request (e.g. after a network error) pass their own stable key instead.
+export const idempotencyLink: TRPCLink<AppRouter> = () => {
+  return ({ op, next }) => {
+    const input = op.input;
+    if (op.type !== "mutation" || !input || typeof input !== "object" || Array.isArray(input) || "idempotencyKey" in input) {
+      return next(op);
+    }
+
+    return next({ ...op, input: { ...input, idempotencyKey: crypto.randomUUID() } });
+  };
+};
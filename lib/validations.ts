@@ -1,4 +1,9 @@
 import { z } from "zod";
+import { INVITABLE_ROLES } from "./account-roles";
+import { cardNumberProblem, cardSecurityCodeLength, detectCardNetwork, isCardExpired } from "./card-networks";
+import { CATEGORIES } from "./categories";
+import { CURRENCIES } from "./money";
+import { isValidRoutingNumber } from "./routing-numbers";
 
 export const signupSchema = z.object({
     email: z
@@ -39,41 +44,302 @@ export const signupSchema = z.object({
     zipCode: z.string().regex(/^\d{5}$/, "Zip code must be 5 digits"),
 });
 
+// Amounts are integer cents (see lib/money.ts)
+export const moneySchema = z.number().int("Amount must be a whole number of cents");
+
+// Checks the ABA checksum only; whether a bank actually uses the number is checked against the routing directory
+export const routingNumberSchema = z
+    .string()
+    .regex(/^\d{9}$/, "Routing number must be 9 digits")
+    .refine(isValidRoutingNumber, "Invalid routing number");
+
+type CardDetails = { accountNumber: string; expiryMonth?: number; expiryYear?: number; cvv?: string };
+
+// The number must belong to a known network, have one of its lengths and pass Luhn; the card must not have expired
+// and the security code must have the network's length. Expiry and security code are checked, never stored
+const checkCard = (card: CardDetails, ctx: z.RefinementCtx) => {
+    const network = detectCardNetwork(card.accountNumber);
+    const numberProblem = cardNumberProblem(card.accountNumber);
+    if (numberProblem) {
+        ctx.addIssue({
+            code: z.ZodIssueCode.custom,
+            message: numberProblem,
+            path: ["accountNumber"],
+        });
+    }
+
+    if (card.expiryMonth === undefined || card.expiryYear === undefined) {
+        ctx.addIssue({
+            code: z.ZodIssueCode.custom,
+            message: "Expiry date is required",
+            path: ["expiryMonth"],
+        });
+    } else if (isCardExpired(card.expiryMonth, card.expiryYear)) {
+        ctx.addIssue({
+            code: z.ZodIssueCode.custom,
+            message: "This card has expired",
+            path: ["expiryMonth"],
+        });
+    }
+
+    const cvvLength = network ? cardSecurityCodeLength(network) : 3;
+    if (!card.cvv) {
+        ctx.addIssue({
+            code: z.ZodIssueCode.custom,
+            message: "Security code is required",
+            path: ["cvv"],
+        });
+    } else if (!new RegExp(`^\\d{${cvvLength}}$`).test(card.cvv)) {
+        ctx.addIssue({
+            code: z.ZodIssueCode.custom,
+            message: `Security code must be ${cvvLength} digits`,
+            path: ["cvv"],
+        });
+    }
+};
+
+const expiryMonthSchema = z.number().int().min(1, "Invalid expiry month").max(12, "Invalid expiry month");
+const expiryYearSchema = z.number().int().min(2000, "Invalid expiry year").max(2100, "Invalid expiry year");
+
+// Card or bank details typed in for a deposit. Cards also need their expiry and security code
+export const enteredFundingSourceSchema = z.object({
+    type: z.enum(["card", "bank"]),
+    accountNumber: z.string(),
+    routingNumber: z.string().optional(),
+    expiryMonth: expiryMonthSchema.optional(),
+    expiryYear: expiryYearSchema.optional(),
+    cvv: z.string().optional(),
+}).superRefine((data, ctx) => {
+    if (data.type === "bank" && !data.routingNumber) {
+        ctx.addIssue({
+            code: z.ZodIssueCode.custom,
+            message: "Routing number is required for bank transfers",
+            path: ["routingNumber"],
+        });
+    } else if (data.type === "bank" && !isValidRoutingNumber(data.routingNumber!)) {
+        ctx.addIssue({
+            code: z.ZodIssueCode.custom,
+            message: "Invalid routing number",
+            path: ["routingNumber"],
+        });
+    }
+    if (data.type === "card") checkCard(data, ctx);
+});
+
+// Deposits from either details typed in or a saved funding source, referenced by its vault token
 export const fundingSchema = z.object({
-    amount: z.number().min(0.01, "Amount must be at least $0.01"),
-    fundingSource: z.object({
-        type: z.enum(["card", "bank"]),
+    amount: moneySchema.min(1, "Amount must be at least $0.01"),
+    fundingSource: enteredFundingSourceSchema.optional(),
+    sourceToken: z.string().min(1).optional(),
+}).refine((data) => (data.fundingSource === undefined) !== (data.sourceToken === undefined), {
+    message: "Choose a saved funding source or enter card or bank details",
+    path: ["fundingSource"],
+});
+
+export const transferSchema = z.object({
+    fromAccountId: z.number(),
+    toAccountId: z.number(),
+    amount: moneySchema.min(1, "Amount must be at least $0.01"),
+    description: z.string().max(100).optional(),
+}).refine((data) => data.fromAccountId !== data.toAccountId, {
+    message: "Cannot transfer to the same account",
+    path: ["toAccountId"],
+});
+
+export const accountNicknameSchema = z
+    .string()
+    .trim()
+    .min(1, "Nickname is required")
+    .max(30, "Nickname must be 30 characters or less");
+
+export const closeAccountSchema = z.object({
+    accountId: z.number(),
+    // Where any remaining balance goes; required unless the balance is zero
+    sweepToAccountId: z.number().optional(),
+    reason: z.string().trim().max(200, "Reason must be 200 characters or less").optional(),
+}).refine((data) => data.sweepToAccountId !== data.accountId, {
+    message: "Choose a different account to move the balance to",
+    path: ["sweepToAccountId"],
+});
+
+export const isoDateSchema = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Use a YYYY-MM-DD date");
+
+export const SCHEDULE_FREQUENCIES = ["once", "weekly", "biweekly", "monthly"] as const;
+
+export const scheduledTransferSchema = z.object({
+    fromAccountId: z.number(),
+    toAccountId: z.number(),
+    amount: moneySchema.min(1, "Amount must be at least $0.01"),
+    description: z.string().max(100).optional(),
+    frequency: z.enum(SCHEDULE_FREQUENCIES),
+    startDate: isoDateSchema,
+    // End conditions only apply to recurring schedules; without either the schedule runs until cancelled
+    endDate: isoDateSchema.optional(),
+    maxOccurrences: z.number().int().min(1).optional(),
+}).refine((data) => data.fromAccountId !== data.toAccountId, {
+    message: "Cannot transfer to the same account",
+    path: ["toAccountId"],
+}).refine((data) => !data.endDate || data.endDate >= data.startDate, {
+    message: "End date must be on or after the start date",
+    path: ["endDate"],
+});
+
+// Another customer, identified by email or 10-digit account number
+export const recipientSchema = z
+    .string()
+    .trim()
+    .toLowerCase()
+    .refine((val) => /^\d{10}$/.test(val) || z.string().email().safeParse(val).success, "Enter an email or 10-digit account number");
+
+// Pays either a recipient typed in or a saved internal payee
+export const paymentSchema = z.object({
+    fromAccountId: z.number(),
+    recipient: recipientSchema.optional(),
+    payeeId: z.number().optional(),
+    amount: moneySchema.min(1, "Amount must be at least $0.01"),
+    memo: z.string().max(100).optional(),
+}).refine((data) => (data.recipient === undefined) !== (data.payeeId === undefined), {
+    message: "Choose a saved payee or enter a recipient",
+    path: ["recipient"],
+});
+
+// Giving back some or all of a payment the user received
+export const refundSchema = z.object({
+    transactionId: z.number(),
+    amount: moneySchema.min(1, "Amount must be at least $0.01").optional(),
+    reason: z.string().max(100).optional(),
+});
+
+// An account at another bank that money is sent to
+export const externalBankAccountSchema = z.object({
+    accountNumber: z.string().regex(/^\d+$/, "Invalid account number"),
+    routingNumber: routingNumberSchema,
+});
+
+// Sends money to either bank details typed in or a saved external payee
+export const withdrawalSchema = z.object({
+    accountId: z.number(),
+    amount: moneySchema.min(1, "Amount must be at least $0.01"),
+    destination: externalBankAccountSchema.optional(),
+    payeeId: z.number().optional(),
+    useOverdraftProtection: z.boolean().default(false),
+}).refine((data) => (data.destination === undefined) !== (data.payeeId === undefined), {
+    message: "Choose a saved payee or enter bank details",
+    path: ["destination"],
+});
+
+// One page of an account's history. `cursor` comes from the previous page's nextCursor; amounts are in cents
+export const transactionQuerySchema = z.object({
+    accountId: z.number(),
+    limit: z.number().int().min(1).max(100).default(25),
+    cursor: z.string().nullish(),
+    types: z.array(z.string()).optional(),
+    statuses: z.array(z.string()).optional(),
+    from: isoDateSchema.optional(),
+    to: isoDateSchema.optional(),
+    minAmount: moneySchema.optional(),
+    maxAmount: moneySchema.optional(),
+    search: z.string().trim().max(100).optional(),
+    // Category keys; "uncategorized" matches transactions without one
+    categories: z.array(z.string()).optional(),
+}).refine((data) => !data.from || !data.to || data.to >= data.from, {
+    message: "End date must be on or after the start date",
+    path: ["to"],
+}).refine((data) => data.minAmount === undefined || data.maxAmount === undefined || data.maxAmount >= data.minAmount, {
+    message: "Maximum amount must be at least the minimum",
+    path: ["maxAmount"],
+});
+
+export const EXPORT_FORMATS = ["csv", "ofx", "qif"] as const;
+
+// An account's history for a date range (inclusive), in a format budgeting software can import
+export const transactionExportSchema = z.object({
+    accountId: z.number(),
+    format: z.enum(EXPORT_FORMATS),
+    from: isoDateSchema.optional(),
+    to: isoDateSchema.optional(),
+}).refine((data) => !data.from || !data.to || data.to >= data.from, {
+    message: "End date must be on or after the start date",
+    path: ["to"],
+});
+
+// A customer's own annotations on a transaction. Changing the category also teaches the rules (unless learn is false)
+export const transactionDetailsSchema = z.object({
+    transactionId: z.number(),
+    category: z.enum(CATEGORIES).nullable().optional(),
+    notes: z.string().trim().max(500, "Notes must be 500 characters or less").nullable().optional(),
+    tags: z
+        .array(z.string().trim().toLowerCase().min(1).max(30, "Tags must be 30 characters or less").regex(/^[a-z0-9 _-]+$/, "Tags can only contain letters, numbers, spaces, - and _"))
+        .max(10, "Use up to 10 tags")
+        .optional(),
+    learn: z.boolean().default(true),
+});
+
+// A calendar month, e.g. "2031-06"
+export const monthSchema = z.string().regex(/^\d{4}-(0[1-9]|1[0-2])$/, "Use a YYYY-MM month");
+
+// A monthly spending limit for one category; setting it again for the same category and currency replaces it
+export const budgetSchema = z.object({
+    category: z.enum(CATEGORIES),
+    currency: z.enum(CURRENCIES).default("USD"),
+    amount: moneySchema.min(100, "Budget must be at least $1.00").max(100000000, "Budget cannot exceed $1,000,000"),
+});
+
+// Sharing an account with another customer, who has to accept before they can see it
+export const accountInvitationSchema = z.object({
+    accountId: z.number(),
+    email: z.string().trim().toLowerCase().email("Invalid email format"),
+    role: z.enum(INVITABLE_ROLES),
+});
+
+export const payeeNicknameSchema = z
+    .string()
+    .trim()
+    .min(1, "Nickname is required")
+    .max(40, "Nickname must be 40 characters or less");
+
+// A saved recipient: an account at another bank, or another customer's 10-digit account here
+export const payeeSchema = z.discriminatedUnion("kind", [
+    externalBankAccountSchema.extend({
+        kind: z.literal("external"),
+        nickname: payeeNicknameSchema,
+    }),
+    z.object({
+        kind: z.literal("internal"),
+        nickname: payeeNicknameSchema,
+        accountNumber: z.string().regex(/^\d{10}$/, "Account number must be 10 digits"),
+    }),
+]);
+
+// Renaming keeps the payee trusted; changing where the money goes starts the cooling-off period again
+export const updatePayeeSchema = z.object({
+    payeeId: z.number(),
+    nickname: payeeNicknameSchema.optional(),
+    accountNumber: z.string().regex(/^\d+$/, "Invalid account number").optional(),
+    routingNumber: routingNumberSchema.optional(),
+});
+
+export const fundingSourceNicknameSchema = z
+    .string()
+    .trim()
+    .min(1, "Nickname is required")
+    .max(40, "Nickname must be 40 characters or less");
+
+// A card or bank account to keep in the vault. Without a nickname it is named after its brand and last four digits.
+// Cards are checked like a deposit's, security code included, but only the number is kept
+export const fundingSourceSchema = z.discriminatedUnion("type", [
+    z.object({
+        type: z.literal("card"),
+        nickname: fundingSourceNicknameSchema.optional(),
         accountNumber: z.string(),
-        routingNumber: z.string().optional(),
-    }).superRefine((data, ctx) => {
-        if (data.type === "bank" && !data.routingNumber) {
-            ctx.addIssue({
-                code: z.ZodIssueCode.custom,
-                message: "Routing number is required for bank transfers",
-                path: ["routingNumber"],
-            });
-        }
-        if (data.type === "card") {
-            // Luhn Algorithm
-            const sanitized = data.accountNumber.replace(/\D/g, "");
-            let sum = 0;
-            let shouldDouble = false;
-            for (let i = sanitized.length - 1; i >= 0; i--) {
-                let digit = parseInt(sanitized.charAt(i));
-                if (shouldDouble) {
-                    digit *= 2;
-                    if (digit > 9) digit -= 9;
-                }
-                sum += digit;
-                shouldDouble = !shouldDouble;
-            }
-            if (sum % 10 !== 0) {
-                ctx.addIssue({
-                    code: z.ZodIssueCode.custom,
-                    message: "Invalid card number",
-                    path: ["accountNumber"],
-                });
-            }
-        }
+        expiryMonth: expiryMonthSchema,
+        expiryYear: expiryYearSchema,
+        cvv: z.string(),
+    }),
+    externalBankAccountSchema.extend({
+        type: z.literal("bank"),
+        nickname: fundingSourceNicknameSchema.optional(),
     }),
+]).superRefine((data, ctx) => {
+    if (data.type === "card") checkCard(data, ctx);
 });
@@ -40,10 +40,61 @@ if (command === "list-users") {
 } else if (command === "clear") {
   console.log("\n=== Clearing Database ===");
   db.exec("DELETE FROM sessions");
+  db.exec("DELETE FROM idempotency_keys");
+  db.exec("DELETE FROM scheduled_transfers");
+  db.exec("DELETE FROM interest_accruals");
+  db.exec("DELETE FROM statements");
+  db.exec("DELETE FROM daily_balances");
+  db.exec("DELETE FROM transaction_tags");
+  db.exec("DELETE FROM categorization_rules WHERE user_id IS NOT NULL");
+  db.exec("DELETE FROM budget_alerts");
+  db.exec("DELETE FROM budgets");
+  db.exec("DELETE FROM account_status_changes");
+  db.exec("DELETE FROM account_invitations");
+  db.exec("DELETE FROM account_members");
+  db.exec("DELETE FROM payees");
+  db.exec("DELETE FROM funding_sources");
+  db.exec("DELETE FROM postings");
+  db.exec("DELETE FROM journal_entries");
+  db.exec("DELETE FROM ledger_accounts WHERE account_id IS NOT NULL");
   db.exec("DELETE FROM transactions");
   db.exec("DELETE FROM accounts");
   db.exec("DELETE FROM users");
   console.log("Database cleared!");
+} else if (command === "ledger-check") {
+  console.log("\n=== Ledger Check ===");
+  // Debits must equal credits within each currency
+  const totals = db
+    .prepare(
+      `SELECT la.currency,
+        COALESCE(SUM(CASE WHEN p.direction = 'debit' THEN p.amount ELSE 0 END), 0) AS debits,
+        COALESCE(SUM(CASE WHEN p.direction = 'credit' THEN p.amount ELSE 0 END), 0) AS credits
+      FROM postings p JOIN ledger_accounts la ON la.id = p.ledger_account_id
+      GROUP BY la.currency`
+    )
+    .all();
+  totals.forEach((t) => {
+    console.log(`${t.currency} Debits: ${t.debits}, Credits: ${t.credits} ${t.debits === t.credits ? "(BALANCED)" : "(UNBALANCED)"}`);
+  });
+
+  const drift = db
+    .prepare(
+      `SELECT a.id, a.account_number, a.balance,
+        COALESCE(SUM(CASE WHEN p.direction = 'credit' THEN p.amount ELSE -p.amount END), 0) AS derived
+      FROM accounts a
+      LEFT JOIN ledger_accounts l ON l.account_id = a.id
+      LEFT JOIN postings p ON p.ledger_account_id = l.id
+      GROUP BY a.id
+      HAVING a.balance != derived`
+    )
+    .all();
+  if (drift.length === 0) {
+    console.log("All cached balances match the ledger");
+  } else {
+    drift.forEach((row) => {
+      console.log(`Account ${row.account_number}: cached ${row.balance}, ledger ${row.derived}`);
+    });
+  }
 } else if (command === "delete-user") {
   const email = process.argv[3];
   if (!email) {
@@ -52,6 +103,32 @@ if (command === "list-users") {
     const user = db.prepare("SELECT id FROM users WHERE email = ?").get(email);
     if (user) {
       db.exec(`DELETE FROM sessions WHERE user_id = ${user.id}`);
+      db.exec(`DELETE FROM idempotency_keys WHERE user_id = ${user.id}`);
+      db.exec(`DELETE FROM scheduled_transfers WHERE user_id = ${user.id} OR from_account_id IN (SELECT id FROM accounts WHERE user_id = ${user.id}) OR to_account_id IN (SELECT id FROM accounts WHERE user_id = ${user.id})`);
+      db.exec(`DELETE FROM interest_accruals WHERE account_id IN (SELECT id FROM accounts WHERE user_id = ${user.id})`);
+      db.exec(`DELETE FROM statements WHERE account_id IN (SELECT id FROM accounts WHERE user_id = ${user.id})`);
+      db.exec(`DELETE FROM daily_balances WHERE account_id IN (SELECT id FROM accounts WHERE user_id = ${user.id})`);
+      db.exec(`DELETE FROM transaction_tags WHERE transaction_id IN (SELECT id FROM transactions WHERE account_id IN (SELECT id FROM accounts WHERE user_id = ${user.id}))`);
+      db.exec(`DELETE FROM categorization_rules WHERE user_id = ${user.id}`);
+      db.exec(`DELETE FROM budget_alerts WHERE budget_id IN (SELECT id FROM budgets WHERE user_id = ${user.id})`);
+      db.exec(`DELETE FROM budgets WHERE user_id = ${user.id}`);
+      db.exec(`DELETE FROM account_status_changes WHERE account_id IN (SELECT id FROM accounts WHERE user_id = ${user.id})`);
+      db.exec(`DELETE FROM account_invitations WHERE invited_user_id = ${user.id} OR invited_by = ${user.id} OR account_id IN (SELECT id FROM accounts WHERE user_id = ${user.id})`);
+      db.exec(`DELETE FROM account_members WHERE user_id = ${user.id} OR account_id IN (SELECT id FROM accounts WHERE user_id = ${user.id})`);
+      db.exec(`DELETE FROM payees WHERE user_id = ${user.id}`);
+      db.exec(`DELETE FROM funding_sources WHERE user_id = ${user.id}`);
+      // Remove whole journal entries (both sides) so the remaining ledger still balances
+      const userLedgerAccounts = `SELECT id FROM ledger_accounts WHERE account_id IN (SELECT id FROM accounts WHERE user_id = ${user.id})`;
+      const userEntries = `SELECT journal_entry_id FROM postings WHERE ledger_account_id IN (${userLedgerAccounts})`;
+      db.exec(`CREATE TEMP TABLE doomed_entries AS ${userEntries}`);
+      db.exec(`DELETE FROM postings WHERE journal_entry_id IN (SELECT journal_entry_id FROM doomed_entries)`);
+      db.exec(`DELETE FROM journal_entries WHERE id IN (SELECT journal_entry_id FROM doomed_entries)`);
+      db.exec(`DROP TABLE doomed_entries`);
+      db.exec(`DELETE FROM ledger_accounts WHERE account_id IN (SELECT id FROM accounts WHERE user_id = ${user.id})`);
+      // Payments to and from other customers keep their side of the history, just unlinked
+      const userTransactions = `SELECT id FROM transactions WHERE account_id IN (SELECT id FROM accounts WHERE user_id = ${user.id})`;
+      db.exec(`UPDATE transactions SET linked_transaction_id = NULL WHERE linked_transaction_id IN (${userTransactions})`);
+      db.exec(`UPDATE transactions SET reversal_of_id = NULL WHERE reversal_of_id IN (${userTransactions})`);
       db.exec(`DELETE FROM transactions WHERE account_id IN (SELECT id FROM accounts WHERE user_id = ${user.id})`);
       db.exec(`DELETE FROM accounts WHERE user_id = ${user.id}`);
       db.exec(`DELETE FROM users WHERE id = ${user.id}`);
@@ -70,6 +147,7 @@ Commands:
   npm run db:list-sessions  - List all sessions
   npm run db:clear          - Clear all data
   npm run db:delete-user    - Delete a specific user by email
+  npm run db:ledger-check   - Verify postings balance and cached balances match the ledger
 
 Examples:
   npm run db:list-users
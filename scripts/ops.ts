@@ -0,0 +1,157 @@
+// Back-office jobs for running the bank locally. Run with tsx so the app's TypeScript modules load as-is:
+//   npm run ops:settle                  settle pending deposits/withdrawals that are due
+//   npm run ops:settle -- --watch 30    keep settling every 30 seconds
+//   npm run ops:schedules               run scheduled transfers that are due today (also takes --watch)
+//   npm run ops:interest                accrue daily interest and post it for finished months (also takes --watch)
+//   npm run ops:statements              generate monthly statements for finished months (also takes --watch)
+//   npm run ops:dormancy                mark long-unused accounts dormant (also takes --watch)
+//   npm run ops:budget-alerts           alert users whose spending this month reached a budget threshold (also takes --watch)
+//   npm run ops -- account-status <id> <status> <reason>   approve, freeze, unfreeze or close an account
+//   npm run ops -- fx-load [file]       load exchange rates from a JSON file (default scripts/fx-rates.json)
+//   npm run ops -- routing-load [file]  load the FedACH routing directory (default scripts/fedach-directory.txt)
+//   npm run ops -- fail <id> <reason>   reject a pending deposit/withdrawal
+//   npm run ops -- return <id> <code>   return a settled bank deposit with an ACH return code (R01, R02, ...)
+//   npm run ops -- reverse <id> <reason> [--amount 12.34]   reverse or partially refund a transaction
+import { db } from "../lib/db";
+import { ACH_RETURN_CODES } from "../lib/ach";
+import { formatCurrency, parseMoney } from "../lib/money";
+import { reverseTransaction } from "../server/services/reversals";
+import { readFileSync } from "fs";
+import { loadFxRates } from "../server/services/fx";
+import { loadRoutingDirectory, parseFedAchDirectory } from "../server/services/routing-directory";
+import { processInterest } from "../server/services/interest";
+import { processBudgetAlerts } from "../server/services/insights";
+import { processScheduledTransfers } from "../server/services/schedules";
+import { processStatements } from "../server/services/statements";
+import { processDormancy, setAccountStatus } from "../server/services/account-lifecycle";
+import { ACCOUNT_STATUSES, type AccountStatus } from "../lib/account-status";
+import { processSettlements, resolveTransaction } from "../server/services/settlement";
+
+const [command, ...args] = process.argv.slice(2);
+
+function runSettlement() {
+  const result = processSettlements();
+  console.log(`[${new Date().toISOString()}] Settled: ${result.settled}, Failed: ${result.failed}`);
+  result.errors.forEach(({ transactionId, error }) => console.error(`  Transaction ${transactionId}: ${error}`));
+}
+
+function runSchedules() {
+  const result = processScheduledTransfers();
+  console.log(`[${new Date().toISOString()}] Scheduled transfers executed: ${result.executed}, Failed: ${result.failed}`);
+}
+
+function runInterest() {
+  const result = processInterest();
+  console.log(`[${new Date().toISOString()}] Interest days accrued: ${result.accruedDays}, Monthly postings: ${result.posted}`);
+  result.errors.forEach(({ accountId, error }) => console.error(`  Account ${accountId}: ${error}`));
+}
+
+function runStatements() {
+  const result = processStatements();
+  console.log(`[${new Date().toISOString()}] Statements generated: ${result.generated}`);
+  result.errors.forEach(({ accountId, error }) => console.error(`  Account ${accountId}: ${error}`));
+}
+
+function runDormancy() {
+  const result = processDormancy();
+  console.log(`[${new Date().toISOString()}] Accounts marked dormant: ${result.dormant}`);
+}
+
+function runBudgetAlerts() {
+  const result = processBudgetAlerts();
+  console.log(`[${new Date().toISOString()}] Budget alerts raised: ${result.raised}`);
+  result.errors.forEach(({ userId, error }) => console.error(`  User ${userId}: ${error}`));
+}
+
+// Runs job once, or on an interval when --watch [seconds] is given
+function schedule(job: () => void) {
+  const watchIndex = args.indexOf("--watch");
+  job();
+  if (watchIndex === -1) return;
+
+  const seconds = Number(args[watchIndex + 1]) || 30;
+  console.log(`Watching: running every ${seconds}s (Ctrl+C to stop)`);
+  setInterval(job, seconds * 1000);
+}
+
+if (command === "settle") {
+  schedule(runSettlement);
+} else if (command === "schedules") {
+  schedule(runSchedules);
+} else if (command === "interest") {
+  schedule(runInterest);
+} else if (command === "statements") {
+  schedule(runStatements);
+} else if (command === "dormancy") {
+  schedule(runDormancy);
+} else if (command === "budget-alerts") {
+  schedule(runBudgetAlerts);
+} else if (command === "account-status") {
+  const [id, status, ...reason] = args;
+  if (!id || !ACCOUNT_STATUSES.includes(status as AccountStatus) || reason.length === 0) {
+    console.log(`Usage: npm run ops -- account-status <account id> <${ACCOUNT_STATUSES.join("|")}> <reason>`);
+    process.exit(1);
+  }
+  const account = setAccountStatus(Number(id), status as AccountStatus, reason.join(" "));
+  console.log(`Account ${account.accountNumber} is now ${account.status}`);
+} else if (command === "fx-load") {
+  const file = args[0] ?? "scripts/fx-rates.json";
+  const count = loadFxRates(JSON.parse(readFileSync(file, "utf8")));
+  console.log(`Loaded ${count} exchange rates from ${file}`);
+} else if (command === "routing-load") {
+  const file = args[0] ?? "scripts/fedach-directory.txt";
+  const count = loadRoutingDirectory(parseFedAchDirectory(readFileSync(file, "utf8")));
+  console.log(`Loaded ${count} routing numbers from ${file}`);
+} else if (command === "fail") {
+  const [id, ...reason] = args;
+  if (!id || reason.length === 0) {
+    console.log("Usage: npm run ops -- fail <transaction id> <reason>");
+    process.exit(1);
+  }
+  resolveTransaction(Number(id), "failed", reason.join(" "));
+  console.log(`Transaction ${id} failed`);
+} else if (command === "return") {
+  const [id, code] = args;
+  if (!id || !code) {
+    console.log("Usage: npm run ops -- return <transaction id> <ACH return code>");
+    Object.entries(ACH_RETURN_CODES).forEach(([c, text]) => console.log(`  ${c}  ${text}`));
+    process.exit(1);
+  }
+  resolveTransaction(Number(id), "returned", code);
+  console.log(`Transaction ${id} returned (${code.toUpperCase()})`);
+} else if (command === "reverse") {
+  const amountIndex = args.indexOf("--amount");
+  const amount = amountIndex === -1 ? undefined : parseMoney(args[amountIndex + 1] ?? "");
+  const [id, ...reason] = amountIndex === -1 ? args : args.slice(0, amountIndex);
+  if (!id || reason.length === 0 || amount === null) {
+    console.log("Usage: npm run ops -- reverse <transaction id> <reason> [--amount 12.34]");
+    process.exit(1);
+  }
+  const result = db.transaction((tx) =>
+    reverseTransaction(tx, { transactionId: Number(id), amount, reason: reason.join(" ") })
+  );
+  console.log(`Transaction ${id} reversed by ${formatCurrency(result.reversal.amount)}; ${formatCurrency(result.remaining)} left`);
+} else {
+  console.log(`
+Back-office Jobs
+================
+
+Commands:
+  npm run ops:settle                    - Settle due pending deposits and withdrawals
+  npm run ops:settle -- --watch [secs]  - Keep settling on a timer (default 30s)
+  npm run ops:schedules [-- --watch]    - Run scheduled transfers that are due today
+  npm run ops:interest [-- --watch]     - Accrue daily interest and post finished months
+  npm run ops:statements [-- --watch]   - Generate monthly statements for finished months
+  npm run ops:dormancy [-- --watch]     - Mark accounts with no recent activity dormant
+  npm run ops:budget-alerts [-- --watch]
+                                        - Alert users whose spending reached a budget threshold
+  npm run ops -- account-status <id> <status> <reason>
+                                        - Approve, freeze, unfreeze or close an account
+  npm run ops -- fx-load [file]         - Load exchange rates (default scripts/fx-rates.json)
+  npm run ops -- routing-load [file]    - Load the FedACH routing directory (default scripts/fedach-directory.txt)
+  npm run ops -- fail <id> <reason>     - Fail a pending deposit or withdrawal
+  npm run ops -- return <id> <code>     - Return a settled bank deposit with an ACH code (R01, R02, ...)
+  npm run ops -- reverse <id> <reason> [--amount 12.34]
+                                        - Reverse a transaction, or refund part of it
+  `);
+}
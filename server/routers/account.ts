@@ -1,9 +1,9 @@
 import { z } from "zod";
 import { TRPCError } from "@trpc/server";
-import { protectedProcedure, router } from "../trpc";
+import { idempotentProcedure, protectedProcedure, router } from "../trpc";
 import { db } from "@/lib/db";
-import { accounts, transactions } from "@/lib/db/schema";
-import { eq, and, desc, sql } from "drizzle-orm";
+import { accountMembers, accounts, scheduledTransfers, transactions } from "@/lib/db/schema";
+import { eq, and, asc, inArray, max, ne } from "drizzle-orm";
 
 import { randomInt } from "crypto";
 
@@ -11,27 +11,67 @@ function generateAccountNumber(): string {
   return randomInt(1000000000, 9999999999).toString();
 }
 
-import { fundingSchema } from "@/lib/validations";
+// How many open accounts of each type (checking, savings) a customer can have, across all currencies
+const MAX_ACCOUNTS_PER_TYPE = Number(process.env.MAX_ACCOUNTS_PER_TYPE) || 5;
+
+import type { AccountRole } from "@/lib/account-roles";
+import { CURRENCIES } from "@/lib/money";
+import {
+  accountNicknameSchema,
+  closeAccountSchema,
+  fundingSchema,
+  isoDateSchema,
+  moneySchema,
+  routingNumberSchema,
+  scheduledTransferSchema,
+  transactionDetailsSchema,
+  transactionQuerySchema,
+  transferSchema,
+  withdrawalSchema,
+} from "@/lib/validations";
+import { customerLedgerAccountId, postJournalEntry, SYSTEM_ACCOUNTS, systemLedgerAccountId } from "../services/ledger";
+import { assertCanReceive, memberAccount } from "../services/account-guards";
+import { accountStatusHistory, closeAccount, openAccount, reactivateAccount } from "../services/account-lifecycle";
+import { executeTransfer } from "../services/transfers";
+import { quoteConversion } from "../services/fx";
+import { assertWithinFundingLimits, remainingFundingLimits } from "../services/limits";
+import { assertAcceptedCard, savedFundingSourceDetails } from "../services/funding-sources";
+import { assertKnownRoutingNumber, bankForRoutingNumber } from "../services/routing-directory";
+import { apyForBalance, interestYearToDate } from "../services/interest";
+import { balanceHistory } from "../services/balances";
+import { updateTransactionDetails } from "../services/categories";
+import { cancelSchedule, createSchedule, pauseSchedule, resumeSchedule, upcomingDates } from "../services/schedules";
+import { listTransactions } from "../services/transaction-history";
+import { executeWithdrawal } from "../services/withdrawals";
+import { payeeBankAccount } from "../services/payees";
 
 export const accountRouter = router({
   createAccount: protectedProcedure
     .input(
       z.object({
         accountType: z.enum(["checking", "savings"]),
+        currency: z.enum(CURRENCIES).default("USD"),
+        nickname: accountNicknameSchema.optional(),
       })
     )
     .mutation(async ({ input, ctx }) => {
-      // Check if user already has an account of this type
-      const existingAccount = await db
-        .select()
+      // Closed accounts don't count towards the cap
+      const sameType = await db
+        .select({ id: accounts.id })
         .from(accounts)
-        .where(and(eq(accounts.userId, ctx.user.id), eq(accounts.accountType, input.accountType)))
-        .get();
+        .where(
+          and(
+            eq(accounts.userId, ctx.user.id),
+            eq(accounts.accountType, input.accountType),
+            ne(accounts.status, "closed")
+          )
+        )
+        .all();
 
-      if (existingAccount) {
+      if (sameType.length >= MAX_ACCOUNTS_PER_TYPE) {
         throw new TRPCError({
           code: "CONFLICT",
-          message: `You already have a ${input.accountType} account`,
+          message: `You can have up to ${MAX_ACCOUNTS_PER_TYPE} ${input.accountType} accounts`,
         });
       }
 
@@ -45,123 +85,384 @@ export const accountRouter = router({
         isUnique = !existing;
       }
 
-      const [account] = await db
-        .insert(accounts)
-        .values({
+      // Opened as pending; openAccount records that and approves it unless approval is manual
+      return db.transaction((tx) => {
+        const last = tx
+          .select({ displayOrder: max(accountMembers.displayOrder) })
+          .from(accountMembers)
+          .where(eq(accountMembers.userId, ctx.user.id))
+          .get();
+
+        const account = tx
+          .insert(accounts)
+          .values({
+            userId: ctx.user.id,
+            accountNumber: accountNumber!,
+            accountType: input.accountType,
+            currency: input.currency,
+            nickname: input.nickname,
+            balance: 0,
+            status: "pending",
+          })
+          .returning()
+          .get();
+
+        tx.insert(accountMembers)
+          .values({
+            accountId: account.id,
+            userId: ctx.user.id,
+            role: "owner",
+            displayOrder: (last?.displayOrder ?? -1) + 1,
+          })
+          .run();
+
+        return openAccount(tx, account);
+      });
+    }),
+
+  // Pays out accrued interest and moves any remaining balance to another account before closing
+  closeAccount: idempotentProcedure.input(closeAccountSchema).mutation(async ({ input, ctx }) => {
+    return ctx.idempotent(() =>
+      db.transaction((tx) =>
+        closeAccount(tx, {
           userId: ctx.user.id,
-          accountNumber: accountNumber!,
-          accountType: input.accountType,
-          balance: 0,
-          status: "active",
+          accountId: input.accountId,
+          sweepToAccountId: input.sweepToAccountId,
+          reason: input.reason,
         })
-        .returning();
+      )
+    );
+  }),
 
-      return account;
+  reactivateAccount: protectedProcedure
+    .input(
+      z.object({
+        accountId: z.number(),
+      })
+    )
+    .mutation(async ({ input, ctx }) => {
+      return db.transaction((tx) => reactivateAccount(tx, ctx.user.id, input.accountId));
     }),
 
-  getAccounts: protectedProcedure.query(async ({ ctx }) => {
-    const userAccounts = await db.select().from(accounts).where(eq(accounts.userId, ctx.user.id));
-
-    return userAccounts;
-  }),
+  getAccountStatusHistory: protectedProcedure
+    .input(
+      z.object({
+        accountId: z.number(),
+      })
+    )
+    .query(async ({ input, ctx }) => {
+      return db.transaction((tx) => accountStatusHistory(tx, ctx.user.id, input.accountId));
+    }),
 
-  fundAccount: protectedProcedure
+  renameAccount: protectedProcedure
     .input(
       z.object({
         accountId: z.number(),
-      }).merge(fundingSchema)
+        nickname: accountNicknameSchema.nullable(), // null goes back to the default name
+      })
+    )
+    .mutation(async ({ input, ctx }) => {
+      // The nickname is shared, so every member of a joint account sees the same name
+      return db.transaction((tx) => {
+        const account = memberAccount(tx, ctx.user.id, input.accountId, "co_owner");
+        return tx.update(accounts).set({ nickname: input.nickname }).where(eq(accounts.id, account.id)).returning().get();
+      });
+    }),
+
+  // Takes the id of every account on the user's dashboard (their own and shared ones), in the order to show them
+  reorderAccounts: protectedProcedure
+    .input(
+      z.object({
+        accountIds: z.array(z.number()).min(1),
+      })
     )
     .mutation(async ({ input, ctx }) => {
-      const amount = parseFloat(input.amount.toString());
+      return db.transaction((tx) => {
+        const memberships = tx
+          .select({ id: accountMembers.accountId })
+          .from(accountMembers)
+          .where(eq(accountMembers.userId, ctx.user.id))
+          .all();
+        const ids = new Set(input.accountIds);
 
-      // Verify account belongs to user
-      const account = await db
-        .select()
-        .from(accounts)
-        .where(and(eq(accounts.id, input.accountId), eq(accounts.userId, ctx.user.id)))
-        .get();
+        if (
+          ids.size !== input.accountIds.length ||
+          ids.size !== memberships.length ||
+          memberships.some((a) => !ids.has(a.id))
+        ) {
+          throw new TRPCError({
+            code: "BAD_REQUEST",
+            message: "List each of your accounts exactly once",
+          });
+        }
 
-      if (!account) {
-        throw new TRPCError({
-          code: "NOT_FOUND",
-          message: "Account not found",
+        input.accountIds.forEach((id, displayOrder) => {
+          tx.update(accountMembers)
+            .set({ displayOrder })
+            .where(and(eq(accountMembers.accountId, id), eq(accountMembers.userId, ctx.user.id)))
+            .run();
         });
-      }
+        return { success: true };
+      });
+    }),
 
-      if (account.status !== "active") {
-        throw new TRPCError({
-          code: "BAD_REQUEST",
-          message: "Account is not active",
+  // The user's own accounts and those shared with them, each with the user's role on it
+  getAccounts: protectedProcedure.query(async ({ ctx }) => {
+    const userAccounts = (
+      await db
+        .select({ account: accounts, role: accountMembers.role })
+        .from(accounts)
+        .innerJoin(accountMembers, eq(accountMembers.accountId, accounts.id))
+        .where(eq(accountMembers.userId, ctx.user.id))
+        .orderBy(asc(accountMembers.displayOrder), asc(accounts.id))
+    ).map((row) => ({ ...row.account, role: row.role as AccountRole }));
+
+    // Current APY for the balance tier and interest paid so far this year
+    return db.transaction((tx) => {
+      const ytd = interestYearToDate(tx, userAccounts.map((account) => account.id));
+      return userAccounts.map((account) => ({
+        ...account,
+        apyBps: apyForBalance(tx, account.accountType, account.balance),
+        ytdInterest: ytd.get(account.id) ?? 0,
+      }));
+    });
+  }),
+
+  fundAccount: idempotentProcedure
+    .input(
+      z
+        .object({
+          accountId: z.number(),
+        })
+        .and(fundingSchema)
+    )
+    .mutation(async ({ input, ctx }) =>
+      // A replayed key returns the original result without touching the account again
+      ctx.idempotent(async () => {
+        const amount = input.amount;
+
+        // Verify the user can move money in this account
+        const account = db.transaction((tx) => memberAccount(tx, ctx.user.id, input.accountId, "co_owner"));
+
+        assertCanReceive(account);
+
+        // Use a transaction to ensure the transaction record, postings and cached balance commit atomically
+        // better-sqlite3 transactions are synchronous
+        return db.transaction((tx) => {
+          // Saved sources are decrypted from the vault only for as long as the deposit takes
+          const source =
+            input.sourceToken !== undefined
+              ? savedFundingSourceDetails(tx, ctx.user.id, input.sourceToken)
+              : input.fundingSource!;
+          if (source.type === "bank") assertKnownRoutingNumber(tx, source.routingNumber!);
+          else assertAcceptedCard(source.accountNumber);
+
+          // Checked in the same transaction as the insert so concurrent deposits cannot both squeeze under a limit
+          assertWithinFundingLimits(
+            tx,
+            { userId: ctx.user.id, accountType: account.accountType, currency: account.currency, sourceType: source.type },
+            amount
+          );
+
+          // Create transaction record
+          const [transaction] = tx
+            .insert(transactions)
+            .values({
+              accountId: input.accountId,
+              type: "deposit",
+              amount,
+              currency: account.currency,
+              description: `Funding from ${source.type}`,
+              status: "pending",
+              sourceType: source.type,
+            })
+            .returning()
+            .all();
+
+          // Money comes in from the external funding clearing account. It counts towards the ledger
+          // balance now but only becomes available once the settlement processor clears it.
+          const balances = postJournalEntry(tx, {
+            description: `Funding from ${source.type}`,
+            lines: [
+              {
+                ledgerAccountId: systemLedgerAccountId(tx, SYSTEM_ACCOUNTS.externalFundingClearing, account.currency),
+                direction: "debit",
+                amount,
+              },
+              {
+                ledgerAccountId: customerLedgerAccountId(tx, input.accountId),
+                direction: "credit",
+                amount,
+                transactionId: transaction.id,
+                pendingSettlement: true,
+              },
+            ],
+          });
+
+          return {
+            transaction,
+            newBalance: balances.get(input.accountId)!,
+          };
         });
-      }
+      })
+    ),
 
-      // Use a transaction to ensure both the transaction record and balance update happen atomically
-      // better-sqlite3 transactions are synchronous
-      return db.transaction((tx) => {
-        // Create transaction record
-        const [transaction] = tx
-          .insert(transactions)
-          .values({
-            accountId: input.accountId,
-            type: "deposit",
-            amount,
-            description: `Funding from ${input.fundingSource.type}`,
-            status: "completed",
-            processedAt: new Date().toISOString(),
-          })
-          .returning()
-          .all();
+  // The bank a routing number belongs to, so forms can name it as it is typed; null when it isn't in the directory
+  lookupBank: protectedProcedure
+    .input(
+      z.object({
+        routingNumber: routingNumberSchema,
+      })
+    )
+    .query(async ({ input }) => {
+      const bank = db.transaction((tx) => bankForRoutingNumber(tx, input.routingNumber));
+      return bank ? { bankName: bank.bankName, city: bank.city, state: bank.state } : null;
+    }),
 
-        // Update account balance atomically (Fix Race Condition)
-        const [updatedAccount] = tx
-          .update(accounts)
-          .set({
-            balance: sql`${accounts.balance} + ${amount}`,
-          })
-          .where(eq(accounts.id, input.accountId))
-          .returning()
-          .all();
+  // How much more the user can deposit into this account from the given source type right now, in its currency
+  getFundingLimits: protectedProcedure
+    .input(
+      z.object({
+        accountId: z.number(),
+        sourceType: z.enum(["card", "bank"]),
+      })
+    )
+    .query(async ({ input, ctx }) => {
+      const account = db.transaction((tx) => memberAccount(tx, ctx.user.id, input.accountId, "co_owner"));
+
+      const { perTransaction, daily, rolling30Day, maxDeposit } = db.transaction((tx) =>
+        remainingFundingLimits(tx, {
+          userId: ctx.user.id,
+          accountType: account.accountType,
+          currency: account.currency,
+          sourceType: input.sourceType,
+        })
+      );
+      return { currency: account.currency, perTransaction, daily, rolling30Day, maxDeposit };
+    }),
+
+  // Preview of what a transfer between two of the user's accounts (own or shared) would deliver
+  getFxQuote: protectedProcedure
+    .input(
+      z.object({
+        fromAccountId: z.number(),
+        toAccountId: z.number(),
+        amount: moneySchema.min(1),
+      })
+    )
+    .query(async ({ input, ctx }) => {
+      return db.transaction((tx) => {
+        const from = memberAccount(tx, ctx.user.id, input.fromAccountId);
+        const to = memberAccount(tx, ctx.user.id, input.toAccountId);
 
         return {
-          transaction,
-          newBalance: updatedAccount.balance,
+          fromCurrency: from.currency,
+          toCurrency: to.currency,
+          ...quoteConversion(tx, from.currency, to.currency, input.amount),
         };
       });
     }),
 
-  getTransactions: protectedProcedure
+  transfer: idempotentProcedure.input(transferSchema).mutation(async ({ input, ctx }) => {
+    // Ownership, status and funds are checked inside the transaction so they cannot change underneath us
+    return ctx.idempotent(() =>
+      db.transaction((tx) =>
+        executeTransfer(tx, {
+          userId: ctx.user.id,
+          fromAccountId: input.fromAccountId,
+          toAccountId: input.toAccountId,
+          amount: input.amount,
+          description: input.description,
+        })
+      )
+    );
+  }),
+
+  withdraw: idempotentProcedure.input(withdrawalSchema).mutation(async ({ input, ctx }) => {
+    // The balance check, any overdraft transfer and the withdrawal itself commit together or not at all
+    return ctx.idempotent(() =>
+      db.transaction((tx) =>
+        executeWithdrawal(tx, {
+          userId: ctx.user.id,
+          accountId: input.accountId,
+          amount: input.amount,
+          destination:
+            input.payeeId !== undefined
+              ? payeeBankAccount(tx, ctx.user.id, input.payeeId)
+              : input.destination!,
+          useOverdraftProtection: input.useOverdraftProtection,
+        })
+      )
+    );
+  }),
+
+  scheduleTransfer: idempotentProcedure.input(scheduledTransferSchema).mutation(async ({ input, ctx }) => {
+    return ctx.idempotent(() =>
+      db.transaction((tx) =>
+        createSchedule(tx, {
+          userId: ctx.user.id,
+          fromAccountId: input.fromAccountId,
+          toAccountId: input.toAccountId,
+          amount: input.amount,
+          description: input.description,
+          frequency: input.frequency,
+          startDate: input.startDate,
+          endDate: input.endDate,
+          maxOccurrences: input.maxOccurrences,
+        })
+      )
+    );
+  }),
+
+  // Active and paused schedules, soonest first, with the next few dates each will run on
+  getScheduledTransfers: protectedProcedure.query(async ({ ctx }) => {
+    const schedules = await db
+      .select()
+      .from(scheduledTransfers)
+      .where(and(eq(scheduledTransfers.userId, ctx.user.id), inArray(scheduledTransfers.status, ["active", "paused"])))
+      .orderBy(asc(scheduledTransfers.nextRunDate));
+
+    return schedules.map((schedule) => ({
+      ...schedule,
+      upcomingDates: upcomingDates(schedule),
+    }));
+  }),
+
+  pauseScheduledTransfer: protectedProcedure
+    .input(z.object({ scheduleId: z.number() }))
+    .mutation(async ({ input, ctx }) => {
+      return db.transaction((tx) => pauseSchedule(tx, ctx.user.id, input.scheduleId));
+    }),
+
+  resumeScheduledTransfer: protectedProcedure
+    .input(z.object({ scheduleId: z.number() }))
+    .mutation(async ({ input, ctx }) => {
+      return db.transaction((tx) => resumeSchedule(tx, ctx.user.id, input.scheduleId));
+    }),
+
+  cancelScheduledTransfer: protectedProcedure
+    .input(z.object({ scheduleId: z.number() }))
+    .mutation(async ({ input, ctx }) => {
+      return db.transaction((tx) => cancelSchedule(tx, ctx.user.id, input.scheduleId));
+    }),
+
+  getBalanceHistory: protectedProcedure
     .input(
       z.object({
         accountId: z.number(),
+        from: isoDateSchema.optional(),
+        to: isoDateSchema.optional(),
       })
     )
     .query(async ({ input, ctx }) => {
-      // Verify account belongs to user
-      const account = await db
-        .select()
-        .from(accounts)
-        .where(and(eq(accounts.id, input.accountId), eq(accounts.userId, ctx.user.id)))
-        .get();
-
-      if (!account) {
-        throw new TRPCError({
-          code: "NOT_FOUND",
-          message: "Account not found",
-        });
-      }
-
-      const accountTransactions = await db
-        .select()
-        .from(transactions)
-        .where(eq(transactions.accountId, input.accountId))
-        .orderBy(desc(transactions.createdAt));
+      return db.transaction((tx) => balanceHistory(tx, ctx.user.id, input));
+    }),
 
-      // Fix N+1: Use the already fetched account details
-      const enrichedTransactions = accountTransactions.map((transaction) => ({
-        ...transaction,
-        accountType: account.accountType,
-      }));
+  updateTransactionDetails: protectedProcedure.input(transactionDetailsSchema).mutation(async ({ input, ctx }) => {
+    return db.transaction((tx) => updateTransactionDetails(tx, ctx.user.id, input));
+  }),
 
-      return enrichedTransactions;
-    }),
+  getTransactions: protectedProcedure.input(transactionQuerySchema).query(async ({ input, ctx }) => {
+    return db.transaction((tx) => listTransactions(tx, ctx.user.id, input));
+  }),
 });
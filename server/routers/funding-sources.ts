@@ -0,0 +1,58 @@
+import { z } from "zod";
+import { protectedProcedure, router } from "../trpc";
+import { db } from "@/lib/db";
+import { fundingSourceNicknameSchema, fundingSourceSchema } from "@/lib/validations";
+import {
+  ACCEPTED_CARD_NETWORKS,
+  listFundingSources,
+  removeFundingSource,
+  renameFundingSource,
+  saveFundingSource,
+  setDefaultFundingSource,
+} from "../services/funding-sources";
+
+// The funding-source vault. Sources are referred to by token; card and account numbers never leave the server
+export const fundingSourcesRouter = router({
+  getFundingSources: protectedProcedure.query(async ({ ctx }) => {
+    return db.transaction((tx) => listFundingSources(tx, ctx.user.id));
+  }),
+
+  getAcceptedCardNetworks: protectedProcedure.query(async () => {
+    return ACCEPTED_CARD_NETWORKS;
+  }),
+
+  addFundingSource: protectedProcedure.input(fundingSourceSchema).mutation(async ({ input, ctx }) => {
+    return db.transaction((tx) => saveFundingSource(tx, ctx.user.id, input));
+  }),
+
+  renameFundingSource: protectedProcedure
+    .input(
+      z.object({
+        token: z.string(),
+        nickname: fundingSourceNicknameSchema,
+      })
+    )
+    .mutation(async ({ input, ctx }) => {
+      return db.transaction((tx) => renameFundingSource(tx, ctx.user.id, input.token, input.nickname));
+    }),
+
+  setDefaultFundingSource: protectedProcedure
+    .input(
+      z.object({
+        token: z.string(),
+      })
+    )
+    .mutation(async ({ input, ctx }) => {
+      return db.transaction((tx) => setDefaultFundingSource(tx, ctx.user.id, input.token));
+    }),
+
+  removeFundingSource: protectedProcedure
+    .input(
+      z.object({
+        token: z.string(),
+      })
+    )
+    .mutation(async ({ input, ctx }) => {
+      return db.transaction((tx) => removeFundingSource(tx, ctx.user.id, input.token));
+    }),
+});
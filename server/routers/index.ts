@@ -1,10 +1,22 @@
 import { router } from "../trpc";
 import { authRouter } from "./auth";
 import { accountRouter } from "./account";
+import { paymentsRouter } from "./payments";
+import { statementsRouter } from "./statements";
+import { insightsRouter } from "./insights";
+import { membersRouter } from "./members";
+import { payeesRouter } from "./payees";
+import { fundingSourcesRouter } from "./funding-sources";
 
 export const appRouter = router({
   auth: authRouter,
   account: accountRouter,
+  payments: paymentsRouter,
+  statements: statementsRouter,
+  insights: insightsRouter,
+  members: membersRouter,
+  payees: payeesRouter,
+  fundingSources: fundingSourcesRouter,
 });
 
 export type AppRouter = typeof appRouter;
@@ -0,0 +1,79 @@
+import { z } from "zod";
+import { protectedProcedure, router } from "../trpc";
+import { db } from "@/lib/db";
+import { isoDate } from "@/lib/dates";
+import { CURRENCIES } from "@/lib/money";
+import { budgetSchema, monthSchema } from "@/lib/validations";
+import {
+  budgetProgress,
+  deleteBudget,
+  dismissAlert,
+  listAlerts,
+  raiseBudgetAlerts,
+  setBudget,
+  spendingComparison,
+} from "../services/insights";
+
+const currentMonth = () => isoDate(new Date()).slice(0, 7);
+
+export const insightsRouter = router({
+  getBudgets: protectedProcedure
+    .input(
+      z
+        .object({
+          month: monthSchema.optional(),
+        })
+        .optional()
+    )
+    .query(async ({ input, ctx }) => {
+      return db.transaction((tx) => budgetProgress(tx, ctx.user.id, input?.month ?? currentMonth()));
+    }),
+
+  // A new or lowered budget may already be over a threshold, so alerts are raised straight away rather than on the next job run
+  setBudget: protectedProcedure.input(budgetSchema).mutation(async ({ input, ctx }) => {
+    return db.transaction((tx) => {
+      const budget = setBudget(tx, ctx.user.id, input);
+      raiseBudgetAlerts(tx, ctx.user.id);
+      return budget;
+    });
+  }),
+
+  deleteBudget: protectedProcedure
+    .input(
+      z.object({
+        budgetId: z.number(),
+      })
+    )
+    .mutation(async ({ input, ctx }) => {
+      return db.transaction((tx) => deleteBudget(tx, ctx.user.id, input.budgetId));
+    }),
+
+  getSpendingComparison: protectedProcedure
+    .input(
+      z
+        .object({
+          month: monthSchema.optional(),
+          currency: z.enum(CURRENCIES).optional(),
+        })
+        .optional()
+    )
+    .query(async ({ input, ctx }) => {
+      return db.transaction((tx) =>
+        spendingComparison(tx, ctx.user.id, input?.month ?? currentMonth(), input?.currency)
+      );
+    }),
+
+  getAlerts: protectedProcedure.query(async ({ ctx }) => {
+    return db.transaction((tx) => listAlerts(tx, ctx.user.id));
+  }),
+
+  dismissAlert: protectedProcedure
+    .input(
+      z.object({
+        alertId: z.number(),
+      })
+    )
+    .mutation(async ({ input, ctx }) => {
+      return db.transaction((tx) => dismissAlert(tx, ctx.user.id, input.alertId));
+    }),
+});
@@ -0,0 +1,77 @@
+import { z } from "zod";
+import { protectedProcedure, router } from "../trpc";
+import { db } from "@/lib/db";
+import { accountInvitationSchema } from "@/lib/validations";
+import {
+  inviteMember,
+  leaveAccount,
+  listInvitations,
+  listMembers,
+  removeMember,
+  respondToInvitation,
+  revokeInvitation,
+} from "../services/members";
+
+// Sharing accounts: the owner invites other customers as co-owners or view-only members
+export const membersRouter = router({
+  invite: protectedProcedure.input(accountInvitationSchema).mutation(async ({ input, ctx }) => {
+    return db.transaction((tx) => inviteMember(tx, ctx.user.id, input));
+  }),
+
+  // Invitations the current user has been sent and not yet answered
+  getInvitations: protectedProcedure.query(async ({ ctx }) => {
+    return db.transaction((tx) => listInvitations(tx, ctx.user.id));
+  }),
+
+  respondToInvitation: protectedProcedure
+    .input(
+      z.object({
+        invitationId: z.number(),
+        accept: z.boolean(),
+      })
+    )
+    .mutation(async ({ input, ctx }) => {
+      return db.transaction((tx) => respondToInvitation(tx, ctx.user.id, input.invitationId, input.accept));
+    }),
+
+  revokeInvitation: protectedProcedure
+    .input(
+      z.object({
+        invitationId: z.number(),
+      })
+    )
+    .mutation(async ({ input, ctx }) => {
+      return db.transaction((tx) => revokeInvitation(tx, ctx.user.id, input.invitationId));
+    }),
+
+  getMembers: protectedProcedure
+    .input(
+      z.object({
+        accountId: z.number(),
+      })
+    )
+    .query(async ({ input, ctx }) => {
+      return db.transaction((tx) => listMembers(tx, ctx.user.id, input.accountId));
+    }),
+
+  removeMember: protectedProcedure
+    .input(
+      z.object({
+        accountId: z.number(),
+        userId: z.number(),
+      })
+    )
+    .mutation(async ({ input, ctx }) => {
+      return db.transaction((tx) => removeMember(tx, ctx.user.id, input.accountId, input.userId));
+    }),
+
+  leaveAccount: protectedProcedure
+    .input(
+      z.object({
+        accountId: z.number(),
+      })
+    )
+    .mutation(async ({ input, ctx }) => {
+      return db.transaction((tx) => leaveAccount(tx, ctx.user.id, input.accountId));
+    }),
+});
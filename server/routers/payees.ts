@@ -0,0 +1,35 @@
+import { z } from "zod";
+import { protectedProcedure, router } from "../trpc";
+import { db } from "@/lib/db";
+import { payeeSchema, updatePayeeSchema } from "@/lib/validations";
+import { PAYEE_COOLING_OFF_HOURS, PAYEE_COOLING_OFF_LIMIT } from "../services/cooling-off";
+import { createPayee, deletePayee, listPayees, updatePayee } from "../services/payees";
+
+// Saved recipients, shown masked; full account numbers never leave the server
+export const payeesRouter = router({
+  getPayees: protectedProcedure.query(async ({ ctx }) => {
+    return db.transaction((tx) => listPayees(tx, ctx.user.id));
+  }),
+
+  getCoolingOff: protectedProcedure.query(async () => {
+    return { hours: PAYEE_COOLING_OFF_HOURS, limit: PAYEE_COOLING_OFF_LIMIT };
+  }),
+
+  createPayee: protectedProcedure.input(payeeSchema).mutation(async ({ input, ctx }) => {
+    return db.transaction((tx) => createPayee(tx, ctx.user.id, input));
+  }),
+
+  updatePayee: protectedProcedure.input(updatePayeeSchema).mutation(async ({ input, ctx }) => {
+    return db.transaction((tx) => updatePayee(tx, ctx.user.id, input));
+  }),
+
+  deletePayee: protectedProcedure
+    .input(
+      z.object({
+        payeeId: z.number(),
+      })
+    )
+    .mutation(async ({ input, ctx }) => {
+      return db.transaction((tx) => deletePayee(tx, ctx.user.id, input.payeeId));
+    }),
+});
@@ -0,0 +1,91 @@
+import { z } from "zod";
+import { TRPCError } from "@trpc/server";
+import { idempotentProcedure, protectedProcedure, router } from "../trpc";
+import { db } from "@/lib/db";
+import { transactions } from "@/lib/db/schema";
+import { paymentSchema, recipientSchema, refundSchema } from "@/lib/validations";
+import { and, eq, inArray } from "drizzle-orm";
+import { assertCanSend, memberAccount, memberAccountIds } from "../services/account-guards";
+import { maskedRecipient, PAYMENT_LIMITS, resolveRecipient, sendPayment } from "../services/payments";
+import { payeeRecipient } from "../services/payees";
+import { reverseTransaction } from "../services/reversals";
+
+export const paymentsRouter = router({
+  // Lets the sender confirm who they are paying before any money moves
+  lookupRecipient: protectedProcedure
+    .input(
+      z.object({
+        recipient: recipientSchema,
+      })
+    )
+    .query(async ({ input, ctx }) => {
+      const recipient = db.transaction((tx) => resolveRecipient(tx, input.recipient));
+
+      if (!recipient) {
+        throw new TRPCError({
+          code: "NOT_FOUND",
+          message: "Recipient not found",
+        });
+      }
+
+      return {
+        ...maskedRecipient(recipient),
+        isSelf: recipient.user.id === ctx.user.id,
+      };
+    }),
+
+  getLimits: protectedProcedure.query(async () => {
+    return PAYMENT_LIMITS;
+  }),
+
+  send: idempotentProcedure.input(paymentSchema).mutation(async ({ input, ctx }) => {
+    return ctx.idempotent(() =>
+      db.transaction((tx) =>
+        sendPayment(tx, {
+          userId: ctx.user.id,
+          fromAccountId: input.fromAccountId,
+          recipient:
+            input.payeeId !== undefined
+              ? payeeRecipient(tx, ctx.user.id, input.payeeId)
+              : input.recipient!,
+          amount: input.amount,
+          memo: input.memo,
+        })
+      )
+    );
+  }),
+
+  // The recipient of a payment can send all or part of it back to the sender
+  refund: idempotentProcedure.input(refundSchema).mutation(async ({ input, ctx }) => {
+    return ctx.idempotent(() =>
+      db.transaction((tx) => {
+        const received = tx
+          .select({ type: transactions.type, accountId: transactions.accountId })
+          .from(transactions)
+          .where(
+            and(
+              eq(transactions.id, input.transactionId),
+              inArray(transactions.accountId, memberAccountIds(tx, ctx.user.id))
+            )
+          )
+          .get();
+
+        if (!received || received.type !== "payment_received") {
+          throw new TRPCError({
+            code: "NOT_FOUND",
+            message: "Payment not found",
+          });
+        }
+
+        // Sending money back is money out of the customer's account
+        assertCanSend(memberAccount(tx, ctx.user.id, received.accountId, "co_owner"));
+
+        return reverseTransaction(tx, {
+          transactionId: input.transactionId,
+          amount: input.amount,
+          reason: input.reason || "Payment refunded",
+        });
+      })
+    );
+  }),
+});
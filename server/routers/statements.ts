@@ -0,0 +1,26 @@
+import { z } from "zod";
+import { protectedProcedure, router } from "../trpc";
+import { db } from "@/lib/db";
+import { getStatement, listStatements } from "../services/statements";
+
+export const statementsRouter = router({
+  listStatements: protectedProcedure
+    .input(
+      z.object({
+        accountId: z.number(),
+      })
+    )
+    .query(async ({ input, ctx }) => {
+      return db.transaction((tx) => listStatements(tx, ctx.user.id, input.accountId));
+    }),
+
+  getStatement: protectedProcedure
+    .input(
+      z.object({
+        statementId: z.number(),
+      })
+    )
+    .query(async ({ input, ctx }) => {
+      return db.transaction((tx) => getStatement(tx, ctx.user.id, input.statementId));
+    }),
+});
@@ -0,0 +1,72 @@
+import { TRPCError } from "@trpc/server";
+import { and, eq, inArray } from "drizzle-orm";
+import type { DbTransaction } from "@/lib/db";
+import { accountMembers, accounts } from "@/lib/db/schema";
+import { hasRole, rolesAtLeast, type AccountRole } from "@/lib/account-roles";
+import { accountStatusMessage, canReceiveMoney, canSendMoney } from "@/lib/account-status";
+
+type Account = typeof accounts.$inferSelect;
+
+// Every procedure that moves money checks the accounts involved with these, so the lifecycle rules live in one place
+
+export function assertCanReceive(account: Account) {
+  if (!canReceiveMoney(account.status ?? "pending")) {
+    throw new TRPCError({
+      code: "BAD_REQUEST",
+      message: accountStatusMessage(account.status ?? "pending"),
+    });
+  }
+}
+
+export function assertCanSend(account: Account) {
+  if (!canSendMoney(account.status ?? "pending")) {
+    throw new TRPCError({
+      code: "BAD_REQUEST",
+      message: accountStatusMessage(account.status ?? "pending"),
+    });
+  }
+}
+
+// Likewise for access: every procedure that takes an account id looks it up through these, never by accounts.user_id
+
+/**
+ * The account with the user's role on it. Throws NOT_FOUND if the user is not a member, so other customers'
+ * accounts can't be probed, and FORBIDDEN if their role is below `minimumRole`.
+ */
+export function memberAccount(
+  tx: DbTransaction,
+  userId: number,
+  accountId: number,
+  minimumRole: AccountRole = "view_only"
+) {
+  const row = tx
+    .select({ account: accounts, role: accountMembers.role })
+    .from(accounts)
+    .innerJoin(accountMembers, eq(accountMembers.accountId, accounts.id))
+    .where(and(eq(accounts.id, accountId), eq(accountMembers.userId, userId)))
+    .get();
+
+  if (!row) {
+    throw new TRPCError({
+      code: "NOT_FOUND",
+      message: "Account not found",
+    });
+  }
+
+  if (!hasRole(row.role, minimumRole)) {
+    throw new TRPCError({
+      code: "FORBIDDEN",
+      message: minimumRole === "owner" ? "Only the account owner can do this" : "You can only view this account",
+    });
+  }
+
+  return { ...row.account, role: row.role as AccountRole };
+}
+
+// A subquery of the ids of accounts the user is a member of with at least `minimumRole`
+export function memberAccountIds(tx: DbTransaction, userId: number, minimumRole: AccountRole = "view_only") {
+  return tx
+    .select({ id: accountMembers.accountId })
+    .from(accountMembers)
+    .where(and(eq(accountMembers.userId, userId), inArray(accountMembers.role, rolesAtLeast(minimumRole))));
+}
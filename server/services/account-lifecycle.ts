@@ -0,0 +1,269 @@
+import { TRPCError } from "@trpc/server";
+import { and, asc, desc, eq, inArray, or, sql } from "drizzle-orm";
+import { db, type DbTransaction } from "@/lib/db";
+import { accountInvitations, accounts, accountStatusChanges, scheduledTransfers, transactions } from "@/lib/db/schema";
+import { accountStatusMessage, type AccountStatus } from "@/lib/account-status";
+import { addDays, isoDate } from "@/lib/dates";
+import { maskAccountNumber } from "@/lib/masking";
+import { memberAccount } from "./account-guards";
+import { payOutAccruedInterest } from "./interest";
+import { executeTransfer } from "./transfers";
+
+type Account = typeof accounts.$inferSelect;
+
+export type StatusActor = "customer" | "ops" | "system";
+
+// Where each status can go next. Closing is final.
+const TRANSITIONS: Record<AccountStatus, AccountStatus[]> = {
+  pending: ["active", "closed"],
+  active: ["frozen", "dormant", "closed"],
+  frozen: ["active", "closed"],
+  dormant: ["active", "frozen", "closed"],
+  closed: [],
+};
+
+// New accounts are approved straight away unless ACCOUNT_APPROVAL=manual, in which case ops approve them
+const MANUAL_APPROVAL = process.env.ACCOUNT_APPROVAL === "manual";
+
+// Days without a customer-initiated transaction before an active account goes dormant
+const DORMANCY_DAYS = Number(process.env.DORMANCY_DAYS) || 365;
+
+// Transactions the bank makes on its own, which don't count as the customer using the account
+const SYSTEM_TRANSACTION_TYPES = ["interest", "fee"];
+
+function recordStatusChange(
+  tx: DbTransaction,
+  accountId: number,
+  fromStatus: string | null,
+  toStatus: AccountStatus,
+  reason: string,
+  actor: StatusActor
+) {
+  tx.insert(accountStatusChanges).values({ accountId, fromStatus, toStatus, reason, actor }).run();
+}
+
+/**
+ * Moves the account to `to` if its current status allows it, recording who did it and why. Closing needs a zero
+ * balance and nothing pending, and cancels any scheduled transfers to or from the account and any invitations to
+ * share it that haven't been answered.
+ */
+export function changeAccountStatus(tx: DbTransaction, account: Account, to: AccountStatus, reason: string, actor: StatusActor) {
+  const from = (account.status ?? "pending") as AccountStatus;
+
+  if (!TRANSITIONS[from]?.includes(to)) {
+    throw new TRPCError({
+      code: "BAD_REQUEST",
+      message: `A ${from} account cannot be made ${to}`,
+    });
+  }
+
+  if (to === "closed") {
+    assertNothingPending(tx, account.id);
+
+    if (account.balance !== 0 || account.availableBalance !== 0) {
+      throw new TRPCError({
+        code: "BAD_REQUEST",
+        message: "The balance must be zero to close the account",
+      });
+    }
+
+    tx.update(scheduledTransfers)
+      .set({ status: "cancelled", nextRunDate: null })
+      .where(
+        and(
+          inArray(scheduledTransfers.status, ["active", "paused"]),
+          or(eq(scheduledTransfers.fromAccountId, account.id), eq(scheduledTransfers.toAccountId, account.id))
+        )
+      )
+      .run();
+
+    tx.update(accountInvitations)
+      .set({ status: "revoked", respondedAt: sql`CURRENT_TIMESTAMP` })
+      .where(and(eq(accountInvitations.accountId, account.id), eq(accountInvitations.status, "pending")))
+      .run();
+  }
+
+  const updated = tx.update(accounts).set({ status: to }).where(eq(accounts.id, account.id)).returning().get();
+  recordStatusChange(tx, account.id, from, to, reason, actor);
+  return updated;
+}
+
+function assertNothingPending(tx: DbTransaction, accountId: number) {
+  const pending = tx
+    .select({ id: transactions.id })
+    .from(transactions)
+    .where(and(eq(transactions.accountId, accountId), eq(transactions.status, "pending")))
+    .get();
+
+  if (pending) {
+    throw new TRPCError({
+      code: "BAD_REQUEST",
+      message: "Wait for pending transactions to clear before closing the account",
+    });
+  }
+}
+
+// Records a newly inserted (pending) account's opening and approves it unless approval is manual
+export function openAccount(tx: DbTransaction, account: Account) {
+  recordStatusChange(tx, account.id, null, "pending", "Account opened", "customer");
+  if (MANUAL_APPROVAL) return account;
+
+  return changeAccountStatus(tx, account, "active", "Approved automatically", "system");
+}
+
+export type CloseAccountRequest = {
+  userId: number;
+  accountId: number;
+  sweepToAccountId?: number; // required when there is money left in the account
+  reason?: string;
+};
+
+/**
+ * Closes an account the customer owns (co-owners can't). Interest accrued so far is paid out first; whatever is left is then
+ * moved to `sweepToAccountId` (converted if the currencies differ) before the account is closed. Frozen accounts
+ * can only be closed by the bank, and a dormant account with money in it has to be reactivated first.
+ */
+export function closeAccount(tx: DbTransaction, request: CloseAccountRequest) {
+  let account = memberAccount(tx, request.userId, request.accountId, "owner");
+
+  if (account.status === "frozen" || account.status === "closed") {
+    throw new TRPCError({
+      code: "BAD_REQUEST",
+      message: accountStatusMessage(account.status),
+    });
+  }
+
+  assertNothingPending(tx, account.id);
+
+  if (account.status !== "pending" && payOutAccruedInterest(tx, account) > 0) {
+    account = memberAccount(tx, request.userId, request.accountId, "owner");
+  }
+
+  if (account.balance < 0) {
+    throw new TRPCError({
+      code: "BAD_REQUEST",
+      message: "Bring the balance up to zero before closing the account",
+    });
+  }
+
+  let sweep: ReturnType<typeof executeTransfer> | null = null;
+  if (account.balance > 0) {
+    if (!request.sweepToAccountId) {
+      throw new TRPCError({
+        code: "BAD_REQUEST",
+        message: "Choose an account to move the remaining balance to",
+      });
+    }
+
+    sweep = executeTransfer(tx, {
+      userId: request.userId,
+      fromAccountId: account.id,
+      toAccountId: request.sweepToAccountId,
+      amount: account.balance,
+      description: `Closing balance of ${maskAccountNumber(account.accountNumber)}`,
+    });
+    account = memberAccount(tx, request.userId, request.accountId, "owner");
+  }
+
+  return {
+    account: changeAccountStatus(tx, account, "closed", request.reason || "Closed by customer", "customer"),
+    sweep,
+  };
+}
+
+// A customer can bring a dormant account they own or co-own back into use; frozen accounts need the bank
+export function reactivateAccount(tx: DbTransaction, userId: number, accountId: number) {
+  const account = memberAccount(tx, userId, accountId, "co_owner");
+
+  if (account.status !== "dormant") {
+    throw new TRPCError({
+      code: "BAD_REQUEST",
+      message: "Only dormant accounts can be reactivated",
+    });
+  }
+
+  return changeAccountStatus(tx, account, "active", "Reactivated by customer", "customer");
+}
+
+// Every status the account has had, newest first
+export function accountStatusHistory(tx: DbTransaction, userId: number, accountId: number) {
+  const account = memberAccount(tx, userId, accountId);
+
+  return tx
+    .select({
+      fromStatus: accountStatusChanges.fromStatus,
+      toStatus: accountStatusChanges.toStatus,
+      reason: accountStatusChanges.reason,
+      actor: accountStatusChanges.actor,
+      createdAt: accountStatusChanges.createdAt,
+    })
+    .from(accountStatusChanges)
+    .where(eq(accountStatusChanges.accountId, account.id))
+    .orderBy(desc(accountStatusChanges.id))
+    .all();
+}
+
+/**
+ * Marks active accounts dormant when the customer hasn't made a transaction (interest and fees don't count) for
+ * DORMANCY_DAYS, measured from the account's opening if it has none. Each account gets its own db transaction.
+ */
+export function processDormancy(now = new Date()) {
+  const cutoff = addDays(isoDate(now), -DORMANCY_DAYS);
+  const result = { dormant: 0 };
+
+  // Written out in full: drizzle leaves columns unqualified in a single-table select
+  const systemTypes = sql.join(SYSTEM_TRANSACTION_TYPES.map((type) => sql`${type}`), sql`, `);
+  const lastActivity = sql<string>`COALESCE(
+    (SELECT MAX(t.created_at) FROM transactions t WHERE t.account_id = accounts.id AND t.type NOT IN (${systemTypes})),
+    accounts.created_at
+  )`;
+  const idle = db
+    .select()
+    .from(accounts)
+    .where(and(eq(accounts.status, "active"), sql`${lastActivity} < ${cutoff}`))
+    .orderBy(asc(accounts.id))
+    .all();
+
+  for (const candidate of idle) {
+    db.transaction((tx) => {
+      const account = tx
+        .select()
+        .from(accounts)
+        .where(and(eq(accounts.id, candidate.id), eq(accounts.status, "active")))
+        .get();
+      if (!account) return;
+
+      changeAccountStatus(tx, account, "dormant", `No activity for ${DORMANCY_DAYS} days`, "system");
+      result.dormant++;
+    });
+  }
+
+  return result;
+}
+
+// Bank-side status changes from the ops CLI (approve, freeze, unfreeze, close an emptied account)
+export function setAccountStatus(accountId: number, to: AccountStatus, reason: string) {
+  return db.transaction((tx) => {
+    const account = tx.select().from(accounts).where(eq(accounts.id, accountId)).get();
+    if (!account) {
+      throw new TRPCError({
+        code: "NOT_FOUND",
+        message: "Account not found",
+      });
+    }
+
+    return changeAccountStatus(tx, account, to, reason, "ops");
+  });
+}
+
+// When the account was closed, or null if it is still open
+export function closedAt(tx: DbTransaction, accountId: number) {
+  const row = tx
+    .select({ createdAt: accountStatusChanges.createdAt })
+    .from(accountStatusChanges)
+    .where(and(eq(accountStatusChanges.accountId, accountId), eq(accountStatusChanges.toStatus, "closed")))
+    .orderBy(desc(accountStatusChanges.id))
+    .get();
+
+  return row?.createdAt ?? null;
+}
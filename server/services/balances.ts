@@ -0,0 +1,56 @@
+import { TRPCError } from "@trpc/server";
+import { and, desc, eq, gte, lt, lte } from "drizzle-orm";
+import type { DbTransaction } from "@/lib/db";
+import { dailyBalances } from "@/lib/db/schema";
+import { addDays, isoDate } from "@/lib/dates";
+import type { Money } from "@/lib/money";
+import { memberAccount } from "./account-guards";
+
+export const MAX_HISTORY_DAYS = 366;
+
+/**
+ * End-of-day ledger balance for every day from `from` to `to` (inclusive), read from the daily snapshots.
+ * Days without activity carry the previous balance forward; days before the first posting are zero.
+ */
+export function balanceHistory(
+  tx: DbTransaction,
+  userId: number,
+  request: { accountId: number; from?: string; to?: string },
+  today = isoDate(new Date())
+) {
+  const account = memberAccount(tx, userId, request.accountId);
+
+  const to = request.to ?? today;
+  const from = request.from ?? addDays(to, -29);
+  if (from > to || addDays(from, MAX_HISTORY_DAYS) <= to) {
+    throw new TRPCError({
+      code: "BAD_REQUEST",
+      message: `Choose a range of up to ${MAX_HISTORY_DAYS} days`,
+    });
+  }
+
+  const before = tx
+    .select()
+    .from(dailyBalances)
+    .where(and(eq(dailyBalances.accountId, account.id), lt(dailyBalances.date, from)))
+    .orderBy(desc(dailyBalances.date))
+    .get();
+
+  const snapshots = new Map(
+    tx
+      .select()
+      .from(dailyBalances)
+      .where(and(eq(dailyBalances.accountId, account.id), gte(dailyBalances.date, from), lte(dailyBalances.date, to)))
+      .all()
+      .map((row) => [row.date, row.balance])
+  );
+
+  const days: { date: string; balance: Money }[] = [];
+  let balance = before?.balance ?? 0;
+  for (let date = from; date <= to; date = addDays(date, 1)) {
+    balance = snapshots.get(date) ?? balance;
+    days.push({ date, balance });
+  }
+
+  return { currency: account.currency, days };
+}
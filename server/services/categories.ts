@@ -0,0 +1,125 @@
+import { TRPCError } from "@trpc/server";
+import { and, eq, inArray, isNull, or, sql } from "drizzle-orm";
+import type { z } from "zod";
+import type { DbTransaction } from "@/lib/db";
+import { categorizationRules, transactionTags, transactions } from "@/lib/db/schema";
+import type { Category } from "@/lib/categories";
+import type { transactionDetailsSchema } from "@/lib/validations";
+import { memberAccount, memberAccountIds } from "./account-guards";
+
+type Transaction = typeof transactions.$inferSelect;
+type Rule = Pick<typeof categorizationRules.$inferSelect, "matchField" | "pattern">;
+
+export type TransactionDetails = z.input<typeof transactionDetailsSchema>;
+
+// The most specific thing we can recognise the transaction by next time: who it was with, else the start of
+// its description up to the first digit (so "Transfer to 4821" and "Transfer to 9930" match), else its type
+function ruleFor(transaction: Transaction): Rule {
+  if (transaction.counterpartyName || transaction.counterpartyAccount) {
+    return {
+      matchField: "counterparty",
+      pattern: `${transaction.counterpartyName ?? ""} ${transaction.counterpartyAccount ?? ""}`.toLowerCase(),
+    };
+  }
+
+  const description = (transaction.description ?? "").toLowerCase().split(/\d/)[0].trim();
+  if (description.length >= 3) return { matchField: "description", pattern: description };
+
+  return { matchField: "type", pattern: transaction.type };
+}
+
+// Same matching as the transactions_categorize trigger
+function matches(rule: Rule) {
+  if (rule.matchField === "type") return eq(transactions.type, rule.pattern);
+  if (rule.matchField === "counterparty") {
+    return sql`instr(lower(COALESCE(${transactions.counterpartyName}, '') || ' ' || COALESCE(${transactions.counterpartyAccount}, '')), ${rule.pattern}) > 0`;
+  }
+  return sql`instr(lower(COALESCE(${transactions.description}, '')), ${rule.pattern}) > 0`;
+}
+
+/**
+ * Saves (or updates) the user's rule for transactions like this one and re-files their other transactions that
+ * the rules had categorized. Categories the user picked by hand are never overwritten.
+ */
+function learnRule(tx: DbTransaction, userId: number, transaction: Transaction, category: Category) {
+  const rule = ruleFor(transaction);
+
+  tx.insert(categorizationRules)
+    .values({ userId, ...rule, category })
+    .onConflictDoUpdate({
+      target: [categorizationRules.userId, categorizationRules.matchField, categorizationRules.pattern],
+      set: { category },
+    })
+    .run();
+
+  return tx
+    .update(transactions)
+    .set({ category, categorySource: "rule" })
+    .where(
+      and(
+        inArray(transactions.accountId, memberAccountIds(tx, userId, "co_owner")),
+        or(isNull(transactions.categorySource), eq(transactions.categorySource, "rule")),
+        matches(rule)
+      )
+    )
+    .run().changes;
+}
+
+export function updateTransactionDetails(tx: DbTransaction, userId: number, details: TransactionDetails) {
+  const existing = tx
+    .select()
+    .from(transactions)
+    .where(and(eq(transactions.id, details.transactionId), inArray(transactions.accountId, memberAccountIds(tx, userId))))
+    .get();
+
+  if (!existing) {
+    throw new TRPCError({
+      code: "NOT_FOUND",
+      message: "Transaction not found",
+    });
+  }
+
+  // Members who can only view a shared account can't file or annotate its transactions
+  memberAccount(tx, userId, existing.accountId, "co_owner");
+
+  let recategorized = 0;
+  if (details.category !== undefined) {
+    tx.update(transactions)
+      .set({ category: details.category, categorySource: details.category ? "user" : null })
+      .where(eq(transactions.id, details.transactionId))
+      .run();
+
+    if (details.category && details.learn !== false) {
+      recategorized = learnRule(tx, userId, existing, details.category);
+    }
+  }
+
+  if (details.notes !== undefined) {
+    tx.update(transactions)
+      .set({ notes: details.notes || null })
+      .where(eq(transactions.id, details.transactionId))
+      .run();
+  }
+
+  if (details.tags !== undefined) {
+    tx.delete(transactionTags).where(eq(transactionTags.transactionId, details.transactionId)).run();
+    const tags = [...new Set(details.tags)];
+    if (tags.length > 0) {
+      tx.insert(transactionTags)
+        .values(tags.map((tag) => ({ transactionId: details.transactionId, tag })))
+        .run();
+    }
+  }
+
+  const transaction = tx.select().from(transactions).where(eq(transactions.id, details.transactionId)).get()!;
+  const tags = tx
+    .select({ tag: transactionTags.tag })
+    .from(transactionTags)
+    .where(eq(transactionTags.transactionId, details.transactionId))
+    .orderBy(transactionTags.tag)
+    .all()
+    .map((t) => t.tag);
+
+  // recategorized counts this transaction's look-alikes that were re-filed by the learned rule
+  return { transaction: { ...transaction, tags }, recategorized };
+}
@@ -0,0 +1,78 @@
+import { TRPCError } from "@trpc/server";
+import { and, eq, gte, inArray, ne, sql } from "drizzle-orm";
+import type { DbTransaction } from "@/lib/db";
+import { payees, transactions } from "@/lib/db/schema";
+import { fingerprint } from "@/lib/crypto";
+import { formatCurrency, type Money } from "@/lib/money";
+import { memberAccountIds } from "./account-guards";
+import { midRate } from "./fx";
+
+// How long after a payee is added (or its account details change) before it can receive large amounts
+export const PAYEE_COOLING_OFF_HOURS = Number(process.env.PAYEE_COOLING_OFF_HOURS) || 24;
+
+// The most a payee can receive in total during its cooling-off period, in USD cents; other currencies count at the mid rate
+export const PAYEE_COOLING_OFF_LIMIT: Money = Number(process.env.PAYEE_COOLING_OFF_LIMIT) || 500_00;
+
+const LIMIT_CURRENCY = "USD";
+
+const COOLING_OFF_MS = PAYEE_COOLING_OFF_HOURS * 60 * 60 * 1000;
+
+export const coolingOffEnd = (now: Date) => new Date(now.getTime() + COOLING_OFF_MS).toISOString();
+
+// Where money goes, as a keyed hash: the same for a saved payee and for the same details typed in
+export const destinationKey = (kind: "external" | "internal", accountNumber: string, routingNumber: string | null) =>
+  fingerprint(`${kind}:${routingNumber ?? ""}:${accountNumber}`);
+
+// What the user's accounts have sent to `key` since `since`, in USD; created_at is SQLite's "YYYY-MM-DD HH:MM:SS",
+// so the ISO time is compared through datetime()
+function sentSince(tx: DbTransaction, userId: number, key: string, since: string): Money {
+  const rows = tx
+    .select({ currency: transactions.currency, total: sql<number>`SUM(${transactions.amount})` })
+    .from(transactions)
+    .where(
+      and(
+        inArray(transactions.accountId, memberAccountIds(tx, userId, "co_owner")),
+        eq(transactions.destinationFingerprint, key),
+        ne(transactions.status, "failed"),
+        gte(transactions.createdAt, sql`datetime(${since})`)
+      )
+    )
+    .groupBy(transactions.currency)
+    .all();
+
+  return rows.reduce((sum, row) => sum + Math.round(row.total * midRate(tx, row.currency, LIMIT_CURRENCY)), 0);
+}
+
+/**
+ * Refuses `amount` (in `currency`) when it would take what the user has sent to a saved payee that is still in its
+ * cooling-off period over PAYEE_COOLING_OFF_LIMIT, whether it is paid through the payee or its details are typed in.
+ * Destinations that aren't saved payees, or whose cooling-off period is over, are not capped here.
+ */
+export function assertWithinCoolingOff(
+  tx: DbTransaction,
+  userId: number,
+  key: string,
+  amount: Money,
+  currency: string,
+  now = new Date()
+) {
+  const payee = tx
+    .select({ coolingOffUntil: payees.coolingOffUntil })
+    .from(payees)
+    .where(and(eq(payees.userId, userId), eq(payees.fingerprint, key)))
+    .get();
+  if (!payee) return;
+
+  const until = new Date(payee.coolingOffUntil);
+  if (until <= now) return;
+
+  const since = new Date(until.getTime() - COOLING_OFF_MS).toISOString();
+  const sent = sentSince(tx, userId, key, since);
+  if (sent + Math.round(amount * midRate(tx, currency, LIMIT_CURRENCY)) > PAYEE_COOLING_OFF_LIMIT) {
+    const inCurrency = (usd: Money) => Math.floor(Math.max(usd, 0) * midRate(tx, LIMIT_CURRENCY, currency));
+    throw new TRPCError({
+      code: "BAD_REQUEST",
+      message: `New payees can receive up to ${formatCurrency(inCurrency(PAYEE_COOLING_OFF_LIMIT), currency)} in total in their first ${PAYEE_COOLING_OFF_HOURS} hours; you can send ${formatCurrency(inCurrency(PAYEE_COOLING_OFF_LIMIT - sent), currency)} more`,
+    });
+  }
+}
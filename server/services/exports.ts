@@ -0,0 +1,207 @@
+import { and, asc, eq, gt, gte, isNull, lt, ne, notInArray, or, sql } from "drizzle-orm";
+import { db, type DbTransaction } from "@/lib/db";
+import { accounts, ledgerAccounts, postings, transactions } from "@/lib/db/schema";
+import { addDays } from "@/lib/dates";
+import { fromCents, type Money } from "@/lib/money";
+import { isCreditTransaction, transactionTypeLabel } from "@/lib/transaction-types";
+import type { EXPORT_FORMATS } from "@/lib/validations";
+import { memberAccount } from "./account-guards";
+
+type Account = typeof accounts.$inferSelect;
+type Transaction = typeof transactions.$inferSelect;
+export type ExportFormat = (typeof EXPORT_FORMATS)[number];
+
+export type ExportRange = { from?: string; to?: string };
+
+const BATCH_SIZE = 500;
+
+// Routing number reported as the OFX BANKID
+const BANK_ID = process.env.BANK_ROUTING_NUMBER || "000000000";
+
+export const EXPORT_CONTENT_TYPES: Record<ExportFormat, string> = {
+  csv: "text/csv; charset=utf-8",
+  ofx: "application/x-ofx; charset=utf-8",
+  qif: "application/qif; charset=utf-8",
+};
+
+// Money in is positive and money out negative in every format, which is what budgeting software expects
+const signedAmount = (transaction: Transaction): Money =>
+  isCreditTransaction(transaction.type) ? transaction.amount : -transaction.amount;
+
+const decimal = (amount: Money) => fromCents(amount).toFixed(2);
+
+// The transaction id never changes, so re-importing an overlapping range doesn't create duplicates
+const fitId = (transaction: Transaction) => String(transaction.id);
+
+const description = (transaction: Transaction) => transaction.description || transactionTypeLabel(transaction.type);
+
+// created_at is a UTC "YYYY-MM-DD HH:MM:SS" timestamp
+const postedAt = (transaction: Transaction) => transaction.createdAt ?? "";
+
+// Ledger balance counting only what the export includes: postings for pending transactions are left out
+function postedBalance(accountId: number): Money {
+  const row = db
+    .select({
+      balance: sql<number>`COALESCE(SUM(CASE WHEN ${postings.direction} = 'credit' THEN ${postings.amount} ELSE -${postings.amount} END), 0)`,
+    })
+    .from(postings)
+    .innerJoin(ledgerAccounts, eq(postings.ledgerAccountId, ledgerAccounts.id))
+    .leftJoin(transactions, eq(postings.transactionId, transactions.id))
+    .where(and(eq(ledgerAccounts.accountId, accountId), or(isNull(transactions.id), ne(transactions.status, "pending"))))
+    .get();
+
+  return row?.balance ?? 0;
+}
+
+export function exportableAccount(tx: DbTransaction, userId: number, accountId: number) {
+  return memberAccount(tx, userId, accountId);
+}
+
+// ---- CSV ----
+
+// Quotes fields that need it, and defuses text that spreadsheets would run as a formula
+function csvField(value: string) {
+  const safe = /^[=+\-@\t\r]/.test(value) ? `'${value}` : value;
+  return /[",\r\n]/.test(safe) ? `"${safe.replace(/"/g, '""')}"` : safe;
+}
+
+const csv = {
+  header: () => "Date,Description,Type,Amount,Currency,Status,Transaction ID\r\n",
+  row: (t: Transaction) =>
+    [
+      postedAt(t).slice(0, 10),
+      csvField(description(t)),
+      csvField(transactionTypeLabel(t.type)),
+      decimal(signedAmount(t)),
+      t.currency,
+      t.status,
+      fitId(t),
+    ].join(",") + "\r\n",
+  footer: () => "",
+};
+
+// ---- OFX 2.x ----
+
+const xml = (value: string) => value.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;");
+
+// OFX datetime: YYYYMMDDHHMMSS in GMT
+const ofxDate = (timestamp: string) => `${timestamp.replace(/\D/g, "").padEnd(14, "0").slice(0, 14)}[0:GMT]`;
+
+const OFX_TYPES: Record<string, string> = {
+  deposit: "DEP",
+  withdrawal: "DEBIT",
+  transfer_in: "XFER",
+  transfer_out: "XFER",
+  payment_sent: "PAYMENT",
+  payment_received: "CREDIT",
+  refund: "CREDIT",
+  reversal: "DEBIT",
+  ach_return: "DEBIT",
+  interest: "INT",
+  fee: "FEE",
+};
+
+function ofx(account: Account, range: ExportRange, now: Date) {
+  const serverTime = ofxDate(now.toISOString());
+
+  return {
+    header: () =>
+      [
+        '<?xml version="1.0" encoding="UTF-8" standalone="no"?>',
+        '<?OFX OFXHEADER="200" VERSION="211" SECURITY="NONE" OLDFILEUID="NONE" NEWFILEUID="NONE"?>',
+        "<OFX>",
+        "<SIGNONMSGSRSV1><SONRS>",
+        `<STATUS><CODE>0</CODE><SEVERITY>INFO</SEVERITY></STATUS><DTSERVER>${serverTime}</DTSERVER><LANGUAGE>ENG</LANGUAGE>`,
+        "</SONRS></SIGNONMSGSRSV1>",
+        "<BANKMSGSRSV1><STMTTRNRS>",
+        "<TRNUID>0</TRNUID><STATUS><CODE>0</CODE><SEVERITY>INFO</SEVERITY></STATUS>",
+        `<STMTRS><CURDEF>${account.currency}</CURDEF>`,
+        `<BANKACCTFROM><BANKID>${BANK_ID}</BANKID><ACCTID>${account.accountNumber}</ACCTID><ACCTTYPE>${account.accountType === "savings" ? "SAVINGS" : "CHECKING"}</ACCTTYPE></BANKACCTFROM>`,
+        `<BANKTRANLIST><DTSTART>${range.from ? ofxDate(range.from) : ofxDate(account.createdAt ?? now.toISOString())}</DTSTART><DTEND>${range.to ? ofxDate(`${range.to} 23:59:59`) : serverTime}</DTEND>`,
+        "",
+      ].join("\n"),
+    row: (t: Transaction) =>
+      [
+        "<STMTTRN>",
+        `<TRNTYPE>${OFX_TYPES[t.type] ?? (isCreditTransaction(t.type) ? "CREDIT" : "DEBIT")}</TRNTYPE>`,
+        `<DTPOSTED>${ofxDate(postedAt(t))}</DTPOSTED>`,
+        `<TRNAMT>${decimal(signedAmount(t))}</TRNAMT>`,
+        `<FITID>${fitId(t)}</FITID>`,
+        `<NAME>${xml(description(t).slice(0, 32))}</NAME>`,
+        ...(t.description ? [`<MEMO>${xml(t.description.slice(0, 255))}</MEMO>`] : []),
+        "</STMTTRN>",
+        "",
+      ].join("\n"),
+    footer: () =>
+      [
+        "</BANKTRANLIST>",
+        `<LEDGERBAL><BALAMT>${decimal(postedBalance(account.id))}</BALAMT><DTASOF>${serverTime}</DTASOF></LEDGERBAL>`,
+        "</STMTRS></STMTTRNRS></BANKMSGSRSV1>",
+        "</OFX>",
+        "",
+      ].join("\n"),
+  };
+}
+
+// ---- QIF ----
+
+// QIF has no escaping; a line break would start a new field
+const qifText = (value: string) => value.replace(/[\r\n]+/g, " ");
+
+const qif = {
+  header: () => "!Type:Bank\n",
+  row: (t: Transaction) => {
+    const [year, month, day] = postedAt(t).slice(0, 10).split("-");
+    return [
+      `D${month}/${day}/${year}`,
+      `T${decimal(signedAmount(t))}`,
+      `N${fitId(t)}`,
+      `P${qifText(description(t))}`,
+      `M${qifText(transactionTypeLabel(t.type))}`,
+      "^",
+      "",
+    ].join("\n");
+  },
+  footer: () => "",
+};
+
+/**
+ * Yields the account's transactions between `from` and `to` (inclusive, UTC dates) in `format`, a batch at a
+ * time, so a long history can be streamed without loading it all. Only transactions that moved money are
+ * included: pending and failed ones may still change or never happen.
+ */
+export function* exportTransactions(account: Account, format: ExportFormat, range: ExportRange = {}, now = new Date()) {
+  const writer = format === "csv" ? csv : format === "qif" ? qif : ofx(account, range, now);
+
+  yield writer.header();
+
+  let lastId = 0;
+  for (;;) {
+    const batch = db
+      .select()
+      .from(transactions)
+      .where(
+        and(
+          eq(transactions.accountId, account.id),
+          notInArray(transactions.status, ["pending", "failed"]),
+          range.from ? gte(transactions.createdAt, range.from) : undefined,
+          range.to ? lt(transactions.createdAt, addDays(range.to, 1)) : undefined,
+          gt(transactions.id, lastId)
+        )
+      )
+      .orderBy(asc(transactions.id))
+      .limit(BATCH_SIZE)
+      .all();
+
+    if (batch.length === 0) break;
+    yield batch.map(writer.row).join("");
+    lastId = batch[batch.length - 1].id;
+  }
+
+  yield writer.footer();
+}
+
+export function exportFilename(account: Account, format: ExportFormat, range: ExportRange) {
+  const period = [range.from, range.to].filter(Boolean).join("-to-") || "all";
+  return `securebank-${account.accountNumber.slice(-4)}-${period}.${format}`;
+}
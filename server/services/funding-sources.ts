@@ -0,0 +1,202 @@
+import { TRPCError } from "@trpc/server";
+import { and, desc, eq, sql } from "drizzle-orm";
+import type { z } from "zod";
+import type { DbTransaction } from "@/lib/db";
+import { fundingSources } from "@/lib/db/schema";
+import { CARD_NETWORKS, cardNetworkLabel, detectCardNetwork, isCardExpired, isCardNetwork } from "@/lib/card-networks";
+import { decrypt, encrypt, fingerprint, opaqueToken } from "@/lib/crypto";
+import { maskAccountNumber } from "@/lib/masking";
+import type { fundingSourceSchema } from "@/lib/validations";
+import { assertKnownRoutingNumber } from "./routing-directory";
+
+export type FundingSourceInput = z.infer<typeof fundingSourceSchema>;
+type FundingSource = typeof fundingSources.$inferSelect;
+type FundingSourceType = FundingSourceInput["type"];
+
+// What a saved source decrypts to; only ever handled on the server
+type FundingSourceDetails = { accountNumber: string; routingNumber?: string };
+
+// Card networks deposits are taken from, e.g. ACCEPTED_CARD_NETWORKS=visa,mastercard. Defaults to all of them
+export const ACCEPTED_CARD_NETWORKS = (process.env.ACCEPTED_CARD_NETWORKS?.split(",") ?? [...CARD_NETWORKS])
+  .map((network) => network.trim().toLowerCase())
+  .filter(isCardNetwork);
+
+export function assertAcceptedCard(cardNumber: string) {
+  const network = detectCardNetwork(cardNumber);
+  if (!network || !ACCEPTED_CARD_NETWORKS.includes(network)) {
+    throw new TRPCError({
+      code: "BAD_REQUEST",
+      message: network ? `We don't accept ${cardNetworkLabel(network)} cards` : "We don't accept this type of card",
+    });
+  }
+  return network;
+}
+
+const hasExpired = (source: Pick<FundingSource, "expiryMonth" | "expiryYear">, now: Date) =>
+  source.expiryYear !== null && source.expiryMonth !== null && isCardExpired(source.expiryMonth, source.expiryYear, now);
+
+// What the UI shows: the token to refer to the source by and the few details kept in the clear
+function vaultView(source: FundingSource, now: Date) {
+  return {
+    token: source.token,
+    type: source.type as FundingSourceType,
+    nickname: source.nickname,
+    brand: source.brand,
+    maskedNumber: maskAccountNumber(source.last4),
+    expiryMonth: source.expiryMonth,
+    expiryYear: source.expiryYear,
+    expired: hasExpired(source, now),
+    isDefault: source.isDefault,
+    lastUsedAt: source.lastUsedAt,
+    createdAt: source.createdAt,
+  };
+}
+
+function ownedSource(tx: DbTransaction, userId: number, token: string) {
+  const source = tx
+    .select()
+    .from(fundingSources)
+    .where(and(eq(fundingSources.token, token), eq(fundingSources.userId, userId)))
+    .get();
+
+  if (!source) {
+    throw new TRPCError({
+      code: "NOT_FOUND",
+      message: "Funding source not found",
+    });
+  }
+
+  return source;
+}
+
+export function listFundingSources(tx: DbTransaction, userId: number, now = new Date()) {
+  return tx
+    .select()
+    .from(fundingSources)
+    .where(eq(fundingSources.userId, userId))
+    .orderBy(desc(fundingSources.isDefault), desc(fundingSources.id))
+    .all()
+    .map((source) => vaultView(source, now));
+}
+
+/**
+ * Keeps a card or bank account for later deposits. The number (and routing number) are stored encrypted; only the
+ * last four digits, card brand and expiry stay in the clear. The user's first source becomes their default.
+ */
+export function saveFundingSource(tx: DbTransaction, userId: number, input: FundingSourceInput, now = new Date()) {
+  const last4 = input.accountNumber.slice(-4);
+  // The security code only proves the card is in hand; like the rest of a card's checks it is never stored
+  const brand = input.type === "card" ? assertAcceptedCard(input.accountNumber) : null;
+  const expiry = input.type === "card" ? { expiryMonth: input.expiryMonth, expiryYear: input.expiryYear } : null;
+
+  const routingNumber = input.type === "bank" ? input.routingNumber : undefined;
+  if (routingNumber) assertKnownRoutingNumber(tx, routingNumber);
+  const key = fingerprint(`${input.type}:${routingNumber ?? ""}:${input.accountNumber}`);
+  const existing = tx
+    .select({ nickname: fundingSources.nickname })
+    .from(fundingSources)
+    .where(and(eq(fundingSources.userId, userId), eq(fundingSources.fingerprint, key)))
+    .get();
+
+  if (existing) {
+    throw new TRPCError({
+      code: "CONFLICT",
+      message: `You have already saved this ${input.type === "card" ? "card" : "account"} as ${existing.nickname}`,
+    });
+  }
+
+  const hasDefault = tx
+    .select({ id: fundingSources.id })
+    .from(fundingSources)
+    .where(and(eq(fundingSources.userId, userId), eq(fundingSources.isDefault, true)))
+    .get();
+
+  const details: FundingSourceDetails = { accountNumber: input.accountNumber, routingNumber };
+  const source = tx
+    .insert(fundingSources)
+    .values({
+      userId,
+      token: opaqueToken("fs"),
+      type: input.type,
+      nickname:
+        input.nickname ?? `${input.type === "card" ? cardNetworkLabel(brand ?? "") : "Bank account"} ending ${last4}`,
+      details: encrypt(JSON.stringify(details)),
+      last4,
+      brand,
+      expiryMonth: expiry?.expiryMonth ?? null,
+      expiryYear: expiry?.expiryYear ?? null,
+      fingerprint: key,
+      isDefault: !hasDefault,
+    })
+    .returning()
+    .get();
+
+  return vaultView(source, now);
+}
+
+export function renameFundingSource(tx: DbTransaction, userId: number, token: string, nickname: string, now = new Date()) {
+  const source = ownedSource(tx, userId, token);
+
+  const updated = tx
+    .update(fundingSources)
+    .set({ nickname, updatedAt: sql`CURRENT_TIMESTAMP` })
+    .where(eq(fundingSources.id, source.id))
+    .returning()
+    .get();
+  return vaultView(updated, now);
+}
+
+export function setDefaultFundingSource(tx: DbTransaction, userId: number, token: string, now = new Date()) {
+  const source = ownedSource(tx, userId, token);
+
+  // Cleared first: the partial unique index allows only one default per user
+  tx.update(fundingSources)
+    .set({ isDefault: false })
+    .where(and(eq(fundingSources.userId, userId), eq(fundingSources.isDefault, true)))
+    .run();
+  const updated = tx
+    .update(fundingSources)
+    .set({ isDefault: true, updatedAt: sql`CURRENT_TIMESTAMP` })
+    .where(eq(fundingSources.id, source.id))
+    .returning()
+    .get();
+  return vaultView(updated, now);
+}
+
+// Deletes the source and its encrypted details. Removing the default makes the most recently saved one the default
+export function removeFundingSource(tx: DbTransaction, userId: number, token: string) {
+  const source = ownedSource(tx, userId, token);
+  tx.delete(fundingSources).where(eq(fundingSources.id, source.id)).run();
+
+  if (source.isDefault) {
+    const next = tx
+      .select({ id: fundingSources.id })
+      .from(fundingSources)
+      .where(eq(fundingSources.userId, userId))
+      .orderBy(desc(fundingSources.id))
+      .get();
+    if (next) tx.update(fundingSources).set({ isDefault: true }).where(eq(fundingSources.id, next.id)).run();
+  }
+
+  return { success: true };
+}
+
+/**
+ * The details behind a saved source, decrypted to make a deposit. Expired cards, and cards from networks no longer
+ * accepted, are refused. Records that the source was used.
+ */
+export function savedFundingSourceDetails(tx: DbTransaction, userId: number, token: string, now = new Date()) {
+  const source = ownedSource(tx, userId, token);
+
+  if (hasExpired(source, now)) {
+    throw new TRPCError({
+      code: "BAD_REQUEST",
+      message: `${source.nickname} has expired; remove it and add the new card`,
+    });
+  }
+  const details = JSON.parse(decrypt(source.details)) as FundingSourceDetails;
+  if (source.type === "card") assertAcceptedCard(details.accountNumber);
+
+  tx.update(fundingSources).set({ lastUsedAt: now.toISOString() }).where(eq(fundingSources.id, source.id)).run();
+  return { type: source.type as FundingSourceType, ...details };
+}
@@ -0,0 +1,70 @@
+import { TRPCError } from "@trpc/server";
+import { eq, sql } from "drizzle-orm";
+import { db, type DbTransaction } from "@/lib/db";
+import { fxRates } from "@/lib/db/schema";
+import { CURRENCIES, type CurrencyCode, type Money } from "@/lib/money";
+
+function rateFor(tx: DbTransaction, currency: string) {
+  const rate = tx.select().from(fxRates).where(eq(fxRates.currency, currency)).get();
+  if (!rate) {
+    throw new TRPCError({
+      code: "BAD_REQUEST",
+      message: `No exchange rate for ${currency}`,
+    });
+  }
+  return rate;
+}
+
+// Units of `to` per unit of `from` at the mid rate, with no spread: for comparing amounts, not for moving money
+export function midRate(tx: DbTransaction, from: string, to: string) {
+  if (from === to) return 1;
+  return rateFor(tx, to).unitsPerUsd / rateFor(tx, from).unitsPerUsd;
+}
+
+// Applied rates are whole millionths, so converting is integer arithmetic and never loses a cent to float error
+const RATE_SCALE = 1_000_000;
+
+/**
+ * Converts `amount` cents of `from` into `to` at the cross rate less both currencies' spreads.
+ * The applied rate is rounded to 6 decimals and the converted amount is rounded down to whole cents.
+ */
+export function quoteConversion(tx: DbTransaction, from: string, to: string, amount: Money) {
+  if (from === to) return { rate: 1, convertedAmount: amount };
+
+  const fromRate = rateFor(tx, from);
+  const toRate = rateFor(tx, to);
+
+  const mid = toRate.unitsPerUsd / fromRate.unitsPerUsd;
+  const spread = (fromRate.spreadBps + toRate.spreadBps) / 10_000;
+  const rateMillionths = Math.round(mid * (1 - spread) * RATE_SCALE);
+
+  return {
+    rate: rateMillionths / RATE_SCALE,
+    convertedAmount: Number((BigInt(amount) * BigInt(rateMillionths)) / BigInt(RATE_SCALE)),
+  };
+}
+
+/**
+ * Replaces the rate table from a local feed, e.g. { "EUR": { "unitsPerUsd": 0.93, "spreadBps": 50 } }.
+ * Only supported currencies are accepted: any other would have no system ledger accounts to convert through.
+ */
+export function loadFxRates(rates: Record<string, { unitsPerUsd: number; spreadBps: number }>) {
+  return db.transaction((tx) => {
+    for (const [currency, { unitsPerUsd, spreadBps }] of Object.entries(rates)) {
+      if (!CURRENCIES.includes(currency as CurrencyCode)) {
+        throw new Error(`Unsupported currency ${currency}`);
+      }
+      if (!(unitsPerUsd > 0) || !Number.isInteger(spreadBps) || spreadBps < 0) {
+        throw new Error(`Invalid rate for ${currency}`);
+      }
+      tx.insert(fxRates)
+        .values({ currency, unitsPerUsd, spreadBps })
+        .onConflictDoUpdate({
+          target: fxRates.currency,
+          set: { unitsPerUsd, spreadBps, updatedAt: sql`CURRENT_TIMESTAMP` },
+        })
+        .run();
+    }
+    return Object.keys(rates).length;
+  });
+}
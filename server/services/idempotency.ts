@@ -0,0 +1,97 @@
+import { TRPCError } from "@trpc/server";
+import { and, eq } from "drizzle-orm";
+import { createHash } from "crypto";
+import { db } from "@/lib/db";
+import { idempotencyKeys } from "@/lib/db/schema";
+import { fingerprint } from "@/lib/crypto";
+
+// Card security codes must never be stored, not even inside a hash
+const UNSTORED_FIELDS = new Set(["cvv"]);
+
+// Key order must not change the hash, so objects are serialized with sorted keys
+function stableStringify(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(stableStringify).join(",")}]`;
+  }
+  if (value && typeof value === "object") {
+    const entries = Object.entries(value as Record<string, unknown>)
+      .filter(([k, v]) => v !== undefined && !UNSTORED_FIELDS.has(k))
+      .sort(([a], [b]) => a.localeCompare(b));
+    return `{${entries.map(([k, v]) => `${JSON.stringify(k)}:${stableStringify(v)}`).join(",")}}`;
+  }
+  return JSON.stringify(value);
+}
+
+function requestBody(scope: string, payload: unknown): string {
+  const { idempotencyKey: _key, ...rest } = (payload ?? {}) as Record<string, unknown>;
+  return `${scope}:${stableStringify(rest)}`;
+}
+
+// Keyed, because payloads carry card and account numbers: an unkeyed hash of a card number is easy to brute-force
+export function hashRequest(scope: string, payload: unknown): string {
+  return fingerprint(requestBody(scope, payload));
+}
+
+// Keys stored before hashes were keyed hold the keyed hash of the old plain SHA-256 (see migration 25)
+function legacyRequestHash(scope: string, payload: unknown): string {
+  return fingerprint(createHash("sha256").update(requestBody(scope, payload)).digest("hex"));
+}
+
+/**
+ * Runs `run` at most once per (user, key). A replay with the same payload returns the stored response;
+ * reusing the key for a different payload is rejected. Failed attempts are forgotten so they can be retried.
+ * Without a key the request simply runs.
+ */
+export async function withIdempotency<T>(
+  request: { userId: number; scope: string; key?: string; payload: unknown },
+  run: () => T | Promise<T>
+): Promise<T> {
+  if (!request.key) return run();
+
+  const requestHash = hashRequest(request.scope, request.payload);
+  const match = and(eq(idempotencyKeys.userId, request.userId), eq(idempotencyKeys.key, request.key));
+
+  const existing = await db.select().from(idempotencyKeys).where(match).get();
+  if (existing) {
+    const expectedHash = existing.legacyHash ? legacyRequestHash(request.scope, request.payload) : requestHash;
+    if (existing.scope !== request.scope || existing.requestHash !== expectedHash) {
+      throw new TRPCError({
+        code: "UNPROCESSABLE_CONTENT",
+        message: "Idempotency key was already used for a different request",
+      });
+    }
+    if (existing.response === null) {
+      throw new TRPCError({
+        code: "CONFLICT",
+        message: "A request with this idempotency key is still being processed",
+      });
+    }
+    return JSON.parse(existing.response) as T;
+  }
+
+  // Claim the key before running so a concurrent duplicate sees it as in progress
+  const claimed = await db
+    .insert(idempotencyKeys)
+    .values({ userId: request.userId, key: request.key, scope: request.scope, requestHash })
+    .onConflictDoNothing()
+    .returning();
+
+  if (claimed.length === 0) {
+    throw new TRPCError({
+      code: "CONFLICT",
+      message: "A request with this idempotency key is still being processed",
+    });
+  }
+
+  try {
+    const result = await run();
+    await db
+      .update(idempotencyKeys)
+      .set({ response: JSON.stringify(result) })
+      .where(eq(idempotencyKeys.id, claimed[0].id));
+    return result;
+  } catch (error) {
+    await db.delete(idempotencyKeys).where(eq(idempotencyKeys.id, claimed[0].id));
+    throw error;
+  }
+}
@@ -0,0 +1,246 @@
+import { TRPCError } from "@trpc/server";
+import { and, asc, desc, eq, gte, inArray, isNull, lt, ne, notInArray, or, sql } from "drizzle-orm";
+import { alias } from "drizzle-orm/sqlite-core";
+import type { z } from "zod";
+import { db, type DbTransaction } from "@/lib/db";
+import { accounts, budgetAlerts, budgets, transactions } from "@/lib/db/schema";
+import { isoDate, monthStart } from "@/lib/dates";
+import type { Money } from "@/lib/money";
+import { CREDIT_TRANSACTION_TYPES } from "@/lib/transaction-types";
+import type { budgetSchema } from "@/lib/validations";
+import { memberAccountIds } from "./account-guards";
+
+export type BudgetInput = z.input<typeof budgetSchema>;
+
+// Percent of a budget at which an alert is raised
+export const BUDGET_ALERT_THRESHOLDS = [80, 100];
+
+// Debits that take back money the customer received rather than money they spent
+const NON_SPENDING_TYPES = ["reversal", "ach_return"];
+
+const UNCATEGORIZED = "uncategorized";
+
+const monthOf = (date: Date) => isoDate(date).slice(0, 7);
+
+/**
+ * What the user spent in `month` (YYYY-MM) per category, in one currency: posted debits across all the
+ * accounts they can spend from in that currency, less anything refunded or reversed since. Pending and failed debits don't count,
+ * and neither do transfers into another account they can spend from.
+ */
+function spendingByCategory(tx: DbTransaction, userId: number, currency: string, month: string) {
+  const spendable = memberAccountIds(tx, userId, "co_owner");
+  const linked = alias(transactions, "linked");
+
+  const rows = tx
+    .select({
+      category: transactions.category,
+      spent: sql<number>`SUM(${transactions.amount} - ${transactions.reversedAmount})`,
+    })
+    .from(transactions)
+    .innerJoin(accounts, eq(transactions.accountId, accounts.id))
+    .leftJoin(linked, eq(linked.id, transactions.linkedTransactionId))
+    .where(
+      and(
+        inArray(accounts.id, spendable),
+        eq(accounts.currency, currency),
+        notInArray(transactions.type, [...CREDIT_TRANSACTION_TYPES, ...NON_SPENDING_TYPES]),
+        or(ne(transactions.type, "transfer_out"), isNull(linked.id), notInArray(linked.accountId, spendable)),
+        notInArray(transactions.status, ["pending", "failed"]),
+        gte(transactions.createdAt, monthStart(month)),
+        lt(transactions.createdAt, monthStart(month, 1))
+      )
+    )
+    .groupBy(transactions.category)
+    .all();
+
+  return new Map<string, Money>(rows.map((row) => [row.category ?? UNCATEGORIZED, row.spent]));
+}
+
+export function setBudget(tx: DbTransaction, userId: number, input: BudgetInput) {
+  const currency = input.currency ?? "USD";
+
+  return tx
+    .insert(budgets)
+    .values({ userId, category: input.category, currency, amount: input.amount })
+    .onConflictDoUpdate({
+      target: [budgets.userId, budgets.category, budgets.currency],
+      set: { amount: input.amount, updatedAt: sql`CURRENT_TIMESTAMP` },
+    })
+    .returning()
+    .get();
+}
+
+export function deleteBudget(tx: DbTransaction, userId: number, budgetId: number) {
+  const budget = tx
+    .select()
+    .from(budgets)
+    .where(and(eq(budgets.id, budgetId), eq(budgets.userId, userId)))
+    .get();
+
+  if (!budget) {
+    throw new TRPCError({
+      code: "NOT_FOUND",
+      message: "Budget not found",
+    });
+  }
+
+  tx.delete(budgetAlerts).where(eq(budgetAlerts.budgetId, budget.id)).run();
+  tx.delete(budgets).where(eq(budgets.id, budget.id)).run();
+  return { success: true };
+}
+
+// Each of the user's budgets with what has been spent against it in `month`
+export function budgetProgress(tx: DbTransaction, userId: number, month: string) {
+  const userBudgets = tx
+    .select()
+    .from(budgets)
+    .where(eq(budgets.userId, userId))
+    .orderBy(asc(budgets.currency), asc(budgets.category))
+    .all();
+
+  const spending = new Map<string, Map<string, Money>>();
+  const spentFor = (budget: typeof budgets.$inferSelect) => {
+    if (!spending.has(budget.currency)) {
+      spending.set(budget.currency, spendingByCategory(tx, userId, budget.currency, month));
+    }
+    return spending.get(budget.currency)!.get(budget.category) ?? 0;
+  };
+
+  return userBudgets.map((budget) => {
+    const spent = spentFor(budget);
+    const percent = Math.round((spent * 100) / budget.amount);
+
+    return {
+      id: budget.id,
+      category: budget.category,
+      currency: budget.currency,
+      amount: budget.amount,
+      spent,
+      remaining: budget.amount - spent,
+      percent,
+      status: percent >= 100 ? "over" : percent >= 80 ? "warning" : "ok",
+    };
+  });
+}
+
+/**
+ * Spending per category in `month` next to the month before, largest first (category null is uncategorized).
+ * `changePercent` is null when nothing was spent in that category the month before.
+ */
+export function spendingComparison(tx: DbTransaction, userId: number, month: string, currency = "USD") {
+  const previousMonth = monthStart(month, -1).slice(0, 7);
+  const current = spendingByCategory(tx, userId, currency, month);
+  const previous = spendingByCategory(tx, userId, currency, previousMonth);
+
+  const categories = [...new Set([...current.keys(), ...previous.keys()])]
+    .map((category) => {
+      const spent = current.get(category) ?? 0;
+      const before = previous.get(category) ?? 0;
+      return {
+        category: category === UNCATEGORIZED ? null : category,
+        spent,
+        previous: before,
+        change: spent - before,
+        changePercent: before > 0 ? Math.round(((spent - before) * 100) / before) : null,
+      };
+    })
+    .filter((row) => row.spent !== 0 || row.previous !== 0)
+    .sort((a, b) => b.spent - a.spent || b.previous - a.previous);
+
+  const sum = (values: Iterable<Money>) => [...values].reduce((total, value) => total + value, 0);
+
+  return {
+    month,
+    previousMonth,
+    currency,
+    categories,
+    total: sum(current.values()),
+    previousTotal: sum(previous.values()),
+  };
+}
+
+/**
+ * Raises an alert the first time this month's spending reaches each threshold of one of the user's budgets. An alert
+ * is never raised twice for the same budget, month and threshold, even if spending dips back under it and crosses again.
+ * Returns how many alerts were raised.
+ */
+export function raiseBudgetAlerts(tx: DbTransaction, userId: number, now = new Date()) {
+  const month = monthOf(now);
+  let raised = 0;
+
+  for (const budget of budgetProgress(tx, userId, month)) {
+    for (const threshold of BUDGET_ALERT_THRESHOLDS.filter((t) => budget.percent >= t)) {
+      raised += tx
+        .insert(budgetAlerts)
+        .values({ budgetId: budget.id, month, threshold, spent: budget.spent })
+        .onConflictDoNothing()
+        .returning({ id: budgetAlerts.id })
+        .all().length;
+    }
+  }
+
+  return raised;
+}
+
+/**
+ * Raises budget alerts for every user with a budget. Safe to run as often as you like.
+ * Each user is processed in their own db transaction so one failure cannot block the rest.
+ */
+export function processBudgetAlerts(now = new Date()) {
+  const result = { raised: 0, errors: [] as { userId: number; error: string }[] };
+
+  const userIds = db.selectDistinct({ userId: budgets.userId }).from(budgets).all();
+
+  for (const { userId } of userIds) {
+    try {
+      result.raised += db.transaction((tx) => raiseBudgetAlerts(tx, userId, now));
+    } catch (error) {
+      result.errors.push({ userId, error: error instanceof Error ? error.message : String(error) });
+    }
+  }
+
+  return result;
+}
+
+// Alerts the user hasn't dismissed, newest first
+export function listAlerts(tx: DbTransaction, userId: number) {
+  return tx
+    .select({
+      id: budgetAlerts.id,
+      budgetId: budgetAlerts.budgetId,
+      category: budgets.category,
+      currency: budgets.currency,
+      amount: budgets.amount,
+      month: budgetAlerts.month,
+      threshold: budgetAlerts.threshold,
+      spent: budgetAlerts.spent,
+      createdAt: budgetAlerts.createdAt,
+    })
+    .from(budgetAlerts)
+    .innerJoin(budgets, eq(budgetAlerts.budgetId, budgets.id))
+    .where(and(eq(budgets.userId, userId), isNull(budgetAlerts.dismissedAt)))
+    .orderBy(desc(budgetAlerts.id))
+    .all();
+}
+
+export function dismissAlert(tx: DbTransaction, userId: number, alertId: number) {
+  const row = tx
+    .select({ alert: budgetAlerts })
+    .from(budgetAlerts)
+    .innerJoin(budgets, eq(budgetAlerts.budgetId, budgets.id))
+    .where(and(eq(budgetAlerts.id, alertId), eq(budgets.userId, userId)))
+    .get();
+
+  if (!row) {
+    throw new TRPCError({
+      code: "NOT_FOUND",
+      message: "Alert not found",
+    });
+  }
+
+  tx.update(budgetAlerts)
+    .set({ dismissedAt: sql`CURRENT_TIMESTAMP` })
+    .where(eq(budgetAlerts.id, alertId))
+    .run();
+  return { success: true };
+}
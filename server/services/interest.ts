@@ -0,0 +1,226 @@
+import { and, desc, eq, inArray, isNull, like, lt, lte, max, sql } from "drizzle-orm";
+import { db, type DbTransaction } from "@/lib/db";
+import { accounts, dailyBalances, interestAccruals, interestRateTiers, transactions } from "@/lib/db/schema";
+import { OPEN_ACCOUNT_STATUSES } from "@/lib/account-status";
+import { addDays, formatMonth, isoDate } from "@/lib/dates";
+import type { Money } from "@/lib/money";
+import { customerLedgerAccountId, postJournalEntry, SYSTEM_ACCOUNTS, systemLedgerAccountId } from "./ledger";
+
+type Account = typeof accounts.$inferSelect;
+
+const MICRO_CENTS_PER_CENT = 1_000_000;
+
+// The whole balance earns the rate of the highest tier it reaches; account types without tiers earn nothing
+export function apyForBalance(tx: DbTransaction, accountType: string, balance: Money): number {
+  const tier = tx
+    .select()
+    .from(interestRateTiers)
+    .where(and(eq(interestRateTiers.accountType, accountType), sql`${interestRateTiers.minBalance} <= ${balance}`))
+    .orderBy(desc(interestRateTiers.minBalance))
+    .get();
+
+  return tier?.apyBps ?? 0;
+}
+
+// The daily rate is the one that compounds to the advertised APY over a year
+export function dailyInterestMicroCents(balance: Money, apyBps: number): number {
+  if (balance <= 0 || apyBps <= 0) return 0;
+  const dailyRate = Math.pow(1 + apyBps / 10_000, 1 / 365) - 1;
+  return Math.round(balance * dailyRate * MICRO_CENTS_PER_CENT);
+}
+
+// Ledger balance at the end of `date` (UTC), from the daily snapshot postJournalEntry keeps: the latest on or before
+// that day, so a late run still uses that day's balance
+function endOfDayBalance(tx: DbTransaction, accountId: number, date: string): Money {
+  const snapshot = tx
+    .select({ balance: dailyBalances.balance })
+    .from(dailyBalances)
+    .where(and(eq(dailyBalances.accountId, accountId), lte(dailyBalances.date, date)))
+    .orderBy(desc(dailyBalances.date))
+    .get();
+
+  return snapshot?.balance ?? 0;
+}
+
+// Accrues every day from the last accrual (or the day the account opened) up to, but not including, `today`
+function accrueMissingDays(tx: DbTransaction, account: Account, today: string) {
+  const last = tx
+    .select({ date: max(interestAccruals.accrualDate) })
+    .from(interestAccruals)
+    .where(eq(interestAccruals.accountId, account.id))
+    .get();
+
+  let date = last?.date ? addDays(last.date, 1) : (account.createdAt ?? today).slice(0, 10);
+  let days = 0;
+
+  for (; date < today; date = addDays(date, 1)) {
+    const balance = endOfDayBalance(tx, account.id, date);
+    const apyBps = apyForBalance(tx, account.accountType, balance);
+
+    tx.insert(interestAccruals)
+      .values({
+        accountId: account.id,
+        accrualDate: date,
+        balance,
+        apyBps,
+        amountMicroCents: dailyInterestMicroCents(balance, apyBps),
+      })
+      .onConflictDoNothing()
+      .run();
+    days++;
+  }
+
+  return days;
+}
+
+/**
+ * Pays out a month's accruals (month is YYYY-MM) as one `interest` transaction, rounded to the nearest cent.
+ * The accruals are marked as posted even when they round to nothing, so they are never paid twice.
+ */
+function postMonthlyInterest(tx: DbTransaction, account: Account, month: string) {
+  const unposted = and(
+    eq(interestAccruals.accountId, account.id),
+    like(interestAccruals.accrualDate, `${month}-%`),
+    isNull(interestAccruals.postedAt)
+  );
+
+  const row = tx
+    .select({ total: sql<number>`COALESCE(SUM(${interestAccruals.amountMicroCents}), 0)` })
+    .from(interestAccruals)
+    .where(unposted)
+    .get();
+  const amount = Math.round((row?.total ?? 0) / MICRO_CENTS_PER_CENT);
+  const now = new Date().toISOString();
+
+  let transaction: typeof transactions.$inferSelect | undefined;
+  if (amount > 0) {
+    [transaction] = tx
+      .insert(transactions)
+      .values({
+        accountId: account.id,
+        type: "interest",
+        amount,
+        currency: account.currency,
+        description: `Interest for ${formatMonth(month)}`,
+        status: "completed",
+        processedAt: now,
+      })
+      .returning()
+      .all();
+
+    postJournalEntry(tx, {
+      description: `Interest for ${month} on account ${account.accountNumber}`,
+      lines: [
+        {
+          ledgerAccountId: systemLedgerAccountId(tx, SYSTEM_ACCOUNTS.interestExpense, account.currency),
+          direction: "debit",
+          amount,
+        },
+        {
+          ledgerAccountId: customerLedgerAccountId(tx, account.id),
+          direction: "credit",
+          amount,
+          transactionId: transaction.id,
+        },
+      ],
+    });
+  }
+
+  tx.update(interestAccruals).set({ transactionId: transaction?.id, postedAt: now }).where(unposted).run();
+
+  return transaction;
+}
+
+/**
+ * Brings the account's accruals up to yesterday and pays out everything accrued so far, including the current
+ * month. Used when an account is closed, so no interest is left behind.
+ */
+export function payOutAccruedInterest(tx: DbTransaction, account: Account, now = new Date()) {
+  accrueMissingDays(tx, account, isoDate(now));
+
+  const month = sql<string>`substr(${interestAccruals.accrualDate}, 1, 7)`;
+  const months = tx
+    .selectDistinct({ month })
+    .from(interestAccruals)
+    .where(and(eq(interestAccruals.accountId, account.id), isNull(interestAccruals.postedAt)))
+    .orderBy(month)
+    .all();
+
+  return months.map((row) => postMonthlyInterest(tx, account, row.month)).filter(Boolean).length;
+}
+
+/**
+ * Accrues daily interest for every open account (active, frozen or dormant) up to yesterday, then posts each month that has ended.
+ * Safe to run as often as you like: accruals are unique per account and day, and posted months are skipped.
+ * Each account is processed in its own db transaction so one bad account cannot block the rest.
+ */
+export function processInterest(now = new Date()) {
+  const today = isoDate(now);
+  const currentMonth = today.slice(0, 7);
+  const result = { accruedDays: 0, posted: 0, errors: [] as { accountId: number; error: string }[] };
+
+  const openAccounts = db.select().from(accounts).where(inArray(accounts.status, OPEN_ACCOUNT_STATUSES)).all();
+
+  for (const account of openAccounts) {
+    try {
+      // Counted only once the account's transaction commits
+      const counts = db.transaction((tx) => {
+        const accruedDays = accrueMissingDays(tx, account, today);
+
+        const month = sql<string>`substr(${interestAccruals.accrualDate}, 1, 7)`;
+        const months = tx
+          .selectDistinct({ month })
+          .from(interestAccruals)
+          .where(
+            and(
+              eq(interestAccruals.accountId, account.id),
+              isNull(interestAccruals.postedAt),
+              lt(interestAccruals.accrualDate, `${currentMonth}-01`)
+            )
+          )
+          .orderBy(month)
+          .all();
+
+        const posted = months.filter((row) => postMonthlyInterest(tx, account, row.month)).length;
+        return { accruedDays, posted };
+      });
+      result.accruedDays += counts.accruedDays;
+      result.posted += counts.posted;
+    } catch (error) {
+      result.errors.push({ accountId: account.id, error: error instanceof Error ? error.message : String(error) });
+    }
+  }
+
+  return result;
+}
+
+// Interest earned this calendar year, per account id. Each payout covers one month, so it counts towards the year it
+// was accrued in: December's interest posted on 1 January belongs to the old year.
+export function interestYearToDate(tx: DbTransaction, accountIds: number[], now = new Date()) {
+  if (accountIds.length === 0) return new Map<number, Money>();
+
+  const accruedThisYear = tx
+    .selectDistinct({ transactionId: interestAccruals.transactionId })
+    .from(interestAccruals)
+    .where(
+      and(
+        inArray(interestAccruals.accountId, accountIds),
+        like(interestAccruals.accrualDate, `${now.getUTCFullYear()}-%`)
+      )
+    );
+
+  const rows = tx
+    .select({ accountId: transactions.accountId, total: sql<number>`SUM(${transactions.amount})` })
+    .from(transactions)
+    .where(
+      and(
+        eq(transactions.type, "interest"),
+        inArray(transactions.accountId, accountIds),
+        inArray(transactions.id, accruedThisYear)
+      )
+    )
+    .groupBy(transactions.accountId)
+    .all();
+
+  return new Map<number, Money>(rows.map((row) => [row.accountId, row.total]));
+}
@@ -0,0 +1,195 @@
+import { eq, sql } from "drizzle-orm";
+import type { DbTransaction } from "@/lib/db";
+import { accounts, dailyBalances, journalEntries, ledgerAccounts, postings } from "@/lib/db/schema";
+import { isMoney, type Money } from "@/lib/money";
+
+// Internal accounts seeded by the ledger migrations, one of each per currency (e.g. settlement_cash:EUR)
+export const SYSTEM_ACCOUNTS = {
+  externalFundingClearing: "external_funding_clearing",
+  externalWithdrawalClearing: "external_withdrawal_clearing",
+  settlementCash: "settlement_cash",
+  feeIncome: "fee_income",
+  interestExpense: "interest_expense",
+  openingBalanceEquity: "opening_balance_equity",
+} as const;
+
+export type SystemAccountCode = (typeof SYSTEM_ACCOUNTS)[keyof typeof SYSTEM_ACCOUNTS];
+
+export type PostingLine = {
+  ledgerAccountId: number;
+  direction: "debit" | "credit";
+  amount: Money;
+  transactionId?: number; // the customer-facing transactions row this line belongs to
+  // Customer lines only: move the ledger balance but not the available balance (uncleared deposits).
+  // The funds become available when settlement calls releaseAvailableFunds.
+  pendingSettlement?: boolean;
+};
+
+export class LedgerError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "LedgerError";
+  }
+}
+
+// The system account to post against a customer account in `currency`
+export function systemLedgerAccountId(tx: DbTransaction, code: SystemAccountCode, currency: string): number {
+  const ledgerAccount = tx.select().from(ledgerAccounts).where(eq(ledgerAccounts.code, `${code}:${currency}`)).get();
+  if (!ledgerAccount) {
+    throw new LedgerError(`System ledger account ${code} is missing for ${currency}`);
+  }
+  return ledgerAccount.id;
+}
+
+// Customer accounts get their ledger account lazily, on first posting
+export function customerLedgerAccountId(tx: DbTransaction, accountId: number): number {
+  const existing = tx.select().from(ledgerAccounts).where(eq(ledgerAccounts.accountId, accountId)).get();
+  if (existing) return existing.id;
+
+  const account = tx.select().from(accounts).where(eq(accounts.id, accountId)).get();
+  if (!account) {
+    throw new LedgerError(`Account ${accountId} does not exist`);
+  }
+
+  const [created] = tx
+    .insert(ledgerAccounts)
+    .values({
+      code: `customer:${accountId}`,
+      name: `Customer Account ${account.accountNumber}`,
+      kind: "liability",
+      currency: account.currency,
+      accountId,
+    })
+    .returning()
+    .all();
+
+  return created.id;
+}
+
+// Where a currency conversion hands money from one currency to the other
+export function fxPositionLedgerAccountId(tx: DbTransaction, currency: string): number {
+  const ledgerAccount = tx.select().from(ledgerAccounts).where(eq(ledgerAccounts.code, `fx_position:${currency}`)).get();
+  if (!ledgerAccount) {
+    throw new LedgerError(`No FX position account for ${currency}`);
+  }
+  return ledgerAccount.id;
+}
+
+/**
+ * Records a balanced journal entry and refreshes the cached balance, today's daily balance snapshot and the
+ * postings' running balances of every customer account it touches. Must run inside db.transaction so the postings and the cached balances commit together.
+ * Returns the new cached balance per affected customer account id.
+ */
+export function postJournalEntry(
+  tx: DbTransaction,
+  entry: { description: string; lines: PostingLine[] }
+): Map<number, Money> {
+  if (entry.lines.length < 2) {
+    throw new LedgerError("A journal entry needs at least two postings");
+  }
+
+  let debits = 0;
+  let credits = 0;
+  for (const line of entry.lines) {
+    if (!isMoney(line.amount) || line.amount <= 0) {
+      throw new LedgerError(`Invalid posting amount: ${line.amount}`);
+    }
+    if (line.direction === "debit") debits += line.amount;
+    else credits += line.amount;
+  }
+
+  if (debits !== credits) {
+    throw new LedgerError(`Unbalanced journal entry: debits ${debits} != credits ${credits}`);
+  }
+
+  // Debits only balance credits within one currency; conversions are two entries through the FX position accounts
+  const lineAccounts = new Map<number, typeof ledgerAccounts.$inferSelect>();
+  for (const line of entry.lines) {
+    const ledgerAccount = tx.select().from(ledgerAccounts).where(eq(ledgerAccounts.id, line.ledgerAccountId)).get();
+    if (!ledgerAccount) {
+      throw new LedgerError(`Ledger account ${line.ledgerAccountId} does not exist`);
+    }
+    lineAccounts.set(ledgerAccount.id, ledgerAccount);
+  }
+  if (new Set([...lineAccounts.values()].map((a) => a.currency)).size > 1) {
+    throw new LedgerError("A journal entry cannot mix currencies");
+  }
+
+  // Customer accounts are liabilities: credits increase the balance, debits decrease it
+  const deltas = new Map<number, { ledger: Money; available: Money }>();
+  for (const line of entry.lines) {
+    const ledgerAccount = lineAccounts.get(line.ledgerAccountId)!;
+    if (ledgerAccount.accountId === null) continue;
+
+    const signed = line.direction === "credit" ? line.amount : -line.amount;
+    const delta = deltas.get(ledgerAccount.accountId) ?? { ledger: 0, available: 0 };
+    delta.ledger += signed;
+    if (!line.pendingSettlement) delta.available += signed;
+    deltas.set(ledgerAccount.accountId, delta);
+  }
+
+  const balances = new Map<number, Money>();
+  for (const [accountId, delta] of deltas) {
+    const [updated] = tx
+      .update(accounts)
+      .set({
+        balance: sql`${accounts.balance} + ${delta.ledger}`,
+        availableBalance: sql`${accounts.availableBalance} + ${delta.available}`,
+      })
+      .where(eq(accounts.id, accountId))
+      .returning()
+      .all();
+    balances.set(accountId, updated.balance);
+
+    // Today's row always holds the latest balance, so it ends up as the end-of-day balance
+    tx.insert(dailyBalances)
+      .values({ accountId, date: sql`date('now')`, balance: updated.balance })
+      .onConflictDoUpdate({
+        target: [dailyBalances.accountId, dailyBalances.date],
+        set: { balance: updated.balance, updatedAt: sql`CURRENT_TIMESTAMP` },
+      })
+      .run();
+  }
+
+  // Each customer posting records the balance right after it, for running balances in the history
+  const running = new Map([...deltas].map(([accountId, delta]) => [accountId, balances.get(accountId)! - delta.ledger]));
+  const [journalEntry] = tx.insert(journalEntries).values({ description: entry.description }).returning().all();
+
+  tx.insert(postings)
+    .values(
+      entry.lines.map((line) => {
+        const accountId = lineAccounts.get(line.ledgerAccountId)!.accountId;
+        let balanceAfter: Money | null = null;
+        if (accountId !== null) {
+          balanceAfter = running.get(accountId)! + (line.direction === "credit" ? line.amount : -line.amount);
+          running.set(accountId, balanceAfter);
+        }
+        return { ...line, journalEntryId: journalEntry.id, balanceAfter };
+      })
+    )
+    .run();
+
+  return balances;
+}
+
+// Makes previously posted but uncleared funds spendable once their settlement completes
+export function releaseAvailableFunds(tx: DbTransaction, accountId: number, amount: Money) {
+  tx.update(accounts)
+    .set({ availableBalance: sql`${accounts.availableBalance} + ${amount}` })
+    .where(eq(accounts.id, accountId))
+    .run();
+}
+
+// Balance derived from postings alone; should always equal the cached accounts.balance
+export function derivedBalance(tx: DbTransaction, accountId: number): Money {
+  const row = tx
+    .select({
+      balance: sql<number>`COALESCE(SUM(CASE WHEN ${postings.direction} = 'credit' THEN ${postings.amount} ELSE -${postings.amount} END), 0)`,
+    })
+    .from(postings)
+    .innerJoin(ledgerAccounts, eq(postings.ledgerAccountId, ledgerAccounts.id))
+    .where(eq(ledgerAccounts.accountId, accountId))
+    .get();
+
+  return row?.balance ?? 0;
+}
@@ -0,0 +1,137 @@
+import { TRPCError } from "@trpc/server";
+import { and, eq, gte, inArray, ne, or, sql } from "drizzle-orm";
+import type { DbTransaction } from "@/lib/db";
+import { accounts, fundingLimits, transactions, users } from "@/lib/db/schema";
+import { formatCurrency, type Money } from "@/lib/money";
+import { memberAccountIds } from "./account-guards";
+import { midRate } from "./fx";
+
+type FundingLimit = typeof fundingLimits.$inferSelect;
+
+export type FundingContext = {
+  userId: number;
+  accountType: string;
+  currency: string; // of the account being funded
+  sourceType: "card" | "bank";
+};
+
+// Limits are set in USD; deposits in other currencies count at the mid rate
+const LIMIT_CURRENCY = "USD";
+
+const SCOPE_LABELS: Record<string, string> = {
+  card: "card",
+  bank: "bank",
+  checking: "checking account",
+  savings: "savings account",
+};
+
+// Deposits a limit row applies to that count towards it, in USD: everything except deposits that never went through
+function usedSince(tx: DbTransaction, userId: number, limit: FundingLimit, since: ReturnType<typeof sql>): Money {
+  const scopeFilter =
+    limit.scope === "source_type"
+      ? eq(transactions.sourceType, limit.scopeValue)
+      : eq(accounts.accountType, limit.scopeValue);
+
+  const rows = tx
+    .select({ currency: transactions.currency, total: sql<number>`SUM(${transactions.amount})` })
+    .from(transactions)
+    .innerJoin(accounts, eq(transactions.accountId, accounts.id))
+    .where(
+      and(
+        inArray(accounts.id, memberAccountIds(tx, userId, "co_owner")),
+        eq(transactions.type, "deposit"),
+        ne(transactions.status, "failed"),
+        scopeFilter,
+        gte(transactions.createdAt, since)
+      )
+    )
+    .groupBy(transactions.currency)
+    .all();
+
+  return rows.reduce((sum, row) => sum + Math.round(row.total * midRate(tx, row.currency, LIMIT_CURRENCY)), 0);
+}
+
+function applicableLimits(tx: DbTransaction, context: FundingContext) {
+  const user = tx.select({ tier: users.tier }).from(users).where(eq(users.id, context.userId)).get();
+
+  return tx
+    .select()
+    .from(fundingLimits)
+    .where(
+      and(
+        eq(fundingLimits.tier, user?.tier ?? "standard"),
+        or(
+          and(eq(fundingLimits.scope, "source_type"), eq(fundingLimits.scopeValue, context.sourceType)),
+          and(eq(fundingLimits.scope, "account_type"), eq(fundingLimits.scopeValue, context.accountType))
+        )
+      )
+    )
+    .all();
+}
+
+const minOf = (values: (Money | null)[]) => {
+  const set = values.filter((v): v is Money => v !== null);
+  return set.length > 0 ? Math.max(0, Math.min(...set)) : null;
+};
+
+/**
+ * What is left of each limit that applies to a deposit from `sourceType` into an account of `accountType`, in USD
+ * per limit row (`details`) and in the account's currency overall. `maxDeposit` is the largest single deposit allowed
+ * right now; null values mean unlimited.
+ */
+export function remainingFundingLimits(tx: DbTransaction, context: FundingContext) {
+  const limits = applicableLimits(tx, context).map((limit) => ({
+    limit,
+    daily: limit.daily === null ? null : limit.daily - usedSince(tx, context.userId, limit, sql`date('now')`),
+    rolling30Day:
+      limit.rolling30Day === null
+        ? null
+        : limit.rolling30Day - usedSince(tx, context.userId, limit, sql`datetime('now', '-30 days')`),
+  }));
+
+  // Rounded down, so depositing all that is shown never goes over
+  const rate = midRate(tx, LIMIT_CURRENCY, context.currency);
+  const inAccountCurrency = (amount: Money | null) => (amount === null ? null : Math.floor(amount * rate));
+
+  const perTransaction = inAccountCurrency(minOf(limits.map(({ limit }) => limit.perTransaction)));
+  const daily = inAccountCurrency(minOf(limits.map((l) => l.daily)));
+  const rolling30Day = inAccountCurrency(minOf(limits.map((l) => l.rolling30Day)));
+
+  return {
+    perTransaction,
+    daily,
+    rolling30Day,
+    maxDeposit: minOf([perTransaction, daily, rolling30Day]),
+    details: limits,
+  };
+}
+
+// Throws with the first limit the deposit would break; runs inside the deposit's transaction
+export function assertWithinFundingLimits(tx: DbTransaction, context: FundingContext, amount: Money) {
+  const usdAmount = Math.round(amount * midRate(tx, context.currency, LIMIT_CURRENCY));
+  const inAccountCurrency = (usd: Money) =>
+    formatCurrency(Math.floor(Math.max(0, usd) * midRate(tx, LIMIT_CURRENCY, context.currency)), context.currency);
+
+  for (const { limit, daily, rolling30Day } of remainingFundingLimits(tx, context).details) {
+    const label = SCOPE_LABELS[limit.scopeValue] ?? limit.scopeValue;
+
+    if (limit.perTransaction !== null && usdAmount > limit.perTransaction) {
+      throw new TRPCError({
+        code: "BAD_REQUEST",
+        message: `${label.charAt(0).toUpperCase() + label.slice(1)} deposits are limited to ${formatCurrency(limit.perTransaction)} per transaction`,
+      });
+    }
+    if (daily !== null && usdAmount > daily) {
+      throw new TRPCError({
+        code: "BAD_REQUEST",
+        message: `This deposit exceeds your daily ${label} funding limit. You can add up to ${inAccountCurrency(daily)} today`,
+      });
+    }
+    if (rolling30Day !== null && usdAmount > rolling30Day) {
+      throw new TRPCError({
+        code: "BAD_REQUEST",
+        message: `This deposit exceeds your 30-day ${label} funding limit. You can add up to ${inAccountCurrency(rolling30Day)} right now`,
+      });
+    }
+  }
+}
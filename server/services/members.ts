@@ -0,0 +1,264 @@
+import { TRPCError } from "@trpc/server";
+import { and, asc, eq, inArray, max, or, sql } from "drizzle-orm";
+import { alias } from "drizzle-orm/sqlite-core";
+import type { z } from "zod";
+import type { DbTransaction } from "@/lib/db";
+import { accountInvitations, accountMembers, accounts, scheduledTransfers, users } from "@/lib/db/schema";
+import { accountStatusMessage } from "@/lib/account-status";
+import { maskAccountNumber } from "@/lib/masking";
+import type { accountInvitationSchema } from "@/lib/validations";
+import { memberAccount } from "./account-guards";
+
+export type InvitationRequest = z.infer<typeof accountInvitationSchema>;
+
+const inviter = alias(users, "inviter");
+
+function assertOpen(account: typeof accounts.$inferSelect) {
+  if (account.status === "closed") {
+    throw new TRPCError({
+      code: "BAD_REQUEST",
+      message: accountStatusMessage(account.status),
+    });
+  }
+}
+
+/**
+ * Invites another existing customer to the account. Only the owner can invite, and the invitee only gets access
+ * once they accept.
+ */
+export function inviteMember(tx: DbTransaction, userId: number, request: InvitationRequest) {
+  const account = memberAccount(tx, userId, request.accountId, "owner");
+  assertOpen(account);
+
+  const invitee = tx.select().from(users).where(eq(users.email, request.email)).get();
+  if (!invitee) {
+    throw new TRPCError({
+      code: "NOT_FOUND",
+      message: "No customer has that email address",
+    });
+  }
+
+  const existing = tx
+    .select({ id: accountMembers.id })
+    .from(accountMembers)
+    .where(and(eq(accountMembers.accountId, account.id), eq(accountMembers.userId, invitee.id)))
+    .get();
+  if (existing) {
+    throw new TRPCError({
+      code: "CONFLICT",
+      message: invitee.id === userId ? "You already own this account" : "They already have access to this account",
+    });
+  }
+
+  const invitation = tx
+    .insert(accountInvitations)
+    .values({ accountId: account.id, invitedUserId: invitee.id, role: request.role, invitedBy: userId })
+    .onConflictDoNothing()
+    .returning()
+    .get();
+
+  if (!invitation) {
+    throw new TRPCError({
+      code: "CONFLICT",
+      message: "They have already been invited to this account",
+    });
+  }
+
+  return invitation;
+}
+
+// Invitations waiting for the user's answer, oldest first
+export function listInvitations(tx: DbTransaction, userId: number) {
+  return tx
+    .select({
+      id: accountInvitations.id,
+      role: accountInvitations.role,
+      accountType: accounts.accountType,
+      accountNumber: accounts.accountNumber,
+      currency: accounts.currency,
+      inviterFirstName: inviter.firstName,
+      inviterLastName: inviter.lastName,
+      createdAt: accountInvitations.createdAt,
+    })
+    .from(accountInvitations)
+    .innerJoin(accounts, eq(accountInvitations.accountId, accounts.id))
+    .innerJoin(inviter, eq(accountInvitations.invitedBy, inviter.id))
+    .where(and(eq(accountInvitations.invitedUserId, userId), eq(accountInvitations.status, "pending")))
+    .orderBy(asc(accountInvitations.id))
+    .all()
+    .map(({ accountNumber, inviterFirstName, inviterLastName, ...invitation }) => ({
+      ...invitation,
+      maskedAccount: maskAccountNumber(accountNumber),
+      invitedBy: `${inviterFirstName} ${inviterLastName}`,
+    }));
+}
+
+function pendingInvitation(tx: DbTransaction, invitationId: number) {
+  const invitation = tx
+    .select()
+    .from(accountInvitations)
+    .where(and(eq(accountInvitations.id, invitationId), eq(accountInvitations.status, "pending")))
+    .get();
+
+  if (!invitation) {
+    throw new TRPCError({
+      code: "NOT_FOUND",
+      message: "Invitation not found",
+    });
+  }
+
+  return invitation;
+}
+
+// Accepting adds the account to the end of the user's dashboard with the role they were invited with
+export function respondToInvitation(tx: DbTransaction, userId: number, invitationId: number, accept: boolean) {
+  const invitation = pendingInvitation(tx, invitationId);
+  if (invitation.invitedUserId !== userId) {
+    throw new TRPCError({
+      code: "NOT_FOUND",
+      message: "Invitation not found",
+    });
+  }
+
+  if (accept) {
+    const account = tx.select().from(accounts).where(eq(accounts.id, invitation.accountId)).get()!;
+    assertOpen(account);
+
+    const last = tx
+      .select({ displayOrder: max(accountMembers.displayOrder) })
+      .from(accountMembers)
+      .where(eq(accountMembers.userId, userId))
+      .get();
+
+    tx.insert(accountMembers)
+      .values({
+        accountId: invitation.accountId,
+        userId,
+        role: invitation.role,
+        displayOrder: (last?.displayOrder ?? -1) + 1,
+        invitedBy: invitation.invitedBy,
+      })
+      .run();
+  }
+
+  return tx
+    .update(accountInvitations)
+    .set({ status: accept ? "accepted" : "declined", respondedAt: sql`CURRENT_TIMESTAMP` })
+    .where(eq(accountInvitations.id, invitation.id))
+    .returning()
+    .get();
+}
+
+// The owner can take back an invitation that hasn't been answered yet
+export function revokeInvitation(tx: DbTransaction, userId: number, invitationId: number) {
+  const invitation = pendingInvitation(tx, invitationId);
+  memberAccount(tx, userId, invitation.accountId, "owner");
+
+  return tx
+    .update(accountInvitations)
+    .set({ status: "revoked", respondedAt: sql`CURRENT_TIMESTAMP` })
+    .where(eq(accountInvitations.id, invitation.id))
+    .returning()
+    .get();
+}
+
+/**
+ * Everyone with access to the account, owner first. Any member can see who else shares it; only the owner also
+ * sees the invitations still waiting for an answer.
+ */
+export function listMembers(tx: DbTransaction, userId: number, accountId: number) {
+  const account = memberAccount(tx, userId, accountId);
+
+  const members = tx
+    .select({
+      userId: accountMembers.userId,
+      role: accountMembers.role,
+      firstName: users.firstName,
+      lastName: users.lastName,
+      email: users.email,
+      createdAt: accountMembers.createdAt,
+    })
+    .from(accountMembers)
+    .innerJoin(users, eq(accountMembers.userId, users.id))
+    .where(eq(accountMembers.accountId, account.id))
+    .orderBy(sql`${accountMembers.role} = 'owner' DESC`, asc(accountMembers.id))
+    .all();
+
+  const invitations =
+    account.role === "owner"
+      ? tx
+          .select({
+            id: accountInvitations.id,
+            role: accountInvitations.role,
+            email: users.email,
+            createdAt: accountInvitations.createdAt,
+          })
+          .from(accountInvitations)
+          .innerJoin(users, eq(accountInvitations.invitedUserId, users.id))
+          .where(and(eq(accountInvitations.accountId, account.id), eq(accountInvitations.status, "pending")))
+          .orderBy(asc(accountInvitations.id))
+          .all()
+      : [];
+
+  return { role: account.role, members, invitations };
+}
+
+// A member who loses access can't keep moving money through the account on a schedule they set up
+function dropMembership(tx: DbTransaction, accountId: number, memberUserId: number) {
+  tx.delete(accountMembers)
+    .where(and(eq(accountMembers.accountId, accountId), eq(accountMembers.userId, memberUserId)))
+    .run();
+
+  tx.update(scheduledTransfers)
+    .set({ status: "cancelled", nextRunDate: null })
+    .where(
+      and(
+        eq(scheduledTransfers.userId, memberUserId),
+        inArray(scheduledTransfers.status, ["active", "paused"]),
+        or(eq(scheduledTransfers.fromAccountId, accountId), eq(scheduledTransfers.toAccountId, accountId))
+      )
+    )
+    .run();
+}
+
+export function removeMember(tx: DbTransaction, userId: number, accountId: number, memberUserId: number) {
+  const account = memberAccount(tx, userId, accountId, "owner");
+
+  if (memberUserId === userId) {
+    throw new TRPCError({
+      code: "BAD_REQUEST",
+      message: "The owner can't be removed; close the account instead",
+    });
+  }
+
+  const member = tx
+    .select({ id: accountMembers.id })
+    .from(accountMembers)
+    .where(and(eq(accountMembers.accountId, account.id), eq(accountMembers.userId, memberUserId)))
+    .get();
+  if (!member) {
+    throw new TRPCError({
+      code: "NOT_FOUND",
+      message: "Member not found",
+    });
+  }
+
+  dropMembership(tx, account.id, memberUserId);
+  return { success: true };
+}
+
+// Co-owners and view-only members can stop sharing an account at any time
+export function leaveAccount(tx: DbTransaction, userId: number, accountId: number) {
+  const account = memberAccount(tx, userId, accountId);
+
+  if (account.role === "owner") {
+    throw new TRPCError({
+      code: "BAD_REQUEST",
+      message: "The owner can't leave the account; close it instead",
+    });
+  }
+
+  dropMembership(tx, account.id, userId);
+  return { success: true };
+}
+
@@ -0,0 +1,206 @@
+import { TRPCError } from "@trpc/server";
+import { and, asc, eq, sql } from "drizzle-orm";
+import type { z } from "zod";
+import type { DbTransaction } from "@/lib/db";
+import { payees } from "@/lib/db/schema";
+import { decrypt, encrypt } from "@/lib/crypto";
+import { maskAccountNumber } from "@/lib/masking";
+import type { payeeSchema, updatePayeeSchema } from "@/lib/validations";
+import { coolingOffEnd, destinationKey } from "./cooling-off";
+import { resolveRecipient } from "./payments";
+import { assertKnownRoutingNumber } from "./routing-directory";
+
+export type PayeeInput = z.infer<typeof payeeSchema>;
+export type PayeeUpdate = z.infer<typeof updatePayeeSchema>;
+type Payee = typeof payees.$inferSelect;
+type PayeeKind = PayeeInput["kind"];
+
+// What the UI shows: never the full account number
+function maskedPayee(payee: Payee, now: Date) {
+  return {
+    id: payee.id,
+    kind: payee.kind as PayeeKind,
+    nickname: payee.nickname,
+    maskedAccount: maskAccountNumber(payee.accountLast4),
+    routingNumber: payee.routingNumber,
+    coolingOffUntil: new Date(payee.coolingOffUntil) > now ? payee.coolingOffUntil : null,
+    lastUsedAt: payee.lastUsedAt,
+    createdAt: payee.createdAt,
+  };
+}
+
+function ownedPayee(tx: DbTransaction, userId: number, payeeId: number) {
+  const payee = tx
+    .select()
+    .from(payees)
+    .where(and(eq(payees.id, payeeId), eq(payees.userId, userId)))
+    .get();
+
+  if (!payee) {
+    throw new TRPCError({
+      code: "NOT_FOUND",
+      message: "Payee not found",
+    });
+  }
+
+  return payee;
+}
+
+// Internal payees must be another customer's account that can take payments
+function assertValidInternalPayee(tx: DbTransaction, userId: number, accountNumber: string) {
+  const recipient = resolveRecipient(tx, accountNumber);
+  if (!recipient) {
+    throw new TRPCError({
+      code: "NOT_FOUND",
+      message: "Recipient not found",
+    });
+  }
+
+  if (recipient.user.id === userId) {
+    throw new TRPCError({
+      code: "BAD_REQUEST",
+      message: "Use a transfer to move money between your own accounts",
+    });
+  }
+}
+
+function assertNotSaved(tx: DbTransaction, userId: number, key: string, exceptPayeeId?: number) {
+  const existing = tx
+    .select({ id: payees.id, nickname: payees.nickname })
+    .from(payees)
+    .where(and(eq(payees.userId, userId), eq(payees.fingerprint, key)))
+    .get();
+
+  if (existing && existing.id !== exceptPayeeId) {
+    throw new TRPCError({
+      code: "CONFLICT",
+      message: `You have already saved this account as ${existing.nickname}`,
+    });
+  }
+}
+
+export function listPayees(tx: DbTransaction, userId: number, now = new Date()) {
+  return tx
+    .select()
+    .from(payees)
+    .where(eq(payees.userId, userId))
+    .orderBy(asc(payees.nickname), asc(payees.id))
+    .all()
+    .map((payee) => maskedPayee(payee, now));
+}
+
+/**
+ * Saves a recipient. The account number is stored encrypted, with only its last four digits in the clear for
+ * display. The payee starts a cooling-off period during which it can only receive up to PAYEE_COOLING_OFF_LIMIT in
+ * total (enforced where money is sent, see assertWithinCoolingOff).
+ */
+export function createPayee(tx: DbTransaction, userId: number, input: PayeeInput, now = new Date()) {
+  const routingNumber = input.kind === "external" ? input.routingNumber : null;
+  if (input.kind === "internal") assertValidInternalPayee(tx, userId, input.accountNumber);
+  if (routingNumber) assertKnownRoutingNumber(tx, routingNumber);
+
+  const key = destinationKey(input.kind, input.accountNumber, routingNumber);
+  assertNotSaved(tx, userId, key);
+
+  const payee = tx
+    .insert(payees)
+    .values({
+      userId,
+      kind: input.kind,
+      nickname: input.nickname,
+      accountNumber: encrypt(input.accountNumber),
+      accountLast4: input.accountNumber.slice(-4),
+      routingNumber,
+      fingerprint: key,
+      coolingOffUntil: coolingOffEnd(now),
+    })
+    .returning()
+    .get();
+
+  return maskedPayee(payee, now);
+}
+
+export function updatePayee(tx: DbTransaction, userId: number, update: PayeeUpdate, now = new Date()) {
+  const payee = ownedPayee(tx, userId, update.payeeId);
+  const kind = payee.kind as PayeeKind;
+
+  if (kind === "internal" && update.routingNumber !== undefined) {
+    throw new TRPCError({
+      code: "BAD_REQUEST",
+      message: "Payees at this bank don't have a routing number",
+    });
+  }
+
+  const changes: Partial<typeof payees.$inferInsert> = {};
+  if (update.nickname !== undefined) changes.nickname = update.nickname;
+
+  if (update.accountNumber !== undefined || update.routingNumber !== undefined) {
+    const accountNumber = update.accountNumber ?? decrypt(payee.accountNumber);
+    const routingNumber = kind === "external" ? (update.routingNumber ?? payee.routingNumber) : null;
+
+    if (kind === "internal") {
+      if (!/^\d{10}$/.test(accountNumber)) {
+        throw new TRPCError({
+          code: "BAD_REQUEST",
+          message: "Account number must be 10 digits",
+        });
+      }
+      assertValidInternalPayee(tx, userId, accountNumber);
+    }
+    if (update.routingNumber !== undefined) assertKnownRoutingNumber(tx, update.routingNumber);
+
+    const key = destinationKey(kind, accountNumber, routingNumber);
+    assertNotSaved(tx, userId, key, payee.id);
+
+    Object.assign(changes, {
+      accountNumber: encrypt(accountNumber),
+      accountLast4: accountNumber.slice(-4),
+      routingNumber,
+      fingerprint: key,
+      coolingOffUntil: coolingOffEnd(now),
+    });
+  }
+
+  const updated = tx
+    .update(payees)
+    .set({ ...changes, updatedAt: sql`CURRENT_TIMESTAMP` })
+    .where(eq(payees.id, payee.id))
+    .returning()
+    .get();
+  return maskedPayee(updated, now);
+}
+
+export function deletePayee(tx: DbTransaction, userId: number, payeeId: number) {
+  const payee = ownedPayee(tx, userId, payeeId);
+  tx.delete(payees).where(eq(payees.id, payee.id)).run();
+  return { success: true };
+}
+
+// One of the user's payees of the given kind, about to be sent money. Records that the payee was used.
+function usablePayee(tx: DbTransaction, userId: number, payeeId: number, kind: PayeeKind, now: Date) {
+  const payee = ownedPayee(tx, userId, payeeId);
+
+  if (payee.kind !== kind) {
+    throw new TRPCError({
+      code: "BAD_REQUEST",
+      message:
+        kind === "external"
+          ? "This payee is a customer of this bank; send them a payment instead"
+          : "This payee banks elsewhere; withdraw to them instead",
+    });
+  }
+
+  tx.update(payees).set({ lastUsedAt: now.toISOString() }).where(eq(payees.id, payee.id)).run();
+  return payee;
+}
+
+// The bank details to withdraw to an external payee
+export function payeeBankAccount(tx: DbTransaction, userId: number, payeeId: number, now = new Date()) {
+  const payee = usablePayee(tx, userId, payeeId, "external", now);
+  return { accountNumber: decrypt(payee.accountNumber), routingNumber: payee.routingNumber! };
+}
+
+// The account number to pay an internal payee
+export function payeeRecipient(tx: DbTransaction, userId: number, payeeId: number, now = new Date()) {
+  return decrypt(usablePayee(tx, userId, payeeId, "internal", now).accountNumber);
+}
@@ -0,0 +1,205 @@
+import { TRPCError } from "@trpc/server";
+import { and, asc, eq, gte, inArray, sql } from "drizzle-orm";
+import type { DbTransaction } from "@/lib/db";
+import { accountMembers, accounts, transactions, users } from "@/lib/db/schema";
+import { canReceiveMoney, RECEIVING_ACCOUNT_STATUSES } from "@/lib/account-status";
+import { maskAccountNumber, maskName } from "@/lib/masking";
+import type { Money } from "@/lib/money";
+import { assertCanSend, memberAccount, memberAccountIds } from "./account-guards";
+import { assertWithinCoolingOff, destinationKey } from "./cooling-off";
+import { customerLedgerAccountId, postJournalEntry } from "./ledger";
+
+export const PAYMENT_LIMITS = {
+  perTransaction: 2_500_00,
+  daily: 5_000_00,
+};
+
+// Payments by email land in a checking account the recipient owns when they have one (the first on their dashboard
+// if several); shared accounts they were invited to are never picked
+const ACCOUNT_TYPE_PREFERENCE = ["checking", "savings"];
+
+export type PaymentRequest = {
+  userId: number;
+  fromAccountId: number;
+  recipient: string;
+  amount: Money;
+  memo?: string;
+};
+
+/**
+ * Finds the customer and the account a payment to `identifier` (email or account number) would credit.
+ * Returns undefined when there is no such customer or they have no account able to receive money.
+ */
+export function resolveRecipient(tx: DbTransaction, identifier: string) {
+  if (/^\d{10}$/.test(identifier)) {
+    const account = tx.select().from(accounts).where(eq(accounts.accountNumber, identifier)).get();
+    if (!account || !canReceiveMoney(account.status ?? "pending")) return undefined;
+
+    const user = tx.select().from(users).where(eq(users.id, account.userId)).get();
+    return user ? { user, account } : undefined;
+  }
+
+  const user = tx.select().from(users).where(eq(users.email, identifier)).get();
+  if (!user) return undefined;
+
+  const candidates = tx
+    .select({ account: accounts })
+    .from(accounts)
+    .innerJoin(accountMembers, eq(accountMembers.accountId, accounts.id))
+    .where(
+      and(
+        eq(accountMembers.userId, user.id),
+        eq(accountMembers.role, "owner"),
+        inArray(accounts.status, RECEIVING_ACCOUNT_STATUSES)
+      )
+    )
+    .orderBy(asc(accountMembers.displayOrder), asc(accounts.id))
+    .all()
+    .map((row) => row.account);
+  const account = ACCOUNT_TYPE_PREFERENCE.map((type) => candidates.find((a) => a.accountType === type)).find(Boolean);
+
+  return account ? { user, account } : undefined;
+}
+
+export function maskedRecipient(recipient: NonNullable<ReturnType<typeof resolveRecipient>>) {
+  return {
+    maskedName: maskName(recipient.user.firstName, recipient.user.lastName),
+    maskedAccount: maskAccountNumber(recipient.account.accountNumber),
+  };
+}
+
+// Total sent today (UTC) across all the accounts the user can send from
+function sentToday(tx: DbTransaction, userId: number): Money {
+  const row = tx
+    .select({ total: sql<number>`COALESCE(SUM(${transactions.amount}), 0)` })
+    .from(transactions)
+    .where(
+      and(
+        inArray(transactions.accountId, memberAccountIds(tx, userId, "co_owner")),
+        eq(transactions.type, "payment_sent"),
+        gte(transactions.createdAt, sql`date('now')`)
+      )
+    )
+    .get();
+
+  return row?.total ?? 0;
+}
+
+export function sendPayment(tx: DbTransaction, request: PaymentRequest) {
+  const { userId, fromAccountId, amount } = request;
+
+  if (amount > PAYMENT_LIMITS.perTransaction) {
+    throw new TRPCError({
+      code: "BAD_REQUEST",
+      message: `Payments are limited to $${PAYMENT_LIMITS.perTransaction / 100} per transaction`,
+    });
+  }
+
+  const fromAccount = memberAccount(tx, userId, fromAccountId, "co_owner");
+
+  assertCanSend(fromAccount);
+
+  const recipient = resolveRecipient(tx, request.recipient);
+  if (!recipient) {
+    throw new TRPCError({
+      code: "NOT_FOUND",
+      message: "Recipient not found",
+    });
+  }
+
+  if (recipient.user.id === userId) {
+    throw new TRPCError({
+      code: "BAD_REQUEST",
+      message: "Use a transfer to move money between your own accounts",
+    });
+  }
+
+  if (recipient.account.currency !== fromAccount.currency) {
+    throw new TRPCError({
+      code: "BAD_REQUEST",
+      message: `Recipient cannot receive ${fromAccount.currency} payments`,
+    });
+  }
+
+  if (sentToday(tx, userId) + amount > PAYMENT_LIMITS.daily) {
+    throw new TRPCError({
+      code: "BAD_REQUEST",
+      message: `Daily payment limit of $${PAYMENT_LIMITS.daily / 100} exceeded`,
+    });
+  }
+
+  const destinationFingerprint = destinationKey("internal", recipient.account.accountNumber, null);
+  assertWithinCoolingOff(tx, userId, destinationFingerprint, amount, fromAccount.currency);
+
+  if (fromAccount.availableBalance < amount) {
+    throw new TRPCError({
+      code: "BAD_REQUEST",
+      message: "Insufficient funds",
+    });
+  }
+
+  const sender = tx.select().from(users).where(eq(users.id, userId)).get()!;
+  const { maskedName, maskedAccount } = maskedRecipient(recipient);
+  const now = new Date().toISOString();
+
+  const [sent] = tx
+    .insert(transactions)
+    .values({
+      accountId: fromAccount.id,
+      type: "payment_sent",
+      amount,
+      currency: fromAccount.currency,
+      description: request.memo || `Payment to ${maskedName}`,
+      status: "completed",
+      processedAt: now,
+      counterpartyName: maskedName,
+      counterpartyAccount: maskedAccount,
+      destinationFingerprint,
+    })
+    .returning()
+    .all();
+
+  const senderName = maskName(sender.firstName, sender.lastName);
+  const [received] = tx
+    .insert(transactions)
+    .values({
+      accountId: recipient.account.id,
+      type: "payment_received",
+      amount,
+      currency: recipient.account.currency,
+      description: request.memo || `Payment from ${senderName}`,
+      status: "completed",
+      processedAt: now,
+      linkedTransactionId: sent.id,
+      counterpartyName: senderName,
+      counterpartyAccount: maskAccountNumber(fromAccount.accountNumber),
+    })
+    .returning()
+    .all();
+
+  tx.update(transactions).set({ linkedTransactionId: received.id }).where(eq(transactions.id, sent.id)).run();
+
+  const balances = postJournalEntry(tx, {
+    description: `Payment ${sent.id} to ${maskedName}`,
+    lines: [
+      {
+        ledgerAccountId: customerLedgerAccountId(tx, fromAccount.id),
+        direction: "debit",
+        amount,
+        transactionId: sent.id,
+      },
+      {
+        ledgerAccountId: customerLedgerAccountId(tx, recipient.account.id),
+        direction: "credit",
+        amount,
+        transactionId: received.id,
+      },
+    ],
+  });
+
+  return {
+    transaction: { ...sent, linkedTransactionId: received.id },
+    recipient: { maskedName, maskedAccount },
+    newBalance: balances.get(fromAccount.id)!,
+  };
+}
@@ -0,0 +1,216 @@
+import { TRPCError } from "@trpc/server";
+import { and, eq, isNull } from "drizzle-orm";
+import type { DbTransaction } from "@/lib/db";
+import { accounts, ledgerAccounts, postings, transactions } from "@/lib/db/schema";
+import { achReturnDescription, type AchReturnCode } from "@/lib/ach";
+import { formatCurrency, type Money } from "@/lib/money";
+import { isCreditTransaction } from "@/lib/transaction-types";
+import {
+  customerLedgerAccountId,
+  LedgerError,
+  postJournalEntry,
+  type PostingLine,
+  SYSTEM_ACCOUNTS,
+  systemLedgerAccountId,
+} from "./ledger";
+
+type Transaction = typeof transactions.$inferSelect;
+
+// Only money that has actually moved can be reversed; pending deposits and withdrawals are failed instead
+const REVERSIBLE_STATUSES = ["completed", "settled"];
+
+const SETTLED_THROUGH_CASH = ["deposit", "withdrawal"];
+
+export type ReversalRequest = {
+  transactionId: number;
+  amount?: Money; // defaults to whatever has not been reversed yet
+  reason: string;
+  returnCode?: AchReturnCode; // set when the originating bank returned an ACH deposit
+};
+
+/**
+ * Creates compensating transactions for `transactionId` (and the other leg of a transfer or payment),
+ * linked back to the original through reversal_of_id. Partial amounts are allowed until the whole
+ * original has been reversed; after that the original is marked `reversed` (or `returned` for ACH returns).
+ */
+export function reverseTransaction(tx: DbTransaction, request: ReversalRequest) {
+  const original = tx.select().from(transactions).where(eq(transactions.id, request.transactionId)).get();
+
+  if (!original) {
+    throw new TRPCError({
+      code: "NOT_FOUND",
+      message: "Transaction not found",
+    });
+  }
+
+  if (original.reversalOfId !== null) {
+    throw new TRPCError({
+      code: "BAD_REQUEST",
+      message: "A reversal cannot itself be reversed",
+    });
+  }
+
+  const remaining = original.amount - original.reversedAmount;
+  if (original.status === "reversed" || original.status === "returned" || remaining <= 0) {
+    throw new TRPCError({
+      code: "BAD_REQUEST",
+      message: "Transaction has already been reversed",
+    });
+  }
+
+  if (!REVERSIBLE_STATUSES.includes(original.status)) {
+    throw new TRPCError({
+      code: "BAD_REQUEST",
+      message: `A ${original.status} transaction cannot be reversed`,
+    });
+  }
+
+  const amount = request.amount ?? remaining;
+  if (amount > remaining) {
+    throw new TRPCError({
+      code: "BAD_REQUEST",
+      message: `Only ${formatCurrency(remaining)} of this transaction can still be reversed`,
+    });
+  }
+
+  // Transfers and payments are reversed on both legs so neither side is left out of balance
+  const legs = [original];
+  if (original.linkedTransactionId !== null) {
+    const linked = tx.select().from(transactions).where(eq(transactions.id, original.linkedTransactionId)).get();
+    if (linked) legs.push(linked);
+  }
+
+  if (legs.some((leg) => leg.currency !== original.currency)) {
+    throw new TRPCError({
+      code: "BAD_REQUEST",
+      message: "Currency conversions cannot be reversed",
+    });
+  }
+
+  // The bank can still correct frozen or dormant accounts, but a closed account can't take any more entries
+  const legAccounts = legs.map((leg) => tx.select().from(accounts).where(eq(accounts.id, leg.accountId)).get());
+  if (legAccounts.some((account) => account?.status === "closed")) {
+    throw new TRPCError({
+      code: "BAD_REQUEST",
+      message: "Transactions on a closed account cannot be reversed",
+    });
+  }
+
+  // The bank pulling back an ACH deposit cannot be refused, so only voluntary reversals need the funds
+  if (!request.returnCode) {
+    for (const leg of legs.filter((l) => isCreditTransaction(l.type))) {
+      const account = tx.select().from(accounts).where(eq(accounts.id, leg.accountId)).get();
+      if (!account || account.availableBalance < amount) {
+        throw new TRPCError({
+          code: "BAD_REQUEST",
+          message: "Insufficient funds to reverse this transaction",
+        });
+      }
+    }
+  }
+
+  const now = new Date().toISOString();
+  const fullyReversed = amount === remaining;
+
+  const compensations = legs.map((leg) => {
+    const [compensation] = tx
+      .insert(transactions)
+      .values({
+        accountId: leg.accountId,
+        type: compensatingType(leg, request.returnCode),
+        amount,
+        currency: leg.currency,
+        description: request.reason,
+        status: "completed",
+        processedAt: now,
+        reversalOfId: leg.id,
+        counterpartyName: leg.counterpartyName,
+        counterpartyAccount: leg.counterpartyAccount,
+        returnCode: request.returnCode,
+      })
+      .returning()
+      .all();
+
+    tx.update(transactions)
+      .set({
+        reversedAmount: leg.reversedAmount + amount,
+        ...(fullyReversed && { status: request.returnCode ? "returned" : "reversed" }),
+        ...(request.returnCode && {
+          returnCode: request.returnCode,
+          failureReason: achReturnDescription(request.returnCode),
+        }),
+      })
+      .where(eq(transactions.id, leg.id))
+      .run();
+
+    return compensation;
+  });
+
+  if (compensations.length === 2) {
+    const [first, second] = compensations;
+    tx.update(transactions).set({ linkedTransactionId: second.id }).where(eq(transactions.id, first.id)).run();
+    tx.update(transactions).set({ linkedTransactionId: first.id }).where(eq(transactions.id, second.id)).run();
+  }
+
+  const lines: PostingLine[] = legs.map((leg, i) => ({
+    ledgerAccountId: customerLedgerAccountId(tx, leg.accountId),
+    direction: isCreditTransaction(leg.type) ? "debit" : "credit",
+    amount,
+    transactionId: compensations[i].id,
+  }));
+
+  // Without a second customer leg, the other side goes back to the system account the money came from
+  if (legs.length === 1) {
+    lines.push({
+      ledgerAccountId: counterLedgerAccountId(tx, original),
+      direction: isCreditTransaction(original.type) ? "credit" : "debit",
+      amount,
+    });
+  }
+
+  const balances = postJournalEntry(tx, {
+    description: `Reversal of transaction ${original.id}: ${request.reason}`,
+    lines,
+  });
+
+  return {
+    reversal: compensations[0],
+    remaining: remaining - amount,
+    newBalance: balances.get(original.accountId)!,
+  };
+}
+
+/**
+ * The system ledger account on the other side of a one-legged transaction's original journal entry, e.g. interest
+ * expense for an interest credit. Settling a deposit or withdrawal moves it from its clearing account into
+ * settlement cash, so that is where those are reversed against.
+ */
+function counterLedgerAccountId(tx: DbTransaction, original: Transaction) {
+  if (SETTLED_THROUGH_CASH.includes(original.type)) {
+    return systemLedgerAccountId(tx, SYSTEM_ACCOUNTS.settlementCash, original.currency);
+  }
+
+  const entry = tx
+    .select({ journalEntryId: postings.journalEntryId })
+    .from(postings)
+    .where(eq(postings.transactionId, original.id))
+    .get();
+  const counters = entry
+    ? tx
+        .select({ ledgerAccountId: postings.ledgerAccountId })
+        .from(postings)
+        .innerJoin(ledgerAccounts, eq(postings.ledgerAccountId, ledgerAccounts.id))
+        .where(and(eq(postings.journalEntryId, entry.journalEntryId), isNull(ledgerAccounts.accountId)))
+        .all()
+    : [];
+
+  if (counters.length !== 1) {
+    throw new LedgerError(`Transaction ${original.id} has no single system account to reverse against`);
+  }
+  return counters[0].ledgerAccountId;
+}
+
+function compensatingType(leg: Transaction, returnCode?: AchReturnCode) {
+  if (!isCreditTransaction(leg.type)) return "refund";
+  return returnCode ? "ach_return" : "reversal";
+}
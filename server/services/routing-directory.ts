@@ -0,0 +1,53 @@
+import { TRPCError } from "@trpc/server";
+import { eq } from "drizzle-orm";
+import { db, type DbTransaction } from "@/lib/db";
+import { routingDirectory } from "@/lib/db/schema";
+import { isValidRoutingNumber } from "@/lib/routing-numbers";
+
+type DirectoryEntry = typeof routingDirectory.$inferInsert;
+
+/**
+ * Reads the Fed's FedACH participant directory: fixed-width records of 155 characters with the routing number in
+ * columns 1-9, the bank's name in 36-71, city in 108-127 and state in 128-129. Malformed records are skipped.
+ */
+export function parseFedAchDirectory(text: string): DirectoryEntry[] {
+  return text
+    .split(/\r?\n/)
+    .filter((line) => line.length >= 129 && isValidRoutingNumber(line.slice(0, 9)))
+    .map((line) => ({
+      routingNumber: line.slice(0, 9),
+      bankName: line.slice(35, 71).trim(),
+      city: line.slice(107, 127).trim() || null,
+      state: line.slice(127, 129).trim() || null,
+    }))
+    .filter((entry) => entry.bankName.length > 0);
+}
+
+// Replaces the whole directory, since a FedACH file lists every participating bank
+export function loadRoutingDirectory(entries: DirectoryEntry[]) {
+  if (entries.length === 0) throw new Error("The directory has no valid records");
+
+  return db.transaction((tx) => {
+    tx.delete(routingDirectory).run();
+    for (const entry of entries) {
+      tx.insert(routingDirectory).values(entry).onConflictDoNothing().run();
+    }
+    return entries.length;
+  });
+}
+
+export function bankForRoutingNumber(tx: DbTransaction, routingNumber: string) {
+  return tx.select().from(routingDirectory).where(eq(routingDirectory.routingNumber, routingNumber)).get();
+}
+
+// A number can pass the checksum without belonging to any bank; money is only sent to ones in the directory
+export function assertKnownRoutingNumber(tx: DbTransaction, routingNumber: string) {
+  const bank = bankForRoutingNumber(tx, routingNumber);
+  if (!bank) {
+    throw new TRPCError({
+      code: "BAD_REQUEST",
+      message: `Routing number ${routingNumber} doesn't belong to a bank we can send to`,
+    });
+  }
+  return bank;
+}
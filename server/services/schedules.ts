@@ -0,0 +1,256 @@
+import { TRPCError } from "@trpc/server";
+import { and, eq, lte } from "drizzle-orm";
+import { db, type DbTransaction } from "@/lib/db";
+import { scheduledTransfers } from "@/lib/db/schema";
+import { addDays, isoDate } from "@/lib/dates";
+import type { Money } from "@/lib/money";
+import { assertCanReceive, assertCanSend, memberAccount } from "./account-guards";
+import { executeTransfer } from "./transfers";
+
+type Schedule = typeof scheduledTransfers.$inferSelect;
+type ScheduleFrequency = "once" | "weekly" | "biweekly" | "monthly";
+
+export type ScheduleRequest = {
+  userId: number;
+  fromAccountId: number;
+  toAccountId: number;
+  amount: Money;
+  description?: string;
+  frequency: ScheduleFrequency;
+  startDate: string;
+  endDate?: string;
+  maxOccurrences?: number;
+};
+
+// Occurrence n (0-based) is counted from the start date, so a schedule on the 31st runs on the last day of
+// shorter months and then returns to the 31st
+function occurrenceDate(schedule: Pick<Schedule, "frequency" | "startDate">, n: number) {
+  if (schedule.frequency === "weekly") return addDays(schedule.startDate, 7 * n);
+  if (schedule.frequency === "biweekly") return addDays(schedule.startDate, 14 * n);
+  if (schedule.frequency === "monthly") {
+    const [y, m, d] = schedule.startDate.split("-").map(Number);
+    const lastDayOfMonth = new Date(Date.UTC(y, m - 1 + n + 1, 0)).getUTCDate();
+    return isoDate(new Date(Date.UTC(y, m - 1 + n, Math.min(d, lastDayOfMonth))));
+  }
+  return schedule.startDate;
+}
+
+/**
+ * The first occurrence on or after `date` that the schedule's end conditions still allow, or null when the
+ * schedule has nothing left to run. `occurrences` is how many have already run.
+ */
+function nextOccurrence(schedule: Schedule, date: string, occurrences = schedule.occurrences): string | null {
+  if (schedule.maxOccurrences !== null && occurrences >= schedule.maxOccurrences) return null;
+  if (schedule.frequency === "once") return occurrences === 0 && schedule.startDate >= date ? schedule.startDate : null;
+
+  let n = 0;
+  while (occurrenceDate(schedule, n) < date) n++;
+  const next = occurrenceDate(schedule, n);
+
+  return schedule.endDate !== null && next > schedule.endDate ? null : next;
+}
+
+// The next few dates a schedule will run on, for the dashboard
+export function upcomingDates(schedule: Schedule, count = 3) {
+  const dates: string[] = [];
+  let date = schedule.nextRunDate;
+  while (date && dates.length < count) {
+    dates.push(date);
+    date = nextOccurrence(schedule, addDays(date, 1), schedule.occurrences + dates.length);
+  }
+  return dates;
+}
+
+export function createSchedule(tx: DbTransaction, request: ScheduleRequest, today = isoDate(new Date())) {
+  const { userId, fromAccountId, toAccountId } = request;
+
+  if (fromAccountId === toAccountId) {
+    throw new TRPCError({
+      code: "BAD_REQUEST",
+      message: "Cannot transfer to the same account",
+    });
+  }
+
+  assertCanSend(memberAccount(tx, userId, fromAccountId, "co_owner"));
+  assertCanReceive(memberAccount(tx, userId, toAccountId, "co_owner"));
+
+  if (request.startDate < today) {
+    throw new TRPCError({
+      code: "BAD_REQUEST",
+      message: "Start date cannot be in the past",
+    });
+  }
+
+  const recurring = request.frequency !== "once";
+
+  const [schedule] = tx
+    .insert(scheduledTransfers)
+    .values({
+      userId,
+      fromAccountId,
+      toAccountId,
+      amount: request.amount,
+      description: request.description,
+      frequency: request.frequency,
+      startDate: request.startDate,
+      endDate: recurring ? request.endDate : null,
+      maxOccurrences: recurring ? request.maxOccurrences : null,
+      nextRunDate: request.startDate,
+    })
+    .returning()
+    .all();
+
+  return schedule;
+}
+
+function ownedSchedule(tx: DbTransaction, userId: number, scheduleId: number) {
+  const schedule = tx
+    .select()
+    .from(scheduledTransfers)
+    .where(and(eq(scheduledTransfers.id, scheduleId), eq(scheduledTransfers.userId, userId)))
+    .get();
+
+  if (!schedule) {
+    throw new TRPCError({
+      code: "NOT_FOUND",
+      message: "Scheduled transfer not found",
+    });
+  }
+
+  return schedule;
+}
+
+export function pauseSchedule(tx: DbTransaction, userId: number, scheduleId: number) {
+  const schedule = ownedSchedule(tx, userId, scheduleId);
+
+  if (schedule.status !== "active") {
+    throw new TRPCError({
+      code: "BAD_REQUEST",
+      message: `A ${schedule.status} schedule cannot be paused`,
+    });
+  }
+
+  return tx
+    .update(scheduledTransfers)
+    .set({ status: "paused" })
+    .where(eq(scheduledTransfers.id, scheduleId))
+    .returning()
+    .get();
+}
+
+// Occurrences missed while paused are skipped rather than run in a burst on resume
+export function resumeSchedule(tx: DbTransaction, userId: number, scheduleId: number, today = isoDate(new Date())) {
+  const schedule = ownedSchedule(tx, userId, scheduleId);
+
+  if (schedule.status !== "paused") {
+    throw new TRPCError({
+      code: "BAD_REQUEST",
+      message: `A ${schedule.status} schedule cannot be resumed`,
+    });
+  }
+
+  // next_run_date is never earlier than an occurrence that has already run
+  const from = schedule.nextRunDate && schedule.nextRunDate > today ? schedule.nextRunDate : today;
+  const nextRunDate = nextOccurrence(schedule, from);
+
+  return tx
+    .update(scheduledTransfers)
+    .set({ status: nextRunDate ? "active" : "completed", nextRunDate })
+    .where(eq(scheduledTransfers.id, scheduleId))
+    .returning()
+    .get();
+}
+
+export function cancelSchedule(tx: DbTransaction, userId: number, scheduleId: number) {
+  const schedule = ownedSchedule(tx, userId, scheduleId);
+
+  if (schedule.status === "cancelled" || schedule.status === "completed") {
+    throw new TRPCError({
+      code: "BAD_REQUEST",
+      message: `Schedule is already ${schedule.status}`,
+    });
+  }
+
+  return tx
+    .update(scheduledTransfers)
+    .set({ status: "cancelled", nextRunDate: null })
+    .where(eq(scheduledTransfers.id, scheduleId))
+    .returning()
+    .get();
+}
+
+// Records that an occurrence ran (or failed) and moves the schedule on to its next date
+function advanceSchedule(tx: DbTransaction, schedule: Schedule, today: string, lastError: string | null) {
+  const occurrences = schedule.occurrences + 1;
+  const nextRunDate = nextOccurrence(schedule, addDays(today, 1), occurrences);
+
+  tx.update(scheduledTransfers)
+    .set({
+      occurrences,
+      nextRunDate,
+      status: nextRunDate ? "active" : "completed",
+      lastRunAt: new Date().toISOString(),
+      lastError,
+    })
+    .where(eq(scheduledTransfers.id, schedule.id))
+    .run();
+}
+
+/**
+ * Runs every active schedule that is due on or before `now`'s date through executeTransfer, the same code
+ * path as an immediate transfer. A failed occurrence (e.g. insufficient funds) is skipped and recorded in
+ * last_error; the schedule carries on with its next date. Each schedule gets its own db transaction.
+ */
+export function processScheduledTransfers(now = new Date()) {
+  const today = isoDate(now);
+  const result = { executed: 0, failed: 0 };
+
+  const due = db
+    .select()
+    .from(scheduledTransfers)
+    .where(and(eq(scheduledTransfers.status, "active"), lte(scheduledTransfers.nextRunDate, today)))
+    .all();
+
+  for (const candidate of due) {
+    // Re-read inside the transaction in case another runner already handled it
+    const stillDue = (tx: DbTransaction) =>
+      tx
+        .select()
+        .from(scheduledTransfers)
+        .where(
+          and(
+            eq(scheduledTransfers.id, candidate.id),
+            eq(scheduledTransfers.status, "active"),
+            lte(scheduledTransfers.nextRunDate, today)
+          )
+        )
+        .get();
+
+    try {
+      const ran = db.transaction((tx) => {
+        const schedule = stillDue(tx);
+        if (!schedule) return false;
+
+        executeTransfer(tx, {
+          userId: schedule.userId,
+          fromAccountId: schedule.fromAccountId,
+          toAccountId: schedule.toAccountId,
+          amount: schedule.amount,
+          description: schedule.description || "Scheduled transfer",
+        });
+        advanceSchedule(tx, schedule, today, null);
+        return true;
+      });
+      if (ran) result.executed++;
+    } catch (error) {
+      // The transfer rolled back; record the failure separately so the schedule still moves on
+      db.transaction((tx) => {
+        const schedule = stillDue(tx);
+        if (schedule) advanceSchedule(tx, schedule, today, error instanceof Error ? error.message : String(error));
+      });
+      result.failed++;
+    }
+  }
+
+  return result;
+}
@@ -0,0 +1,196 @@
+import { and, eq, inArray } from "drizzle-orm";
+import { db, type DbTransaction } from "@/lib/db";
+import { transactions } from "@/lib/db/schema";
+import { achReturnDescription, type AchReturnCode, isAchReturnCode } from "@/lib/ach";
+import {
+  customerLedgerAccountId,
+  LedgerError,
+  postJournalEntry,
+  releaseAvailableFunds,
+  SYSTEM_ACCOUNTS,
+  systemLedgerAccountId,
+} from "./ledger";
+import { reverseTransaction } from "./reversals";
+
+type Transaction = typeof transactions.$inferSelect;
+
+// How long each external rail takes to settle. Kept short so the lifecycle is visible when running locally.
+export const SETTLEMENT_DELAY_MS: Record<string, number> = {
+  card: 60 * 1000,
+  bank: 5 * 60 * 1000,
+};
+
+const SETTLEABLE_TYPES = ["deposit", "withdrawal"];
+
+export type SettlementDecision = { outcome: "settled" } | { outcome: "failed"; reason: string };
+
+// Where the answer from the card network / ACH operator would come from. Locally everything settles.
+export type SettlementDecider = (transaction: Transaction) => SettlementDecision;
+
+const settleEverything: SettlementDecider = () => ({ outcome: "settled" });
+
+export function settleTransaction(tx: DbTransaction, transaction: Transaction) {
+  const now = new Date().toISOString();
+  const cash = systemLedgerAccountId(tx, SYSTEM_ACCOUNTS.settlementCash, transaction.currency);
+
+  if (transaction.type === "deposit") {
+    // The processor pays us: clearing becomes real cash and the customer can spend the funds
+    postJournalEntry(tx, {
+      description: `Settlement of deposit ${transaction.id}`,
+      lines: [
+        { ledgerAccountId: cash, direction: "debit", amount: transaction.amount },
+        {
+          ledgerAccountId: systemLedgerAccountId(tx, SYSTEM_ACCOUNTS.externalFundingClearing, transaction.currency),
+          direction: "credit",
+          amount: transaction.amount,
+        },
+      ],
+    });
+    releaseAvailableFunds(tx, transaction.accountId, transaction.amount);
+  } else {
+    // We pay the receiving bank out of settlement cash
+    postJournalEntry(tx, {
+      description: `Settlement of withdrawal ${transaction.id}`,
+      lines: [
+        {
+          ledgerAccountId: systemLedgerAccountId(tx, SYSTEM_ACCOUNTS.externalWithdrawalClearing, transaction.currency),
+          direction: "debit",
+          amount: transaction.amount,
+        },
+        { ledgerAccountId: cash, direction: "credit", amount: transaction.amount },
+      ],
+    });
+  }
+
+  tx.update(transactions).set({ status: "settled", processedAt: now }).where(eq(transactions.id, transaction.id)).run();
+}
+
+// Unwinds a pending deposit or withdrawal that the external rail rejected
+export function failTransaction(tx: DbTransaction, transaction: Transaction, reason: string) {
+  if (transaction.status !== "pending") {
+    throw new LedgerError(`Transaction ${transaction.id} is ${transaction.status}, not pending`);
+  }
+
+  const customer = customerLedgerAccountId(tx, transaction.accountId);
+
+  if (transaction.type === "deposit") {
+    postJournalEntry(tx, {
+      description: `Failed deposit ${transaction.id}: ${reason}`,
+      lines: [
+        // The funds were never made available, so only the ledger balance comes back down
+        { ledgerAccountId: customer, direction: "debit", amount: transaction.amount, pendingSettlement: true },
+        {
+          ledgerAccountId: systemLedgerAccountId(tx, SYSTEM_ACCOUNTS.externalFundingClearing, transaction.currency),
+          direction: "credit",
+          amount: transaction.amount,
+        },
+      ],
+    });
+  } else {
+    postJournalEntry(tx, {
+      description: `Failed withdrawal ${transaction.id}: ${reason}`,
+      lines: [
+        {
+          ledgerAccountId: systemLedgerAccountId(tx, SYSTEM_ACCOUNTS.externalWithdrawalClearing, transaction.currency),
+          direction: "debit",
+          amount: transaction.amount,
+        },
+        { ledgerAccountId: customer, direction: "credit", amount: transaction.amount },
+      ],
+    });
+  }
+
+  tx.update(transactions)
+    .set({ status: "failed", failureReason: reason, processedAt: new Date().toISOString() })
+    .where(eq(transactions.id, transaction.id))
+    .run();
+}
+
+// A settled bank deposit pulled back by the originating bank after the fact, with its ACH return code
+export function returnTransaction(tx: DbTransaction, transaction: Transaction, returnCode: AchReturnCode) {
+  if (transaction.type !== "deposit" || transaction.sourceType !== "bank" || transaction.status !== "settled") {
+    throw new LedgerError(`Transaction ${transaction.id} is not a settled bank deposit`);
+  }
+
+  return reverseTransaction(tx, {
+    transactionId: transaction.id,
+    reason: `Returned by bank (${achReturnDescription(returnCode)})`,
+    returnCode,
+  });
+}
+
+/**
+ * Settles (or fails) every pending deposit and withdrawal whose settlement delay has elapsed.
+ * Each transaction is processed in its own db transaction so one bad row cannot block the rest.
+ */
+export function processSettlements(now = new Date(), decide: SettlementDecider = settleEverything) {
+  const result = { settled: 0, failed: 0, errors: [] as { transactionId: number; error: string }[] };
+
+  const pending = db
+    .select()
+    .from(transactions)
+    .where(and(eq(transactions.status, "pending"), inArray(transactions.type, SETTLEABLE_TYPES)))
+    .all()
+    .filter((transaction) => {
+      const delay = SETTLEMENT_DELAY_MS[transaction.sourceType ?? "bank"] ?? SETTLEMENT_DELAY_MS.bank;
+      return createdAtMs(transaction) + delay <= now.getTime();
+    });
+
+  for (const candidate of pending) {
+    try {
+      db.transaction((tx) => {
+        // Re-read inside the transaction in case another processor already handled it
+        const transaction = tx
+          .select()
+          .from(transactions)
+          .where(and(eq(transactions.id, candidate.id), eq(transactions.status, "pending")))
+          .get();
+        if (!transaction) return;
+
+        const decision = decide(transaction);
+        if (decision.outcome === "settled") {
+          settleTransaction(tx, transaction);
+          result.settled++;
+        } else {
+          failTransaction(tx, transaction, decision.reason);
+          result.failed++;
+        }
+      });
+    } catch (error) {
+      result.errors.push({ transactionId: candidate.id, error: error instanceof Error ? error.message : String(error) });
+    }
+  }
+
+  return result;
+}
+
+// created_at is SQLite's CURRENT_TIMESTAMP ("YYYY-MM-DD HH:MM:SS", UTC) unless set explicitly as ISO
+function createdAtMs(transaction: Transaction) {
+  const createdAt = transaction.createdAt ?? "";
+  return new Date(createdAt.includes("T") ? createdAt : `${createdAt.replace(" ", "T")}Z`).getTime();
+}
+
+// Used by the ops CLI to resolve a single transaction by hand
+// For "returned" the reason is the ACH return code
+export function resolveTransaction(transactionId: number, outcome: "settled" | "failed" | "returned", reason = "") {
+  return db.transaction((tx) => {
+    const transaction = tx.select().from(transactions).where(eq(transactions.id, transactionId)).get();
+    if (!transaction || !SETTLEABLE_TYPES.includes(transaction.type)) {
+      throw new LedgerError(`Transaction ${transactionId} is not a deposit or withdrawal`);
+    }
+
+    if (outcome === "returned") {
+      const code = reason.toUpperCase();
+      if (!isAchReturnCode(code)) {
+        throw new LedgerError(`Unknown ACH return code ${reason}`);
+      }
+      returnTransaction(tx, transaction, code);
+      return;
+    }
+    if (transaction.status !== "pending") {
+      throw new LedgerError(`Transaction ${transactionId} is ${transaction.status}, not pending`);
+    }
+    if (outcome === "settled") settleTransaction(tx, transaction);
+    else failTransaction(tx, transaction, reason);
+  });
+}
@@ -0,0 +1,100 @@
+import { buildPdf, PAGE_HEIGHT, type PdfText } from "@/lib/pdf";
+import { formatMonth } from "@/lib/dates";
+import { formatCurrency } from "@/lib/money";
+import { transactionTypeLabel } from "@/lib/transaction-types";
+import type { StatementDetail } from "./statements";
+
+const MARGIN = 50;
+const RIGHT = 562;
+const LINE_HEIGHT = 16;
+const DESCRIPTION_CHARS = 48;
+
+const formatDay = (date: string) =>
+  new Date(`${date}T00:00:00Z`).toLocaleDateString("en-US", { month: "short", day: "numeric", timeZone: "UTC" });
+
+const capitalize = (text: string) => text.charAt(0).toUpperCase() + text.slice(1);
+
+const truncate = (text: string, length: number) => (text.length > length ? `${text.slice(0, length - 3)}...` : text);
+
+// Lays out a statement as US Letter pages: header and summary on the first page, then the transaction table,
+// repeating the column headings on every page it continues onto
+export function renderStatementPdf(statement: StatementDetail): Buffer {
+  const money = (amount: number) => formatCurrency(amount, statement.currency);
+  const pages: PdfText[][] = [];
+  let page: PdfText[] = [];
+  let y = PAGE_HEIGHT - MARGIN;
+
+  const line = (items: Omit<PdfText, "y">[], height = LINE_HEIGHT) => {
+    page.push(...items.map((item) => ({ ...item, y })));
+    y -= height;
+  };
+
+  const tableHeader = () =>
+    line(
+      [
+        { x: MARGIN, text: "Date", bold: true },
+        { x: MARGIN + 60, text: "Description", bold: true },
+        { x: RIGHT - 100, text: "Amount", bold: true, align: "right" },
+        { x: RIGHT, text: "Balance", bold: true, align: "right" },
+      ],
+      LINE_HEIGHT + 4
+    );
+
+  line([{ x: MARGIN, text: "SecureBank", size: 18, bold: true }], 28);
+  line([{ x: MARGIN, text: `Statement for ${formatMonth(statement.periodStart)}`, size: 13, bold: true }], 22);
+  line([
+    { x: MARGIN, text: statement.customer.name, bold: true },
+    {
+      x: RIGHT,
+      text: `${capitalize(statement.account.accountType)} account ${statement.account.accountNumber}`,
+      align: "right",
+    },
+  ]);
+  statement.customer.address.forEach((addressLine, i) =>
+    line([
+      { x: MARGIN, text: addressLine },
+      ...(i === 0
+        ? [{ x: RIGHT, text: `${formatDay(statement.periodStart)} - ${formatDay(statement.periodEnd)}`, align: "right" as const }]
+        : []),
+    ])
+  );
+  y -= LINE_HEIGHT;
+
+  const summary: [string, number][] = [
+    ["Opening balance", statement.openingBalance],
+    ["Money in", statement.totalCredits],
+    ["Money out", -statement.totalDebits],
+    ["Interest paid", statement.interestPaid],
+    ["Fees charged", -statement.feesCharged],
+    ["Closing balance", statement.closingBalance],
+  ];
+  summary.forEach(([label, amount], i) =>
+    line([
+      { x: MARGIN, text: label, bold: i === 0 || i === summary.length - 1 },
+      { x: MARGIN + 250, text: money(amount), align: "right", bold: i === 0 || i === summary.length - 1 },
+    ])
+  );
+  y -= LINE_HEIGHT;
+
+  tableHeader();
+  if (statement.lines.length === 0) line([{ x: MARGIN, text: "No transactions this period." }]);
+
+  for (const entry of statement.lines) {
+    if (y < MARGIN) {
+      pages.push(page);
+      page = [];
+      y = PAGE_HEIGHT - MARGIN;
+      tableHeader();
+    }
+
+    line([
+      { x: MARGIN, text: formatDay(entry.date) },
+      { x: MARGIN + 60, text: truncate(entry.description || transactionTypeLabel(entry.type), DESCRIPTION_CHARS) },
+      { x: RIGHT - 100, text: money(entry.amount), align: "right" },
+      { x: RIGHT, text: money(entry.balance), align: "right" },
+    ]);
+  }
+
+  pages.push(page);
+  return buildPdf(pages);
+}
@@ -0,0 +1,218 @@
+import { TRPCError } from "@trpc/server";
+import { and, asc, desc, eq, gte, inArray, lt, sql } from "drizzle-orm";
+import { db, type DbTransaction } from "@/lib/db";
+import { accounts, journalEntries, postings, statements, transactions, users } from "@/lib/db/schema";
+import { isoDate, monthStart } from "@/lib/dates";
+import { maskAccountNumber } from "@/lib/masking";
+import type { Money } from "@/lib/money";
+import { memberAccount, memberAccountIds } from "./account-guards";
+import { closedAt } from "./account-lifecycle";
+import { customerLedgerAccountId } from "./ledger";
+
+type Account = typeof accounts.$inferSelect;
+type Statement = typeof statements.$inferSelect;
+
+export type StatementLine = {
+  date: string;
+  description: string;
+  type: string;
+  transactionId: number | null;
+  amount: Money; // signed: credits positive, debits negative
+  balance: Money;
+};
+
+export type StatementData = {
+  customer: { name: string; address: string[] };
+  account: { accountNumber: string; accountType: string; currency: string };
+  lines: StatementLine[];
+};
+
+const FEE_TYPES = ["fee"];
+
+function ledgerBalanceBefore(tx: DbTransaction, ledgerAccountId: number, date: string): Money {
+  const row = tx
+    .select({
+      balance: sql<number>`COALESCE(SUM(CASE WHEN ${postings.direction} = 'credit' THEN ${postings.amount} ELSE -${postings.amount} END), 0)`,
+    })
+    .from(postings)
+    .where(and(eq(postings.ledgerAccountId, ledgerAccountId), lt(postings.createdAt, date)))
+    .get();
+
+  return row?.balance ?? 0;
+}
+
+/**
+ * Builds the statement for the month starting `periodStart` from the account's ledger postings, so opening
+ * balance + every line = closing balance even for movements with no transaction row (e.g. a failed deposit
+ * being unwound). Returns the existing statement if the period was already generated.
+ */
+export function generateStatement(tx: DbTransaction, account: Account, periodStart: string) {
+  const existing = tx
+    .select()
+    .from(statements)
+    .where(and(eq(statements.accountId, account.id), eq(statements.periodStart, periodStart)))
+    .get();
+  if (existing) return existing;
+
+  const nextPeriodStart = monthStart(periodStart, 1);
+  const ledgerAccountId = customerLedgerAccountId(tx, account.id);
+  const openingBalance = ledgerBalanceBefore(tx, ledgerAccountId, periodStart);
+
+  const rows = tx
+    .select({
+      createdAt: postings.createdAt,
+      direction: postings.direction,
+      amount: postings.amount,
+      transactionId: postings.transactionId,
+      type: transactions.type,
+      description: transactions.description,
+      entryDescription: journalEntries.description,
+    })
+    .from(postings)
+    .innerJoin(journalEntries, eq(postings.journalEntryId, journalEntries.id))
+    .leftJoin(transactions, eq(postings.transactionId, transactions.id))
+    .where(
+      and(
+        eq(postings.ledgerAccountId, ledgerAccountId),
+        gte(postings.createdAt, periodStart),
+        lt(postings.createdAt, nextPeriodStart)
+      )
+    )
+    .orderBy(asc(postings.id))
+    .all();
+
+  let balance = openingBalance;
+  const totals = { totalCredits: 0, totalDebits: 0, interestPaid: 0, feesCharged: 0 };
+  const lines = rows.map((row): StatementLine => {
+    const amount = row.direction === "credit" ? row.amount : -row.amount;
+    balance += amount;
+
+    if (amount > 0) totals.totalCredits += amount;
+    else totals.totalDebits -= amount;
+    if (row.type === "interest") totals.interestPaid += amount;
+    if (row.type && FEE_TYPES.includes(row.type)) totals.feesCharged -= amount;
+
+    return {
+      date: (row.createdAt ?? periodStart).slice(0, 10),
+      description: row.description || row.entryDescription,
+      type: row.type ?? "adjustment",
+      transactionId: row.transactionId,
+      amount,
+      balance,
+    };
+  });
+
+  const user = tx.select().from(users).where(eq(users.id, account.userId)).get()!;
+  const data: StatementData = {
+    customer: {
+      name: `${user.firstName} ${user.lastName}`,
+      address: [user.address, `${user.city}, ${user.state} ${user.zipCode}`],
+    },
+    account: {
+      accountNumber: maskAccountNumber(account.accountNumber),
+      accountType: account.accountType,
+      currency: account.currency,
+    },
+    lines,
+  };
+
+  return tx
+    .insert(statements)
+    .values({
+      accountId: account.id,
+      periodStart,
+      periodEnd: isoDate(new Date(Date.parse(`${nextPeriodStart}T00:00:00Z`) - 86_400_000)),
+      currency: account.currency,
+      openingBalance,
+      closingBalance: balance,
+      ...totals,
+      data: JSON.stringify(data),
+    })
+    .returning()
+    .get();
+}
+
+/**
+ * Generates a statement for every account and every month that has ended since the account was opened (up to
+ * the month it closed in, for closed accounts).
+ * Safe to run as often as you like: statements are unique per account and month. Each account is processed in its
+ * own db transaction so one bad account cannot block the rest.
+ */
+export function processStatements(now = new Date()) {
+  const currentMonth = monthStart(isoDate(now));
+  const result = { generated: 0, errors: [] as { accountId: number; error: string }[] };
+
+  for (const account of db.select().from(accounts).all()) {
+    try {
+      // Counted only once the account's transaction commits
+      const generated = db.transaction((tx) => {
+        const latest = tx
+          .select({ periodStart: statements.periodStart })
+          .from(statements)
+          .where(eq(statements.accountId, account.id))
+          .orderBy(desc(statements.periodStart))
+          .get();
+
+        // A closed account gets a final statement for the month it closed in, and none after
+        const closed = account.status === "closed" ? closedAt(tx, account.id) : null;
+        const endMonth = closed ? monthStart(closed.slice(0, 10), 1) : currentMonth;
+
+        let count = 0;
+        let period = latest ? monthStart(latest.periodStart, 1) : monthStart((account.createdAt ?? isoDate(now)).slice(0, 10));
+        for (; period < currentMonth && period < endMonth; period = monthStart(period, 1)) {
+          generateStatement(tx, account, period);
+          count++;
+        }
+        return count;
+      });
+      result.generated += generated;
+    } catch (error) {
+      result.errors.push({ accountId: account.id, error: error instanceof Error ? error.message : String(error) });
+    }
+  }
+
+  return result;
+}
+
+// Statement summaries for one of the user's accounts, newest first
+export function listStatements(tx: DbTransaction, userId: number, accountId: number) {
+  const account = memberAccount(tx, userId, accountId);
+
+  return tx
+    .select({
+      id: statements.id,
+      periodStart: statements.periodStart,
+      periodEnd: statements.periodEnd,
+      currency: statements.currency,
+      openingBalance: statements.openingBalance,
+      closingBalance: statements.closingBalance,
+    })
+    .from(statements)
+    .where(eq(statements.accountId, account.id))
+    .orderBy(desc(statements.periodStart))
+    .all();
+}
+
+export function getStatement(tx: DbTransaction, userId: number, statementId: number) {
+  const statement = tx
+    .select()
+    .from(statements)
+    .where(and(eq(statements.id, statementId), inArray(statements.accountId, memberAccountIds(tx, userId))))
+    .get();
+
+  if (!statement) {
+    throw new TRPCError({
+      code: "NOT_FOUND",
+      message: "Statement not found",
+    });
+  }
+
+  return withData(statement);
+}
+
+function withData(statement: Statement) {
+  const { data, ...summary } = statement;
+  return { ...summary, ...(JSON.parse(data) as StatementData) };
+}
+
+export type StatementDetail = ReturnType<typeof withData>;
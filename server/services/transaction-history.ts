@@ -0,0 +1,108 @@
+import { TRPCError } from "@trpc/server";
+import { and, desc, eq, gte, inArray, isNull, lt, lte, or, sql } from "drizzle-orm";
+import type { z } from "zod";
+import type { DbTransaction } from "@/lib/db";
+import { transactions } from "@/lib/db/schema";
+import { addDays } from "@/lib/dates";
+import type { transactionQuerySchema } from "@/lib/validations";
+import { memberAccount } from "./account-guards";
+
+export type TransactionQuery = z.infer<typeof transactionQuerySchema>;
+
+// The cursor is the (created_at, id) of the last row on a page. Paging by key rather than offset means rows
+// inserted while someone scrolls don't shift later pages, so nothing is shown twice or skipped.
+const encodeCursor = (row: { createdAt: string | null; id: number }) =>
+  Buffer.from(JSON.stringify([row.createdAt ?? "", row.id])).toString("base64url");
+
+function decodeCursor(cursor: string): [string, number] {
+  try {
+    const [createdAt, id] = JSON.parse(Buffer.from(cursor, "base64url").toString());
+    if (typeof createdAt === "string" && Number.isInteger(id)) return [createdAt, id];
+  } catch {
+    // fall through
+  }
+  throw new TRPCError({
+    code: "BAD_REQUEST",
+    message: "Invalid cursor",
+  });
+}
+
+// Every word must appear, matching as a prefix ("groc" finds "Groceries"); quotes stop FTS5 syntax leaking in
+function ftsQuery(search: string) {
+  return search
+    .split(/\s+/)
+    .map((word) => word.replace(/"/g, ""))
+    .filter(Boolean)
+    .map((word) => `"${word}"*`)
+    .join(" ");
+}
+
+function categoryFilter(categories: string[]) {
+  const named = categories.filter((category) => category !== "uncategorized");
+  return or(
+    named.length > 0 ? inArray(transactions.category, named) : undefined,
+    categories.includes("uncategorized") ? isNull(transactions.category) : undefined
+  );
+}
+
+/**
+ * One page of the account's history, newest first, with the cursor for the next page (null on the last one).
+ * Each row carries the running balance after it (null if it never posted). Amount filters compare the unsigned
+ * amount; the date range is inclusive, in UTC.
+ */
+export function listTransactions(tx: DbTransaction, userId: number, query: TransactionQuery) {
+  const account = memberAccount(tx, userId, query.accountId);
+
+  const search = query.search ? ftsQuery(query.search) : "";
+  const cursor = query.cursor ? decodeCursor(query.cursor) : null;
+
+  const rows = tx
+    .select({
+      transaction: transactions,
+      // The account's balance right after this transaction's latest posting
+      // (written out in full: drizzle leaves columns unqualified in a single-table select)
+      runningBalance: sql<number | null>`(
+        SELECT p.balance_after FROM postings p
+        WHERE p.transaction_id = transactions.id AND p.balance_after IS NOT NULL
+        ORDER BY p.id DESC LIMIT 1
+      )`,
+      tags: sql<string>`(SELECT json_group_array(tt.tag) FROM transaction_tags tt WHERE tt.transaction_id = transactions.id)`,
+    })
+    .from(transactions)
+    .where(
+      and(
+        eq(transactions.accountId, account.id),
+        query.types?.length ? inArray(transactions.type, query.types) : undefined,
+        query.statuses?.length ? inArray(transactions.status, query.statuses) : undefined,
+        query.categories?.length ? categoryFilter(query.categories) : undefined,
+        query.from ? gte(transactions.createdAt, query.from) : undefined,
+        query.to ? lt(transactions.createdAt, addDays(query.to, 1)) : undefined,
+        query.minAmount !== undefined ? gte(transactions.amount, query.minAmount) : undefined,
+        query.maxAmount !== undefined ? lte(transactions.amount, query.maxAmount) : undefined,
+        search
+          ? sql`${transactions.id} IN (SELECT rowid FROM transactions_fts WHERE transactions_fts MATCH ${search})`
+          : undefined,
+        cursor
+          ? or(
+              lt(transactions.createdAt, cursor[0]),
+              and(eq(transactions.createdAt, cursor[0]), lt(transactions.id, cursor[1]))
+            )
+          : undefined
+      )
+    )
+    .orderBy(desc(transactions.createdAt), desc(transactions.id))
+    .limit(query.limit + 1)
+    .all();
+
+  const items = rows.slice(0, query.limit).map(({ transaction, runningBalance, tags }) => ({
+    ...transaction,
+    runningBalance,
+    tags: (JSON.parse(tags) as string[]).sort(),
+    accountType: account.accountType,
+  }));
+
+  return {
+    items,
+    nextCursor: rows.length > query.limit ? encodeCursor(items[items.length - 1]) : null,
+  };
+}
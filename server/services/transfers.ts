@@ -0,0 +1,135 @@
+import { TRPCError } from "@trpc/server";
+import { and, eq } from "drizzle-orm";
+import type { DbTransaction } from "@/lib/db";
+import { accounts, transactions } from "@/lib/db/schema";
+import { maskAccountNumber } from "@/lib/masking";
+import type { Money } from "@/lib/money";
+import { assertCanReceive, assertCanSend, memberAccount } from "./account-guards";
+import { quoteConversion } from "./fx";
+import { customerLedgerAccountId, fxPositionLedgerAccountId, postJournalEntry } from "./ledger";
+
+export type TransferRequest = {
+  userId: number;
+  fromAccountId: number;
+  toAccountId: number;
+  amount: Money; // in the sending account's currency
+  description?: string;
+};
+
+/**
+ * Moves money between two accounts the user can move money from (their own, or shared ones they co-own).
+ * Runs entirely inside the caller's db.transaction: balances are read and written in the same
+ * synchronous transaction, so a concurrent transfer cannot spend the same funds twice.
+ */
+export function executeTransfer(tx: DbTransaction, request: TransferRequest) {
+  const { userId, fromAccountId, toAccountId, amount } = request;
+
+  if (fromAccountId === toAccountId) {
+    throw new TRPCError({
+      code: "BAD_REQUEST",
+      message: "Cannot transfer to the same account",
+    });
+  }
+
+  const fromAccount = memberAccount(tx, userId, fromAccountId, "co_owner");
+  const toAccount = memberAccount(tx, userId, toAccountId, "co_owner");
+
+  assertCanSend(fromAccount);
+  assertCanReceive(toAccount);
+
+  if (fromAccount.availableBalance < amount) {
+    throw new TRPCError({
+      code: "BAD_REQUEST",
+      message: "Insufficient funds",
+    });
+  }
+
+  // Between differently denominated accounts the receiving leg gets the converted amount
+  const { rate, convertedAmount } = quoteConversion(tx, fromAccount.currency, toAccount.currency, amount);
+  const isConversion = fromAccount.currency !== toAccount.currency;
+
+  if (convertedAmount <= 0) {
+    throw new TRPCError({
+      code: "BAD_REQUEST",
+      message: "Amount is too small to convert",
+    });
+  }
+
+  const now = new Date().toISOString();
+  const description = request.description || `Transfer to ${maskAccountNumber(toAccount.accountNumber)}`;
+
+  const [transferOut] = tx
+    .insert(transactions)
+    .values({
+      accountId: fromAccountId,
+      type: "transfer_out",
+      amount,
+      currency: fromAccount.currency,
+      fxRate: isConversion ? rate : null,
+      description,
+      status: "completed",
+      processedAt: now,
+    })
+    .returning()
+    .all();
+
+  const [transferIn] = tx
+    .insert(transactions)
+    .values({
+      accountId: toAccountId,
+      type: "transfer_in",
+      amount: convertedAmount,
+      currency: toAccount.currency,
+      fxRate: isConversion ? rate : null,
+      description: request.description || `Transfer from ${maskAccountNumber(fromAccount.accountNumber)}`,
+      status: "completed",
+      processedAt: now,
+      linkedTransactionId: transferOut.id,
+    })
+    .returning()
+    .all();
+
+  tx.update(transactions).set({ linkedTransactionId: transferIn.id }).where(eq(transactions.id, transferOut.id)).run();
+
+  const fromLine = {
+    ledgerAccountId: customerLedgerAccountId(tx, fromAccountId),
+    direction: "debit" as const,
+    amount,
+    transactionId: transferOut.id,
+  };
+  const toLine = {
+    ledgerAccountId: customerLedgerAccountId(tx, toAccountId),
+    direction: "credit" as const,
+    amount: convertedAmount,
+    transactionId: transferIn.id,
+  };
+
+  let balances: Map<number, Money>;
+  if (isConversion) {
+    // One balanced entry per currency, meeting in the FX position accounts
+    const sold = postJournalEntry(tx, {
+      description: `${description} (${fromAccount.currency} to ${toAccount.currency} at ${rate})`,
+      lines: [
+        fromLine,
+        { ledgerAccountId: fxPositionLedgerAccountId(tx, fromAccount.currency), direction: "credit", amount },
+      ],
+    });
+    const bought = postJournalEntry(tx, {
+      description: `${description} (${fromAccount.currency} to ${toAccount.currency} at ${rate})`,
+      lines: [
+        { ledgerAccountId: fxPositionLedgerAccountId(tx, toAccount.currency), direction: "debit", amount: convertedAmount },
+        toLine,
+      ],
+    });
+    balances = new Map([...sold, ...bought]);
+  } else {
+    balances = postJournalEntry(tx, { description, lines: [fromLine, toLine] });
+  }
+
+  return {
+    transferOut: { ...transferOut, linkedTransactionId: transferIn.id },
+    transferIn,
+    fromBalance: balances.get(fromAccountId)!,
+    toBalance: balances.get(toAccountId)!,
+  };
+}
@@ -0,0 +1,121 @@
+import { TRPCError } from "@trpc/server";
+import { and, asc, eq, inArray, ne } from "drizzle-orm";
+import type { DbTransaction } from "@/lib/db";
+import { accountMembers, accounts, transactions } from "@/lib/db/schema";
+import { rolesAtLeast } from "@/lib/account-roles";
+import { maskAccountNumber } from "@/lib/masking";
+import type { Money } from "@/lib/money";
+import { assertCanSend, memberAccount } from "./account-guards";
+import { assertWithinCoolingOff, destinationKey } from "./cooling-off";
+import { customerLedgerAccountId, postJournalEntry, SYSTEM_ACCOUNTS, systemLedgerAccountId } from "./ledger";
+import { assertKnownRoutingNumber } from "./routing-directory";
+import { executeTransfer } from "./transfers";
+
+export type WithdrawalRequest = {
+  userId: number;
+  accountId: number;
+  amount: Money;
+  destination: { accountNumber: string; routingNumber: string };
+  useOverdraftProtection: boolean;
+};
+
+/**
+ * Sends money to an external bank account. The funds leave the customer's balance immediately and sit in
+ * the withdrawal clearing account; the transaction stays `pending` until the transfer settles.
+ * With overdraft protection, a shortfall is first covered by a transfer from a savings account the user can
+ * move money from. Saved payees can only receive a capped amount during their cooling-off period.
+ */
+export function executeWithdrawal(tx: DbTransaction, request: WithdrawalRequest) {
+  const { userId, accountId, amount } = request;
+
+  const account = memberAccount(tx, userId, accountId, "co_owner");
+
+  assertCanSend(account);
+  assertKnownRoutingNumber(tx, request.destination.routingNumber);
+  const destinationFingerprint = destinationKey(
+    "external",
+    request.destination.accountNumber,
+    request.destination.routingNumber
+  );
+  assertWithinCoolingOff(tx, userId, destinationFingerprint, amount, account.currency);
+
+  let overdraftTransfer: ReturnType<typeof executeTransfer> | undefined;
+  const shortfall = amount - account.availableBalance;
+
+  if (shortfall > 0) {
+    const savings = request.useOverdraftProtection
+      ? tx
+          .select({ account: accounts })
+          .from(accounts)
+          .innerJoin(accountMembers, eq(accountMembers.accountId, accounts.id))
+          .where(
+            and(
+              eq(accountMembers.userId, userId),
+              inArray(accountMembers.role, rolesAtLeast("co_owner")),
+              eq(accounts.accountType, "savings"),
+              eq(accounts.status, "active"),
+              eq(accounts.currency, account.currency),
+              ne(accounts.id, accountId)
+            )
+          )
+          .orderBy(asc(accountMembers.displayOrder), asc(accounts.id))
+          .get()?.account
+      : undefined;
+
+    if (!savings || savings.availableBalance < shortfall) {
+      throw new TRPCError({
+        code: "BAD_REQUEST",
+        message: "Insufficient funds",
+      });
+    }
+
+    overdraftTransfer = executeTransfer(tx, {
+      userId,
+      fromAccountId: savings.id,
+      toAccountId: accountId,
+      amount: shortfall,
+      description: "Overdraft protection transfer",
+    });
+  }
+
+  const destination = maskAccountNumber(request.destination.accountNumber);
+
+  const [transaction] = tx
+    .insert(transactions)
+    .values({
+      accountId,
+      type: "withdrawal",
+      amount,
+      currency: account.currency,
+      description: `Withdrawal to bank ${destination}`,
+      status: "pending",
+      sourceType: "bank",
+      counterpartyAccount: destination,
+      destinationFingerprint,
+    })
+    .returning()
+    .all();
+
+  const balances = postJournalEntry(tx, {
+    description: `Withdrawal ${transaction.id} to routing ${request.destination.routingNumber}`,
+    lines: [
+      {
+        ledgerAccountId: customerLedgerAccountId(tx, accountId),
+        direction: "debit",
+        amount,
+        transactionId: transaction.id,
+      },
+      {
+        ledgerAccountId: systemLedgerAccountId(tx, SYSTEM_ACCOUNTS.externalWithdrawalClearing, account.currency),
+        direction: "credit",
+        amount,
+      },
+    ],
+  });
+
+  return {
+    transaction,
+    newBalance: balances.get(accountId)!,
+    overdraftTransfer,
+  };
+}
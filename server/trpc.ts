@@ -5,6 +5,8 @@ import jwt from "jsonwebtoken";
 import { db } from "@/lib/db";
 import { sessions, users } from "@/lib/db/schema";
 import { eq } from "drizzle-orm";
+import { z } from "zod";
+import { withIdempotency } from "./services/idempotency";
 
 export async function createContext(opts: CreateNextContextOptions | FetchCreateContextFnOptions) {
   // Handle different adapter types
@@ -78,6 +80,7 @@ export type Context = Awaited<ReturnType<typeof createContext>>;
 const t = initTRPC.context<Context>().create();
 
 export const router = t.router;
+export const createCallerFactory = t.createCallerFactory;
 export const publicProcedure = t.procedure;
 export const protectedProcedure = t.procedure.use(async ({ ctx, next }) => {
   if (!ctx.user) {
@@ -91,3 +94,22 @@ export const protectedProcedure = t.procedure.use(async ({ ctx, next }) => {
     },
   });
 });
+
+// For money-moving mutations: accepts an optional client-generated idempotency key and gives the resolver
+// ctx.idempotent(run), which executes run once per key and replays the stored response afterwards.
+export const idempotentProcedure = protectedProcedure
+  .input(
+    z.object({
+      idempotencyKey: z.string().uuid().optional(),
+    })
+  )
+  .use(async ({ ctx, input, path, getRawInput, next }) => {
+    const payload = await getRawInput();
+
+    return next({
+      ctx: {
+        idempotent: <T>(run: () => T | Promise<T>) =>
+          withIdempotency({ userId: ctx.user.id, scope: path, key: input.idempotencyKey, payload }, run),
+      },
+    });
+  });